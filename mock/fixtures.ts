@@ -0,0 +1,171 @@
+// mock/fixtures.ts
+// Seed data for the mock Genesys Cloud server
+
+export const MOCK_USER = {
+  id: 'mock-user-0001',
+  name: 'Demo User',
+  email: 'demo.user@example.com',
+  department: 'Contact Centre',
+  title: 'Routing Administrator',
+  state: 'active'
+};
+
+export const MOCK_QUEUES = [
+  { id: 'queue-0001', name: 'Voice_Default_Queue' },
+  { id: 'queue-0002', name: 'Voice_Retentions' },
+  { id: 'queue-0003', name: 'Voice_Billing' },
+  { id: 'queue-0004', name: 'Voice_Claims' }
+];
+
+export const MOCK_FLOWS = [
+  { id: 'flow-0001', name: 'Main_IVR', type: 'INBOUNDCALL' },
+  { id: 'flow-0002', name: 'After_Hours_Message', type: 'INBOUNDCALL' }
+];
+
+const baseConfig = {
+  engineOptions: {
+    allowUndefinedFacts: true
+  },
+  logging: {
+    enabled: true,
+    logMatchedRules: true,
+    logUnmatchedRules: false,
+    logPerformanceMetrics: true
+  },
+  dynamicFacts: [],
+  customOperators: []
+};
+
+const defaultRule = {
+  name: 'defaultRule',
+  description: 'Default routing rule',
+  priority: 1,
+  defaultDestination: 'Voice_Default_Queue',
+  conditions: {
+    all: [{ fact: 'brand', operator: 'notEqual', value: '' }]
+  },
+  event: {
+    type: 'route_determined',
+    params: { destination: 'Voice_Default_Queue' }
+  }
+};
+
+const cancellationRule = {
+  name: 'admiralCancellation',
+  description: 'Admiral customers asking to cancel',
+  priority: 50,
+  defaultDestination: 'Voice_Default_Queue',
+  conditions: {
+    all: [
+      { fact: 'brand', operator: 'equal', value: 'Admiral' },
+      { fact: 'botIntent', operator: 'in', value: ['cancelGeneral', 'cancelPolicy'] }
+    ]
+  },
+  event: {
+    type: 'route_determined',
+    params: { destination: 'Voice_Retentions' }
+  }
+};
+
+const billingRule = {
+  name: 'billingQueries',
+  description: 'Invoice and payment questions',
+  priority: 40,
+  defaultDestination: 'Voice_Default_Queue',
+  conditions: {
+    any: [
+      { fact: 'botIntent', operator: 'equal', value: 'payInvoice' },
+      { fact: 'botIntent', operator: 'equal', value: 'billingQuery' }
+    ]
+  },
+  event: {
+    type: 'route_determined',
+    params: { destination: 'Voice_Billing' }
+  }
+};
+
+const daysAgo = (days: number): string => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Rows for the rules table: three deployed versions (v3 active) and a
+ * draft waiting for review
+ */
+export const createRulesFixture = (): Record<string, any>[] => [
+  {
+    key: 'fixture-v1',
+    rules: JSON.stringify({ ...baseConfig, rules: [defaultRule] }),
+    version: '1',
+    description: 'Initial default routing',
+    deployedBy: 'alex.admin@example.com',
+    deployedAt: daysAgo(30),
+    isActive: false,
+    status: 'inactive'
+  },
+  {
+    key: 'fixture-v2',
+    rules: JSON.stringify({ ...baseConfig, rules: [cancellationRule, defaultRule] }),
+    version: '2',
+    description: 'Route Admiral cancellations to retentions',
+    deployedBy: 'alex.admin@example.com',
+    deployedAt: daysAgo(14),
+    isActive: false,
+    status: 'inactive'
+  },
+  {
+    key: 'fixture-v3',
+    rules: JSON.stringify({ ...baseConfig, rules: [cancellationRule, billingRule, defaultRule] }),
+    version: '3',
+    description: 'Add billing queue',
+    deployedBy: MOCK_USER.email,
+    deployedAt: daysAgo(3),
+    isActive: true,
+    status: 'active'
+  },
+  {
+    key: 'fixture-draft-1',
+    rules: JSON.stringify({
+      ...baseConfig,
+      rules: [{ ...cancellationRule, priority: 60 }, billingRule, defaultRule]
+    }),
+    version: '3',
+    description: 'Raise cancellation priority above billing',
+    deployedBy: 'sam.reviewer@example.com',
+    deployedAt: daysAgo(1),
+    isActive: false,
+    status: 'pending-review'
+  }
+];
+
+const LOG_SAMPLES = [
+  { input: { brand: 'Admiral', botIntent: 'cancelGeneral' }, output: 'Voice_Retentions', matchedRules: ['admiralCancellation', 'defaultRule'] },
+  { input: { brand: 'Admiral', botIntent: 'cancelPolicy' }, output: 'Voice_Retentions', matchedRules: ['admiralCancellation', 'defaultRule'] },
+  { input: { brand: 'Elephant', botIntent: 'payInvoice' }, output: 'Voice_Billing', matchedRules: ['billingQueries', 'defaultRule'] },
+  { input: { brand: 'Diamond', botIntent: 'billingQuery' }, output: 'Voice_Billing', matchedRules: ['billingQueries', 'defaultRule'] },
+  { input: { brand: 'Diamond', botIntent: 'renewal' }, output: 'Voice_Default_Queue', matchedRules: ['defaultRule'] },
+  { input: { brand: '', botIntent: 'unknown' }, output: 'Voice_Default_Queue', matchedRules: [], error: 'No rules matched; used default destination' }
+];
+
+/**
+ * Rows for the logs table: a few days of executions against v2 and v3
+ */
+export const createLogsFixture = (): Record<string, any>[] =>
+  Array.from({ length: 60 }, (_, index) => {
+    const sample = LOG_SAMPLES[(index * 7) % LOG_SAMPLES.length];
+    // Spread over the last five days; v3 went live three days ago
+    const hoursAgo = index * 2 + (index % 3);
+    const version = hoursAgo > 72 ? 2 : 3;
+    const output = version === 2 && sample.output === 'Voice_Billing' ? 'Voice_Default_Queue' : sample.output;
+    const matchedRules = version === 2 ? sample.matchedRules.filter(rule => rule !== 'billingQueries') : sample.matchedRules;
+
+    return {
+      key: `fixture-log-${index + 1}`,
+      timestamp: new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString(),
+      input: JSON.stringify(sample.input),
+      output,
+      rulesVersion: String(version),
+      executionTime: String(3 + ((index * 5) % 17)),
+      matchedRules: matchedRules.join(','),
+      error: sample.error || '',
+      traceId: `fixture-trace-${String(index + 1).padStart(4, '0')}`
+    };
+  });
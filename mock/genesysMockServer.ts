@@ -0,0 +1,247 @@
+// mock/genesysMockServer.ts
+import type { Connect, Plugin } from 'vite';
+import { MOCK_FLOWS, MOCK_QUEUES, MOCK_USER, createLogsFixture, createRulesFixture } from './fixtures';
+
+/**
+ * Path the mock is served under; genesysService points the platform client
+ * gateway here when VITE_GENESYS_MOCK is enabled
+ */
+export const MOCK_BASE_PATH = '/mock-genesys';
+
+export const MOCK_ACCESS_TOKEN = 'mock-access-token';
+
+export interface GenesysMockOptions {
+  /** Data table seeded with the rules fixture */
+  rulesTableId: string;
+  /** Data table seeded with execution logs, if any */
+  logsTableId?: string;
+  /** Simulated latency per request, in milliseconds */
+  latencyMs?: number;
+}
+
+type Row = Record<string, any>;
+
+/**
+ * Write a JSON response
+ */
+const sendJson = (res: any, status: number, body?: unknown): void => {
+  res.statusCode = status;
+  if (body === undefined) {
+    res.end();
+    return;
+  }
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Write an error in the shape the platform API uses
+ */
+const sendError = (res: any, status: number, code: string, message: string): void => {
+  sendJson(res, status, { status, code, message });
+};
+
+/**
+ * Write one page of a listing, read from the pageSize and pageNumber query parameters
+ */
+const sendPage = (res: any, url: URL, items: unknown[]): void => {
+  const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '25', 10) || 25, 500);
+  const pageNumber = Math.max(parseInt(url.searchParams.get('pageNumber') || '1', 10) || 1, 1);
+  sendJson(res, 200, {
+    entities: items.slice((pageNumber - 1) * pageSize, pageNumber * pageSize),
+    pageSize,
+    pageNumber,
+    total: items.length,
+    pageCount: Math.max(1, Math.ceil(items.length / pageSize))
+  });
+};
+
+/**
+ * Read and parse a JSON request body
+ */
+const readBody = (req: any): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk: any) => {
+      data += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+/**
+ * Connect handler emulating the parts of Genesys Cloud the app uses:
+ *
+ *   GET  /oauth/authorize                           implicit grant redirect
+ *   GET  /api/v2/users/me
+ *   GET  /api/v2/routing/queues                     paged
+ *   GET  /api/v2/flows                              paged
+ *   GET  /api/v2/flows/datatables/:id/rows          paged
+ *   POST /api/v2/flows/datatables/:id/rows
+ *   GET|PUT|DELETE /api/v2/flows/datatables/:id/rows/:key
+ *   POST /__reset                                   restore the fixtures
+ *
+ * State lives in memory for the lifetime of the dev server.
+ */
+export const createGenesysMockHandler = (options: GenesysMockOptions): Connect.NextHandleFunction => {
+  const tables = new Map<string, Map<string, Row>>();
+
+  const reset = () => {
+    tables.clear();
+    tables.set(options.rulesTableId, new Map(createRulesFixture().map(row => [row.key, row])));
+    if (options.logsTableId) {
+      tables.set(options.logsTableId, new Map(createLogsFixture().map(row => [row.key, row])));
+    }
+  };
+  reset();
+
+  const getTable = (tableId: string): Map<string, Row> => {
+    if (!tables.has(tableId)) {
+      tables.set(tableId, new Map());
+    }
+    return tables.get(tableId)!;
+  };
+
+  const handle = async (req: any, res: any): Promise<boolean> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '');
+    const method = (req.method || 'GET').toUpperCase();
+
+    if (method === 'POST' && path === '/__reset') {
+      reset();
+      sendJson(res, 204);
+      return true;
+    }
+
+    // Sign in straight away and hand the token back like the real login page
+    if (method === 'GET' && path === '/oauth/authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri');
+      if (!redirectUri) {
+        sendError(res, 400, 'bad.request', 'redirect_uri is required');
+        return true;
+      }
+      const hash = new URLSearchParams({
+        access_token: MOCK_ACCESS_TOKEN,
+        expires_in: String(24 * 60 * 60),
+        token_type: 'bearer'
+      });
+      const state = url.searchParams.get('state');
+      if (state) hash.set('state', state);
+
+      res.statusCode = 302;
+      res.setHeader('Location', `${redirectUri}#${hash.toString()}`);
+      res.end();
+      return true;
+    }
+
+    if (!path.startsWith('/api/v2/')) return false;
+
+    if (!/^Bearer\s+\S+/i.test(req.headers?.authorization || '')) {
+      sendError(res, 401, 'bad.credentials', 'Invalid login credentials.');
+      return true;
+    }
+
+    if (method === 'GET' && path === '/api/v2/users/me') {
+      sendJson(res, 200, MOCK_USER);
+      return true;
+    }
+
+    if (method === 'GET' && path === '/api/v2/routing/queues') {
+      sendPage(res, url, MOCK_QUEUES);
+      return true;
+    }
+
+    if (method === 'GET' && path === '/api/v2/flows') {
+      const types = url.searchParams.getAll('type').map(type => type.toUpperCase());
+      sendPage(res, url, MOCK_FLOWS.filter(flow => types.length === 0 || types.includes(flow.type)));
+      return true;
+    }
+
+    const rowsMatch = path.match(/^\/api\/v2\/flows\/datatables\/([^/]+)\/rows(?:\/([^/]+))?$/);
+    if (!rowsMatch) {
+      sendError(res, 404, 'not.found', `No mock for ${method} ${path}`);
+      return true;
+    }
+
+    const table = getTable(decodeURIComponent(rowsMatch[1]));
+    const rowKey = rowsMatch[2] ? decodeURIComponent(rowsMatch[2]) : null;
+
+    if (!rowKey) {
+      if (method === 'GET') {
+        sendPage(res, url, [...table.values()]);
+        return true;
+      }
+      if (method === 'POST') {
+        const row = await readBody(req);
+        if (!row?.key) {
+          sendError(res, 400, 'bad.request', 'Row key is required');
+        } else if (table.has(row.key)) {
+          sendError(res, 409, 'conflict', `Row ${row.key} already exists`);
+        } else {
+          table.set(row.key, row);
+          sendJson(res, 200, row);
+        }
+        return true;
+      }
+    } else {
+      const existing = table.get(rowKey);
+      if (!existing) {
+        sendError(res, 404, 'not.found', `Row ${rowKey} not found`);
+        return true;
+      }
+      if (method === 'GET') {
+        sendJson(res, 200, existing);
+        return true;
+      }
+      if (method === 'PUT') {
+        const row = { ...(await readBody(req)), key: rowKey };
+        table.set(rowKey, row);
+        sendJson(res, 200, row);
+        return true;
+      }
+      if (method === 'DELETE') {
+        table.delete(rowKey);
+        sendJson(res, 204);
+        return true;
+      }
+    }
+
+    sendError(res, 405, 'method.not.allowed', `${method} is not supported on ${path}`);
+    return true;
+  };
+
+  return (req, res, next) => {
+    const run = async () => {
+      if (options.latencyMs) {
+        await new Promise(resolve => setTimeout(resolve, options.latencyMs));
+      }
+      if (!(await handle(req, res))) next();
+    };
+    run().catch(error => {
+      console.error('Mock Genesys error:', error);
+      sendError(res, 500, 'internal.server.error', error.message || 'Mock server error');
+    });
+  };
+};
+
+/**
+ * Vite plugin serving the mock under MOCK_BASE_PATH on the dev and preview servers
+ */
+export const genesysMock = (options: GenesysMockOptions): Plugin => {
+  const handler = createGenesysMockHandler(options);
+  return {
+    name: 'genesys-mock',
+    configureServer(server) {
+      server.middlewares.use(MOCK_BASE_PATH, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(MOCK_BASE_PATH, handler);
+    }
+  };
+};
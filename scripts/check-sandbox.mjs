@@ -0,0 +1,89 @@
+/* eslint-env node */
+/* eslint-disable no-console */
+/**
+ * Check that the extension sandbox worker (src/utils/extensionSandbox.worker.ts)
+ * really refuses network access and dynamic imports. The worker is bundled
+ * with esbuild and run in a Node worker thread standing in for the browser's
+ * worker scope, then config code tries each way out.
+ */
+import { Worker } from 'node:worker_threads';
+import { build } from 'esbuild';
+
+const { outputFiles } = await build({
+  entryPoints: ['src/utils/extensionSandbox.worker.ts'],
+  bundle: true,
+  format: 'esm',
+  write: false,
+  logLevel: 'error'
+});
+
+// Browser worker globals the sandbox expects, backed by the thread's port
+const scope = `
+import { parentPort } from 'node:worker_threads';
+globalThis.self = globalThis;
+globalThis.postMessage = message => parentPort.postMessage(message);
+globalThis.addEventListener = (type, listener) => parentPort.on(type, data => listener({ data }));
+`;
+const worker = new Worker(new URL(`data:text/javascript,${encodeURIComponent(scope + outputFiles[0].text)}`));
+
+let nextId = 1;
+const pending = new Map();
+worker.on('message', response => {
+  pending.get(response.id)?.(response);
+  pending.delete(response.id);
+});
+const call = request => new Promise(resolve => {
+  const id = nextId++;
+  pending.set(id, resolve);
+  worker.postMessage({ ...request, id });
+});
+
+/** Config code that tries to reach out, and must not get through */
+const ESCAPES = {
+  fetch: "return await fetch('https://example.com');",
+  globalFetch: "return await globalThis.fetch('https://example.com');",
+  dynamicImport: "return await import('data:text/javascript,export default 1');",
+  spacedImport: "return await import /* */ ('https://example.com/x.js');",
+  functionConstructor: "return (() => {}).constructor('return fetch')();",
+  asyncConstructor: "return (async () => {}).constructor('return fetch')();",
+  generatorConstructor: "return (function* () {}).constructor('return fetch')().next().value;",
+  globalFunction: "return Function('return fetch')();",
+  indirectEval: "return (0, globalThis.eval)('fetch');",
+  stringTimer: "setTimeout('globalThis.leaked = 1', 0); return 'scheduled';",
+  webSocket: "return new WebSocket('wss://example.com');",
+  nestedWorker: "return new Worker('data:text/javascript,');",
+  importScripts: "importScripts('https://example.com/x.js'); return 'loaded';"
+};
+
+const failures = [];
+try {
+  const loaded = await call({
+    type: 'load',
+    maxPayloadBytes: 64 * 1024,
+    definitions: {
+      dynamicFacts: [
+        { name: 'harmless', calculator: 'return (await almanac.factValue("value")) * 2;' },
+        ...Object.entries(ESCAPES).map(([name, calculator]) => ({ name, calculator }))
+      ],
+      customOperators: [{ name: 'importing', evaluator: 'return import("x");' }]
+    }
+  });
+  if (!loaded.ok) throw new Error(`Load failed: ${loaded.error}`);
+
+  if (!loaded.value.importing) failures.push('importing: operator using import was accepted');
+  const harmless = await call({ type: 'fact', name: 'harmless', params: {}, input: { value: 21 } });
+  if (!harmless.ok || harmless.value !== 42) failures.push(`harmless: expected 42, got ${JSON.stringify(harmless)}`);
+
+  for (const name of Object.keys(ESCAPES)) {
+    const outcome = loaded.value[name]
+      ? { ok: false, error: loaded.value[name] }
+      : await call({ type: 'fact', name, params: {}, input: {} });
+    console.log(`${outcome.ok ? 'FAIL' : 'pass'}  ${name}: ${outcome.ok ? `got ${JSON.stringify(outcome.value)}` : outcome.error}`);
+    if (outcome.ok) failures.push(name);
+  }
+} finally {
+  await worker.terminate();
+}
+
+console.log(`\n${failures.length === 0 ? 'The sandbox blocked every escape' : `Escaped the sandbox: ${failures.join(', ')}`}`);
+process.exitCode = failures.length > 0 ? 1 : 0;
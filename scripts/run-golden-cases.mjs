@@ -0,0 +1,33 @@
+/* eslint-env node */
+/* eslint-disable no-console */
+/**
+ * Run the engine golden cases (src/utils/engineGoldenCases.json) through the
+ * simulator and fail if it disagrees with json-rules-engine anywhere.
+ * The TypeScript sources are loaded through Vite, so no build is needed.
+ */
+import { createServer } from 'vite';
+
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+  // lodash is CommonJS; bundle it so the sources' named imports work under Node
+  ssr: { noExternal: ['lodash'], optimizeDeps: { include: ['lodash'] } }
+});
+
+try {
+  const { runGoldenCases } = await server.ssrLoadModule('/src/utils/engineGoldenCases.ts');
+  const results = await runGoldenCases();
+  const failures = results.filter(result => !result.passed);
+
+  results.forEach(result => {
+    console.log(`${result.passed ? 'pass' : 'FAIL'}  ${result.suite}: ${result.name}`);
+    if (result.failure) console.log(`      ${result.failure}`);
+  });
+  console.log(`\n${results.length - failures.length} of ${results.length} golden cases match the engine`);
+  process.exitCode = failures.length > 0 ? 1 : 0;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { Space, Upload, Button, Alert, Table, Tag, Typography, Tooltip, message } from 'antd';
+import { PlayCircleOutlined, UploadOutlined, DownloadOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { SimulatedClock } from './VisualRuleEditor/types';
+import type { SimulatorMode } from '../utils/ruleEngineSimulator';
+import { BatchRow, BatchRowResult, MAX_BATCH_ROWS, MAX_INPUT_KEYS, batchResultsToCsv, parseBatchFile, runBatchTest } from '../utils/batchTest';
+import { downloadFile } from './VisualRuleEditor/utils/exportImport';
+
+const { Text } = Typography;
+
+interface BatchTestPanelProps {
+  /** Parsed rules configuration being edited */
+  rulesConfig: any;
+  mode: SimulatorMode;
+  clock: SimulatedClock;
+}
+
+const compareText = (a: string | null, b: string | null) => (a || '').localeCompare(b || '');
+
+/**
+ * Run every row of an uploaded CSV or JSON lines file through the edited
+ * rules and list what each row was routed to
+ */
+const BatchTestPanel: React.FC<BatchTestPanelProps> = ({ rulesConfig, mode, clock }) => {
+  const [file, setFile] = useState<{ name: string; rows: BatchRow[] } | null>(null);
+  const [results, setResults] = useState<BatchRowResult[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const handleFile = async (uploaded: File) => {
+    try {
+      const rows = parseBatchFile(await uploaded.text(), uploaded.name);
+      if (rows.length === 0) {
+        message.warning(`${uploaded.name} has no rows`);
+        return;
+      }
+      setFile({ name: uploaded.name, rows });
+      setResults(null);
+    } catch (error: any) {
+      message.error(`Could not read ${uploaded.name}: ${error.message}`);
+    }
+  };
+
+  const runBatch = async () => {
+    if (!file) return;
+    try {
+      setRunning(true);
+      setProgress(0);
+      setResults(await runBatchTest(rulesConfig, file.rows, { mode, clock }, setProgress));
+    } catch (error: any) {
+      message.error(`Batch test failed: ${error.message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const exportCsv = () => {
+    if (!results || !file) return;
+    downloadFile(batchResultsToCsv(results), `${file.name.replace(/\.[^.]+$/, '')}-results.csv`, 'text/csv');
+  };
+
+  const destinationCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    results?.forEach(result => {
+      if (result.destination) counts.set(result.destination, (counts.get(result.destination) || 0) + 1);
+    });
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [results]);
+
+  const errorCount = results?.filter(result => result.error).length || 0;
+
+  const columns: ColumnsType<BatchRowResult> = [
+    {
+      title: 'Row',
+      dataIndex: 'row',
+      key: 'row',
+      width: 70,
+      sorter: (a, b) => a.row - b.row
+    },
+    {
+      title: 'Input',
+      dataIndex: 'input',
+      key: 'input',
+      render: (input) => input && <Text code style={{ fontSize: 12 }}>{JSON.stringify(input)}</Text>
+    },
+    {
+      title: 'Destination',
+      dataIndex: 'destination',
+      key: 'destination',
+      sorter: (a, b) => compareText(a.destination, b.destination),
+      render: (destination, result) => result.error
+        ? <Text type="danger" style={{ fontSize: 12 }}>{result.error}</Text>
+        : <Tag color="blue">{destination}</Tag>
+    },
+    {
+      title: 'Matched Rule',
+      dataIndex: 'matchedRule',
+      key: 'matchedRule',
+      sorter: (a, b) => compareText(a.matchedRule, b.matchedRule),
+      render: (matchedRule, result) => !result.error && (
+        <Tooltip title={result.matchedRules.length > 1 ? `Also matched: ${result.matchedRules.slice(1).join(', ')}` : undefined}>
+          <Text type={matchedRule ? undefined : 'secondary'}>{matchedRule || 'default destination'}</Text>
+          {result.matchedRules.length > 1 && <Tag style={{ marginLeft: 4 }}>+{result.matchedRules.length - 1}</Tag>}
+        </Tooltip>
+      )
+    }
+  ];
+
+  const renderTrace = (result: BatchRowResult) => (
+    <Space direction="vertical" size={2} style={{ width: '100%' }}>
+      {result.evaluationSteps.map(step => (
+        <div key={step.ruleName}>
+          <Tag color={step.passed ? 'success' : 'default'}>{step.passed ? 'PASS' : 'FAIL'}</Tag>
+          <Text strong>{step.ruleName}</Text>
+          {step.conditions.map((condition, index) => (
+            <div key={index} style={{ marginLeft: 24, fontSize: 12 }}>
+              <Text type={condition.passed ? 'success' : 'danger'}>{condition.passed ? '✓' : '✗'}</Text>{' '}
+              <Text code>{condition.fact}</Text> {condition.operator} <Text code>{JSON.stringify(condition.expected)}</Text>
+              <Text type="secondary"> (actual: {JSON.stringify(condition.actual)})</Text>
+            </div>
+          ))}
+        </div>
+      ))}
+    </Space>
+  );
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+        <Space>
+          <Upload
+            accept=".csv,.json,.jsonl,.txt"
+            showUploadList={false}
+            beforeUpload={(uploaded) => {
+              handleFile(uploaded);
+              return false;
+            }}
+          >
+            <Button icon={<UploadOutlined />}>
+              {file ? `${file.name} (${file.rows.length} rows)` : 'Choose CSV or JSON Lines file'}
+            </Button>
+          </Upload>
+          <Button type="primary" icon={<PlayCircleOutlined />} onClick={runBatch} loading={running} disabled={!file || !rulesConfig}>
+            {running && progress > 0 ? `Running ${progress}/${file?.rows.length}` : 'Run Batch'}
+          </Button>
+        </Space>
+        <Button icon={<DownloadOutlined />} onClick={exportCsv} disabled={!results}>
+          Export CSV
+        </Button>
+      </Space>
+
+      {!file && (
+        <Alert
+          type="info"
+          showIcon
+          message="Each row is one input"
+          description={`CSV files need a header row of fact names; plain decimal numbers, true/false and JSON arrays in cells are read as such; values like 007 or 1e3 stay text. JSON files can be an array of input objects or one object per line. Up to ${MAX_BATCH_ROWS} rows, each limited like a single test to ${MAX_INPUT_KEYS} keys. Rows run with the mode and simulated time chosen on the Single Test tab.`}
+        />
+      )}
+
+      {results && (
+        <Space wrap>
+          <Tag>{results.length} rows</Tag>
+          {errorCount > 0 && <Tag color="error">{errorCount} not evaluated</Tag>}
+          {destinationCounts.map(([destination, count]) => (
+            <Tag key={destination} color="blue">{destination}: {count}</Tag>
+          ))}
+        </Space>
+      )}
+
+      <Table
+        size="small"
+        rowKey="row"
+        columns={columns}
+        dataSource={results || []}
+        loading={running}
+        expandable={{ expandedRowRender: renderTrace, rowExpandable: (result) => result.evaluationSteps.length > 0 }}
+        pagination={{ pageSize: 50, showSizeChanger: false }}
+        scroll={{ y: 360 }}
+        locale={{ emptyText: file ? 'Run the batch to see results' : 'No file chosen' }}
+      />
+    </Space>
+  );
+};
+
+export default BatchTestPanel;
@@ -0,0 +1,405 @@
+import React, { useMemo, useState } from 'react';
+import { Table, Button, Input, InputNumber, Select, AutoComplete, Space, Alert, Tooltip, Popconfirm, Popover, Tag, Typography, message } from 'antd';
+import { PlusOutlined, DeleteOutlined, PartitionOutlined, CloseOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { AVAILABLE_OPERATORS, RulesConfig } from './VisualRuleEditor/types';
+import {
+  DecisionTable,
+  DecisionTableCell,
+  DecisionTableColumn,
+  DecisionTableRow,
+  applyDecisionTable,
+  createColumn,
+  formatCellValue,
+  parseCellValue,
+  rulesToDecisionTable
+} from '../utils/decisionTable';
+import { BUILT_IN_FACTS, OPERATORS_BY_FACT_TYPE, findFactDefinition } from '../utils/factCatalog';
+import { getDestinationUsages } from '../utils/destinationRegistry';
+
+const { Text } = Typography;
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equal: '=',
+  notEqual: '≠',
+  greaterThan: '>',
+  greaterThanInclusive: '≥',
+  lessThan: '<',
+  lessThanInclusive: '≤'
+};
+
+interface DecisionTableEditorProps {
+  rulesConfig: RulesConfig;
+  onRulesUpdate: (updatedConfig: RulesConfig) => void;
+  /** Open a rule the table cannot show in the visual editor */
+  onOpenRule: (ruleName: string) => void;
+}
+
+interface CellEditorProps {
+  cell?: DecisionTableCell;
+  operators: string[];
+  /** Allowed values of the fact, offered as a picker */
+  values?: Array<string | number>;
+  factType?: string;
+  onSave: (cell: DecisionTableCell | null) => void;
+}
+
+/**
+ * Operator and value picker shown when a cell is clicked
+ */
+const CellEditor: React.FC<CellEditorProps> = ({ cell, operators, values, factType, onSave }) => {
+  const [operator, setOperator] = useState(cell?.operator || operators[0]);
+  const [text, setText] = useState(cell ? formatCellValue(cell.value) : '');
+  const save = () => onSave({ operator, value: parseCellValue(text, operator, factType, cell?.value) });
+
+  return (
+    <Space direction="vertical" style={{ width: 260 }}>
+      <Select
+        value={operator}
+        style={{ width: '100%' }}
+        options={[...new Set([...operators, ...(cell ? [cell.operator] : [])])].map(option => ({ value: option, label: option }))}
+        onChange={setOperator}
+      />
+      {values?.length ? (
+        <Select
+          mode="tags"
+          value={text ? text.split(',').map(item => item.trim()).filter(Boolean) : []}
+          style={{ width: '100%' }}
+          placeholder="Value"
+          options={values.map(option => ({ value: String(option) }))}
+          onChange={(next: string[]) => setText(next.join(', '))}
+        />
+      ) : (
+        <Input value={text} placeholder="Value; separate list items with commas" onChange={(e) => setText(e.target.value)} onPressEnter={save} />
+      )}
+      <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+        <Button size="small" icon={<CloseOutlined />} onClick={() => onSave(null)} disabled={!cell}>
+          Match Anything
+        </Button>
+        <Button size="small" type="primary" onClick={save}>
+          Set
+        </Button>
+      </Space>
+    </Space>
+  );
+};
+
+/**
+ * Rows added in the table have no rule yet, so they are keyed by name
+ */
+const getRowKey = (row: DecisionTableRow): string => (row.ruleIndex === null ? `new:${row.name}` : String(row.ruleIndex));
+
+/**
+ * Spreadsheet view of the rules: a column per fact, a row per rule, the
+ * operator and value in each cell, then destination and priority. Rules
+ * whose conditions are not a flat `all` of comparisons are listed instead.
+ * Added rows stay in the table only until they get a condition, so an empty
+ * row never becomes a rule that matches every interaction.
+ */
+const DecisionTableEditor: React.FC<DecisionTableEditorProps> = ({ rulesConfig, onRulesUpdate, onOpenRule }) => {
+  const [extraColumns, setExtraColumns] = useState<DecisionTableColumn[]>([]);
+  const [newColumnKey, setNewColumnKey] = useState('');
+  const [editingCell, setEditingCell] = useState<string | null>(null);
+  const [pendingRows, setPendingRows] = useState<DecisionTableRow[]>([]);
+
+  const derived = useMemo(() => rulesToDecisionTable(rulesConfig.rules || []), [rulesConfig]);
+  const columns = [...derived.columns, ...extraColumns.filter(column => !derived.columns.some(existing => existing.id === column.id))];
+  const catalog = rulesConfig.factCatalog || [];
+  const destinationOptions = useMemo(() => [...new Set([
+    ...(rulesConfig.destinations || []).map(entry => entry.name),
+    ...getDestinationUsages(rulesConfig).keys()
+  ])].filter(Boolean).map(name => ({ value: name })), [rulesConfig]);
+
+  // Catalog entries are named by input key for inputValue columns and by fact otherwise
+  const factDefinitionOf = (column: DecisionTableColumn) =>
+    findFactDefinition(catalog, column.fact === 'inputValue' ? column.key : column.key === undefined ? column.fact : undefined);
+
+  /**
+   * Problem with the rule names of these rows, or null when they are usable
+   */
+  const findNameProblem = (rows: DecisionTableRow[]): string | null => {
+    const names = rows.map(row => row.name.trim());
+    if (names.some(name => !name)) return 'Every row needs a rule name';
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+      || names.find(name => derived.excluded.some(entry => entry.name === name));
+    return duplicate ? `Rule name "${duplicate}" is already used` : null;
+  };
+
+  /**
+   * Write the edited table back to the rules; false when the rows were refused
+   */
+  const commit = (rows: DecisionTableRow[], tableColumns: DecisionTableColumn[] = columns): boolean => {
+    const problem = findNameProblem(rows);
+    if (problem) {
+      message.error(problem);
+      return false;
+    }
+
+    const table: DecisionTable = { columns: tableColumns, rows, excluded: derived.excluded };
+    onRulesUpdate({ ...rulesConfig, rules: applyDecisionTable(rulesConfig.rules || [], table) });
+    return true;
+  };
+
+  const updateRow = (row: DecisionTableRow, changes: Partial<DecisionTableRow>) => {
+    if (!pendingRows.includes(row)) {
+      commit(derived.rows.map(candidate => (candidate === row ? { ...candidate, ...changes } : candidate)));
+      return;
+    }
+
+    // An added row becomes a rule once it has a condition
+    const updated = { ...row, ...changes };
+    const others = pendingRows.filter(candidate => candidate !== row);
+    if (Object.keys(updated.cells).length > 0) {
+      if (commit([...derived.rows, updated])) setPendingRows(others);
+      return;
+    }
+    const problem = findNameProblem([...derived.rows, ...others, updated]);
+    if (problem) {
+      message.error(problem);
+      return;
+    }
+    setPendingRows(pendingRows.map(candidate => (candidate === row ? updated : candidate)));
+  };
+
+  const updateCell = (row: DecisionTableRow, column: DecisionTableColumn, cell: DecisionTableCell | null) => {
+    const cells = { ...row.cells };
+    if (cell) {
+      cells[column.id] = cell;
+    } else {
+      delete cells[column.id];
+    }
+    setEditingCell(null);
+    updateRow(row, { cells });
+  };
+
+  const addRow = () => {
+    const existing = [...(rulesConfig.rules || []), ...pendingRows].map(rule => rule.name);
+    let number = existing.length + 1;
+    while (existing.includes(`rule_${number}`)) number++;
+    const destination = destinationOptions[0]?.value || 'Default_Queue';
+    setPendingRows([...pendingRows, { ruleIndex: null, name: `rule_${number}`, cells: {}, destination, priority: 50 }]);
+  };
+
+  const deleteRow = (row: DecisionTableRow) => {
+    if (pendingRows.includes(row)) {
+      setPendingRows(pendingRows.filter(candidate => candidate !== row));
+      return;
+    }
+    commit(derived.rows.filter(candidate => candidate !== row));
+  };
+
+  const addColumn = () => {
+    const key = newColumnKey.trim();
+    if (!key) return;
+    // Facts the rules already compare directly keep that form
+    const directFacts = [
+      ...Object.keys(BUILT_IN_FACTS),
+      ...(rulesConfig.dynamicFacts || []).map(fact => fact.name),
+      ...derived.columns.filter(existing => existing.key === undefined).map(existing => existing.fact)
+    ];
+    const column = createColumn(key, directFacts);
+    if (columns.some(existing => existing.id === column.id)) {
+      message.info(`${key} already has a column`);
+      return;
+    }
+    setExtraColumns([...extraColumns, column]);
+    setNewColumnKey('');
+  };
+
+  const removeColumn = (column: DecisionTableColumn) => {
+    setExtraColumns(extraColumns.filter(existing => existing.id !== column.id));
+    if (derived.rows.some(row => row.cells[column.id])) {
+      commit(derived.rows.map(row => {
+        const cells = { ...row.cells };
+        delete cells[column.id];
+        return { ...row, cells };
+      }), columns.filter(existing => existing.id !== column.id));
+    }
+  };
+
+  const renderCell = (row: DecisionTableRow, column: DecisionTableColumn) => {
+    const cell = row.cells[column.id];
+    const definition = factDefinitionOf(column);
+    const cellId = `${getRowKey(row)}:${column.id}`;
+
+    return (
+      <Popover
+        trigger="click"
+        open={editingCell === cellId}
+        onOpenChange={(open) => setEditingCell(open ? cellId : null)}
+        destroyTooltipOnHide
+        content={
+          <CellEditor
+            cell={cell}
+            operators={definition ? OPERATORS_BY_FACT_TYPE[definition.type] : [...AVAILABLE_OPERATORS]}
+            values={definition?.values}
+            factType={definition?.type}
+            onSave={(next) => updateCell(row, column, next)}
+          />
+        }
+      >
+        <div style={{ cursor: 'pointer', minHeight: 22 }}>
+          {cell ? (
+            <Text style={{ fontFamily: 'monospace', fontSize: 12 }}>
+              {OPERATOR_LABELS[cell.operator] || cell.operator} {formatCellValue(cell.value)}
+            </Text>
+          ) : (
+            <Text type="secondary">any</Text>
+          )}
+        </div>
+      </Popover>
+    );
+  };
+
+  const tableColumns: ColumnsType<DecisionTableRow> = [
+    {
+      title: 'Rule',
+      dataIndex: 'name',
+      key: 'name',
+      fixed: 'left',
+      width: 200,
+      render: (name, row) => (
+        <Space size={0}>
+          <Input
+            key={`${getRowKey(row)}:${name}`}
+            defaultValue={name}
+            bordered={false}
+            onBlur={(e) => e.target.value !== name && updateRow(row, { name: e.target.value })}
+            onPressEnter={(e) => e.currentTarget.blur()}
+          />
+          {row.ruleIndex === null && (
+            <Tooltip title="Not a rule yet: set a condition to add it">
+              <Tag color="warning">New</Tag>
+            </Tooltip>
+          )}
+        </Space>
+      )
+    },
+    ...columns.map((column) => {
+      const definition = factDefinitionOf(column);
+      return {
+        key: column.id,
+        width: 180,
+        title: (
+          <Space size={4}>
+            <Tooltip title={definition?.description || (column.key !== undefined ? `${column.fact} with key ${column.key}` : column.fact)}>
+              <span>{column.label}</span>
+            </Tooltip>
+            {definition && <Tag style={{ margin: 0 }}>{definition.type}</Tag>}
+            <Popconfirm title={`Remove the ${column.label} column and its conditions?`} onConfirm={() => removeColumn(column)}>
+              <Button type="text" size="small" icon={<CloseOutlined />} />
+            </Popconfirm>
+          </Space>
+        ),
+        render: (_value: unknown, row: DecisionTableRow) => renderCell(row, column)
+      };
+    }),
+    {
+      title: 'Destination',
+      dataIndex: 'destination',
+      key: 'destination',
+      fixed: 'right',
+      width: 200,
+      render: (destination, row) => (
+        <AutoComplete
+          key={`${getRowKey(row)}:${destination}`}
+          defaultValue={destination}
+          style={{ width: '100%' }}
+          options={destinationOptions}
+          filterOption={(text, option) => String(option?.value).toLowerCase().includes(text.toLowerCase())}
+          onBlur={(e) => {
+            const next = (e.target as HTMLInputElement).value;
+            if (next && next !== destination) updateRow(row, { destination: next });
+          }}
+          onSelect={(next: string) => next !== destination && updateRow(row, { destination: next })}
+        />
+      )
+    },
+    {
+      title: 'Priority',
+      dataIndex: 'priority',
+      key: 'priority',
+      fixed: 'right',
+      width: 100,
+      sorter: (a, b) => a.priority - b.priority,
+      render: (priority, row) => (
+        <InputNumber
+          key={`${getRowKey(row)}:${priority}`}
+          defaultValue={priority}
+          min={1}
+          max={999}
+          style={{ width: '100%' }}
+          onBlur={(e) => {
+            const next = Number(e.target.value);
+            if (Number.isInteger(next) && next !== priority) updateRow(row, { priority: next });
+          }}
+        />
+      )
+    },
+    {
+      key: 'actions',
+      fixed: 'right',
+      width: 80,
+      render: (_value, row) => (
+        <Space size={0}>
+          <Tooltip title="Open in visual editor">
+            <Button type="text" icon={<PartitionOutlined />} onClick={() => onOpenRule(row.name)} disabled={row.ruleIndex === null} />
+          </Tooltip>
+          <Popconfirm title={`Delete rule ${row.name}?`} onConfirm={() => deleteRow(row)}>
+            <Button type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      )
+    }
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      {derived.excluded.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          message={`${derived.excluded.length} rule${derived.excluded.length === 1 ? ' is' : 's are'} too complex for the table and ${derived.excluded.length === 1 ? 'is' : 'are'} left unchanged`}
+          description={
+            <ul style={{ margin: 0, paddingLeft: 20 }}>
+              {derived.excluded.map(entry => (
+                <li key={entry.ruleIndex}>
+                  <Button type="link" size="small" style={{ padding: 0 }} onClick={() => onOpenRule(entry.name)}>
+                    {entry.name}
+                  </Button>
+                  <Text type="secondary">: {entry.reason}</Text>
+                </li>
+              ))}
+            </ul>
+          }
+        />
+      )}
+      <Table
+        size="small"
+        bordered
+        rowKey={getRowKey}
+        columns={tableColumns}
+        dataSource={[...derived.rows, ...pendingRows]}
+        pagination={false}
+        scroll={{ x: 'max-content' }}
+        locale={{ emptyText: 'No rules fit the table' }}
+        footer={() => (
+          <Space>
+            <Button icon={<PlusOutlined />} onClick={addRow}>Add Rule</Button>
+            <AutoComplete
+              value={newColumnKey}
+              style={{ width: 220 }}
+              placeholder="Fact or input key for a new column"
+              options={catalog.map(definition => ({ value: definition.name }))}
+              filterOption={(text, option) => String(option?.value).toLowerCase().includes(text.toLowerCase())}
+              onChange={setNewColumnKey}
+            />
+            <Button icon={<PlusOutlined />} onClick={addColumn} disabled={!newColumnKey.trim()}>Add Column</Button>
+          </Space>
+        )}
+      />
+    </Space>
+  );
+};
+
+export default DecisionTableEditor;
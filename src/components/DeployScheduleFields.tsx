@@ -0,0 +1,95 @@
+import React from 'react';
+import { Checkbox, DatePicker, InputNumber, Space, Typography } from 'antd';
+import dayjs from 'dayjs';
+import type { RuleSchedule } from '../services/genesysService';
+
+const { Text } = Typography;
+
+interface DeployScheduleFieldsProps {
+  value: RuleSchedule;
+  onChange: (schedule: RuleSchedule) => void;
+  /** Version suggested as the revert target, usually the one live now */
+  defaultRevertVersion?: number | null;
+}
+
+/**
+ * Optional activation and revert times for a deploy
+ */
+const DeployScheduleFields: React.FC<DeployScheduleFieldsProps> = ({ value, onChange, defaultRevertVersion }) => {
+  const isPast = (current: dayjs.Dayjs) => current.isBefore(dayjs().startOf('day'));
+
+  /**
+   * Hours and minutes already gone today, so a time in the past cannot be picked
+   */
+  const getPastTimes = (current: dayjs.Dayjs | null) => {
+    const now = dayjs();
+    if (!current || !current.isSame(now, 'day')) return {};
+    const range = (count: number) => Array.from({ length: count }, (_unused, index) => index);
+    return {
+      disabledHours: () => range(now.hour()),
+      disabledMinutes: (hour: number) => (hour === now.hour() ? range(now.minute() + 1) : [])
+    };
+  };
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Checkbox
+        checked={value.activateAt !== undefined}
+        onChange={(e) => onChange({ ...value, activateAt: e.target.checked ? dayjs().add(1, 'day').startOf('day').toISOString() : undefined })}
+      >
+        Activate at a later time
+      </Checkbox>
+      {value.activateAt !== undefined && (
+        <DatePicker
+          showTime={{ format: 'HH:mm' }}
+          format="YYYY-MM-DD HH:mm"
+          disabledDate={isPast}
+          disabledTime={getPastTimes}
+          value={dayjs(value.activateAt)}
+          onChange={(date) => onChange({ ...value, activateAt: date ? date.toISOString() : undefined })}
+          style={{ width: 220 }}
+        />
+      )}
+
+      <Checkbox
+        checked={value.deactivateAt !== undefined}
+        onChange={(e) => onChange(e.target.checked
+          ? {
+              ...value,
+              deactivateAt: dayjs(value.activateAt).add(1, 'day').startOf('day').toISOString(),
+              revertToVersion: value.revertToVersion ?? defaultRevertVersion ?? undefined
+            }
+          : { ...value, deactivateAt: undefined, revertToVersion: undefined })}
+      >
+        Revert to another version later
+      </Checkbox>
+      {value.deactivateAt !== undefined && (
+        <Space wrap>
+          <DatePicker
+            showTime={{ format: 'HH:mm' }}
+            format="YYYY-MM-DD HH:mm"
+            disabledDate={isPast}
+            disabledTime={getPastTimes}
+            value={dayjs(value.deactivateAt)}
+            onChange={(date) => onChange({ ...value, deactivateAt: date ? date.toISOString() : undefined })}
+            style={{ width: 220 }}
+          />
+          <Text>revert to v</Text>
+          <InputNumber
+            min={1}
+            value={value.revertToVersion}
+            onChange={(version) => onChange({ ...value, revertToVersion: version ?? undefined })}
+            style={{ width: 100 }}
+          />
+        </Space>
+      )}
+      {(value.activateAt || value.deactivateAt) && (
+        <Text type="secondary">
+          <small>Times are in your local timezone. Scheduled changes are applied while the manager is open in a browser, or by a headless scheduler if one is running.</small>
+        </Text>
+      )}
+    </Space>
+  );
+};
+
+export default DeployScheduleFields;
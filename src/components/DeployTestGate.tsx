@@ -0,0 +1,58 @@
+import React from 'react';
+import { Alert, Input, Space, Typography } from 'antd';
+import type { TestSuiteResult } from '../utils/testSuite';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+interface DeployTestGateProps {
+  /** Saved test cases run against the rules about to be deployed */
+  result: TestSuiteResult | null;
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+}
+
+/**
+ * Test suite status shown in deploy modals. Failing cases block the deploy
+ * until a reason for overriding them is given.
+ */
+const DeployTestGate: React.FC<DeployTestGateProps> = ({ result, overrideReason, onOverrideReasonChange }) => {
+  if (!result || result.results.length === 0) {
+    return <Alert type="info" showIcon message="No saved test cases; add some from Test Rules to check deploys automatically" />;
+  }
+
+  if (result.failed === 0) {
+    return <Alert type="success" showIcon message={`All ${result.passed} saved test cases pass`} />;
+  }
+
+  return (
+    <Alert
+      type="error"
+      showIcon
+      message={`${result.failed} of ${result.results.length} saved test cases fail`}
+      description={
+        <Space direction="vertical" style={{ width: '100%' }}>
+          {result.results.filter(caseResult => !caseResult.passed).map(caseResult => (
+            <Text key={caseResult.name}>
+              <Text strong>{caseResult.name}</Text>: {caseResult.failures.join('; ')}
+            </Text>
+          ))}
+          <div>
+            <label><strong>Reason for deploying anyway: *</strong></label>
+            <TextArea
+              rows={2}
+              value={overrideReason}
+              onChange={(e) => onOverrideReasonChange(e.target.value)}
+              placeholder="Why these failures are expected or acceptable..."
+            />
+            <div style={{ marginTop: 4, color: '#666' }}>
+              <small>The reason is recorded with the version</small>
+            </div>
+          </div>
+        </Space>
+      }
+    />
+  );
+};
+
+export default DeployTestGate;
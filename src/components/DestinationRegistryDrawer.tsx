@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Drawer, Table, Button, Input, Select, Space, Alert, Tooltip, Popconfirm, Popover, Tag, Typography, message } from 'antd';
+import { PlusOutlined, DeleteOutlined, CheckOutlined, ImportOutlined, SyncOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { DestinationDefinition, DestinationKind } from './VisualRuleEditor/types';
+import { DESTINATION_KINDS, DestinationUsage, getDestinationUsages, syncDestinations } from '../utils/destinationRegistry';
+import { validateDestinationDiagnostics } from '../utils/ruleValidation';
+import genesysService from '../services/genesysService';
+
+const { Text } = Typography;
+
+const KIND_COLORS: Record<DestinationKind, string> = {
+  queue: 'blue',
+  flow: 'purple',
+  external: 'default'
+};
+
+const USAGE_LABELS: Record<DestinationUsage['field'], string> = {
+  defaultDestination: 'default destination',
+  event: 'event',
+  testCase: 'expected by test case'
+};
+
+interface DestinationRegistryDrawerProps {
+  open: boolean;
+  /** Parsed rules configuration being edited */
+  rulesConfig: any;
+  onClose: () => void;
+  onApply: (destinations: DestinationDefinition[]) => void;
+  /** Open a rule that uses a destination in the visual editor */
+  onOpenRule?: (ruleName: string) => void;
+}
+
+/**
+ * Edit the destination registry: the queues and flows rules may route to,
+ * synced from Genesys Cloud or entered by hand, and where each is used
+ */
+const DestinationRegistryDrawer: React.FC<DestinationRegistryDrawerProps> = ({ open, rulesConfig, onClose, onApply, onOpenRule }) => {
+  const [destinations, setDestinations] = useState<DestinationDefinition[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [missing, setMissing] = useState<string[]>([]);
+
+  const usages = useMemo(() => getDestinationUsages(rulesConfig), [rulesConfig]);
+  const unregistered = [...usages.keys()].filter(name => !destinations.some(entry => entry.name === name));
+
+  useEffect(() => {
+    if (!open) return;
+    setDestinations(Array.isArray(rulesConfig?.destinations) ? rulesConfig.destinations : []);
+    setDirty(false);
+    setMissing([]);
+  }, [open]);
+
+  const updateDestination = (index: number, changes: Partial<DestinationDefinition>) => {
+    setDestinations(destinations.map((entry, position) => (position === index ? { ...entry, ...changes } : entry)));
+    setDirty(true);
+  };
+
+  const addDestination = () => {
+    setDestinations([...destinations, { name: '', kind: 'queue' }]);
+    setDirty(true);
+  };
+
+  const deleteDestination = (index: number) => {
+    setDestinations(destinations.filter((_, position) => position !== index));
+    setDirty(true);
+  };
+
+  // Register every destination the rules and test cases already route to
+  const registerUsedDestinations = () => {
+    if (unregistered.length === 0) {
+      message.info('Every destination the rules use is already registered');
+      return;
+    }
+    setDestinations([...destinations, ...unregistered.map((name): DestinationDefinition => ({ name, kind: 'queue' }))]);
+    setDirty(true);
+    message.success(`Registered ${unregistered.length} destination${unregistered.length === 1 ? '' : 's'}; sync from Genesys to link them to their queues and flows`);
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      const targets = await genesysService.getRoutingTargets();
+      const result = syncDestinations(destinations, targets);
+      setDestinations(result.destinations);
+      setMissing(result.missing);
+
+      const changes = [
+        result.added.length > 0 && `${result.added.length} added`,
+        result.linked.length > 0 && `${result.linked.length} linked`,
+        result.renamed.length > 0 && `${result.renamed.length} renamed`
+      ].filter(Boolean);
+      if (changes.length > 0) {
+        setDirty(true);
+        message.success(`Synced ${targets.length} queues and flows: ${changes.join(', ')}`);
+      } else {
+        message.info(`Synced ${targets.length} queues and flows: registry is up to date`);
+      }
+      if (result.renamed.length > 0) {
+        message.warning(`Renamed in Genesys Cloud: ${result.renamed.map(item => `${item.from} → ${item.to}`).join(', ')}. Update the rules routing to the old names.`);
+      }
+    } catch (error: any) {
+      message.error(`Failed to sync destinations: ${error.message}`);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleApply = () => {
+    const errors = validateDestinationDiagnostics({ destinations }).filter(item => item.severity === 'error');
+    if (errors.length > 0) {
+      message.error(errors[0].message);
+      return;
+    }
+    onApply(destinations);
+    setDirty(false);
+    message.success('Destination registry applied to the rules');
+  };
+
+  const renderUsages = (name: string) => {
+    const used = usages.get(name) || [];
+    if (used.length === 0) return <Text type="secondary">Unused</Text>;
+
+    return (
+      <Popover
+        title={`Where ${name} is used`}
+        trigger="click"
+        content={
+          <ul style={{ margin: 0, paddingLeft: 20 }}>
+            {used.map((usage, index) => (
+              <li key={index}>
+                {usage.field === 'testCase' || !onOpenRule
+                  ? <Text>{usage.name}</Text>
+                  : <Button type="link" size="small" style={{ padding: 0 }} onClick={() => onOpenRule(usage.name)}>{usage.name}</Button>}
+                <Text type="secondary"> ({USAGE_LABELS[usage.field]})</Text>
+              </li>
+            ))}
+          </ul>
+        }
+      >
+        <Button size="small">{used.length} use{used.length === 1 ? '' : 's'}</Button>
+      </Popover>
+    );
+  };
+
+  const columns: ColumnsType<DestinationDefinition> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      width: 220,
+      render: (name, _entry, index) => (
+        <Space size={4}>
+          <Input value={name} placeholder="Voice_Default_Queue" onChange={(e) => updateDestination(index, { name: e.target.value })} />
+          {missing.includes(name) && (
+            <Tooltip title="No longer exists in Genesys Cloud">
+              <Tag color="error">Missing</Tag>
+            </Tooltip>
+          )}
+        </Space>
+      )
+    },
+    {
+      title: 'Kind',
+      dataIndex: 'kind',
+      key: 'kind',
+      width: 130,
+      render: (kind, entry, index) => (
+        <Select
+          value={kind}
+          style={{ width: '100%' }}
+          options={DESTINATION_KINDS.map(option => ({ value: option, label: <Tag color={KIND_COLORS[option]}>{option}</Tag> }))}
+          onChange={(next: DestinationKind) => updateDestination(index, { kind: next, genesysId: next === 'external' ? undefined : entry.genesysId })}
+        />
+      )
+    },
+    {
+      title: 'Genesys ID',
+      dataIndex: 'genesysId',
+      key: 'genesysId',
+      width: 200,
+      render: (genesysId) => genesysId
+        ? <Text code copyable ellipsis style={{ maxWidth: 180 }}>{genesysId}</Text>
+        : <Text type="secondary">Not linked</Text>
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+      render: (description, _entry, index) => (
+        <Input value={description} onChange={(e) => updateDestination(index, { description: e.target.value || undefined })} />
+      )
+    },
+    {
+      title: 'Used By',
+      key: 'usages',
+      width: 100,
+      render: (_value, entry) => renderUsages(entry.name)
+    },
+    {
+      key: 'actions',
+      width: 50,
+      render: (_value, entry, index) => (
+        <Popconfirm
+          title={`Remove ${entry.name || 'this destination'}?`}
+          description={usages.has(entry.name) ? 'Rules still route to it and will fail validation.' : undefined}
+          onConfirm={() => deleteDestination(index)}
+        >
+          <Button type="text" danger icon={<DeleteOutlined />} />
+        </Popconfirm>
+      )
+    }
+  ];
+
+  return (
+    <Drawer
+      title="Destinations"
+      placement="right"
+      width={1100}
+      open={open}
+      onClose={onClose}
+      extra={
+        <Space>
+          <Tooltip title="Add new queues and flows from Genesys Cloud and link or rename registered ones">
+            <Button icon={<SyncOutlined />} onClick={handleSync} loading={syncing}>Sync from Genesys</Button>
+          </Tooltip>
+          <Tooltip title="Register the destinations the rules route to that are not in the registry yet">
+            <Button icon={<ImportOutlined />} onClick={registerUsedDestinations}>Register Used Destinations</Button>
+          </Tooltip>
+          <Button type="primary" icon={<CheckOutlined />} onClick={handleApply} disabled={!dirty}>
+            Apply to Rules
+          </Button>
+        </Space>
+      }
+    >
+      <Alert
+        type="info"
+        showIcon
+        style={{ marginBottom: 16 }}
+        message="Once any destination is registered, rules routing to a destination outside the registry cannot be deployed. The visual editor offers registered destinations when editing rules and events."
+      />
+      {destinations.length > 0 && unregistered.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={`Used but not registered: ${unregistered.join(', ')}`}
+        />
+      )}
+      {missing.length > 0 && (
+        <Alert
+          type="error"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={`No longer in Genesys Cloud: ${missing.join(', ')}. Route the rules using them elsewhere, then remove them.`}
+        />
+      )}
+      <Table
+        size="small"
+        rowKey={(_entry, index) => String(index)}
+        columns={columns}
+        dataSource={destinations}
+        pagination={false}
+        locale={{ emptyText: 'No destinations registered' }}
+        footer={() => (
+          <Button type="dashed" block icon={<PlusOutlined />} onClick={addDestination}>
+            Add Destination
+          </Button>
+        )}
+      />
+    </Drawer>
+  );
+};
+
+export default DestinationRegistryDrawer;
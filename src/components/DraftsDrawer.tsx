@@ -0,0 +1,376 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Drawer, Table, Tag, Space, Button, Tooltip, Modal, Input, Radio, Typography, message, Popconfirm, Alert, Collapse } from 'antd';
+import {
+  FolderOpenOutlined,
+  SendOutlined,
+  AuditOutlined,
+  DeploymentUnitOutlined,
+  DeleteOutlined,
+  ReloadOutlined
+} from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import { genesysService, RuleDraft, RuleStatus, RuleSchedule, DeployConflictError } from '../services/genesysService';
+import { STATUS_COLORS, STATUS_LABELS } from '../helpers/rule-status';
+import DeployScheduleFields from './DeployScheduleFields';
+import DeployTestGate from './DeployTestGate';
+import RegressionReplayPanel from './RegressionReplayPanel';
+import { TestSuiteResult, isDeployAllowed, runTestSuite } from '../utils/testSuite';
+import type { RulesConfig } from './VisualRuleEditor/types';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+/**
+ * The live version a draft is compared or merged with
+ */
+export interface LiveRulesVersion {
+  version: number;
+  rules: RulesConfig;
+}
+
+interface DraftsDrawerProps {
+  open: boolean;
+  currentDraftKey?: string | null;
+  onClose: () => void;
+  onOpenDraft: (draft: RuleDraft) => void;
+  onDeployed: (version: number) => void;
+  /** Open the draft merged against the version that went live after it was based */
+  onMergeDraft: (draft: RuleDraft, latest: LiveRulesVersion) => void;
+}
+
+/**
+ * Drawer listing drafts with the review workflow:
+ * draft -> pending review -> approved/rejected -> deployed
+ */
+const DraftsDrawer: React.FC<DraftsDrawerProps> = ({
+  open,
+  currentDraftKey,
+  onClose,
+  onOpenDraft,
+  onDeployed,
+  onMergeDraft
+}) => {
+  const [drafts, setDrafts] = useState<RuleDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<RuleDraft | null>(null);
+  const [decision, setDecision] = useState<'approved' | 'rejected'>('approved');
+  const [comments, setComments] = useState('');
+  const [deploying, setDeploying] = useState<RuleDraft | null>(null);
+  const [schedule, setSchedule] = useState<RuleSchedule>({});
+  const [testResult, setTestResult] = useState<TestSuiteResult | null>(null);
+  const [testOverrideReason, setTestOverrideReason] = useState('');
+  const [liveRules, setLiveRules] = useState<LiveRulesVersion | null>(null);
+
+  const loadDrafts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [list, user] = await Promise.all([
+        genesysService.getDrafts(),
+        genesysService.getUserProfile()
+      ]);
+      setDrafts(list);
+      setUserEmail(user?.email || null);
+    } catch (error: any) {
+      message.error(`Failed to load drafts: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadDrafts();
+    }
+  }, [open, loadDrafts]);
+
+  const runAction = async (action: () => Promise<void>, success: string): Promise<boolean> => {
+    try {
+      setLoading(true);
+      await action();
+      message.success(success);
+      await loadDrafts();
+      return true;
+    } catch (error: any) {
+      message.error(error.message);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Hand a draft to the editor to merge with the version that is live now
+   */
+  const mergeDraft = (draft: RuleDraft, latest: LiveRulesVersion) => {
+    message.warning(`v${latest.version} went live after this draft was based on ${draft.baseVersion ? `v${draft.baseVersion}` : 'no version'} - merge it, save it and have it reviewed again`);
+    setDeploying(null);
+    onMergeDraft(draft, latest);
+  };
+
+  const openDeploy = async (draft: RuleDraft) => {
+    try {
+      // Offer a merge first if someone went live since the draft was based
+      const latest = await genesysService.getActiveRules();
+      if (latest && latest.version !== draft.baseVersion) {
+        mergeDraft(draft, latest);
+        return;
+      }
+      setLiveRules(latest);
+      setTestResult(await runTestSuite(draft.rules));
+    } catch (error: any) {
+      message.error(`Failed to run saved test cases: ${error.message}`);
+      return;
+    }
+    setSchedule({});
+    setTestOverrideReason('');
+    setDeploying(draft);
+  };
+
+  const handleDeploy = async () => {
+    if (!deploying) return;
+    if (!isDeployAllowed(testResult, testOverrideReason)) {
+      message.error('Saved test cases are failing - give a reason to deploy anyway');
+      return;
+    }
+    try {
+      setLoading(true);
+      const overrideReason = testResult?.failed ? testOverrideReason.trim() : undefined;
+      const version = await genesysService.deployDraft(deploying.key, schedule, overrideReason);
+      message.success(schedule.activateAt
+        ? `Draft saved as v${version}, scheduled to go live ${dayjs(schedule.activateAt).format('YYYY-MM-DD HH:mm')}`
+        : `Draft deployed as v${version}. Changes are now live.`);
+      setDeploying(null);
+      onDeployed(version);
+      await loadDrafts();
+    } catch (error: any) {
+      if (error instanceof DeployConflictError) {
+        const latest = await genesysService.getActiveRules().catch(() => null);
+        if (latest) {
+          mergeDraft(deploying, latest);
+        } else {
+          message.error(error.message);
+        }
+      } else {
+        message.error(`Deployment failed: ${error.message}`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitReview = async () => {
+    if (!reviewing) return;
+    const reviewed = await runAction(
+      () => genesysService.reviewDraft(reviewing.key, decision, comments),
+      decision === 'approved' ? 'Draft approved' : 'Draft rejected'
+    );
+    if (reviewed) {
+      setReviewing(null);
+      setComments('');
+    }
+  };
+
+  const columns: ColumnsType<RuleDraft> = [
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (status: RuleStatus, record) => (
+        <Space>
+          <Tag color={STATUS_COLORS[status]}>{STATUS_LABELS[status]}</Tag>
+          {record.key === currentDraftKey && <Tag>OPEN</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: 'Based On',
+      dataIndex: 'baseVersion',
+      key: 'baseVersion',
+      render: (version) => (version ? `v${version}` : 'New')
+    },
+    {
+      title: 'Author',
+      dataIndex: 'author',
+      key: 'author',
+      render: (author, record) => (
+        record.editors.length > 1
+          ? <Tooltip title={`Edited by ${record.editors.join(', ')}`}>{author} +{record.editors.length - 1}</Tooltip>
+          : author
+      )
+    },
+    {
+      title: 'Saved',
+      dataIndex: 'updatedAt',
+      key: 'updatedAt',
+      render: (text) => dayjs(text).format('YYYY-MM-DD HH:mm')
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+      ellipsis: true,
+      render: (text, record) => (
+        <Space direction="vertical" size={0}>
+          <Text>{text}</Text>
+          {record.reviewedBy && (
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {record.status === 'rejected' ? 'Rejected' : 'Reviewed'} by {record.reviewedBy}
+              {record.reviewComments ? `: ${record.reviewComments}` : ''}
+            </Text>
+          )}
+        </Space>
+      )
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => {
+        const isEditor = !!userEmail && record.editors.includes(userEmail);
+        return (
+          <Space>
+            <Tooltip title="Open in editor">
+              <Button size="small" icon={<FolderOpenOutlined />} onClick={() => onOpenDraft(record)} />
+            </Tooltip>
+            {(record.status === 'draft' || record.status === 'rejected') && (
+              <Tooltip title="Submit for review">
+                <Button
+                  size="small"
+                  icon={<SendOutlined />}
+                  onClick={() => runAction(() => genesysService.submitDraftForReview(record.key), 'Draft submitted for review')}
+                />
+              </Tooltip>
+            )}
+            {record.status === 'pending-review' && (
+              <Tooltip title={isEditor ? 'Someone who did not edit the draft must review it' : 'Approve or reject'}>
+                <Button
+                  size="small"
+                  icon={<AuditOutlined />}
+                  disabled={isEditor}
+                  onClick={() => {
+                    setDecision('approved');
+                    setComments('');
+                    setReviewing(record);
+                  }}
+                />
+              </Tooltip>
+            )}
+            {record.status === 'approved' && (
+              <Tooltip title="Deploy">
+                <Button
+                  size="small"
+                  type="primary"
+                  danger
+                  icon={<DeploymentUnitOutlined />}
+                  onClick={() => openDeploy(record)}
+                />
+              </Tooltip>
+            )}
+            <Popconfirm
+              title="Delete this draft?"
+              onConfirm={() => runAction(() => genesysService.deleteDraft(record.key), 'Draft deleted')}
+            >
+              <Tooltip title="Delete draft">
+                <Button size="small" danger icon={<DeleteOutlined />} />
+              </Tooltip>
+            </Popconfirm>
+          </Space>
+        );
+      }
+    }
+  ];
+
+  return (
+    <Drawer
+      title="Drafts"
+      placement="right"
+      width={960}
+      open={open}
+      onClose={onClose}
+      extra={
+        <Button icon={<ReloadOutlined />} onClick={loadDrafts} loading={loading}>
+          Refresh
+        </Button>
+      }
+    >
+      <Table
+        columns={columns}
+        dataSource={drafts}
+        rowKey="key"
+        loading={loading}
+        pagination={false}
+        locale={{ emptyText: 'No drafts yet - use Save Draft in the editor' }}
+      />
+
+      <Modal
+        title="Review Draft"
+        open={!!reviewing}
+        onOk={submitReview}
+        onCancel={() => setReviewing(null)}
+        confirmLoading={loading}
+        okText={decision === 'approved' ? 'Approve' : 'Reject'}
+        okButtonProps={{ danger: decision === 'rejected' }}
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text>
+            Draft by <Text strong>{reviewing?.author}</Text>: {reviewing?.description}
+          </Text>
+          <Radio.Group value={decision} onChange={(e) => setDecision(e.target.value)}>
+            <Radio value="approved">Approve</Radio>
+            <Radio value="rejected">Reject</Radio>
+          </Radio.Group>
+          <TextArea
+            rows={4}
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            placeholder={decision === 'rejected' ? 'Explain what needs to change (required)' : 'Optional comments'}
+          />
+        </Space>
+      </Modal>
+
+      <Modal
+        title="Deploy Approved Draft"
+        open={!!deploying}
+        onOk={handleDeploy}
+        onCancel={() => setDeploying(null)}
+        confirmLoading={loading}
+        okText={schedule.activateAt ? 'Schedule' : 'Deploy'}
+        okButtonProps={{ danger: true }}
+        width={760}
+        destroyOnClose
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Alert
+            type="warning"
+            showIcon
+            message={schedule.activateAt
+              ? `This version will go live at ${dayjs(schedule.activateAt).format('YYYY-MM-DD HH:mm')}`
+              : 'This will immediately affect live call routing.'}
+          />
+          <Text>{deploying?.description}</Text>
+          <DeployTestGate
+            result={testResult}
+            overrideReason={testOverrideReason}
+            onOverrideReasonChange={setTestOverrideReason}
+          />
+          <DeployScheduleFields
+            value={schedule}
+            onChange={setSchedule}
+            defaultRevertVersion={deploying?.baseVersion}
+          />
+          <Collapse
+            size="small"
+            items={[{
+              key: 'regression',
+              label: `Regression replay: compare with ${liveRules ? `live v${liveRules.version}` : 'no live rules'}`,
+              children: <RegressionReplayPanel activeRules={liveRules?.rules} candidateRules={deploying?.rules} />
+            }]}
+          />
+        </Space>
+      </Modal>
+    </Drawer>
+  );
+};
+
+export default DraftsDrawer;
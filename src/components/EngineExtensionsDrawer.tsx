@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Tabs, Row, Col, List, Button, Input, Switch, Space, Tag, Typography, Alert, Empty, Popconfirm, Tooltip, message } from 'antd';
+import { PlusOutlined, DeleteOutlined, PlayCircleOutlined, CheckOutlined } from '@ant-design/icons';
+import MonacoEditor from '@monaco-editor/react';
+import type { CustomOperatorDefinition, DynamicFactDefinition } from './VisualRuleEditor/types';
+import { DEFAULT_SANDBOX_LIMITS, ExtensionSandbox, ExtensionTestResult, testCustomOperator, testDynamicFact } from '../utils/extensionSandbox';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+type ExtensionKind = 'fact' | 'operator';
+
+interface EngineExtensionsDrawerProps {
+  open: boolean;
+  /** Parsed rules configuration being edited */
+  rulesConfig: any;
+  onClose: () => void;
+  onApply: (dynamicFacts: DynamicFactDefinition[], customOperators: CustomOperatorDefinition[]) => void;
+}
+
+const SIGNATURES: Record<ExtensionKind, string> = {
+  fact: 'function (params, almanac) {',
+  operator: 'function (factValue, jsonValue) {'
+};
+
+const EXAMPLE_HINTS: Record<ExtensionKind, string> = {
+  fact: '[{ "params": {}, "input": { "brand": "Admiral" }, "expected": true }]',
+  operator: '[{ "factValue": 9, "jsonValue": 3, "expected": true }]'
+};
+
+const newFact = (index: number): DynamicFactDefinition => ({
+  name: `newFact${index}`,
+  calculator: 'return true;',
+  description: '',
+  options: { cache: true },
+  tests: []
+});
+
+const newOperator = (index: number): CustomOperatorDefinition => ({
+  name: `newOperator${index}`,
+  evaluator: 'return factValue === jsonValue;',
+  description: '',
+  tests: []
+});
+
+/**
+ * Author, document and try out the config's dynamic facts and custom
+ * operators. Examples run in the same worker sandbox the simulator uses.
+ */
+const EngineExtensionsDrawer: React.FC<EngineExtensionsDrawerProps> = ({ open, rulesConfig, onClose, onApply }) => {
+  const [facts, setFacts] = useState<DynamicFactDefinition[]>([]);
+  const [operators, setOperators] = useState<CustomOperatorDefinition[]>([]);
+  const [kind, setKind] = useState<ExtensionKind>('fact');
+  const [selected, setSelected] = useState(0);
+  const [examplesText, setExamplesText] = useState('[]');
+  const [examplesError, setExamplesError] = useState('');
+  const [results, setResults] = useState<Record<string, ExtensionTestResult[] | string>>({});
+  const [running, setRunning] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFacts(Array.isArray(rulesConfig?.dynamicFacts) ? rulesConfig.dynamicFacts : []);
+    setOperators(Array.isArray(rulesConfig?.customOperators) ? rulesConfig.customOperators : []);
+    setSelected(0);
+    setResults({});
+    setDirty(false);
+  }, [open]);
+
+  const itemsOf = (itemKind: ExtensionKind): Array<DynamicFactDefinition | CustomOperatorDefinition> =>
+    itemKind === 'fact' ? facts : operators;
+  const current = itemsOf(kind)[selected];
+
+  useEffect(() => {
+    setExamplesText(JSON.stringify(current?.tests || [], null, 2));
+    setExamplesError('');
+  }, [kind, selected, current?.name]);
+
+  const resultKey = (itemKind: ExtensionKind, name: string) => `${itemKind}:${name}`;
+
+  const updateCurrent = (changes: Partial<DynamicFactDefinition & CustomOperatorDefinition>) => {
+    if (kind === 'fact') {
+      setFacts(facts.map((fact, index) => (index === selected ? { ...fact, ...changes } as DynamicFactDefinition : fact)));
+    } else {
+      setOperators(operators.map((operator, index) => (index === selected ? { ...operator, ...changes } as CustomOperatorDefinition : operator)));
+    }
+    setDirty(true);
+  };
+
+  const handleExamplesChange = (value: string | undefined) => {
+    setExamplesText(value || '');
+    try {
+      const parsed = JSON.parse(value || '[]');
+      if (!Array.isArray(parsed)) throw new Error('Examples must be a JSON array');
+      setExamplesError('');
+      updateCurrent({ tests: parsed });
+    } catch (error: any) {
+      setExamplesError(error.message);
+    }
+  };
+
+  const addItem = () => {
+    if (kind === 'fact') {
+      setFacts([...facts, newFact(facts.length + 1)]);
+      setSelected(facts.length);
+    } else {
+      setOperators([...operators, newOperator(operators.length + 1)]);
+      setSelected(operators.length);
+    }
+    setDirty(true);
+  };
+
+  const deleteCurrent = () => {
+    if (kind === 'fact') {
+      setFacts(facts.filter((_, index) => index !== selected));
+    } else {
+      setOperators(operators.filter((_, index) => index !== selected));
+    }
+    setSelected(Math.max(0, selected - 1));
+    setDirty(true);
+  };
+
+  // Run every example against the definitions as they are now, applied or not
+  const runExamples = async () => {
+    const sandbox = new ExtensionSandbox({ dynamicFacts: facts, customOperators: operators });
+    try {
+      setRunning(true);
+      const compileErrors = await sandbox.getCompileErrors();
+      const next: Record<string, ExtensionTestResult[] | string> = {};
+
+      for (const fact of facts) {
+        next[resultKey('fact', fact.name)] = compileErrors[fact.name] || await testDynamicFact(sandbox, fact);
+      }
+      for (const operator of operators) {
+        next[resultKey('operator', operator.name)] = compileErrors[operator.name] || await testCustomOperator(sandbox, operator);
+      }
+      setResults(next);
+    } catch (error: any) {
+      message.error(`Could not run examples: ${error.message}`);
+    } finally {
+      sandbox.dispose();
+      setRunning(false);
+    }
+  };
+
+  const handleApply = () => {
+    const names = [...facts.map(fact => fact.name), ...operators.map(operator => operator.name)];
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (names.some(name => !name.trim())) {
+      message.error('Every dynamic fact and operator needs a name');
+      return;
+    }
+    if (duplicate) {
+      message.error(`"${duplicate}" is defined more than once`);
+      return;
+    }
+    onApply(facts, operators);
+    setDirty(false);
+    message.success('Dynamic facts and operators applied to the rules');
+  };
+
+  const renderStatus = (itemKind: ExtensionKind, name: string) => {
+    const result = results[resultKey(itemKind, name)];
+    if (result === undefined) return null;
+    if (typeof result === 'string') return <Tag color="error">DOES NOT COMPILE</Tag>;
+    if (result.length === 0) return <Tag>NO EXAMPLES</Tag>;
+    const failed = result.filter(example => !example.passed).length;
+    return failed ? <Tag color="error">{failed} FAILING</Tag> : <Tag color="success">PASS</Tag>;
+  };
+
+  const renderResults = () => {
+    const result = current ? results[resultKey(kind, current.name)] : undefined;
+    if (result === undefined) return null;
+    if (typeof result === 'string') {
+      return <Alert type="error" showIcon message="Does not compile" description={result} />;
+    }
+    return (
+      <Space direction="vertical" size={2}>
+        {result.map(example => (
+          <Text key={example.index} type={example.passed ? 'success' : 'danger'}>
+            Example {example.index + 1}: {example.passed ? 'passed' : example.error || `got ${JSON.stringify(example.actual)}`}
+          </Text>
+        ))}
+      </Space>
+    );
+  };
+
+  const renderEditor = () => {
+    if (!current) {
+      return <Empty description={kind === 'fact' ? 'No dynamic facts defined' : 'No custom operators defined'} />;
+    }
+    const code = kind === 'fact' ? (current as DynamicFactDefinition).calculator : (current as CustomOperatorDefinition).evaluator;
+
+    return (
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Input
+          addonBefore="Name"
+          value={current.name}
+          onChange={(e) => updateCurrent({ name: e.target.value })}
+        />
+        <TextArea
+          rows={2}
+          value={current.description}
+          onChange={(e) => updateCurrent({ description: e.target.value })}
+          placeholder={kind === 'fact' ? 'What the fact returns and which params it takes' : 'When the operator passes'}
+        />
+        <div>
+          <Text code>{SIGNATURES[kind]}</Text>
+          <div style={{ border: '1px solid #d9d9d9', margin: '4px 0' }}>
+            <MonacoEditor
+              height="180px"
+              language="javascript"
+              theme="vs-dark"
+              value={code}
+              onChange={(value) => updateCurrent(kind === 'fact' ? { calculator: value || '' } : { evaluator: value || '' })}
+              options={{ minimap: { enabled: false }, fontSize: 12, scrollBeyondLastLine: false }}
+            />
+          </div>
+          <Text code>{'}'}</Text>
+        </div>
+        {kind === 'fact' && (
+          <Space>
+            <Switch
+              checked={(current as DynamicFactDefinition).options?.cache !== false}
+              onChange={(cache) => updateCurrent({ options: { ...(current as DynamicFactDefinition).options, cache } })}
+            />
+            <Text>Cache the value for each evaluation</Text>
+          </Space>
+        )}
+        <div>
+          <Text strong>Examples</Text>
+          <Text type="secondary" style={{ marginLeft: 8, fontSize: 12 }}>{EXAMPLE_HINTS[kind]}</Text>
+          <div style={{ border: '1px solid #d9d9d9', marginTop: 4 }}>
+            <MonacoEditor
+              height="140px"
+              language="json"
+              theme="vs-dark"
+              value={examplesText}
+              onChange={handleExamplesChange}
+              options={{ minimap: { enabled: false }, fontSize: 12, lineNumbers: 'off', scrollBeyondLastLine: false }}
+            />
+          </div>
+          {examplesError && <Text type="danger" style={{ fontSize: 12 }}>{examplesError}</Text>}
+        </div>
+        {renderResults()}
+        <Popconfirm title={`Delete ${current.name}?`} onConfirm={deleteCurrent}>
+          <Button danger icon={<DeleteOutlined />}>Delete</Button>
+        </Popconfirm>
+      </Space>
+    );
+  };
+
+  const renderTab = (itemKind: ExtensionKind) => (
+    <Row gutter={16}>
+      <Col span={7}>
+        <List
+          size="small"
+          bordered
+          dataSource={itemsOf(itemKind)}
+          renderItem={(item, index) => (
+            <List.Item
+              onClick={() => setSelected(index)}
+              style={{ cursor: 'pointer', background: index === selected ? '#e6f4ff' : undefined }}
+            >
+              <Space direction="vertical" size={0}>
+                <Text strong>{item.name}</Text>
+                {renderStatus(itemKind, item.name)}
+              </Space>
+            </List.Item>
+          )}
+          footer={
+            <Button type="dashed" block icon={<PlusOutlined />} onClick={addItem}>
+              {itemKind === 'fact' ? 'Add Dynamic Fact' : 'Add Operator'}
+            </Button>
+          }
+        />
+      </Col>
+      <Col span={17}>{renderEditor()}</Col>
+    </Row>
+  );
+
+  return (
+    <Drawer
+      title="Dynamic Facts & Custom Operators"
+      placement="right"
+      width={1000}
+      open={open}
+      onClose={onClose}
+      extra={
+        <Space>
+          <Tooltip title="Run every example in the worker sandbox">
+            <Button icon={<PlayCircleOutlined />} onClick={runExamples} loading={running}>Run Examples</Button>
+          </Tooltip>
+          <Button type="primary" icon={<CheckOutlined />} onClick={handleApply} disabled={!dirty || !!examplesError}>
+            Apply to Rules
+          </Button>
+        </Space>
+      }
+    >
+      <Alert
+        type="info"
+        showIcon
+        style={{ marginBottom: 16 }}
+        message={`Code here runs in an isolated worker with no page, network or storage access, and each call is stopped after ${DEFAULT_SANDBOX_LIMITS.timeoutMs}ms. Calculators can read the input and other dynamic facts with await almanac.factValue(name).`}
+      />
+      <Tabs
+        activeKey={kind}
+        onChange={(key) => {
+          setKind(key as ExtensionKind);
+          setSelected(0);
+        }}
+        items={[
+          { key: 'fact', label: `Dynamic Facts (${facts.length})`, children: renderTab('fact') },
+          { key: 'operator', label: `Custom Operators (${operators.length})`, children: renderTab('operator') }
+        ]}
+      />
+    </Drawer>
+  );
+};
+
+export default EngineExtensionsDrawer;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Select, Space, Tag, Modal } from 'antd';
+import { DeploymentUnitOutlined } from '@ant-design/icons';
+import genesysService from '../services/genesysService';
+import { RulesEnvironment, getEnvironment, getEnvironmentRegion, getEnvironments, hasMultipleEnvironments } from '../services/environments';
+
+interface EnvironmentSwitcherProps {
+  value: string;
+  /** Ask before switching, since the switch reloads the editor and drops its edits */
+  hasUnsavedChanges?: boolean;
+  /** Called after the switch; `requiresLogin` is set when the new environment is in another region */
+  onSwitch: (environment: RulesEnvironment, requiresLogin: boolean) => void;
+}
+
+/**
+ * Header dropdown choosing which environment's rules table the app works on.
+ * Renders nothing when only one environment is configured.
+ */
+const EnvironmentSwitcher: React.FC<EnvironmentSwitcherProps> = ({ value, hasUnsavedChanges, onSwitch }) => {
+  if (!hasMultipleEnvironments()) return null;
+
+  const switchTo = (id: string) => {
+    const { requiresLogin } = genesysService.setEnvironment(id);
+    onSwitch(getEnvironment(id)!, requiresLogin);
+  };
+
+  const handleChange = (id: string) => {
+    const target = getEnvironment(id)!;
+    const current = genesysService.getEnvironment();
+
+    const changesRegion = !genesysService.isMockMode() && getEnvironmentRegion(target) !== getEnvironmentRegion(current);
+
+    if (changesRegion || hasUnsavedChanges) {
+      Modal.confirm({
+        title: `Switch to ${target.label}?`,
+        content: [
+          hasUnsavedChanges && 'Your unsaved changes in the Rules Editor will be discarded.',
+          changesRegion && `${target.label} is in ${getEnvironmentRegion(target)}, so you will need to sign in again.`
+        ].filter(Boolean).join(' '),
+        okText: changesRegion ? 'Switch and sign in' : 'Discard and switch',
+        okButtonProps: { danger: hasUnsavedChanges },
+        onOk: () => switchTo(id)
+      });
+      return;
+    }
+    switchTo(id);
+  };
+
+  return (
+    <Select
+      value={value}
+      onChange={handleChange}
+      style={{ minWidth: 160 }}
+      options={getEnvironments().map(env => ({
+        value: env.id,
+        label: (
+          <Space size={4}>
+            <DeploymentUnitOutlined />
+            <Tag color={env.color || 'default'} style={{ margin: 0 }}>{env.label}</Tag>
+          </Space>
+        )
+      }))}
+    />
+  );
+};
+
+export default EnvironmentSwitcher;
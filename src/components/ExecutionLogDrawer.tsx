@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Descriptions, Tag, Space, Button, Typography, Alert, Table, Spin } from 'antd';
+import { PlayCircleOutlined, CheckCircleOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import MonacoEditor from '@monaco-editor/react';
+import genesysService, { ExecutionLogEntry } from '../services/genesysService';
+
+const { Text } = Typography;
+
+interface ExecutionLogDrawerProps {
+  entry: ExecutionLogEntry | null;
+  onClose: () => void;
+  onReplay: (entry: ExecutionLogEntry) => void;
+}
+
+/**
+ * Details of one logged execution: the input, the outcome and which rules of
+ * the version that ran matched
+ */
+const ExecutionLogDrawer: React.FC<ExecutionLogDrawerProps> = ({ entry, onClose, onReplay }) => {
+  const [versionRules, setVersionRules] = useState<any[] | null>(null);
+  const [loadingRules, setLoadingRules] = useState(false);
+
+  // Load the rules of the version that ran so matches can be shown in context
+  useEffect(() => {
+    if (!entry) return;
+    let cancelled = false;
+    setVersionRules(null);
+    setLoadingRules(true);
+    genesysService.getRulesVersion(entry.rulesVersion)
+      .then(version => {
+        if (!cancelled) setVersionRules(version?.rules?.rules || null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingRules(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry?.key]);
+
+  const ruleRows = versionRules
+    ? [...versionRules]
+        .sort((a, b) => (b.priority || 0) - (a.priority || 0))
+        .map(rule => ({ ...rule, matched: entry!.matchedRules.includes(rule.name) }))
+    : null;
+
+  return (
+    <Drawer
+      title="Execution Details"
+      open={!!entry}
+      onClose={onClose}
+      width={640}
+      extra={
+        entry && (
+          <Button type="primary" icon={<PlayCircleOutlined />} onClick={() => onReplay(entry)}>
+            Replay in Simulator
+          </Button>
+        )
+      }
+    >
+      {entry && (
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          {entry.error && <Alert type="error" showIcon message={entry.error} />}
+
+          <Descriptions column={1} size="small" bordered>
+            <Descriptions.Item label="Time">{dayjs(entry.timestamp).format('YYYY-MM-DD HH:mm:ss')}</Descriptions.Item>
+            <Descriptions.Item label="Rules Version">v{entry.rulesVersion}</Descriptions.Item>
+            <Descriptions.Item label="Destination"><Tag color="blue">{entry.output || 'none'}</Tag></Descriptions.Item>
+            <Descriptions.Item label="Execution Time">{entry.executionTime}ms</Descriptions.Item>
+            <Descriptions.Item label="Trace ID"><Text copyable>{entry.traceId}</Text></Descriptions.Item>
+          </Descriptions>
+
+          <div>
+            <Text strong>Input</Text>
+            <MonacoEditor
+              height="180px"
+              language="json"
+              value={typeof entry.input === 'string' ? entry.input : JSON.stringify(entry.input, null, 2)}
+              options={{ readOnly: true, minimap: { enabled: false }, scrollBeyondLastLine: false }}
+            />
+          </div>
+
+          <div>
+            <Text strong>Matched Rules</Text>
+            {loadingRules ? (
+              <div><Spin size="small" /></div>
+            ) : ruleRows ? (
+              <Table
+                size="small"
+                rowKey="name"
+                pagination={false}
+                dataSource={ruleRows}
+                columns={[
+                  {
+                    title: 'Rule',
+                    dataIndex: 'name',
+                    render: (name, rule: any) => (
+                      <Space>
+                        {rule.matched && <CheckCircleOutlined style={{ color: '#52c41a' }} />}
+                        <Text strong={rule.matched} type={rule.matched ? undefined : 'secondary'}>{name}</Text>
+                      </Space>
+                    )
+                  },
+                  { title: 'Priority', dataIndex: 'priority', width: 80 },
+                  { title: 'Destination', key: 'destination', render: (_, rule: any) => rule.event?.params?.destination }
+                ]}
+              />
+            ) : (
+              <div>
+                <Text type="secondary">v{entry.rulesVersion} is no longer available. </Text>
+                <Space wrap>
+                  {entry.matchedRules.length > 0
+                    ? entry.matchedRules.map(rule => <Tag key={rule} color="green">{rule}</Tag>)
+                    : <Text type="secondary">No rules matched</Text>}
+                </Space>
+              </div>
+            )}
+          </div>
+        </Space>
+      )}
+    </Drawer>
+  );
+};
+
+export default ExecutionLogDrawer;
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Table, Button, Input, Select, AutoComplete, Space, Alert, Tooltip, Popconfirm, message } from 'antd';
+import { PlusOutlined, DeleteOutlined, CheckOutlined, ImportOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { FactDefinition, FactType, RuleCondition } from './VisualRuleEditor/types';
+import { FACT_SOURCES, FACT_TYPES, inferUndeclaredFacts } from '../utils/factCatalog';
+import { validateFactCatalogDiagnostics } from '../utils/ruleValidation';
+
+interface FactCatalogDrawerProps {
+  open: boolean;
+  /** Parsed rules configuration being edited */
+  rulesConfig: any;
+  onClose: () => void;
+  onApply: (factCatalog: FactDefinition[]) => void;
+}
+
+/**
+ * Edit the fact catalog: the routing inputs rules may use, their types,
+ * allowed values and where they come from
+ */
+const FactCatalogDrawer: React.FC<FactCatalogDrawerProps> = ({ open, rulesConfig, onClose, onApply }) => {
+  const [facts, setFacts] = useState<FactDefinition[]>([]);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFacts(Array.isArray(rulesConfig?.factCatalog) ? rulesConfig.factCatalog : []);
+    setDirty(false);
+  }, [open]);
+
+  const updateFact = (index: number, changes: Partial<FactDefinition>) => {
+    setFacts(facts.map((fact, position) => (position === index ? { ...fact, ...changes } : fact)));
+    setDirty(true);
+  };
+
+  const addFact = () => {
+    setFacts([...facts, { name: '', type: 'string', description: '' }]);
+    setDirty(true);
+  };
+
+  const deleteFact = (index: number) => {
+    setFacts(facts.filter((_, position) => position !== index));
+    setDirty(true);
+  };
+
+  // Declare every fact the rules already use, typed from the values they are compared with
+  const importUsedFacts = () => {
+    const conditions: RuleCondition[] = [
+      ...(rulesConfig?.rules || []).map((rule: any) => rule?.conditions),
+      ...Object.values<RuleCondition>(rulesConfig?.sharedConditions || {})
+    ];
+    const dynamicFacts = (rulesConfig?.dynamicFacts || []).map((fact: any) => fact?.name);
+    const found = inferUndeclaredFacts(conditions, facts, dynamicFacts);
+    if (found.length === 0) {
+      message.info('Every fact the rules use is already declared');
+      return;
+    }
+    setFacts([...facts, ...found]);
+    setDirty(true);
+    message.success(`Added ${found.length} fact${found.length === 1 ? '' : 's'}; check their types and fill in values and sources`);
+  };
+
+  const handleApply = () => {
+    const errors = validateFactCatalogDiagnostics(facts).filter(item => item.severity === 'error');
+    if (errors.length > 0) {
+      message.error(errors[0].message);
+      return;
+    }
+    onApply(facts);
+    setDirty(false);
+    message.success('Fact catalog applied to the rules');
+  };
+
+  const columns: ColumnsType<FactDefinition> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      width: 180,
+      render: (name, _fact, index) => (
+        <Input value={name} placeholder="brand" onChange={(e) => updateFact(index, { name: e.target.value })} />
+      )
+    },
+    {
+      title: 'Type',
+      dataIndex: 'type',
+      key: 'type',
+      width: 120,
+      render: (type, _fact, index) => (
+        <Select
+          value={type}
+          style={{ width: '100%' }}
+          options={FACT_TYPES.map(option => ({ value: option, label: option }))}
+          onChange={(next: FactType) => updateFact(index, { type: next })}
+        />
+      )
+    },
+    {
+      title: 'Allowed Values',
+      dataIndex: 'values',
+      key: 'values',
+      render: (values, fact, index) => (fact.type === 'enum' || fact.type === 'list') ? (
+        <Select
+          mode="tags"
+          value={values || []}
+          style={{ width: '100%' }}
+          placeholder={fact.type === 'enum' ? 'Required for enums' : 'Any'}
+          tokenSeparators={[',']}
+          onChange={(next: Array<string | number>) => updateFact(index, { values: next.length > 0 ? next : undefined })}
+        />
+      ) : null
+    },
+    {
+      title: 'Source',
+      dataIndex: 'source',
+      key: 'source',
+      width: 120,
+      render: (source, _fact, index) => (
+        <AutoComplete
+          value={source}
+          style={{ width: '100%' }}
+          options={FACT_SOURCES.map(option => ({ value: option }))}
+          onChange={(next) => updateFact(index, { source: next || undefined })}
+        />
+      )
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+      render: (description, _fact, index) => (
+        <Input value={description} onChange={(e) => updateFact(index, { description: e.target.value })} />
+      )
+    },
+    {
+      key: 'actions',
+      width: 50,
+      render: (_value, fact, index) => (
+        <Popconfirm title={`Remove ${fact.name || 'this fact'}?`} onConfirm={() => deleteFact(index)}>
+          <Button type="text" danger icon={<DeleteOutlined />} />
+        </Popconfirm>
+      )
+    }
+  ];
+
+  return (
+    <Drawer
+      title="Fact Catalog"
+      placement="right"
+      width={1000}
+      open={open}
+      onClose={onClose}
+      extra={
+        <Space>
+          <Tooltip title="Declare the facts the rules use that are not in the catalog yet">
+            <Button icon={<ImportOutlined />} onClick={importUsedFacts}>Add Facts Used in Rules</Button>
+          </Tooltip>
+          <Button type="primary" icon={<CheckOutlined />} onClick={handleApply} disabled={!dirty}>
+            Apply to Rules
+          </Button>
+        </Space>
+      }
+    >
+      <Alert
+        type="info"
+        showIcon
+        style={{ marginBottom: 16 }}
+        message="Once any fact is declared, conditions using undeclared facts or comparing a fact with the wrong type of value get warnings. The visual editor offers declared facts, the operators that suit their type and their allowed values."
+      />
+      <Table
+        size="small"
+        rowKey={(_fact, index) => String(index)}
+        columns={columns}
+        dataSource={facts}
+        pagination={false}
+        locale={{ emptyText: 'No facts declared' }}
+        footer={() => (
+          <Button type="dashed" block icon={<PlusOutlined />} onClick={addFact}>
+            Add Fact
+          </Button>
+        )}
+      />
+    </Drawer>
+  );
+};
+
+export default FactCatalogDrawer;
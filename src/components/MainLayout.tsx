@@ -23,6 +23,9 @@ import {
 import { useAuth } from '../contexts/AuthContext';
 import { useRulesEditor } from '../contexts/RulesEditorContext';
 import { HelpWiki } from './HelpWiki';
+import EnvironmentSwitcher from './EnvironmentSwitcher';
+import genesysService from '../services/genesysService';
+import type { RulesEnvironment } from '../services/environments';
 
 const { Header, Sider, Content } = Layout;
 
@@ -32,6 +35,7 @@ export const MainLayout: React.FC = () => {
   const { user, logout, tokenExpiry } = useAuth();
   const { hasUnsavedChanges, isEditorActive } = useRulesEditor();
   const [helpVisible, setHelpVisible] = useState(false);
+  const [environmentId, setEnvironmentId] = useState(() => genesysService.getEnvironment().id);
   const [tokenStatus, setTokenStatus] = useState({ status: 'success', text: 'Valid' });
 
   // Update token status indicator
@@ -121,6 +125,17 @@ export const MainLayout: React.FC = () => {
           </div>
           
           <Space size="large">
+            <EnvironmentSwitcher
+              value={environmentId}
+              onSwitch={(environment: RulesEnvironment, requiresLogin: boolean) => {
+                if (requiresLogin) {
+                  navigate('/login', { replace: true });
+                } else {
+                  setEnvironmentId(environment.id);
+                }
+              }}
+            />
+
             {/* Token Status Indicator */}
             <Tooltip title={`OAuth Token Status: ${tokenStatus.text}`}>
               <div style={{ marginRight: '16px', display: 'flex', alignItems: 'center', gap: '6px' }}>
@@ -223,7 +238,10 @@ export const MainLayout: React.FC = () => {
               border: '1px solid var(--border-color)',
               boxShadow: '0 2px 8px rgba(0,0,0,0.15)'
             }}>
-              <Outlet />
+              {/* Keyed by environment so pages reload their rules after a switch */}
+              <div key={environmentId}>
+                <Outlet />
+              </div>
             </Content>
           </Layout>
         </Layout>
@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Modal, Select, Space, Tag, Typography, Input, Alert, Spin, Empty, message } from 'antd';
+import { ArrowRightOutlined } from '@ant-design/icons';
+import { DiffEditor } from '@monaco-editor/react';
+import genesysService, { DeployConflictError } from '../services/genesysService';
+import { getEnvironment, getEnvironments } from '../services/environments';
+import { diffRulesConfigs } from '../utils/ruleDiff';
+
+const { Text } = Typography;
+
+interface PromoteModalProps {
+  open: boolean;
+  /** Deployed version of the current environment to promote */
+  version: { key: string; version: number; rules: any } | null;
+  onClose: () => void;
+  onPromoted: (environmentLabel: string, version: number) => void;
+}
+
+interface TargetState {
+  version: number | null;
+  rules: any;
+}
+
+const CHANGE_TAGS = { added: 'green', removed: 'red', renamed: 'purple', changed: 'orange' } as const;
+
+/**
+ * Copy a version into another environment after reviewing what it changes there
+ */
+const PromoteModal: React.FC<PromoteModalProps> = ({ open, version, onClose, onPromoted }) => {
+  const source = genesysService.getEnvironment();
+  const targets = getEnvironments().filter(env => env.id !== source.id);
+
+  const [targetId, setTargetId] = useState<string | undefined>();
+  const [target, setTarget] = useState<TargetState | null>(null);
+  const [loadingTarget, setLoadingTarget] = useState(false);
+  const [description, setDescription] = useState('');
+  const [promoting, setPromoting] = useState(false);
+
+  const versionKey = version?.key;
+  const versionNumber = version?.version;
+
+  const loadTarget = useCallback(async (id: string) => {
+    try {
+      setLoadingTarget(true);
+      setTarget(null);
+      const active = await genesysService.getActiveRules(id);
+      setTarget({ version: active?.version ?? null, rules: active?.rules ?? null });
+    } finally {
+      setLoadingTarget(false);
+    }
+  }, []);
+
+  // Default to the next environment in promotion order
+  useEffect(() => {
+    if (!open || !versionKey) return;
+    const environments = getEnvironments();
+    const next = environments[environments.findIndex(env => env.id === source.id) + 1]
+      || environments.find(env => env.id !== source.id);
+    setTargetId(next?.id);
+  }, [open, versionKey, source.id]);
+
+  useEffect(() => {
+    if (!open || !versionKey || !targetId) return;
+    setDescription(`Promote ${source.label} v${versionNumber} to ${getEnvironment(targetId)!.label}`);
+    loadTarget(targetId);
+  }, [open, versionKey, versionNumber, targetId, source.label, loadTarget]);
+
+  const diff = useMemo(
+    () => (target && version ? diffRulesConfigs(target.rules, version.rules) : null),
+    [target, version]
+  );
+
+  const handlePromote = async () => {
+    if (!version || !targetId || !target) return;
+    try {
+      setPromoting(true);
+      const promoted = await genesysService.promoteVersion(version.key, targetId, description.trim(), target.version);
+      onPromoted(getEnvironment(targetId)!.label, promoted);
+    } catch (error: any) {
+      if (error instanceof DeployConflictError) {
+        message.warning(`${error.message}. Review the updated changes and promote again.`);
+        await loadTarget(targetId);
+      } else {
+        message.error(`Promotion failed: ${error.message}`);
+      }
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  const targetLabel = targetId ? getEnvironment(targetId)?.label : undefined;
+
+  return (
+    <Modal
+      title={version ? `Promote v${version.version}` : 'Promote'}
+      open={open}
+      onCancel={onClose}
+      onOk={handlePromote}
+      okText={targetLabel ? `Promote to ${targetLabel}` : 'Promote'}
+      okButtonProps={{ disabled: !target || !description.trim(), loading: promoting }}
+      width={1000}
+      destroyOnClose
+    >
+      {targets.length === 0 ? (
+        <Empty description="Configure more than one environment in VITE_ENVIRONMENTS to promote versions" />
+      ) : (
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <Space>
+            <Tag>{source.label} v{version?.version}</Tag>
+            <ArrowRightOutlined />
+            <Select
+              value={targetId}
+              onChange={setTargetId}
+              style={{ minWidth: 180 }}
+              options={targets.map(env => ({ value: env.id, label: env.label }))}
+            />
+            {target && (
+              <Text type="secondary">
+                {target.version !== null ? `currently v${target.version}` : 'no active version yet'}
+              </Text>
+            )}
+          </Space>
+
+          {loadingTarget && <Spin />}
+
+          {diff && (
+            <>
+              <Space wrap>
+                {(['added', 'removed', 'renamed', 'changed'] as const).map(kind => (
+                  <Tag key={kind} color={CHANGE_TAGS[kind]}>
+                    {diff.summary[kind]} {kind}
+                  </Tag>
+                ))}
+                <Tag>{diff.summary.unchanged} unchanged</Tag>
+              </Space>
+              {diff.settingsChanged.length > 0 && (
+                <Alert type="info" showIcon message={`Engine settings changed: ${diff.settingsChanged.join(', ')}`} />
+              )}
+              <DiffEditor
+                height="360px"
+                language="json"
+                theme="vs-dark"
+                original={target?.rules ? JSON.stringify(target.rules, null, 2) : ''}
+                modified={JSON.stringify(version?.rules, null, 2)}
+                options={{ readOnly: true, minimap: { enabled: false }, renderSideBySide: true }}
+              />
+            </>
+          )}
+
+          <div>
+            <Text strong>Description</Text>
+            <Input.TextArea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="Why is this version being promoted?"
+            />
+            <Text type="secondary">
+              <small>Goes live in {targetLabel} as its next version. The promotion is recorded on the new row.</small>
+            </Text>
+          </div>
+        </Space>
+      )}
+    </Modal>
+  );
+};
+
+export default PromoteModal;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Space, Radio, InputNumber, Upload, Button, Alert, Table, Tag, Typography, Statistic, Row, Col, message } from 'antd';
+import { PlayCircleOutlined, UploadOutlined, ArrowRightOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import genesysService from '../services/genesysService';
+import { RegressionChange, RegressionReport, ReplayOutcome, parseReplayInputs, runRegressionReplay } from '../utils/regressionReplay';
+
+const { Text } = Typography;
+
+interface RegressionReplayPanelProps {
+  /** Rules currently live, the baseline */
+  activeRules: any;
+  /** Rules about to be deployed */
+  candidateRules: any;
+}
+
+/**
+ * Replay logged or uploaded inputs through the live and edited rules and
+ * list every input that would be routed differently
+ */
+const RegressionReplayPanel: React.FC<RegressionReplayPanelProps> = ({ activeRules, candidateRules }) => {
+  const hasLogs = genesysService.hasExecutionLogs();
+  const [source, setSource] = useState<'logs' | 'file'>(hasLogs ? 'logs' : 'file');
+  const [limit, setLimit] = useState(500);
+  const [fileInputs, setFileInputs] = useState<{ name: string; inputs: any[] } | null>(null);
+  const [report, setReport] = useState<RegressionReport | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const handleFile = async (file: File) => {
+    try {
+      const inputs = parseReplayInputs(await file.text());
+      if (inputs.length === 0) {
+        message.warning(`${file.name} has no input objects`);
+        return;
+      }
+      setFileInputs({ name: file.name, inputs });
+      setReport(null);
+    } catch (error: any) {
+      message.error(`Could not read ${file.name}: ${error.message}`);
+    }
+  };
+
+  const runReplay = async () => {
+    try {
+      setRunning(true);
+      const inputs = source === 'logs'
+        ? (await genesysService.getAllExecutionLogs()).slice(0, limit).map(entry => entry.input)
+        : fileInputs?.inputs || [];
+
+      if (inputs.length === 0) {
+        message.warning('No inputs to replay');
+        return;
+      }
+      setReport(await runRegressionReplay(activeRules, candidateRules, inputs));
+    } catch (error: any) {
+      message.error(`Replay failed: ${error.message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderOutcome = (outcome: ReplayOutcome, highlight: boolean) => (
+    <Space direction="vertical" size={0}>
+      <Tag color={outcome.error ? 'red' : highlight ? 'orange' : 'blue'}>{outcome.destination}</Tag>
+      <Text type="secondary" style={{ fontSize: 12 }}>{outcome.error || outcome.matchedRule || 'default destination'}</Text>
+    </Space>
+  );
+
+  const columns: ColumnsType<RegressionChange> = [
+    {
+      title: 'Input',
+      dataIndex: 'input',
+      key: 'input',
+      render: (input) => <Text code style={{ fontSize: 12 }}>{JSON.stringify(input)}</Text>
+    },
+    {
+      title: 'Live',
+      key: 'before',
+      render: (_, change) => renderOutcome(change.before, false)
+    },
+    {
+      title: '',
+      key: 'arrow',
+      width: 32,
+      render: () => <ArrowRightOutlined />
+    },
+    {
+      title: 'Draft',
+      key: 'after',
+      render: (_, change) => renderOutcome(change.after, change.destinationChanged)
+    },
+    {
+      title: 'Seen',
+      dataIndex: 'count',
+      key: 'count',
+      width: 70,
+      render: (count) => `${count}x`
+    }
+  ];
+
+  const destinationChanges = report?.changes.filter(change => change.destinationChanged) || [];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Radio.Group value={source} onChange={(e) => { setSource(e.target.value); setReport(null); }}>
+        <Space direction="vertical">
+          <Radio value="logs" disabled={!hasLogs}>
+            <Space>
+              Last
+              <InputNumber
+                min={1}
+                max={10000}
+                size="small"
+                value={limit}
+                onChange={(value) => setLimit(value || 1)}
+                disabled={!hasLogs}
+                style={{ width: 90 }}
+              />
+              logged inputs
+            </Space>
+          </Radio>
+          <Radio value="file">
+            <Space>
+              Inputs file
+              <Upload
+                accept=".json,.jsonl,.txt"
+                showUploadList={false}
+                beforeUpload={(file) => {
+                  setSource('file');
+                  handleFile(file);
+                  return false;
+                }}
+              >
+                <Button icon={<UploadOutlined />} size="small">
+                  {fileInputs ? `${fileInputs.name} (${fileInputs.inputs.length})` : 'Choose file'}
+                </Button>
+              </Upload>
+            </Space>
+          </Radio>
+        </Space>
+      </Radio.Group>
+      <Button
+        type="primary"
+        icon={<PlayCircleOutlined />}
+        onClick={runReplay}
+        loading={running}
+        disabled={source === 'file' && !fileInputs}
+      >
+        Run Replay
+      </Button>
+      {!hasLogs && (
+        <Text type="secondary"><small>No logs table configured; upload a JSON array or JSON Lines file of inputs instead.</small></Text>
+      )}
+
+      {report && (
+        <>
+          <Row gutter={16}>
+            <Col span={8}><Statistic title="Inputs Replayed" value={report.total} suffix={<Text type="secondary" style={{ fontSize: 12 }}>{report.distinctInputs} distinct</Text>} /></Col>
+            <Col span={8}><Statistic title="Destination Changes" value={destinationChanges.length} valueStyle={destinationChanges.length ? { color: '#fa8c16' } : undefined} /></Col>
+            <Col span={8}><Statistic title="Rule-Only Changes" value={report.changes.length - destinationChanges.length} /></Col>
+          </Row>
+          {report.changes.length === 0 ? (
+            <Alert type="success" showIcon message="Every replayed input is routed the same way by the draft" />
+          ) : (
+            <Table
+              size="small"
+              rowKey={(change) => JSON.stringify(change.input)}
+              columns={columns}
+              dataSource={report.changes}
+              pagination={{ pageSize: 5, size: 'small' }}
+            />
+          )}
+        </>
+      )}
+    </Space>
+  );
+};
+
+export default RegressionReplayPanel;
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Row, Col, List, Tag, Space, Typography, Radio, Alert, Empty, Badge } from 'antd';
+import { BranchesOutlined } from '@ant-design/icons';
+import { DiffEditor } from '@monaco-editor/react';
+import { RulesConfig } from './VisualRuleEditor/types';
+import {
+  mergeRulesConfigs,
+  applyMergeResolutions,
+  countUnresolved,
+  CONFIG_RESOLUTION_KEY,
+  RULE_EXISTENCE_FIELD,
+  DUPLICATE_NAME_FIELD,
+  FieldConflict,
+  MergeResolutions,
+  MergeSide,
+  RuleMergeStatus
+} from '../utils/ruleMerge';
+
+const { Text } = Typography;
+
+interface RulesMergeModalProps {
+  open: boolean;
+  base: RulesConfig | null;
+  mine: RulesConfig;
+  theirs: RulesConfig;
+  baseVersion: number | null;
+  theirsVersion: number | null;
+  onCancel: () => void;
+  onMerged: (config: RulesConfig) => void;
+}
+
+const STATUS_TAGS: Record<RuleMergeStatus, { color: string; label: string }> = {
+  'unchanged': { color: 'default', label: 'Unchanged' },
+  'added-mine': { color: 'green', label: 'Added by you' },
+  'added-theirs': { color: 'cyan', label: 'Added by them' },
+  'added-both': { color: 'green', label: 'Added by both' },
+  'removed': { color: 'default', label: 'Removed' },
+  'changed': { color: 'blue', label: 'Changed' },
+  'conflict': { color: 'red', label: 'Conflict' }
+};
+
+/**
+ * Stringify a value for the diff editor, showing absence explicitly
+ */
+const toDiffText = (value: unknown): string =>
+  value === undefined ? '// not present' : JSON.stringify(value, null, 2);
+
+/**
+ * Three-way merge view for concurrent rule edits.
+ * Rules are merged by name; conflicting fields are resolved per rule by
+ * choosing either your version or the newly active one.
+ */
+const RulesMergeModal: React.FC<RulesMergeModalProps> = ({
+  open,
+  base,
+  mine,
+  theirs,
+  baseVersion,
+  theirsVersion,
+  onCancel,
+  onMerged
+}) => {
+  const result = useMemo(() => mergeRulesConfigs(base, mine, theirs), [base, mine, theirs]);
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const items = useMemo(() => {
+    const entries = result.rules
+      .filter(entry => entry.status !== 'unchanged')
+      .map(entry => ({ key: entry.name, label: entry.name, status: entry.status, conflicts: entry.conflicts }));
+
+    if (result.sections.length > 0) {
+      entries.unshift({
+        key: CONFIG_RESOLUTION_KEY,
+        label: 'Engine settings',
+        status: 'conflict' as RuleMergeStatus,
+        conflicts: result.sections
+      });
+    }
+    return entries;
+  }, [result]);
+
+  /**
+   * Start fresh whenever a new merge is opened
+   */
+  useEffect(() => {
+    if (open) {
+      setResolutions({});
+      setSelectedKey(items.find(item => item.conflicts.length > 0)?.key || items[0]?.key || null);
+    }
+  }, [open, items]);
+
+  const unresolved = countUnresolved(result, resolutions);
+  const selected = items.find(item => item.key === selectedKey);
+
+  const resolve = (key: string, field: string, side: MergeSide) => {
+    setResolutions(prev => ({ ...prev, [key]: { ...prev[key], [field]: side } }));
+  };
+
+  const resolveAll = (side: MergeSide) => {
+    const next: MergeResolutions = {};
+    items.forEach(item => {
+      item.conflicts.forEach(conflict => {
+        next[item.key] = { ...next[item.key], [conflict.field]: side };
+      });
+    });
+    setResolutions(next);
+  };
+
+  const renderConflict = (key: string, conflict: FieldConflict) => {
+    const isExistence = conflict.field === RULE_EXISTENCE_FIELD;
+    const isDuplicate = conflict.field === DUPLICATE_NAME_FIELD;
+    return (
+      <div key={conflict.field} style={{ marginBottom: 16 }}>
+        <Space style={{ marginBottom: 8 }}>
+          <Text strong>
+            {isExistence
+              ? 'Rule removed on one side, changed on the other'
+              : isDuplicate ? 'Several rules share this name; choose one side\'s set' : conflict.field}
+          </Text>
+          <Radio.Group
+            size="small"
+            value={resolutions[key]?.[conflict.field]}
+            onChange={(e) => resolve(key, conflict.field, e.target.value)}
+            optionType="button"
+            buttonStyle="solid"
+          >
+            <Radio.Button value="theirs">
+              {isExistence && conflict.theirs === undefined ? 'Remove (theirs)' : `Take v${theirsVersion ?? '?'}`}
+            </Radio.Button>
+            <Radio.Button value="mine">
+              {isExistence && conflict.mine === undefined ? 'Remove (mine)' : 'Keep mine'}
+            </Radio.Button>
+          </Radio.Group>
+        </Space>
+        <DiffEditor
+          height={isExistence || isDuplicate || conflict.field === 'conditions' ? '260px' : '120px'}
+          language="json"
+          theme="vs-dark"
+          original={toDiffText(conflict.theirs)}
+          modified={toDiffText(conflict.mine)}
+          options={{
+            readOnly: true,
+            minimap: { enabled: false },
+            renderSideBySide: true,
+            scrollBeyondLastLine: false
+          }}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <BranchesOutlined />
+          <span>
+            Merge changes (base v{baseVersion ?? 'none'} · yours · active v{theirsVersion ?? 'none'})
+          </span>
+        </Space>
+      }
+      open={open}
+      onCancel={onCancel}
+      onOk={() => onMerged(applyMergeResolutions(result, resolutions))}
+      okText={unresolved > 0 ? `${unresolved} conflict(s) left` : 'Apply Merge'}
+      okButtonProps={{ disabled: unresolved > 0 }}
+      width={1200}
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Alert
+          type={result.conflictCount > 0 ? 'warning' : 'success'}
+          showIcon
+          message={
+            result.conflictCount > 0
+              ? `${result.conflictCount} conflict(s) need a decision before the merge can be applied`
+              : 'All changes merged cleanly'
+          }
+          description="Left side of each diff is the newly active version, right side is yours. The merged result replaces the editor contents; review and test it before deploying."
+          action={result.conflictCount > 0 && (
+            <Space direction="vertical">
+              <a onClick={() => resolveAll('mine')}>Keep all mine</a>
+              <a onClick={() => resolveAll('theirs')}>Take all theirs</a>
+            </Space>
+          )}
+        />
+
+        <Row gutter={16}>
+          <Col span={7}>
+            <List
+              size="small"
+              bordered
+              dataSource={items}
+              locale={{ emptyText: 'No differences' }}
+              style={{ maxHeight: 560, overflowY: 'auto' }}
+              renderItem={(item) => {
+                const pending = item.conflicts.filter(c => !resolutions[item.key]?.[c.field]).length;
+                return (
+                  <List.Item
+                    onClick={() => setSelectedKey(item.key)}
+                    style={{
+                      cursor: 'pointer',
+                      background: item.key === selectedKey ? '#fff7e6' : undefined
+                    }}
+                  >
+                    <Space>
+                      <Badge status={pending > 0 ? 'error' : item.conflicts.length > 0 ? 'success' : 'default'} />
+                      <Text>{item.label}</Text>
+                    </Space>
+                    <Tag color={STATUS_TAGS[item.status].color}>{STATUS_TAGS[item.status].label}</Tag>
+                  </List.Item>
+                );
+              }}
+            />
+          </Col>
+          <Col span={17}>
+            <div style={{ maxHeight: 560, overflowY: 'auto' }}>
+              {!selected ? (
+                <Empty description="Select a rule to review" />
+              ) : selected.conflicts.length > 0 ? (
+                selected.conflicts.map(conflict => renderConflict(selected.key, conflict))
+              ) : (
+                <>
+                  <Alert
+                    type="info"
+                    showIcon
+                    message={`${STATUS_TAGS[selected.status].label} - merged automatically`}
+                    style={{ marginBottom: 8 }}
+                  />
+                  {(() => {
+                    const entry = result.rules.find(r => r.name === selected.key);
+                    return (
+                      <DiffEditor
+                        height="400px"
+                        language="json"
+                        theme="vs-dark"
+                        original={toDiffText(entry?.base)}
+                        modified={toDiffText(entry?.merged)}
+                        options={{ readOnly: true, minimap: { enabled: false }, renderSideBySide: true }}
+                      />
+                    );
+                  })()}
+                </>
+              )}
+            </div>
+          </Col>
+        </Row>
+      </Space>
+    </Modal>
+  );
+};
+
+export default RulesMergeModal;
@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import { DatePicker, Select, Space, Typography } from 'antd';
+import dayjs from 'dayjs';
+import type { SimulatedClock } from './VisualRuleEditor/types';
+import { getLocalTimezone, listTimezones } from '../utils/businessCalendar';
+
+const { Text } = Typography;
+
+interface SimulatedClockPickerProps {
+  value?: SimulatedClock;
+  onChange?: (clock: SimulatedClock) => void;
+}
+
+/**
+ * Pin the date, time and timezone time-based facts see. The picked time is
+ * wall-clock time in the picked timezone, so 17:01 in Europe/Dublin means
+ * 17:01 in Dublin whatever the browser's timezone.
+ */
+const SimulatedClockPicker: React.FC<SimulatedClockPickerProps> = ({ value = {}, onChange }) => {
+  const timezones = useMemo(() => listTimezones().map(timezone => ({ value: timezone, label: timezone })), []);
+
+  return (
+    <Space direction="vertical" size={2} style={{ width: '100%' }}>
+      <Space.Compact style={{ width: '100%' }}>
+        <DatePicker
+          showTime={{ format: 'HH:mm' }}
+          format="YYYY-MM-DD HH:mm"
+          placeholder="Now"
+          value={value.at ? dayjs(value.at) : null}
+          onChange={(date) => onChange?.({ ...value, at: date ? date.format('YYYY-MM-DDTHH:mm') : undefined })}
+          style={{ width: '50%' }}
+        />
+        <Select
+          showSearch
+          allowClear
+          placeholder={getLocalTimezone()}
+          value={value.timezone}
+          options={timezones}
+          onChange={(timezone) => onChange?.({ ...value, timezone })}
+          style={{ width: '50%' }}
+        />
+      </Space.Compact>
+      <Text type="secondary" style={{ fontSize: 12 }}>
+        {value.at
+          ? `Time-based facts see ${value.at.replace('T', ' ')} in ${value.timezone || getLocalTimezone()}`
+          : 'Time-based facts use the live clock'}
+      </Text>
+    </Space>
+  );
+};
+
+export default SimulatedClockPicker;
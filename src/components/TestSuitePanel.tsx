@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Space, Button, Table, Tag, Tooltip, Modal, Form, Input, Select, Alert, Typography, Popconfirm, message } from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, ImportOutlined, ReloadOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { RuleTestCase, SimulatedClock } from './VisualRuleEditor/types';
+import { RuleEngineSimulator } from '../utils/ruleEngineSimulator';
+import { TestCaseResult, TestSuiteResult, runTestSuite, validateTestCases } from '../utils/testSuite';
+import SimulatedClockPicker from './SimulatedClockPicker';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+interface TestSuitePanelProps {
+  /** Parsed rules configuration being edited, including its test cases */
+  rulesConfig: any;
+  /** Input currently in the single test editor, offered as the input of a new case */
+  currentInput: string;
+  /** Simulated time of the single test, offered as the time of a new case */
+  currentClock: SimulatedClock;
+  onChange: (testCases: RuleTestCase[]) => void;
+  /** Copy a case's input and time into the single test editor */
+  onLoadInput: (input: any, clock?: SimulatedClock) => void;
+}
+
+interface TestCaseFormValues {
+  name: string;
+  input: string;
+  expectedDestination: string;
+  expectedRule?: string;
+  clock?: SimulatedClock;
+}
+
+/**
+ * Named test cases saved with the rules, run against the edited rules on every change
+ */
+const TestSuitePanel: React.FC<TestSuitePanelProps> = ({ rulesConfig, currentInput, currentClock, onChange, onLoadInput }) => {
+  const testCases: RuleTestCase[] = Array.isArray(rulesConfig?.testCases) ? rulesConfig.testCases : [];
+  const [suiteResult, setSuiteResult] = useState<TestSuiteResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [editing, setEditing] = useState<{ index: number; values: TestCaseFormValues } | null>(null);
+  const [form] = Form.useForm<TestCaseFormValues>();
+
+  const structureErrors = useMemo(() => validateTestCases(rulesConfig?.testCases), [rulesConfig]);
+  const ruleNames: string[] = (rulesConfig?.rules || []).map((rule: any) => rule.name).filter(Boolean);
+
+  useEffect(() => {
+    runSuite();
+  }, [rulesConfig]);
+
+  const runSuite = async () => {
+    if (!rulesConfig || structureErrors.length > 0) {
+      setSuiteResult(null);
+      return;
+    }
+    try {
+      setRunning(true);
+      setSuiteResult(await runTestSuite(rulesConfig));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const resultFor = (name: string): TestCaseResult | undefined =>
+    suiteResult?.results.find(result => result.name === name);
+
+  // New cases start from the single test input, expecting what the rules decide now
+  const openNewCase = async () => {
+    let input: any = {};
+    try {
+      input = JSON.parse(currentInput);
+    } catch {
+      // Fall back to an empty input
+    }
+    let decided: { destination: string; matchedRules: string[] } | null = null;
+    const simulator = new RuleEngineSimulator(rulesConfig, { mode: 'engine' });
+    try {
+      decided = await simulator.evaluate(input, currentClock);
+    } catch {
+      // Leave the expectations for the user to fill in
+    } finally {
+      simulator.dispose();
+    }
+    setEditing({
+      index: testCases.length,
+      values: {
+        name: '',
+        input: JSON.stringify(input, null, 2),
+        expectedDestination: decided?.destination || '',
+        expectedRule: decided?.matchedRules[0],
+        clock: currentClock
+      }
+    });
+  };
+
+  const openCase = (index: number) => {
+    const testCase = testCases[index];
+    setEditing({
+      index,
+      values: {
+        name: testCase.name,
+        input: JSON.stringify(testCase.input, null, 2),
+        expectedDestination: testCase.expectedDestination,
+        expectedRule: testCase.expectedRule,
+        clock: testCase.clock
+      }
+    });
+  };
+
+  const saveCase = () => {
+    form.validateFields().then(values => {
+      const testCase: RuleTestCase = {
+        name: values.name.trim(),
+        input: JSON.parse(values.input),
+        expectedDestination: values.expectedDestination.trim(),
+        ...(values.expectedRule ? { expectedRule: values.expectedRule } : {}),
+        ...(values.clock?.at || values.clock?.timezone ? { clock: values.clock } : {})
+      };
+      const updated = [...testCases];
+      updated[editing!.index] = testCase;
+      onChange(updated);
+      setEditing(null);
+      message.success(`Test case "${testCase.name}" saved with the rules`);
+    });
+  };
+
+  const deleteCase = (index: number) => {
+    onChange(testCases.filter((_, caseIndex) => caseIndex !== index));
+  };
+
+  const columns: ColumnsType<RuleTestCase> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name, testCase) => (
+        <Space direction="vertical" size={0}>
+          <Tooltip title={<pre style={{ margin: 0 }}>{JSON.stringify(testCase.input, null, 2)}</pre>}>
+            <Text strong>{name}</Text>
+          </Tooltip>
+          {testCase.clock?.at && (
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              at {testCase.clock.at.replace('T', ' ')}{testCase.clock.timezone ? ` ${testCase.clock.timezone}` : ''}
+            </Text>
+          )}
+        </Space>
+      )
+    },
+    {
+      title: 'Expected',
+      key: 'expected',
+      render: (_, testCase) => (
+        <Space direction="vertical" size={0}>
+          <Tag color="blue">{testCase.expectedDestination}</Tag>
+          {testCase.expectedRule && <Text type="secondary" style={{ fontSize: 12 }}>via {testCase.expectedRule}</Text>}
+        </Space>
+      )
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      render: (_, testCase) => {
+        const result = resultFor(testCase.name);
+        if (!result) return <Tag>NOT RUN</Tag>;
+        return result.passed ? (
+          <Tag color="success">PASS</Tag>
+        ) : (
+          <Space direction="vertical" size={0}>
+            <Tag color="error">FAIL</Tag>
+            {result.failures.map(failure => (
+              <Text key={failure} type="danger" style={{ fontSize: 12 }}>{failure}</Text>
+            ))}
+          </Space>
+        );
+      }
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 130,
+      render: (_, testCase, index) => (
+        <Space>
+          <Tooltip title="Load input and time into single test">
+            <Button size="small" icon={<ImportOutlined />} onClick={() => onLoadInput(testCase.input, testCase.clock)} />
+          </Tooltip>
+          <Tooltip title="Edit">
+            <Button size="small" icon={<EditOutlined />} onClick={() => openCase(index)} />
+          </Tooltip>
+          <Popconfirm title={`Delete "${testCase.name}"?`} onConfirm={() => deleteCase(index)}>
+            <Button size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      )
+    }
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+        <Space>
+          <Button type="primary" icon={<PlusOutlined />} onClick={openNewCase} disabled={!rulesConfig}>
+            Add Test Case
+          </Button>
+          <Button icon={<ReloadOutlined />} onClick={runSuite} loading={running} disabled={testCases.length === 0}>
+            Run All
+          </Button>
+        </Space>
+        {suiteResult && suiteResult.results.length > 0 && (
+          <Space>
+            <Tag color="success">{suiteResult.passed} passed</Tag>
+            {suiteResult.failed > 0 && <Tag color="error">{suiteResult.failed} failed</Tag>}
+          </Space>
+        )}
+      </Space>
+
+      {structureErrors.length > 0 && (
+        <Alert type="error" showIcon message="Fix the testCases section of the rules JSON" description={structureErrors.join('; ')} />
+      )}
+
+      <Table
+        size="small"
+        rowKey="name"
+        columns={columns}
+        dataSource={structureErrors.length > 0 ? [] : testCases}
+        loading={running}
+        pagination={false}
+        scroll={{ y: 360 }}
+        locale={{ emptyText: 'No saved test cases. Deploys are checked against every case saved here.' }}
+      />
+
+      <Modal
+        title={editing && editing.index < testCases.length ? 'Edit Test Case' : 'Add Test Case'}
+        open={!!editing}
+        onOk={saveCase}
+        onCancel={() => setEditing(null)}
+        okText="Save"
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" preserve={false} initialValues={editing?.values}>
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[
+              { required: true, whitespace: true, message: 'Please enter a test case name' },
+              {
+                validator: (_, value) => {
+                  const clash = testCases.some((testCase, index) => index !== editing?.index && testCase.name === value?.trim());
+                  return clash ? Promise.reject(new Error('A test case with this name already exists')) : Promise.resolve();
+                }
+              }
+            ]}
+          >
+            <Input placeholder="Gold customer cancelling" />
+          </Form.Item>
+          <Form.Item
+            name="input"
+            label="Input"
+            rules={[
+              { required: true, message: 'Please enter the input JSON' },
+              {
+                validator: (_, value) => {
+                  try {
+                    const parsed = JSON.parse(value);
+                    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                      return Promise.reject(new Error('Input must be a JSON object'));
+                    }
+                    return Promise.resolve();
+                  } catch {
+                    return Promise.reject(new Error('Invalid JSON'));
+                  }
+                }
+              }
+            ]}
+          >
+            <TextArea rows={6} style={{ fontFamily: 'monospace', fontSize: 12 }} />
+          </Form.Item>
+          <Form.Item
+            name="expectedDestination"
+            label="Expected Destination"
+            rules={[{ required: true, whitespace: true, message: 'Please enter the expected destination' }]}
+          >
+            <Input placeholder="Target_Queue" />
+          </Form.Item>
+          <Form.Item
+            name="expectedRule"
+            label="Expected Matched Rule"
+            extra="Leave empty to only check the destination"
+          >
+            <Select
+              allowClear
+              placeholder="Any rule"
+              options={ruleNames.map(name => ({ value: name, label: name }))}
+            />
+          </Form.Item>
+          <Form.Item name="clock" label="Simulated Time" extra="Leave empty to run at the live clock">
+            <SimulatedClockPicker />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Space>
+  );
+};
+
+export default TestSuitePanel;
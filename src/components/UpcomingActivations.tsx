@@ -0,0 +1,96 @@
+import React from 'react';
+import { Card, List, Tag, Space, Typography, Button, Popconfirm, Tooltip } from 'antd';
+import { ClockCircleOutlined, CloseOutlined, ThunderboltOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import type { ScheduledActivation } from '../services/activationScheduler';
+
+dayjs.extend(relativeTime);
+
+const { Text } = Typography;
+
+interface UpcomingActivationsProps {
+  entries: ScheduledActivation[];
+  title?: string;
+  onActivateNow?: (entry: ScheduledActivation) => void;
+  onCancel?: (entry: ScheduledActivation) => void;
+}
+
+/**
+ * Card listing scheduled activations and reverts, soonest first.
+ * Renders nothing when there is nothing scheduled.
+ */
+const UpcomingActivations: React.FC<UpcomingActivationsProps> = ({
+  entries,
+  title = 'Upcoming Activations',
+  onActivateNow,
+  onCancel
+}) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          <ClockCircleOutlined />
+          <span>{title}</span>
+        </Space>
+      }
+      style={{ marginBottom: 16 }}
+    >
+      <List
+        size="small"
+        dataSource={entries}
+        renderItem={(entry) => (
+          <List.Item
+            actions={[
+              onActivateNow && entry.action === 'activate' && (
+                <Popconfirm
+                  key="activate"
+                  title={`Activate v${entry.version} now?`}
+                  description="This will immediately affect live call routing."
+                  onConfirm={() => onActivateNow(entry)}
+                  okButtonProps={{ danger: true }}
+                >
+                  <Tooltip title="Activate now">
+                    <Button size="small" icon={<ThunderboltOutlined />} />
+                  </Tooltip>
+                </Popconfirm>
+              ),
+              onCancel && (
+                <Popconfirm
+                  key="cancel"
+                  title={entry.action === 'activate' ? 'Cancel this activation?' : 'Cancel this revert?'}
+                  onConfirm={() => onCancel(entry)}
+                >
+                  <Tooltip title="Cancel">
+                    <Button size="small" danger icon={<CloseOutlined />} />
+                  </Tooltip>
+                </Popconfirm>
+              )
+            ].filter(Boolean)}
+          >
+            <Space wrap>
+              <Tag color={entry.action === 'activate' ? 'purple' : 'orange'}>
+                {entry.action === 'activate' ? 'ACTIVATE' : 'REVERT'}
+              </Tag>
+              <Text strong>
+                {entry.action === 'activate'
+                  ? `v${entry.version}`
+                  : `v${entry.version} → v${entry.revertToVersion}`}
+              </Text>
+              <Tooltip title={dayjs(entry.runAt).format('YYYY-MM-DD HH:mm:ss')}>
+                <Text>{dayjs(entry.runAt).format('YYYY-MM-DD HH:mm')}</Text>
+              </Tooltip>
+              <Text type="secondary">({dayjs(entry.runAt).fromNow()})</Text>
+              {entry.description && <Text type="secondary" ellipsis style={{ maxWidth: 360 }}>{entry.description}</Text>}
+            </Space>
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
+
+export default UpcomingActivations;
@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Select, Space, Tabs, Tag, Typography, Collapse, Tree, Empty, Alert, Descriptions } from 'antd';
+import { ArrowRightOutlined, SwapOutlined } from '@ant-design/icons';
+import type { DataNode } from 'antd/es/tree';
+import { DiffEditor } from '@monaco-editor/react';
+import { diffRulesConfigs, ConditionDiffNode, DiffKind, RuleDiff, ValueChange } from '../utils/ruleDiff';
+
+const { Text } = Typography;
+
+/**
+ * Minimal version shape needed for comparison
+ */
+export interface ComparableVersion {
+  key: string;
+  version: number;
+  rules: any;
+  name?: string;
+  active?: boolean;
+}
+
+interface VersionDiffModalProps {
+  open: boolean;
+  versions: ComparableVersion[];
+  initialLeftKey?: string;
+  initialRightKey?: string;
+  onClose: () => void;
+}
+
+const KIND_COLORS: Record<DiffKind, string> = {
+  added: '#52c41a',
+  removed: '#ff4d4f',
+  changed: '#fa8c16',
+  unchanged: '#8c8c8c'
+};
+
+const CHANGE_TAGS: Record<RuleDiff['change'], string> = {
+  added: 'green',
+  removed: 'red',
+  renamed: 'purple',
+  changed: 'orange',
+  unchanged: 'default'
+};
+
+/**
+ * Convert a condition diff into antd tree nodes
+ */
+const toTreeData = (node: ConditionDiffNode, path: string = '0'): DataNode => ({
+  key: path,
+  title: (
+    <span style={{ color: KIND_COLORS[node.kind], textDecoration: node.kind === 'removed' ? 'line-through' : undefined }}>
+      {node.kind === 'added' && '+ '}
+      {node.kind === 'removed' && '- '}
+      {node.previousLabel && (
+        <>
+          <Text delete type="secondary">{node.previousLabel}</Text>
+          <ArrowRightOutlined style={{ margin: '0 6px' }} />
+        </>
+      )}
+      {node.label}
+    </span>
+  ),
+  children: node.children.map((child, index) => toTreeData(child, `${path}-${index}`))
+});
+
+/**
+ * Render a before -> after value change
+ */
+const renderChange = (change?: ValueChange<any>) => {
+  if (!change) return null;
+  return (
+    <Space>
+      {change.before !== undefined && <Tag>{String(change.before)}</Tag>}
+      {change.before !== undefined && change.after !== undefined && <ArrowRightOutlined />}
+      {change.after !== undefined && <Tag color="blue">{String(change.after)}</Tag>}
+    </Space>
+  );
+};
+
+/**
+ * Side-by-side comparison of two rule versions.
+ * Shows a structured diff (rules added/removed/renamed, priority, destination
+ * and condition tree changes) with a raw JSON diff as a fallback.
+ */
+const VersionDiffModal: React.FC<VersionDiffModalProps> = ({
+  open,
+  versions,
+  initialLeftKey,
+  initialRightKey,
+  onClose
+}) => {
+  const [leftKey, setLeftKey] = useState<string | undefined>(initialLeftKey);
+  const [rightKey, setRightKey] = useState<string | undefined>(initialRightKey);
+
+  useEffect(() => {
+    if (open) {
+      setLeftKey(initialLeftKey);
+      setRightKey(initialRightKey);
+    }
+  }, [open, initialLeftKey, initialRightKey]);
+
+  const left = versions.find(v => v.key === leftKey);
+  const right = versions.find(v => v.key === rightKey);
+
+  const diff = useMemo(
+    () => (left && right ? diffRulesConfigs(left.rules, right.rules) : null),
+    [left, right]
+  );
+
+  const changedRules = diff ? diff.rules.filter(rule => rule.change !== 'unchanged') : [];
+
+  const versionOptions = versions.map(v => ({
+    value: v.key,
+    label: `${v.name || `v${v.version}`}${v.active ? ' (active)' : ''}`
+  }));
+
+  const renderSummary = () => {
+    if (!diff) {
+      return <Empty description="Pick two versions to compare" />;
+    }
+
+    return (
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Space wrap>
+          {(['added', 'removed', 'renamed', 'changed'] as const).map(kind => (
+            <Tag key={kind} color={CHANGE_TAGS[kind]}>
+              {diff.summary[kind]} {kind}
+            </Tag>
+          ))}
+          <Tag>{diff.summary.unchanged} unchanged</Tag>
+        </Space>
+
+        {diff.settingsChanged.length > 0 && (
+          <Alert
+            type="info"
+            showIcon
+            message={`Engine settings changed: ${diff.settingsChanged.join(', ')}`}
+            description="See the JSON tab for details."
+          />
+        )}
+
+        {changedRules.length === 0 ? (
+          <Alert type="success" showIcon message="No rule changes between these versions" />
+        ) : (
+          <Collapse
+            defaultActiveKey={changedRules.map(rule => rule.name)}
+            items={changedRules.map(rule => ({
+              key: rule.name,
+              label: (
+                <Space>
+                  <Tag color={CHANGE_TAGS[rule.change]}>{rule.change.toUpperCase()}</Tag>
+                  <Text strong>{rule.name}</Text>
+                  {rule.previousName && <Text type="secondary">(was {rule.previousName})</Text>}
+                </Space>
+              ),
+              children: (
+                <Space direction="vertical" style={{ width: '100%' }}>
+                  <Descriptions size="small" column={1} bordered>
+                    {rule.priority && <Descriptions.Item label="Priority">{renderChange(rule.priority)}</Descriptions.Item>}
+                    {rule.destination && <Descriptions.Item label="Destination">{renderChange(rule.destination)}</Descriptions.Item>}
+                    {rule.defaultDestination && (
+                      <Descriptions.Item label="Default destination">{renderChange(rule.defaultDestination)}</Descriptions.Item>
+                    )}
+                    {rule.description && <Descriptions.Item label="Description">{renderChange(rule.description)}</Descriptions.Item>}
+                    {rule.eventChanged && !rule.destination && (
+                      <Descriptions.Item label="Event">Event parameters changed</Descriptions.Item>
+                    )}
+                  </Descriptions>
+                  {rule.conditions && (
+                    <div>
+                      <Text type="secondary">Conditions</Text>
+                      <Tree
+                        showLine
+                        defaultExpandAll
+                        selectable={false}
+                        treeData={[toTreeData(rule.conditions)]}
+                      />
+                    </div>
+                  )}
+                </Space>
+              )
+            }))}
+          />
+        )}
+      </Space>
+    );
+  };
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <SwapOutlined />
+          <span>Compare Versions</span>
+        </Space>
+      }
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      width={1100}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Space>
+          <Select
+            style={{ width: 220 }}
+            placeholder="Older version"
+            value={leftKey}
+            onChange={setLeftKey}
+            options={versionOptions}
+          />
+          <ArrowRightOutlined />
+          <Select
+            style={{ width: 220 }}
+            placeholder="Newer version"
+            value={rightKey}
+            onChange={setRightKey}
+            options={versionOptions}
+          />
+        </Space>
+
+        <Tabs
+          items={[
+            { key: 'summary', label: 'Changes', children: renderSummary() },
+            {
+              key: 'json',
+              label: 'JSON',
+              children: left && right ? (
+                <DiffEditor
+                  height="500px"
+                  language="json"
+                  theme="vs-dark"
+                  original={JSON.stringify(left.rules, null, 2)}
+                  modified={JSON.stringify(right.rules, null, 2)}
+                  options={{ readOnly: true, minimap: { enabled: false }, renderSideBySide: true }}
+                />
+              ) : (
+                <Empty description="Pick two versions to compare" />
+              )
+            }
+          ]}
+        />
+      </Space>
+    </Modal>
+  );
+};
+
+export default VersionDiffModal;
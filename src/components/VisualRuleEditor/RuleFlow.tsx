@@ -36,10 +36,11 @@ import {
 } from '@ant-design/icons';
 import 'reactflow/dist/style.css';
 
-import { Rule } from './types';
-import { ruleToFlow, autoLayoutNodes } from './utils/ruleToFlow';
+import { DestinationDefinition, FactDefinition, Rule } from './types';
+import { ruleToFlow, autoLayoutNodes, getConditionNodeId } from './utils/ruleToFlow';
 import { flowToRule, validateFlowStructure } from './utils/flowToRule';
 import { validateFlow, getValidationSummary } from './utils/validation';
+import { RuleFinding } from './utils/ruleAnalysis';
 import LogicalOperatorNode from './nodes/LogicalOperatorNode';
 import FactConditionNode from './nodes/FactConditionNode';
 import EventNode from './nodes/EventNode';
@@ -62,6 +63,14 @@ interface RuleFlowProps {
   isEditing: boolean;
   onChange: (rule: Rule) => void;
   onUnsavedChanges?: (hasChanges: boolean) => void;
+  /** Static analysis findings involving this rule */
+  findings?: RuleFinding[];
+  /** Open another rule named in a finding */
+  onRuleSelect?: (ruleName: string) => void;
+  /** Declared facts offered when editing conditions */
+  factCatalog?: FactDefinition[];
+  /** Registered destinations offered when editing the rule and its event */
+  destinations?: DestinationDefinition[];
 }
 
 /**
@@ -71,7 +80,11 @@ const RuleFlow: React.FC<RuleFlowProps> = ({
   rule, 
   isEditing, 
   onChange,
-  onUnsavedChanges 
+  onUnsavedChanges,
+  findings = [],
+  onRuleSelect,
+  factCatalog,
+  destinations
 }) => {
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
@@ -471,6 +484,53 @@ const RuleFlow: React.FC<RuleFlowProps> = ({
     type: 'smoothstep'
   };
 
+  /**
+   * Select and centre the node a finding points at
+   */
+  const handleFindingSelect = useCallback((finding: RuleFinding) => {
+    const nodeId = getConditionNodeId(rule.conditions, finding.conditionPath || '');
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) {
+      message.info('That condition has changed since the rules were analysed');
+      return;
+    }
+
+    setNodes(nds => nds.map(n => ({ ...n, selected: n.id === node.id })));
+    if (isEditing) {
+      setSelectedNode(node);
+    }
+    reactFlowInstance?.setCenter(
+      node.position.x + (node.width || 0) / 2,
+      node.position.y + (node.height || 0) / 2,
+      { zoom: 1.2, duration: 400 }
+    );
+  }, [rule, nodes, isEditing, setNodes, reactFlowInstance]);
+
+  const hasFindingErrors = findings.some(finding => finding.severity === 'error');
+  const validationSummary = [
+    validationResult ? getValidationSummary(validationResult) : 'Run validation',
+    findings.length > 0 ? `${findings.length} analysis finding(s)` : null
+  ].filter(Boolean).join(', ');
+
+  const validationButton = (
+    <AntTooltip title={validationSummary}>
+      <Badge count={findings.length} size="small" color={hasFindingErrors ? '#ff4d4f' : '#faad14'}>
+        <Button
+          onClick={() => setShowValidation(!showValidation)}
+          danger={(validationResult && !validationResult.isValid) || hasFindingErrors}
+          icon={validationResult ? 
+            (validationResult.isValid && !hasFindingErrors ? 
+              <CheckCircleOutlined style={{ color: '#52c41a' }} /> : 
+              <CloseCircleOutlined style={{ color: '#ff4d4f' }} />
+            ) : null
+          }
+        >
+          Validation
+        </Button>
+      </Badge>
+    </AntTooltip>
+  );
+
   return (
     <ReactFlowProvider>
       <Card
@@ -484,7 +544,7 @@ const RuleFlow: React.FC<RuleFlowProps> = ({
         </Space>
       }
       extra={
-        isEditing && (
+        isEditing ? (
           <Space>
             <AntTooltip title={showNodePalette ? 'Hide Palette' : 'Show Palette'}>
               <Button
@@ -492,20 +552,7 @@ const RuleFlow: React.FC<RuleFlowProps> = ({
                 onClick={() => setShowNodePalette(!showNodePalette)}
               />
             </AntTooltip>
-            <AntTooltip title={validationResult ? getValidationSummary(validationResult) : 'Run validation'}>
-              <Button
-                onClick={() => setShowValidation(!showValidation)}
-                danger={validationResult && !validationResult.isValid}
-                icon={validationResult ? 
-                  (validationResult.isValid ? 
-                    <CheckCircleOutlined style={{ color: '#52c41a' }} /> : 
-                    <CloseCircleOutlined style={{ color: '#ff4d4f' }} />
-                  ) : null
-                }
-              >
-                Validation
-              </Button>
-            </AntTooltip>
+            {validationButton}
             <AntTooltip title="Undo (Ctrl+Z)">
               <Button
                 icon={<UndoOutlined />}
@@ -541,7 +588,7 @@ const RuleFlow: React.FC<RuleFlowProps> = ({
               Save Changes
             </Button>
           </Space>
-        )
+        ) : validationButton
       }
       bodyStyle={{ padding: 0 }}
     >
@@ -636,6 +683,8 @@ const RuleFlow: React.FC<RuleFlowProps> = ({
             onUpdate={handleNodeUpdate}
             onDelete={handleNodeDelete}
             onClose={() => setSelectedNode(null)}
+            factCatalog={factCatalog}
+            destinations={destinations}
           />
         )}
         
@@ -643,6 +692,10 @@ const RuleFlow: React.FC<RuleFlowProps> = ({
         {showValidation && validationResult && (
           <ValidationPanel
             result={validationResult}
+            findings={findings}
+            ruleName={rule.name}
+            onFindingSelect={handleFindingSelect}
+            onRuleSelect={onRuleSelect}
             onClose={() => setShowValidation(false)}
           />
         )}
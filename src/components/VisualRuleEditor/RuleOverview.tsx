@@ -0,0 +1,179 @@
+/**
+ * Rule Overview Component
+ * Lays out every rule as a lane in priority order; lanes can be dragged to
+ * change priorities and double-clicked to open the rule
+ */
+
+import React, { useEffect, useMemo, useState, useCallback } from 'react';
+import ReactFlow, {
+  Node,
+  Edge,
+  NodeTypes,
+  NodeChange,
+  Controls,
+  ReactFlowProvider,
+  useNodesState,
+  MarkerType
+} from 'reactflow';
+import 'reactflow/dist/style.css';
+import { Card, Space, Switch, Typography, Tag } from 'antd';
+import { RulesConfig } from './types';
+import RuleLaneNode, { RuleLaneData } from './nodes/RuleLaneNode';
+import { findRuleOverlaps } from './utils/ruleAnalysis';
+import { measureRuleComplexity } from './utils/performance';
+import { getPriorityOrder, summarizeConditions } from './utils/ruleOverview';
+
+const { Text } = Typography;
+
+const LANE_HEIGHT = 80;
+
+const nodeTypes: NodeTypes = {
+  ruleLane: RuleLaneNode
+};
+
+interface RuleOverviewProps {
+  rulesConfig: RulesConfig;
+  readOnly?: boolean;
+  /** Move a rule to a new place in the priority order (0 is evaluated first) */
+  onReorder: (ruleIndex: number, position: number) => void;
+  onOpenRule: (ruleIndex: number) => void;
+}
+
+/**
+ * Canvas showing the whole ruleset in evaluation order
+ */
+const RuleOverview: React.FC<RuleOverviewProps> = ({
+  rulesConfig,
+  readOnly = false,
+  onReorder,
+  onOpenRule
+}) => {
+  const [nodes, setNodes, onNodesChange] = useNodesState<RuleLaneData>([]);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [showAllOverlaps, setShowAllOverlaps] = useState(false);
+
+  const order = useMemo(() => getPriorityOrder(rulesConfig.rules), [rulesConfig]);
+  const overlaps = useMemo(() => findRuleOverlaps(rulesConfig), [rulesConfig]);
+
+  /**
+   * Lay the lanes out again whenever the rules or the selection change
+   */
+  useEffect(() => {
+    const selectedOverlaps = overlaps
+      .filter(overlap => overlap.ruleName === selectedName || overlap.relatedRule === selectedName)
+      .map(overlap => (overlap.ruleName === selectedName ? overlap.relatedRule : overlap.ruleName));
+
+    setNodes(order.map((ruleIndex, lane): Node<RuleLaneData> => {
+      const rule = rulesConfig.rules[ruleIndex];
+      const related = overlaps.filter(overlap => overlap.ruleName === rule.name || overlap.relatedRule === rule.name);
+      return {
+        id: String(ruleIndex),
+        type: 'ruleLane',
+        position: { x: 0, y: lane * LANE_HEIGHT },
+        selected: rule.name === selectedName,
+        data: {
+          rule,
+          lane: lane + 1,
+          summary: summarizeConditions(rule.conditions),
+          complexity: measureRuleComplexity(rule),
+          overlaps: related.map(overlap => (overlap.ruleName === rule.name ? overlap.relatedRule : overlap.ruleName)),
+          ambiguous: related.some(overlap => overlap.samePriority),
+          highlighted: selectedOverlaps.includes(rule.name),
+          draggable: !readOnly
+        }
+      };
+    }));
+  }, [order, overlaps, rulesConfig, selectedName, readOnly, setNodes]);
+
+  const edges = useMemo((): Edge[] => {
+    const ids = new Map(rulesConfig.rules.map((rule, index) => [rule.name, String(index)]));
+    return overlaps
+      .filter(overlap => showAllOverlaps || overlap.samePriority || overlap.ruleName === selectedName || overlap.relatedRule === selectedName)
+      .map(overlap => {
+        const color = overlap.samePriority ? '#ff4d4f' : '#fa8c16';
+        return {
+          id: `overlap-${overlap.ruleName}-${overlap.relatedRule}`,
+          source: ids.get(overlap.ruleName)!,
+          target: ids.get(overlap.relatedRule)!,
+          sourceHandle: 'overlap-out',
+          targetHandle: 'overlap-in',
+          type: 'smoothstep',
+          animated: overlap.samePriority,
+          style: { stroke: color, strokeDasharray: '6 4' },
+          markerEnd: { type: MarkerType.ArrowClosed, color }
+        };
+      });
+  }, [overlaps, rulesConfig, selectedName, showAllOverlaps]);
+
+  /**
+   * Keep dragged lanes in their column so only the order can change
+   */
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    onNodesChange(changes.map(change => (
+      change.type === 'position' && change.position ? { ...change, position: { x: 0, y: change.position.y } } : change
+    )));
+  }, [onNodesChange]);
+
+  /**
+   * Drop a lane into the slot nearest to where it was released
+   */
+  const handleNodeDragStop = useCallback((_event: React.MouseEvent, node: Node<RuleLaneData>) => {
+    const ruleIndex = Number(node.id);
+    const position = Math.max(0, Math.min(order.length - 1, Math.round(node.position.y / LANE_HEIGHT)));
+
+    if (position === order.indexOf(ruleIndex)) {
+      setNodes(current => current.map(lane => (
+        lane.id === node.id ? { ...lane, position: { x: 0, y: position * LANE_HEIGHT } } : lane
+      )));
+      return;
+    }
+    onReorder(ruleIndex, position);
+  }, [order, onReorder, setNodes]);
+
+  const ambiguousCount = overlaps.filter(overlap => overlap.samePriority).length;
+
+  return (
+    <ReactFlowProvider>
+      <Card
+        title={
+          <Space>
+            <span>Ruleset Overview</span>
+            <Tag>{rulesConfig.rules.length} rules</Tag>
+            {ambiguousCount > 0 && <Tag color="error">{ambiguousCount} same-priority overlaps</Tag>}
+          </Space>
+        }
+        extra={
+          <Space>
+            <Text type="secondary">{readOnly ? 'Double-click a rule to open it' : 'Drag to reorder, double-click to open'}</Text>
+            <Switch size="small" checked={showAllOverlaps} onChange={setShowAllOverlaps} />
+            <Text>Show all overlaps</Text>
+          </Space>
+        }
+        bodyStyle={{ padding: 0 }}
+      >
+        <div style={{ height: 700, width: '100%' }}>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            nodeTypes={nodeTypes}
+            onNodesChange={handleNodesChange}
+            onNodeDragStop={handleNodeDragStop}
+            onNodeClick={(_event, node) => setSelectedName(node.data.rule.name)}
+            onNodeDoubleClick={(_event, node) => onOpenRule(Number(node.id))}
+            onPaneClick={() => setSelectedName(null)}
+            nodesDraggable={!readOnly}
+            nodesConnectable={false}
+            zoomOnDoubleClick={false}
+            fitView
+            fitViewOptions={{ padding: 0.1, maxZoom: 1 }}
+            attributionPosition="bottom-right"
+          >
+            <Controls showInteractive={false} position="bottom-left" />
+          </ReactFlow>
+        </div>
+      </Card>
+    </ReactFlowProvider>
+  );
+};
+
+export default RuleOverview;
@@ -3,20 +3,25 @@
  * Main component that provides visual editing capabilities for individual rules
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Card, Space, Button, message, Alert, Tooltip, Dropdown } from 'antd';
-import { EyeOutlined, EditOutlined, InfoCircleOutlined, PlusOutlined, FileAddOutlined, CopyOutlined, DeleteOutlined, WarningOutlined } from '@ant-design/icons';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, Space, Button, message, Alert, Tooltip, Dropdown, Segmented } from 'antd';
+import { EyeOutlined, EditOutlined, InfoCircleOutlined, PlusOutlined, FileAddOutlined, CopyOutlined, DeleteOutlined, WarningOutlined, ApartmentOutlined, UnorderedListOutlined } from '@ant-design/icons';
 import RuleSelector from './RuleSelector';
 import RuleFlow from './RuleFlow';
+import RuleOverview from './RuleOverview';
 import { Rule, RulesConfig } from './types';
 import { produce } from 'immer';
 import { validateRule } from './utils/validation';
+import { analyzeRules } from './utils/ruleAnalysis';
+import { planPriorityMove } from './utils/ruleOverview';
 import TemplateSelector from './panels/TemplateSelector';
 
 interface VisualRuleEditorProps {
   rulesConfig: RulesConfig;
   onRuleUpdate: (updatedConfig: RulesConfig) => void;
   readOnly?: boolean;
+  /** Rule to select, e.g. when opened from a report */
+  focusRuleName?: string | null;
 }
 
 /**
@@ -26,7 +31,8 @@ interface VisualRuleEditorProps {
 export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
   rulesConfig,
   onRuleUpdate,
-  readOnly = false
+  readOnly = false,
+  focusRuleName
 }) => {
   const [selectedRuleIndex, setSelectedRuleIndex] = useState<number | null>(null);
   const [selectedRule, setSelectedRule] = useState<Rule | null>(null);
@@ -34,6 +40,7 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [templateModalVisible, setTemplateModalVisible] = useState(false);
   const [warningCollapsed, setWarningCollapsed] = useState(false);
+  const [view, setView] = useState<'rule' | 'overview'>('rule');
 
   /**
    * Update selected rule when index changes
@@ -46,6 +53,22 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
     }
   }, [selectedRuleIndex, rulesConfig]);
 
+  /**
+   * Select the focused rule when one is passed in
+   */
+  useEffect(() => {
+    if (!focusRuleName) return;
+    const index = rulesConfig.rules.findIndex(rule => rule.name === focusRuleName);
+    if (index === -1) {
+      message.warning(`Rule "${focusRuleName}" is not in the current rules`);
+      return;
+    }
+    setSelectedRuleIndex(index);
+    setIsEditing(false);
+    setHasUnsavedChanges(false);
+    setView('rule');
+  }, [focusRuleName]);
+
   /**
    * Handle rule selection from dropdown
    */
@@ -62,6 +85,67 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
     setHasUnsavedChanges(false);
   }, [hasUnsavedChanges]);
 
+  /**
+   * Switch between the selected rule and the ruleset overview
+   */
+  const handleViewChange = useCallback((nextView: 'rule' | 'overview') => {
+    if (nextView === 'overview' && hasUnsavedChanges) {
+      if (!window.confirm('You have unsaved changes. Do you want to discard them?')) {
+        return;
+      }
+      setIsEditing(false);
+      setHasUnsavedChanges(false);
+    }
+    setView(nextView);
+  }, [hasUnsavedChanges]);
+
+  /**
+   * Open a rule double-clicked in the overview
+   */
+  const handleOverviewOpenRule = useCallback((index: number) => {
+    setSelectedRuleIndex(index);
+    setIsEditing(false);
+    setView('rule');
+  }, []);
+
+  /**
+   * Give a rule dragged to a new lane the priority that puts it there
+   */
+  const handleReorder = useCallback((ruleIndex: number, position: number) => {
+    const changes = planPriorityMove(rulesConfig.rules, ruleIndex, position);
+    if (changes.size === 0) return;
+
+    const updatedConfig = produce(rulesConfig, draft => {
+      changes.forEach((priority, index) => {
+        draft.rules[index].priority = priority;
+      });
+    });
+    onRuleUpdate(updatedConfig);
+
+    const rule = updatedConfig.rules[ruleIndex];
+    const others = changes.size - (changes.has(ruleIndex) ? 1 : 0);
+    message.success(`"${rule.name}" is now evaluated at position ${position + 1} with priority ${rule.priority}${others > 0 ? `; ${others} other rule priorit${others === 1 ? 'y was' : 'ies were'} adjusted` : ''}`);
+  }, [rulesConfig, onRuleUpdate]);
+
+  /**
+   * Static analysis of all rules; each rule sees the findings it is part of
+   */
+  const findings = useMemo(() => analyzeRules(rulesConfig), [rulesConfig]);
+  const selectedRuleFindings = useMemo(
+    () => (selectedRule ? findings.filter(f => f.ruleName === selectedRule.name || f.relatedRule === selectedRule.name) : []),
+    [findings, selectedRule]
+  );
+
+  /**
+   * Open a rule named in a finding
+   */
+  const handleFindingRuleSelect = useCallback((ruleName: string) => {
+    const index = rulesConfig.rules.findIndex(rule => rule.name === ruleName);
+    if (index !== -1) {
+      handleRuleSelect(index);
+    }
+  }, [rulesConfig, handleRuleSelect]);
+
   /**
    * Handle rule changes from visual editor
    */
@@ -69,7 +153,7 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
     if (selectedRuleIndex === null) return;
 
     // Validate the updated rule
-    const validation = validateRule(updatedRule);
+    const validation = validateRule(updatedRule, rulesConfig);
     if (!validation.isValid) {
       message.error(`Rule validation failed: ${validation.errors.join(', ')}`);
       return;
@@ -219,11 +303,22 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
       <Card>
         <Space style={{ width: '100%', justifyContent: 'space-between' }}>
           <div style={{ display: 'flex', alignItems: 'end', gap: '12px', width: '100%' }}>
+            <Segmented
+              value={view}
+              onChange={(value) => handleViewChange(value as 'rule' | 'overview')}
+              options={[
+                { value: 'rule', label: 'Rule', icon: <ApartmentOutlined /> },
+                { value: 'overview', label: 'Overview', icon: <UnorderedListOutlined /> }
+              ]}
+            />
             <div style={{ flex: '1' }}>
               <RuleSelector
                 rules={rulesConfig.rules}
                 selectedIndex={selectedRuleIndex}
-                onSelect={handleRuleSelect}
+                onSelect={(index) => {
+                  handleRuleSelect(index);
+                  setView('rule');
+                }}
               />
             </div>
             
@@ -284,7 +379,7 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
                 </Button>
               </Dropdown>
               
-              {selectedRule && !readOnly && (
+              {view === 'rule' && selectedRule && !readOnly && (
                 <Button
                   icon={isEditing ? <EyeOutlined /> : <EditOutlined />}
                   onClick={toggleEditMode}
@@ -302,11 +397,21 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
         </Space>
       </Card>
 
+      {/* Whole ruleset in priority order */}
+      {view === 'overview' && (
+        <RuleOverview
+          rulesConfig={rulesConfig}
+          readOnly={readOnly}
+          onReorder={handleReorder}
+          onOpenRule={handleOverviewOpenRule}
+        />
+      )}
+
       {/* Info alert for new users */}
-      {!selectedRule && (
+      {view === 'rule' && !selectedRule && (
         <Alert
           message="Getting Started"
-          description="Select a rule from the dropdown above to view its visual representation. You can then switch to Edit Mode to make changes."
+          description="Select a rule from the dropdown above to view its visual representation. You can then switch to Edit Mode to make changes, or open the Overview to see every rule in priority order."
           type="info"
           showIcon
           closable
@@ -314,12 +419,16 @@ export const VisualRuleEditor: React.FC<VisualRuleEditorProps> = ({
       )}
 
       {/* Visual rule editor */}
-      {selectedRule && (
+      {view === 'rule' && selectedRule && (
         <RuleFlow
           rule={selectedRule}
           isEditing={isEditing && !readOnly}
           onChange={handleRuleChange}
           onUnsavedChanges={handleUnsavedChanges}
+          findings={selectedRuleFindings}
+          onRuleSelect={handleFindingRuleSelect}
+          factCatalog={rulesConfig.factCatalog}
+          destinations={rulesConfig.destinations}
         />
       )}
 
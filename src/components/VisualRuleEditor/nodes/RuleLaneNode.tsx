@@ -0,0 +1,94 @@
+/**
+ * Rule Lane Node Component
+ * One rule of the ruleset overview: its place in the priority order,
+ * condition summary, destination and complexity
+ */
+
+import React from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { Tag, Space, Typography, Tooltip, Badge } from 'antd';
+import { HolderOutlined, EnvironmentOutlined, WarningOutlined } from '@ant-design/icons';
+import { Rule } from '../types';
+import { measureRuleComplexity } from '../utils/performance';
+
+const { Text } = Typography;
+
+const COMPLEXITY_COLORS: Record<ReturnType<typeof measureRuleComplexity>['complexity'], string> = {
+  simple: 'green',
+  moderate: 'blue',
+  complex: 'orange',
+  'very-complex': 'red'
+};
+
+export interface RuleLaneData {
+  rule: Rule;
+  /** Place in the evaluation order, starting at 1 */
+  lane: number;
+  summary: string;
+  complexity: ReturnType<typeof measureRuleComplexity>;
+  /** Rules that can match the same inputs */
+  overlaps: string[];
+  /** Overlaps with a rule of the same priority, where the winner is not defined */
+  ambiguous: boolean;
+  /** Overlaps with the selected lane */
+  highlighted: boolean;
+  draggable: boolean;
+}
+
+/**
+ * Node component for a rule lane in the overview
+ */
+const RuleLaneNode: React.FC<NodeProps<RuleLaneData>> = ({ data, selected }) => {
+  const { rule, lane, summary, complexity, overlaps, ambiguous, highlighted, draggable } = data;
+  const borderColor = selected ? '#722ed1' : highlighted ? '#fa8c16' : ambiguous ? '#ff4d4f' : '#d9d9d9';
+
+  return (
+    <div
+      style={{
+        width: 760,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 12,
+        padding: '10px 14px',
+        background: highlighted ? '#fff7e6' : '#fff',
+        border: `2px solid ${borderColor}`,
+        borderRadius: 8,
+        boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+        cursor: draggable ? 'grab' : 'pointer'
+      }}
+    >
+      {draggable && <HolderOutlined style={{ color: '#999' }} />}
+      <Badge count={lane} color="#722ed1" showZero />
+      <div style={{ width: 190, minWidth: 0 }}>
+        <Text strong ellipsis style={{ display: 'block' }}>{rule.name}</Text>
+        <Space size={4}>
+          <Tag color="purple" style={{ margin: 0 }}>P{rule.priority}</Tag>
+          <Tooltip title={`${complexity.nodeCount} nodes, depth ${complexity.maxDepth}`}>
+            <Tag color={COMPLEXITY_COLORS[complexity.complexity]} style={{ margin: 0 }}>{complexity.complexity}</Tag>
+          </Tooltip>
+        </Space>
+      </div>
+      <Tooltip title={summary}>
+        <Text type="secondary" ellipsis style={{ flex: 1, minWidth: 0, fontFamily: 'monospace', fontSize: 12 }}>
+          {summary}
+        </Text>
+      </Tooltip>
+      {overlaps.length > 0 && (
+        <Tooltip title={`Can match the same inputs as ${overlaps.join(', ')}${ambiguous ? '; some share its priority' : ''}`}>
+          <Tag color={ambiguous ? 'error' : 'warning'} icon={<WarningOutlined />} style={{ margin: 0 }}>
+            {overlaps.length}
+          </Tag>
+        </Tooltip>
+      )}
+      <Tag color="green" icon={<EnvironmentOutlined />} style={{ margin: 0, maxWidth: 170, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+        {rule.event?.params?.destination || rule.defaultDestination}
+      </Tag>
+
+      {/* Overlap edges run along the right edge of the lanes */}
+      <Handle type="source" position={Position.Right} id="overlap-out" style={{ opacity: 0 }} isConnectable={false} />
+      <Handle type="target" position={Position.Right} id="overlap-in" style={{ opacity: 0 }} isConnectable={false} />
+    </div>
+  );
+};
+
+export default RuleLaneNode;
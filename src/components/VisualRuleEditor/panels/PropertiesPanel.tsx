@@ -15,21 +15,37 @@ import {
   Divider,
   Alert,
   Tag,
-  Modal
+  Modal,
+  AutoComplete,
+  Typography
 } from 'antd';
 import { Node } from 'reactflow';
 import { SaveOutlined, DeleteOutlined } from '@ant-design/icons';
-import { AVAILABLE_OPERATORS } from '../types';
+import { AVAILABLE_OPERATORS, DestinationDefinition, FactDefinition } from '../types';
 import { validateNodeData } from '../utils/validation';
+import {
+  MULTI_VALUE_OPERATORS,
+  OPERATORS_BY_FACT_TYPE,
+  checkFactComparison,
+  findFactDefinition,
+  getConditionFactName
+} from '../../../utils/factCatalog';
 
 const { TextArea } = Input;
-const { Option } = Select;
+const { Option, OptGroup } = Select;
+const { Text } = Typography;
+
+const BUILT_IN_FACT_OPTIONS = ['inputValue', 'fullInput', 'inputKeys', 'isBusinessHours', 'hasKey', 'keyCount', 'alwaysTrue'];
 
 interface PropertiesPanelProps {
   node: Node;
   onUpdate: (nodeId: string, data: any) => void;
   onDelete: (nodeId: string) => void;
   onClose: () => void;
+  /** Declared facts offered for conditions, with their types and values */
+  factCatalog?: FactDefinition[];
+  /** Registered destinations offered for the default destination and events */
+  destinations?: DestinationDefinition[];
 }
 
 /**
@@ -39,11 +55,32 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   node, 
   onUpdate, 
   onDelete,
-  onClose 
+  onClose,
+  factCatalog = [],
+  destinations = []
 }) => {
   const [form] = Form.useForm();
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
 
+  // Catalog entry of the fact the condition reads, which drives the operator and value pickers
+  const fact = Form.useWatch('fact', form);
+  const inputKey = Form.useWatch(['params', 'key'], form);
+  const operator = Form.useWatch('operator', form);
+  const value = Form.useWatch('value', form);
+  const factDefinition = findFactDefinition(factCatalog, getConditionFactName({ fact, params: { key: inputKey } }));
+  const comparisonProblem = factDefinition && fact !== 'hasKey' ? checkFactComparison(factDefinition, operator, value) : null;
+  const operators: string[] = factDefinition && fact !== 'hasKey' ? OPERATORS_BY_FACT_TYPE[factDefinition.type] : [...AVAILABLE_OPERATORS];
+  const catalogFacts = factCatalog.filter(definition => !BUILT_IN_FACT_OPTIONS.includes(definition.name));
+  const destinationOptions = destinations.filter(entry => entry.name).map(entry => ({
+    value: entry.name,
+    label: (
+      <Space size={4}>
+        <span>{entry.name}</span>
+        <Tag>{entry.kind}</Tag>
+      </Space>
+    )
+  }));
+
   /**
    * Initialize form with node data
    */
@@ -96,6 +133,78 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     });
   };
 
+  /**
+   * Value input suited to the declared fact: a picker for enums, lists and
+   * booleans, a number input for numbers, free text otherwise
+   */
+  const renderValueInput = () => {
+    const multiple = MULTI_VALUE_OPERATORS.includes(operator);
+    const type = fact === 'hasKey' ? undefined : factDefinition?.type;
+
+    if ((type === 'enum' || type === 'list') && factDefinition?.values?.length) {
+      return (
+        <Select
+          mode={multiple ? 'multiple' : undefined}
+          placeholder="Select value"
+          options={factDefinition.values.map(option => ({ value: option, label: String(option) }))}
+        />
+      );
+    }
+    if (type === 'boolean') {
+      return <Select placeholder="Select value" options={[{ value: true, label: 'true' }, { value: false, label: 'false' }]} />;
+    }
+    if (type === 'number' && !multiple) {
+      return <InputNumber style={{ width: '100%' }} placeholder="Enter expected number" />;
+    }
+    if (multiple && type) {
+      return <Select mode="tags" placeholder="Type values and press Enter" tokenSeparators={[',']} />;
+    }
+    return (
+      <Input.TextArea 
+        rows={2}
+        placeholder="Enter expected value (use JSON format for arrays/objects)"
+        onBlur={(e) => {
+          // Try to parse as JSON if it looks like JSON
+          const text = e.target.value;
+          if (text.startsWith('[') || text.startsWith('{')) {
+            try {
+              const parsed = JSON.parse(text);
+              form.setFieldValue('value', parsed);
+            } catch {
+              // Keep as string if not valid JSON
+            }
+          }
+        }}
+      />
+    );
+  };
+
+  /**
+   * Destination input offering the registered destinations, with a warning
+   * once a registry exists and the name is not in it
+   */
+  const renderDestinationInput = (name: string, label: string, placeholder: string, required: boolean) => (
+    <Form.Item
+      label={label}
+      name={name}
+      rules={[
+        { required, message: `${label} is required` },
+        {
+          warningOnly: true,
+          validator: (_rule, destination) => destinations.length > 0 && destination && !destinations.some(entry => entry.name === destination)
+            ? Promise.reject(new Error(`${destination} is not in the destination registry`))
+            : Promise.resolve()
+        }
+      ]}
+    >
+      <AutoComplete
+        placeholder={placeholder}
+        options={destinationOptions}
+        filterOption={(text, option) => String(option?.value).toLowerCase().includes(text.toLowerCase())}
+      />
+    </Form.Item>
+  );
+
   /**
    * Render form fields based on node type
    */
@@ -128,13 +237,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
               />
             </Form.Item>
 
-            <Form.Item
-              label="Default Destination"
-              name="defaultDestination"
-              rules={[{ required: true, message: 'Default destination is required' }]}
-            >
-              <Input placeholder="Default queue/destination for this rule" />
-            </Form.Item>
+            {renderDestinationInput('defaultDestination', 'Default Destination', 'Default queue/destination for this rule', true)}
 
             <Form.Item
               label="Description"
@@ -156,36 +259,63 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
               name="fact"
               rules={[{ required: true, message: 'Fact is required' }]}
             >
-              <Select placeholder="Select fact type">
-                <Option value="inputValue">inputValue</Option>
-                <Option value="fullInput">fullInput</Option>
-                <Option value="inputKeys">inputKeys</Option>
-                <Option value="isBusinessHours">isBusinessHours</Option>
-                <Option value="hasKey">hasKey</Option>
-                <Option value="keyCount">keyCount</Option>
-                <Option value="alwaysTrue">alwaysTrue</Option>
+              <Select placeholder="Select fact type" showSearch>
+                <OptGroup label="Built-in">
+                  {BUILT_IN_FACT_OPTIONS.map(name => (
+                    <Option key={name} value={name}>{name}</Option>
+                  ))}
+                </OptGroup>
+                {catalogFacts.length > 0 && (
+                  <OptGroup label="Fact catalog">
+                    {catalogFacts.map(definition => (
+                      <Option key={definition.name} value={definition.name}>{definition.name}</Option>
+                    ))}
+                  </OptGroup>
+                )}
+                {fact && !BUILT_IN_FACT_OPTIONS.includes(fact) && !findFactDefinition(catalogFacts, fact) && (
+                  <OptGroup label="Not in the catalog">
+                    <Option value={fact}>{fact}</Option>
+                  </OptGroup>
+                )}
               </Select>
             </Form.Item>
 
-            {form.getFieldValue('fact') === 'inputValue' && (
+            {(fact === 'inputValue' || fact === 'hasKey') && (
               <Form.Item
                 label="Key"
                 name={['params', 'key']}
-                rules={[{ required: true, message: 'Key is required for inputValue fact' }]}
+                rules={[{ required: fact === 'inputValue', message: 'Key is required for inputValue fact' }]}
               >
-                <Input placeholder="Enter the input key to check" />
+                <AutoComplete
+                  placeholder="Enter the input key to check"
+                  options={factCatalog.map(definition => ({ value: definition.name }))}
+                  filterOption={(text, option) => String(option?.value).toLowerCase().includes(text.toLowerCase())}
+                />
               </Form.Item>
             )}
 
+            {factDefinition && (
+              <div style={{ marginTop: -16, marginBottom: 16 }}>
+                <Space size={4} wrap>
+                  <Tag color="blue">{factDefinition.type}</Tag>
+                  {factDefinition.source && <Tag>{factDefinition.source}</Tag>}
+                  {factDefinition.description && <Text type="secondary" style={{ fontSize: 12 }}>{factDefinition.description}</Text>}
+                </Space>
+              </div>
+            )}
+
             <Form.Item
               label="Operator"
               name="operator"
               rules={[{ required: true, message: 'Operator is required' }]}
             >
               <Select placeholder="Select operator">
-                {AVAILABLE_OPERATORS.map(op => (
+                {operators.map(op => (
                   <Option key={op} value={op}>{op}</Option>
                 ))}
+                {operator && !operators.includes(operator) && (
+                  <Option key={operator} value={operator}>{operator}</Option>
+                )}
               </Select>
             </Form.Item>
 
@@ -194,31 +324,20 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
               name="value"
               rules={[{ required: true, message: 'Value is required' }]}
             >
-              <Input.TextArea 
-                rows={2}
-                placeholder="Enter expected value (use JSON format for arrays/objects)"
-                onBlur={(e) => {
-                  // Try to parse as JSON if it looks like JSON
-                  const value = e.target.value;
-                  if (value.startsWith('[') || value.startsWith('{')) {
-                    try {
-                      const parsed = JSON.parse(value);
-                      form.setFieldValue('value', parsed);
-                    } catch {
-                      // Keep as string if not valid JSON
-                    }
-                  }
-                }}
-              />
+              {renderValueInput()}
             </Form.Item>
 
+            {comparisonProblem && (
+              <Alert type="warning" showIcon message={comparisonProblem.message} style={{ marginBottom: 16 }} />
+            )}
+
             <Divider />
             
             <div style={{ marginBottom: 16 }}>
               <Space>
                 <span>Value Type:</span>
                 <Tag color="blue">
-                  {typeof form.getFieldValue('value')}
+                  {Array.isArray(value) ? 'array' : typeof value}
                 </Tag>
               </Space>
             </div>
@@ -228,13 +347,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
       case 'eventNode':
         return (
           <>
-            <Form.Item
-              label="Destination"
-              name="destination"
-              rules={[{ required: true, message: 'Destination is required' }]}
-            >
-              <Input placeholder="Queue or flow name" />
-            </Form.Item>
+            {renderDestinationInput('destination', 'Destination', 'Queue or flow name', true)}
 
             <Form.Item
               label="Priority"
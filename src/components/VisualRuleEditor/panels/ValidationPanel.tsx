@@ -5,49 +5,75 @@
  */
 
 import React from 'react';
-import { Alert, List, Space, Tag, Typography } from 'antd';
+import { Alert, Button, List, Space, Tag, Typography } from 'antd';
 import { 
   CloseOutlined, 
   WarningOutlined, 
   CheckCircleOutlined,
-  CloseCircleOutlined 
+  CloseCircleOutlined,
+  AimOutlined
 } from '@ant-design/icons';
 import { ValidationResult } from '../types';
+import { FindingSeverity, RuleFinding } from '../utils/ruleAnalysis';
 
 const { Text } = Typography;
 
 interface ValidationPanelProps {
   result: ValidationResult;
+  /** Static analysis findings for the rule shown */
+  findings?: RuleFinding[];
+  /** Name of the rule shown, to tell which side of a two-rule finding it is */
+  ruleName?: string;
+  /** Jump to the condition a finding points at */
+  onFindingSelect?: (finding: RuleFinding) => void;
+  /** Open another rule named in a finding */
+  onRuleSelect?: (ruleName: string) => void;
   onClose: () => void;
 }
 
+const SEVERITY_COLORS: Record<FindingSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'processing'
+};
+
 /**
  * Panel showing validation results
  */
-const ValidationPanel: React.FC<ValidationPanelProps> = ({ result, onClose }) => {
+const ValidationPanel: React.FC<ValidationPanelProps> = ({
+  result,
+  findings = [],
+  ruleName,
+  onFindingSelect,
+  onRuleSelect,
+  onClose
+}) => {
+  const hasErrors = !result.isValid || findings.some(finding => finding.severity === 'error');
+  const hasWarnings = result.warnings.length > 0 || findings.some(finding => finding.severity === 'warning');
+
   const getStatusIcon = () => {
-    if (!result.isValid) {
+    if (hasErrors) {
       return <CloseCircleOutlined style={{ color: '#ff4d4f', fontSize: 20 }} />;
     }
-    if (result.warnings.length > 0) {
+    if (hasWarnings) {
       return <WarningOutlined style={{ color: '#faad14', fontSize: 20 }} />;
     }
     return <CheckCircleOutlined style={{ color: '#52c41a', fontSize: 20 }} />;
   };
 
   const getStatusText = () => {
-    if (!result.isValid) {
+    if (hasErrors) {
       return 'Validation Failed';
     }
-    if (result.warnings.length > 0) {
+    if (hasWarnings) {
       return 'Validation Passed with Warnings';
     }
     return 'Validation Passed';
   };
 
   const getStatusColor = () => {
-    if (!result.isValid) return 'error';
-    if (result.warnings.length > 0) return 'warning';
+    if (hasErrors) return 'error';
+    if (hasWarnings) return 'warning';
     return 'success';
   };
 
@@ -124,7 +150,44 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({ result, onClose }) =>
           </div>
         )}
 
-        {result.isValid && result.warnings.length === 0 && (
+        {findings.length > 0 && (
+          <div style={{ marginTop: result.warnings.length > 0 ? 16 : 0 }}>
+            <Text strong>
+              Analysis ({findings.length})
+            </Text>
+            <List
+              size="small"
+              dataSource={findings}
+              renderItem={(finding) => {
+                const otherRule = finding.ruleName === ruleName ? finding.relatedRule : finding.ruleName;
+                return (
+                  <List.Item style={{ padding: '8px 0' }}>
+                    <Space direction="vertical" size={2}>
+                      <Space align="start">
+                        <Tag color={SEVERITY_COLORS[finding.severity]}>{finding.severity.toUpperCase()}</Tag>
+                        <Text>{finding.message}</Text>
+                      </Space>
+                      <Space size={0}>
+                        {finding.conditionPath !== undefined && finding.ruleName === ruleName && onFindingSelect && (
+                          <Button type="link" size="small" icon={<AimOutlined />} onClick={() => onFindingSelect(finding)}>
+                            Show condition
+                          </Button>
+                        )}
+                        {otherRule && onRuleSelect && (
+                          <Button type="link" size="small" onClick={() => onRuleSelect(otherRule)}>
+                            Open {otherRule}
+                          </Button>
+                        )}
+                      </Space>
+                    </Space>
+                  </List.Item>
+                );
+              }}
+            />
+          </div>
+        )}
+
+        {!hasErrors && !hasWarnings && findings.length === 0 && (
           <Alert
             message="All checks passed"
             description="Your rule configuration is valid and ready to save."
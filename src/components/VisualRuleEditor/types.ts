@@ -14,6 +14,7 @@ export interface RuleCondition {
   operator?: string;
   value?: any;
   params?: any;
+  path?: string; // Fact path such as $.address.city
   all?: RuleCondition[];
   any?: RuleCondition[];
   not?: RuleCondition;
@@ -57,6 +58,138 @@ export interface Rule {
   layout?: RuleLayout; // Optional layout information for visual editor
 }
 
+/**
+ * Documented example of a dynamic fact: the value it gives for an input
+ */
+export interface DynamicFactExample {
+  params?: Record<string, any>;
+  input: Record<string, any>;
+  expected: any;
+}
+
+/**
+ * Dynamic fact computed by the engine; `calculator` is a function body
+ * receiving `(params, almanac)`
+ */
+export interface DynamicFactDefinition {
+  name: string;
+  calculator: string;
+  description?: string;
+  options?: {
+    cache?: boolean;
+    priority?: number;
+  };
+  tests?: DynamicFactExample[];
+}
+
+/**
+ * Documented example of a custom operator
+ */
+export interface CustomOperatorExample {
+  factValue: any;
+  jsonValue: any;
+  expected: boolean;
+}
+
+/**
+ * Custom engine operator; `evaluator` is a function body receiving
+ * `(factValue, jsonValue)` and returning a boolean
+ */
+export interface CustomOperatorDefinition {
+  name: string;
+  evaluator: string;
+  description?: string;
+  tests?: CustomOperatorExample[];
+}
+
+export type CalendarWeekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * Opening window within a day, `HH:mm` in the calendar's timezone
+ */
+export interface CalendarHours {
+  open: string;
+  close: string;
+}
+
+/**
+ * Day with its own hours; dates are `YYYY-MM-DD`, or `MM-DD` for every year
+ */
+export interface CalendarException {
+  date: string;
+  name?: string;
+  /** Hours for the day; closed all day when empty or omitted */
+  hours?: CalendarHours[];
+}
+
+/**
+ * Business hours for a site, referenced from rules as
+ * `{ "fact": "isBusinessHours", "params": { "calendar": "<name>" } }`
+ */
+export interface BusinessCalendar {
+  /** IANA timezone such as `Europe/Dublin`; the simulated timezone when omitted */
+  timezone?: string;
+  /** Opening hours by weekday; days left out are closed */
+  weekly: Partial<Record<CalendarWeekday, CalendarHours[]>>;
+  /** Days closed all day */
+  holidays?: Array<{ date: string; name?: string }>;
+  /** Days with hours other than the weekly ones; these win over holidays */
+  exceptions?: CalendarException[];
+}
+
+/**
+ * Pinned date, time and timezone for a simulation; the live clock and the
+ * browser's timezone are used for whatever is left out
+ */
+export interface SimulatedClock {
+  /** Wall-clock time in `timezone`, `YYYY-MM-DDTHH:mm` */
+  at?: string;
+  timezone?: string;
+}
+
+export type FactType = 'string' | 'number' | 'boolean' | 'enum' | 'list';
+
+/**
+ * Routing input declared in the fact catalog
+ */
+export interface FactDefinition {
+  /** Fact name, or the input key read with `inputValue` */
+  name: string;
+  type: FactType;
+  /** Allowed values of an `enum` fact, or of the items of a `list` fact */
+  values?: Array<string | number>;
+  description?: string;
+  /** Where the value comes from, such as IVR, bot or CRM */
+  source?: string;
+}
+
+export type DestinationKind = 'queue' | 'flow' | 'external';
+
+/**
+ * Destination rules may route to, as listed in the destination registry
+ */
+export interface DestinationDefinition {
+  /** Name used as `defaultDestination` and `event.params.destination` */
+  name: string;
+  kind: DestinationKind;
+  /** Id of the Genesys Cloud queue or flow; unset for external targets */
+  genesysId?: string;
+  description?: string;
+}
+
+/**
+ * Saved test case kept with the rules configuration
+ */
+export interface RuleTestCase {
+  name: string;
+  input: Record<string, any>;
+  expectedDestination: string;
+  /** Rule expected to decide the route; when omitted only the destination is checked */
+  expectedRule?: string;
+  /** Time the case runs at, for rules using time-based facts */
+  clock?: SimulatedClock;
+}
+
 /**
  * Complete rules configuration structure
  */
@@ -73,8 +206,17 @@ export interface RulesConfig {
     logPerformanceMetrics?: boolean;
   };
   rules: Rule[];
-  dynamicFacts?: any[];
-  customOperators?: any[];
+  dynamicFacts?: DynamicFactDefinition[];
+  customOperators?: CustomOperatorDefinition[];
+  /** Conditions shared between rules, referenced as `{ "condition": "<name>" }` */
+  sharedConditions?: Record<string, RuleCondition>;
+  /** Business hours calendars by name */
+  calendars?: Record<string, BusinessCalendar>;
+  /** Declared routing inputs; when present, rules are checked against it */
+  factCatalog?: FactDefinition[];
+  /** Registered destinations; when present, rules may only route to these */
+  destinations?: DestinationDefinition[];
+  testCases?: RuleTestCase[];
 }
 
 /**
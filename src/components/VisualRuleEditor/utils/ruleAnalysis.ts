@@ -0,0 +1,394 @@
+/**
+ * Static analysis of a rules configuration
+ * Finds contradictions, overlapping lists, ambiguous priorities and
+ * unreachable rules without running any input through the rules
+ */
+
+import { isEqual } from 'lodash';
+import { Rule, RuleCondition, RulesConfig } from '../types';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export type FindingKind = 'contradiction' | 'listOverlap' | 'priorityOverlap' | 'unreachable' | 'tooComplex';
+
+/**
+ * Something the analyzer found in a rule
+ */
+export interface RuleFinding {
+  kind: FindingKind;
+  severity: FindingSeverity;
+  ruleName: string;
+  /** Condition the finding is about, as the simulator reports it (`all[0].any[1]`); the whole rule when omitted */
+  conditionPath?: string;
+  /** The other rule involved in overlaps and shadowing */
+  relatedRule?: string;
+  message: string;
+}
+
+/**
+ * A fact comparison with any `not` above it pushed into the operator
+ */
+interface Literal {
+  /** Identity of the compared value: fact, params and path */
+  key: string;
+  label: string;
+  operator: string;
+  value: any;
+  path: string;
+  /** Operators the analyzer cannot reason about; only identical literals compare */
+  opaque: boolean;
+}
+
+type Term = Literal[];
+
+/**
+ * Most and/or combinations of one rule expanded before giving up on it
+ */
+const MAX_TERMS = 64;
+
+const NEGATED_OPERATORS: Record<string, string> = {
+  equal: 'notEqual',
+  notEqual: 'equal',
+  in: 'notIn',
+  notIn: 'in',
+  lessThan: 'greaterThanInclusive',
+  lessThanInclusive: 'greaterThan',
+  greaterThan: 'lessThanInclusive',
+  greaterThanInclusive: 'lessThan',
+  contains: 'doesNotContain',
+  doesNotContain: 'contains',
+  exists: 'doesNotExist',
+  doesNotExist: 'exists'
+};
+
+const KNOWN_OPERATORS = Object.keys(NEGATED_OPERATORS);
+const LOWER_BOUNDS = ['greaterThan', 'greaterThanInclusive'];
+const UPPER_BOUNDS = ['lessThan', 'lessThanInclusive'];
+
+const joinPath = (path: string, step: string): string => (path ? `${path}.${step}` : step);
+
+const describeLiteral = (literal: Literal): string =>
+  `${literal.label} ${literal.operator} ${JSON.stringify(literal.value)}`;
+
+/**
+ * Whether a known value passes a literal's comparison
+ */
+const satisfies = (value: any, literal: Literal): boolean => {
+  const expected = literal.value;
+  switch (literal.operator) {
+    case 'equal': return isEqual(value, expected);
+    case 'notEqual': return !isEqual(value, expected);
+    case 'in': return Array.isArray(expected) && expected.some(item => isEqual(item, value));
+    case 'notIn': return !Array.isArray(expected) || !expected.some(item => isEqual(item, value));
+    case 'lessThan': return typeof value === 'number' && value < expected;
+    case 'lessThanInclusive': return typeof value === 'number' && value <= expected;
+    case 'greaterThan': return typeof value === 'number' && value > expected;
+    case 'greaterThanInclusive': return typeof value === 'number' && value >= expected;
+    case 'contains': return Array.isArray(value) && value.some(item => isEqual(item, expected));
+    case 'doesNotContain': return !Array.isArray(value) || !value.some(item => isEqual(item, expected));
+    case 'exists': return value !== undefined && value !== null;
+    case 'doesNotExist': return value === undefined || value === null;
+    default: return true;
+  }
+};
+
+/**
+ * Values a literal pins the fact to, or null when it allows open-ended values
+ */
+const possibleValues = (literal: Literal): any[] | null => {
+  if (literal.operator === 'equal') return [literal.value];
+  if (literal.operator === 'in' && Array.isArray(literal.value)) return literal.value;
+  return null;
+};
+
+const isRange = (literal: Literal) =>
+  typeof literal.value === 'number' && [...LOWER_BOUNDS, ...UPPER_BOUNDS].includes(literal.operator);
+
+/**
+ * Whether two range literals leave no number between them
+ */
+const rangesConflict = (a: Literal, b: Literal): boolean => {
+  const lower = LOWER_BOUNDS.includes(a.operator) ? a : LOWER_BOUNDS.includes(b.operator) ? b : null;
+  const upper = UPPER_BOUNDS.includes(a.operator) ? a : UPPER_BOUNDS.includes(b.operator) ? b : null;
+  if (!lower || !upper || lower === upper) return false;
+  if (lower.value > upper.value) return true;
+  return lower.value === upper.value && (lower.operator === 'greaterThan' || upper.operator === 'lessThan');
+};
+
+/**
+ * Whether two literals on the same value can never both be true
+ */
+const conflicts = (a: Literal, b: Literal): boolean => {
+  if (a.key !== b.key || a.opaque || b.opaque) return false;
+
+  const aValues = possibleValues(a);
+  const bValues = possibleValues(b);
+  if (aValues) return !aValues.some(value => satisfies(value, b));
+  if (bValues) return !bValues.some(value => satisfies(value, a));
+  if (isRange(a) && isRange(b)) return rangesConflict(a, b);
+
+  const operators = [a.operator, b.operator];
+  return operators.includes('exists') && operators.includes('doesNotExist');
+};
+
+/**
+ * Whether a literal is true whenever another one is
+ */
+const literalImplies = (known: Literal, literal: Literal): boolean => {
+  if (known.key !== literal.key) return false;
+  if (known.operator === literal.operator && isEqual(known.value, literal.value)) return true;
+  if (known.opaque || literal.opaque) return false;
+
+  const values = possibleValues(known);
+  if (values) return values.every(value => satisfies(value, literal));
+
+  if (isRange(known) && isRange(literal)) {
+    if (LOWER_BOUNDS.includes(known.operator) && LOWER_BOUNDS.includes(literal.operator)) {
+      return known.value > literal.value || (known.value === literal.value && literal.operator === 'greaterThanInclusive');
+    }
+    if (UPPER_BOUNDS.includes(known.operator) && UPPER_BOUNDS.includes(literal.operator)) {
+      return known.value < literal.value || (known.value === literal.value && literal.operator === 'lessThanInclusive');
+    }
+  }
+  return false;
+};
+
+const termImplies = (term: Term, other: Term): boolean =>
+  other.every(literal => term.some(known => literalImplies(known, literal)));
+
+/**
+ * First pair of literals in a term that contradict each other
+ */
+const findConflict = (term: Term): [Literal, Literal] | null => {
+  for (let i = 0; i < term.length; i++) {
+    for (let j = i + 1; j < term.length; j++) {
+      if (conflicts(term[i], term[j])) return [term[i], term[j]];
+    }
+  }
+  return null;
+};
+
+const toLiteral = (condition: RuleCondition, path: string, negated: boolean): Literal => {
+  const byKey = condition.fact === 'inputValue' && condition.params?.key;
+  const params = !byKey && condition.params && Object.keys(condition.params).length > 0 ? JSON.stringify(condition.params) : '';
+  const factPath = condition.path || '';
+  const label = `${byKey ? condition.params.key : condition.fact}${factPath.replace(/^\$/, '')}`;
+  const comparesFact = condition.value && typeof condition.value === 'object' && typeof condition.value.fact === 'string';
+  const known = KNOWN_OPERATORS.includes(condition.operator || '') && !comparesFact;
+
+  return {
+    key: `${byKey ? condition.params.key : condition.fact}${params}${factPath}`,
+    label,
+    operator: negated ? (known ? NEGATED_OPERATORS[condition.operator!] : `not ${condition.operator}`) : condition.operator || '',
+    value: condition.value,
+    path,
+    opaque: !known
+  };
+};
+
+/**
+ * Expand a condition tree into alternatives (any) of comparisons that must
+ * all hold. Returns null when the expansion gets too large to compare.
+ */
+const expand = (
+  condition: RuleCondition | undefined,
+  path: string,
+  negated: boolean,
+  sharedConditions: Record<string, RuleCondition>,
+  seen: string[] = []
+): Term[] | null => {
+  if (!condition) return [[]];
+
+  const product = (parts: Array<Term[] | null>): Term[] | null => {
+    let terms: Term[] = [[]];
+    for (const part of parts) {
+      if (!part) return null;
+      terms = terms.flatMap(term => part.map(other => [...term, ...other]));
+      if (terms.length > MAX_TERMS) return null;
+    }
+    return terms;
+  };
+  const union = (parts: Array<Term[] | null>): Term[] | null => {
+    if (parts.some(part => !part)) return null;
+    const terms = (parts as Term[][]).flat();
+    return terms.length > MAX_TERMS ? null : terms;
+  };
+
+  if (condition.all || condition.any) {
+    const isAll = Boolean(condition.all);
+    const children = (condition.all || condition.any)!.map((child, index) =>
+      expand(child, joinPath(path, `${isAll ? 'all' : 'any'}[${index}]`), negated, sharedConditions, seen));
+    // NOT(all) is any of the negations and NOT(any) is all of them
+    return isAll !== negated ? product(children) : union(children);
+  }
+  if (condition.not) {
+    return expand(condition.not, joinPath(path, 'not'), !negated, sharedConditions, seen);
+  }
+  if (condition.condition) {
+    const shared = sharedConditions[condition.condition];
+    if (shared && !seen.includes(condition.condition)) {
+      // Comparisons inside a shared condition point at the reference
+      const terms = expand(shared, '', negated, sharedConditions, [...seen, condition.condition]);
+      return terms && terms.map(term => term.map(literal => ({ ...literal, path })));
+    }
+    return [[{ key: `condition:${condition.condition}`, label: condition.condition, operator: negated ? 'not' : 'is', value: true, path, opaque: true }]];
+  }
+  return condition.fact ? [[toLiteral(condition, path, negated)]] : [[]];
+};
+
+const priorityOf = (rule: Rule) => (typeof rule.priority === 'number' ? rule.priority : 0);
+
+/**
+ * Contradictions and overlapping in/notIn lists within one rule
+ */
+const analyzeRule = (rule: Rule, terms: Term[]): RuleFinding[] => {
+  const findings: RuleFinding[] = [];
+  const reported = new Set<string>();
+  const report = (finding: RuleFinding, a: Literal, b: Literal) => {
+    const id = `${finding.kind}:${[a.path, b.path].sort().join('|')}`;
+    if (!reported.has(id)) {
+      reported.add(id);
+      findings.push(finding);
+    }
+  };
+
+  const satisfiable = terms.filter(term => !findConflict(term));
+  terms.forEach(term => {
+    const conflict = findConflict(term);
+    if (!conflict) return;
+    const [a, b] = conflict;
+    report({
+      kind: 'contradiction',
+      severity: satisfiable.length === 0 ? 'error' : 'warning',
+      ruleName: rule.name,
+      conditionPath: b.path,
+      message: satisfiable.length === 0
+        ? `${describeLiteral(a)} and ${describeLiteral(b)} can never both be true, so the rule never matches`
+        : `${describeLiteral(a)} and ${describeLiteral(b)} can never both be true, so that branch never matches`
+    }, a, b);
+  });
+
+  satisfiable.forEach(term => {
+    term.forEach((a, i) => term.slice(i + 1).forEach(b => {
+      if (a.key !== b.key || a.opaque || b.opaque || !Array.isArray(a.value) || !Array.isArray(b.value)) return;
+      const shared = a.value.filter(value => b.value.some((other: any) => isEqual(other, value)));
+      if (shared.length === 0) return;
+
+      if ([a.operator, b.operator].sort().join() === 'in,notIn') {
+        report({
+          kind: 'listOverlap',
+          severity: 'warning',
+          ruleName: rule.name,
+          conditionPath: b.path,
+          message: `${JSON.stringify(shared)} appear in both the in and notIn lists for ${a.label}, so they can never match`
+        }, a, b);
+      } else if (a.operator === 'in' && b.operator === 'in' && shared.length < Math.max(a.value.length, b.value.length)) {
+        report({
+          kind: 'listOverlap',
+          severity: 'info',
+          ruleName: rule.name,
+          conditionPath: b.path,
+          message: `Both in lists for ${a.label} must hold, so only ${JSON.stringify(shared)} can match`
+        }, a, b);
+      }
+    }));
+  });
+
+  return findings;
+};
+
+/**
+ * Analyse every rule of a configuration. Comparisons the analyzer does not
+ * understand, such as custom operators, are treated as possibly true, so
+ * overlap findings may include cases that cannot happen in practice.
+ */
+export const analyzeRules = (rulesConfig: RulesConfig | null | undefined): RuleFinding[] => {
+  const rules = (rulesConfig?.rules || []).filter(rule => rule && rule.name);
+  const sharedConditions = rulesConfig?.sharedConditions || {};
+  const findings: RuleFinding[] = [];
+
+  const expanded = rules.map(rule => {
+    const terms = expand(rule.conditions, '', false, sharedConditions);
+    if (!terms) {
+      findings.push({
+        kind: 'tooComplex',
+        severity: 'info',
+        ruleName: rule.name,
+        message: `Too many any/all combinations to check this rule against other rules (over ${MAX_TERMS})`
+      });
+      return { rule, terms: null };
+    }
+    findings.push(...analyzeRule(rule, terms));
+    return { rule, terms: terms.filter(term => !findConflict(term)) };
+  });
+
+  expanded.forEach(({ rule, terms }, index) => {
+    if (!terms || terms.length === 0) return;
+
+    expanded.forEach(({ rule: other, terms: otherTerms }, otherIndex) => {
+      if (otherIndex === index || !otherTerms || otherTerms.length === 0) return;
+      const sameDestination = rule.event?.params?.destination === other.event?.params?.destination;
+
+      // Report each equal-priority pair once, on the rule listed first
+      if (otherIndex > index && priorityOf(rule) === priorityOf(other)) {
+        const overlap = terms.some(term => otherTerms.some(otherTerm => !findConflict([...term, ...otherTerm])));
+        if (overlap) {
+          findings.push({
+            kind: 'priorityOverlap',
+            severity: sameDestination ? 'info' : 'warning',
+            ruleName: rule.name,
+            relatedRule: other.name,
+            message: `"${rule.name}" and "${other.name}" share priority ${priorityOf(rule)} and can both match${sameDestination ? '' : ', so which destination wins is not defined'}`
+          });
+        }
+      }
+
+      if (priorityOf(other) > priorityOf(rule) && terms.every(term => otherTerms.some(otherTerm => termImplies(term, otherTerm)))) {
+        findings.push({
+          kind: 'unreachable',
+          severity: sameDestination ? 'info' : 'warning',
+          ruleName: rule.name,
+          relatedRule: other.name,
+          message: `Every input "${rule.name}" matches is also matched by higher-priority "${other.name}", so it never decides the route`
+        });
+      }
+    });
+  });
+
+  return findings;
+};
+
+/**
+ * Two rules that some input can match at the same time
+ */
+export interface RuleOverlap {
+  ruleName: string;
+  relatedRule: string;
+  samePriority: boolean;
+}
+
+/**
+ * Every pair of rules that can both match one input, whatever their
+ * priorities. Their relative priority decides which one routes such inputs,
+ * so these are the pairs to watch when reordering. Rules too complex to
+ * expand are left out.
+ */
+export const findRuleOverlaps = (rulesConfig: RulesConfig | null | undefined): RuleOverlap[] => {
+  const rules = (rulesConfig?.rules || []).filter(rule => rule && rule.name);
+  const sharedConditions = rulesConfig?.sharedConditions || {};
+  const expanded = rules.map(rule => ({
+    rule,
+    terms: (expand(rule.conditions, '', false, sharedConditions) || []).filter(term => !findConflict(term))
+  }));
+  const overlaps: RuleOverlap[] = [];
+
+  expanded.forEach(({ rule, terms }, index) => {
+    expanded.slice(index + 1).forEach(({ rule: other, terms: otherTerms }) => {
+      if (terms.some(term => otherTerms.some(otherTerm => !findConflict([...term, ...otherTerm])))) {
+        overlaps.push({ ruleName: rule.name, relatedRule: other.name, samePriority: priorityOf(rule) === priorityOf(other) });
+      }
+    });
+  });
+
+  return overlaps;
+};
@@ -0,0 +1,120 @@
+/**
+ * Helpers for the ruleset overview
+ * Orders rules into priority lanes, summarises their conditions and works out
+ * the priorities that give a rule a new place in the order
+ */
+
+import { Rule, RuleCondition } from '../types';
+import { MAX_PRIORITY, MIN_PRIORITY } from '../../../utils/ruleValidation';
+
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  equal: '=',
+  notEqual: '≠',
+  greaterThan: '>',
+  greaterThanInclusive: '≥',
+  lessThan: '<',
+  lessThanInclusive: '≤'
+};
+
+const priorityOf = (rule: Rule) => (typeof rule.priority === 'number' ? rule.priority : 0);
+
+/**
+ * Rule indexes in the order the engine evaluates them: highest priority
+ * first, config order between equal priorities
+ */
+export const getPriorityOrder = (rules: Rule[]): number[] =>
+  rules.map((_rule, index) => index).sort((a, b) => priorityOf(rules[b]) - priorityOf(rules[a]) || a - b);
+
+/**
+ * One-line summary of a condition tree, such as
+ * `brand = "acme" AND (intent in ["billing","payments"] OR vip = true)`
+ */
+export const summarizeConditions = (condition: RuleCondition | undefined, depth: number = 0): string => {
+  if (!condition) return 'always';
+
+  if (condition.all || condition.any) {
+    const children = (condition.all || condition.any)!;
+    if (children.length === 0) return 'always';
+    const text = children.map(child => summarizeConditions(child, depth + 1)).join(condition.all ? ' AND ' : ' OR ');
+    return depth > 0 && children.length > 1 ? `(${text})` : text;
+  }
+  if (condition.not) {
+    return `NOT ${summarizeConditions(condition.not, depth + 1)}`;
+  }
+  if (condition.condition) {
+    return `[${condition.condition}]`;
+  }
+  if (condition.fact) {
+    const fact = (condition.fact === 'inputValue' || condition.fact === 'hasKey') && condition.params?.key
+      ? condition.fact === 'hasKey' ? `has ${condition.params.key}` : condition.params.key
+      : condition.fact;
+    if (condition.fact === 'hasKey') return fact;
+    return `${fact} ${OPERATOR_SYMBOLS[condition.operator || ''] || condition.operator} ${JSON.stringify(condition.value)}`;
+  }
+  return 'always';
+};
+
+/**
+ * New priorities that move a rule to `position` in the priority order
+ * (0 is evaluated first), keyed by rule index. The moved rule gets a priority
+ * strictly between its new neighbours; other rules only change when there is
+ * no room, keeping equal priorities equal and distinct ones distinct.
+ */
+export const planPriorityMove = (rules: Rule[], ruleIndex: number, position: number): Map<number, number> => {
+  const order = getPriorityOrder(rules).filter(index => index !== ruleIndex);
+  const target = Math.max(0, Math.min(position, order.length));
+  order.splice(target, 0, ruleIndex);
+
+  const above = target > 0 ? priorityOf(rules[order[target - 1]]) : null;
+  const below = target < order.length - 1 ? priorityOf(rules[order[target + 1]]) : null;
+  const current = priorityOf(rules[ruleIndex]);
+
+  // Room between the neighbours: only the moved rule changes
+  let wanted: number;
+  if (above !== null && below !== null) {
+    wanted = Math.floor((above + below) / 2);
+  } else if (above !== null) {
+    wanted = Math.min(current, above - 1);
+  } else if (below !== null) {
+    wanted = Math.max(current, below + 1);
+  } else {
+    wanted = current;
+  }
+  if ((above === null || wanted < above) && (below === null || wanted > below) && wanted >= MIN_PRIORITY && wanted <= MAX_PRIORITY) {
+    return wanted === current ? new Map() : new Map([[ruleIndex, wanted]]);
+  }
+
+  // Lanes touching the moved rule, and lanes that were already apart, stay above the lane below
+  const mustExceedNext = (lane: number) => order[lane] === ruleIndex || order[lane + 1] === ruleIndex
+    || priorityOf(rules[order[lane]]) > priorityOf(rules[order[lane + 1]]);
+  const assign = (priorities: number[]): Map<number, number> => {
+    const changes = new Map<number, number>();
+    order.forEach((index, lane) => {
+      if (priorities[lane] !== priorityOf(rules[index])) changes.set(index, priorities[lane]);
+    });
+    return changes;
+  };
+  const fits = (priorities: number[]) => priorities.every(priority => priority >= MIN_PRIORITY && priority <= MAX_PRIORITY);
+
+  // Raise the rules above the moved one as little as possible
+  const raised = new Array<number>(order.length);
+  for (let lane = order.length - 1; lane >= 0; lane--) {
+    const own = order[lane] === ruleIndex ? (below ?? MIN_PRIORITY - 1) + 1 : priorityOf(rules[order[lane]]);
+    const floor = lane === order.length - 1 ? MIN_PRIORITY : raised[lane + 1] + (mustExceedNext(lane) ? 1 : 0);
+    raised[lane] = Math.max(own, floor);
+  }
+  if (fits(raised)) return assign(raised);
+
+  // Otherwise lower the rules below it
+  const lowered = new Array<number>(order.length);
+  order.forEach((index, lane) => {
+    const own = index === ruleIndex ? (above ?? MAX_PRIORITY + 1) - 1 : priorityOf(rules[index]);
+    const ceiling = lane === 0 ? MAX_PRIORITY : lowered[lane - 1] - (mustExceedNext(lane - 1) ? 1 : 0);
+    lowered[lane] = Math.min(own, ceiling);
+  });
+  if (fits(lowered)) return assign(lowered);
+
+  // Spread the whole range evenly as a last resort
+  const step = Math.max(1, Math.floor((MAX_PRIORITY - MIN_PRIORITY) / order.length));
+  return assign(order.map((_index, lane) => MAX_PRIORITY - lane * step));
+};
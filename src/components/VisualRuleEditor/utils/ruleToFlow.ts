@@ -56,6 +56,31 @@ const calculatePosition = (
   }
 };
 
+/**
+ * Id ruleToFlow gives the node of a condition, found by the condition path
+ * the simulator and analyzer report (`all[0].any[1]`, empty for the root)
+ */
+export const getConditionNodeId = (conditions: RuleCondition | undefined, path: string): string | null => {
+  let counter = 0;
+
+  // Ids are handed out in the same depth-first order as processCondition
+  const visit = (condition: RuleCondition, currentPath: string): string | null => {
+    const nodeId = `node-${counter++}`;
+    if (currentPath === path) return nodeId;
+
+    const step = condition.all ? 'all' : condition.any ? 'any' : null;
+    const children = condition.all || condition.any || (condition.not ? [condition.not] : []);
+    for (const [index, child] of children.entries()) {
+      const childStep = step ? `${step}[${index}]` : 'not';
+      const found = visit(child, currentPath ? `${currentPath}.${childStep}` : childStep);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return conditions ? visit(conditions, '') : null;
+};
+
 /**
  * Convert a rule object to React Flow nodes and edges
  */
@@ -5,56 +5,22 @@
  */
 
 import { Node, Edge } from 'reactflow';
-import { Rule, ValidationResult, AVAILABLE_OPERATORS } from '../types';
+import { Rule, RulesConfig, ValidationResult } from '../types';
+import {
+  MAX_PRIORITY,
+  MIN_PRIORITY,
+  getConditionContext,
+  toValidationResult,
+  validateFactConditionDiagnostics,
+  validateRuleDiagnostics
+} from '../../../utils/ruleValidation';
 
 /**
- * Validate a complete rule structure
+ * Validate a complete rule structure. With the rules config, shared condition
+ * references and custom operators are checked too.
  */
-export const validateRule = (rule: Rule): ValidationResult => {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Validate basic rule properties
-  if (!rule.name || rule.name.trim() === '') {
-    errors.push('Rule name is required');
-  }
-
-  if (typeof rule.priority !== 'number' || rule.priority < 1 || rule.priority > 999) {
-    errors.push('Rule priority must be a number between 1 and 999');
-  }
-
-  // Validate default destination
-  if (!rule.defaultDestination) {
-    errors.push('Rule default destination is required (field is missing or null)');
-  } else if (typeof rule.defaultDestination !== 'string') {
-    errors.push('Rule default destination must be a string');
-  } else if (rule.defaultDestination.trim() === '') {
-    errors.push('Rule default destination cannot be empty or whitespace only');
-  }
-
-  // Validate conditions
-  if (!rule.conditions || Object.keys(rule.conditions).length === 0) {
-    errors.push('Rule must have at least one condition');
-  }
-
-  // Validate event
-  if (!rule.event) {
-    errors.push('Rule must have an event');
-  } else {
-    if (!rule.event.type) {
-      errors.push('Event type is required');
-    }
-    if (!rule.event.params?.destination) {
-      errors.push('Event destination is required');
-    }
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings
-  };
-};
+export const validateRule = (rule: Rule, rulesConfig?: RulesConfig): ValidationResult =>
+  toValidationResult(validateRuleDiagnostics(rule, [], '', rulesConfig ? getConditionContext(rulesConfig) : {}));
 
 /**
  * Validate flow structure for conversion
@@ -121,25 +87,9 @@ export const validateFlow = (nodes: Node[], edges: Edge[]): ValidationResult =>
     }
     
     if (node.type === 'factCondition') {
-      const data = node.data as any;
-      
-      if (!data.fact) {
-        errors.push(`Fact condition is missing fact field`);
-      }
-      
-      if (!data.operator) {
-        errors.push(`Fact condition is missing operator`);
-      } else if (!AVAILABLE_OPERATORS.includes(data.operator as any)) {
-        warnings.push(`Unknown operator "${data.operator}"`);
-      }
-      
-      if (data.value === undefined || data.value === '') {
-        warnings.push(`Fact condition is missing value`);
-      }
-      
-      if (data.fact === 'inputValue' && !data.params?.key) {
-        errors.push(`inputValue fact requires a key parameter`);
-      }
+      const result = toValidationResult(validateFactConditionDiagnostics(node.data));
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
     }
     
     if (node.type === 'eventNode') {
@@ -203,25 +153,20 @@ export const validateNodeData = (nodeType: string, data: any): ValidationResult
       if (!data.name || data.name.trim() === '') {
         errors.push('Rule name is required');
       }
-      if (typeof data.priority !== 'number' || data.priority < 1) {
-        errors.push('Priority must be a positive number');
+      if (typeof data.priority !== 'number' || data.priority < MIN_PRIORITY || data.priority > MAX_PRIORITY) {
+        errors.push(`Priority must be a number between ${MIN_PRIORITY} and ${MAX_PRIORITY}`);
       }
       if (!data.defaultDestination || data.defaultDestination.trim() === '') {
         errors.push('Default destination is required');
       }
       break;
       
-    case 'factCondition':
-      if (!data.fact) {
-        errors.push('Fact is required');
-      }
-      if (!data.operator) {
-        errors.push('Operator is required');
-      }
-      if (data.value === undefined || data.value === '') {
-        warnings.push('Value is empty');
-      }
+    case 'factCondition': {
+      const result = toValidationResult(validateFactConditionDiagnostics(data));
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
       break;
+    }
       
     case 'eventNode':
       if (!data.destination) {
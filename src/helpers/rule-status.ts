@@ -0,0 +1,27 @@
+import type { RuleStatus } from '../services/genesysService';
+
+/**
+ * Tag colour for each rule lifecycle state
+ */
+export const STATUS_COLORS: Record<RuleStatus, string> = {
+  'draft': 'blue',
+  'pending-review': 'gold',
+  'approved': 'cyan',
+  'rejected': 'red',
+  'active': 'green',
+  'inactive': 'default',
+  'scheduled': 'purple'
+};
+
+/**
+ * Display label for each rule lifecycle state
+ */
+export const STATUS_LABELS: Record<RuleStatus, string> = {
+  'draft': 'DRAFT',
+  'pending-review': 'PENDING REVIEW',
+  'approved': 'APPROVED',
+  'rejected': 'REJECTED',
+  'active': 'ACTIVE',
+  'inactive': 'INACTIVE',
+  'scheduled': 'SCHEDULED'
+};
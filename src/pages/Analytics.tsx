@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, Row, Col, Statistic, Radio, Space, Button, Typography, Table, Tag, InputNumber, Empty, Spin, message } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as ChartTooltip,
+  Legend,
+  ReferenceLine
+} from 'recharts';
+import genesysService, { DRAFT_STATUSES, ExecutionLogEntry } from '../services/genesysService';
+import {
+  ActivationPoint,
+  TimeBucket,
+  VersionSummary,
+  bucketExecutions,
+  countRuleHits,
+  findActivations,
+  findUnmatchedRules,
+  summariseByVersion,
+  summariseExecutions
+} from '../utils/logAnalytics';
+
+const { Text } = Typography;
+
+type RangeKey = '24h' | '7d' | '30d';
+
+const RANGES: Record<RangeKey, { label: string; days: number; bucket: TimeBucket }> = {
+  '24h': { label: 'Last 24 hours', days: 1, bucket: 'hour' },
+  '7d': { label: 'Last 7 days', days: 7, bucket: 'day' },
+  '30d': { label: 'Last 30 days', days: 30, bucket: 'day' }
+};
+
+const SERIES_COLORS = ['#1677ff', '#52c41a', '#fa8c16', '#722ed1', '#13c2c2', '#eb2f96', '#faad14', '#2f54eb'];
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const Analytics: React.FC = () => {
+  const [range, setRange] = useState<RangeKey>('7d');
+  const [unmatchedDays, setUnmatchedDays] = useState(7);
+  const [entries, setEntries] = useState<ExecutionLogEntry[]>([]);
+  const [deploys, setDeploys] = useState<ActivationPoint[]>([]);
+  const [activeRuleNames, setActiveRuleNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (genesysService.hasExecutionLogs()) {
+      loadAnalytics();
+    }
+  }, [range, unmatchedDays]);
+
+  const loadAnalytics = async () => {
+    try {
+      setLoading(true);
+      // Read far enough back for both the charts and the never-matched check
+      const days = Math.max(RANGES[range].days, unmatchedDays);
+      const [logs, history, active] = await Promise.all([
+        genesysService.getAllExecutionLogs({ from: dayjs().subtract(days, 'day').toISOString() }),
+        genesysService.getAllRulesHistory(),
+        genesysService.getActiveRules()
+      ]);
+
+      setEntries(logs);
+      setDeploys(
+        history
+          .filter(version => !DRAFT_STATUSES.includes(version.status) && version.status !== 'scheduled')
+          .map(version => ({ version: version.version, time: Date.parse(version.activateAt || version.createdAt) }))
+      );
+      setActiveRuleNames((active?.rules?.rules || []).map((rule: any) => rule.name));
+    } catch (error: any) {
+      console.error('Failed to load analytics:', error);
+      message.error('Failed to load analytics: ' + (error.message || 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rangeStart = dayjs().subtract(RANGES[range].days, 'day').valueOf();
+  const rangeEntries = useMemo(
+    () => entries.filter(entry => Date.parse(entry.timestamp) >= rangeStart),
+    [entries, range]
+  );
+
+  const summary = useMemo(() => summariseExecutions(rangeEntries), [rangeEntries]);
+  const versionSummaries = useMemo(() => summariseByVersion(rangeEntries), [rangeEntries]);
+  const ruleHits = useMemo(() => countRuleHits(rangeEntries), [rangeEntries]);
+  const unmatchedRules = useMemo(
+    () => findUnmatchedRules(activeRuleNames, entries, dayjs().subtract(unmatchedDays, 'day').toISOString()),
+    [activeRuleNames, entries, unmatchedDays]
+  );
+
+  const points = useMemo(() => bucketExecutions(rangeEntries, RANGES[range].bucket), [rangeEntries, range]);
+  const destinations = useMemo(
+    () => [...new Set(rangeEntries.map(entry => entry.output || 'none'))].sort(),
+    [rangeEntries]
+  );
+  const destinationData = points.map(point => ({ time: point.time, ...point.destinations }));
+  const rateData = points.map(point => ({
+    time: point.time,
+    fallback: point.calls ? +(point.fallbackRate * 100).toFixed(1) : null,
+    errors: point.calls ? +(point.errorRate * 100).toFixed(1) : null,
+    p50: point.calls ? point.p50 : null,
+    p95: point.calls ? point.p95 : null
+  }));
+
+  const formatTick = (time: number) =>
+    dayjs(time).format(RANGES[range].bucket === 'hour' ? 'HH:mm' : 'MMM D');
+
+  // Deploys and rollbacks inside the charted period, drawn as vertical markers
+  const activations = useMemo(() => findActivations(deploys, entries), [deploys, entries]);
+  const visibleDeploys = points.length > 0
+    ? activations.filter(deploy => deploy.time >= points[0].time && deploy.time <= points[points.length - 1].time + 1)
+    : [];
+  const renderDeployLines = () => visibleDeploys.map(deploy => (
+    <ReferenceLine
+      key={`${deploy.version}-${deploy.time}`}
+      x={deploy.time}
+      stroke="#ff4d4f"
+      strokeDasharray="4 4"
+      label={{ value: `v${deploy.version}`, position: 'top', fill: '#ff4d4f', fontSize: 12 }}
+    />
+  ));
+
+  const timeAxis = (
+    <XAxis
+      dataKey="time"
+      type="number"
+      scale="time"
+      domain={['dataMin', 'dataMax']}
+      tickFormatter={formatTick}
+    />
+  );
+
+  const versionColumns: ColumnsType<VersionSummary> = [
+    { title: 'Version', dataIndex: 'version', key: 'version', render: (version) => <Text strong>v{version}</Text> },
+    { title: 'Calls', dataIndex: 'calls', key: 'calls' },
+    { title: 'Fallback Rate', dataIndex: 'fallbackRate', key: 'fallbackRate', render: formatPercent },
+    {
+      title: 'Error Rate',
+      dataIndex: 'errorRate',
+      key: 'errorRate',
+      render: (rate) => <Text type={rate > 0.05 ? 'danger' : undefined}>{formatPercent(rate)}</Text>
+    },
+    { title: 'p50', dataIndex: 'p50', key: 'p50', render: (ms) => `${ms}ms` },
+    { title: 'p95', dataIndex: 'p95', key: 'p95', render: (ms) => `${ms}ms` },
+    {
+      title: 'Seen',
+      key: 'seen',
+      render: (_, record) => `${dayjs(record.firstSeen).format('MMM D HH:mm')} - ${dayjs(record.lastSeen).format('MMM D HH:mm')}`
+    }
+  ];
+
+  if (!genesysService.hasExecutionLogs()) {
+    return (
+      <Card title="Routing Analytics">
+        <Empty description="No logs table configured. Set VITE_LOGS_TABLE_ID (or logsTableId on the environment) to see analytics." />
+      </Card>
+    );
+  }
+
+  return (
+    <Spin spinning={loading}>
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Card
+          title="Routing Analytics"
+          extra={
+            <Space>
+              <Radio.Group value={range} onChange={(e) => setRange(e.target.value)} optionType="button">
+                {(Object.keys(RANGES) as RangeKey[]).map(key => (
+                  <Radio.Button key={key} value={key}>{RANGES[key].label}</Radio.Button>
+                ))}
+              </Radio.Group>
+              <Button icon={<ReloadOutlined />} onClick={loadAnalytics}>Refresh</Button>
+            </Space>
+          }
+        >
+          <Row gutter={16}>
+            <Col span={5}><Statistic title="Calls" value={summary.calls} /></Col>
+            <Col span={5}><Statistic title="Fallback to Default" value={formatPercent(summary.fallbackRate)} /></Col>
+            <Col span={5}><Statistic title="Error Rate" value={formatPercent(summary.errorRate)} /></Col>
+            <Col span={4}><Statistic title="p50 Execution" value={summary.p50} suffix="ms" /></Col>
+            <Col span={5}><Statistic title="p95 Execution" value={summary.p95} suffix="ms" /></Col>
+          </Row>
+          {visibleDeploys.length > 0 && (
+            <Text type="secondary">
+              <small>Dashed red lines mark deploys and rollbacks.</small>
+            </Text>
+          )}
+        </Card>
+
+        {rangeEntries.length === 0 ? (
+          <Card><Empty description="No executions logged in this period" /></Card>
+        ) : (
+          <>
+            <Card title="Calls per Destination" size="small">
+              <ResponsiveContainer width="100%" height={300}>
+                <AreaChart data={destinationData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  {timeAxis}
+                  <YAxis allowDecimals={false} />
+                  <ChartTooltip labelFormatter={(time) => dayjs(time as number).format('YYYY-MM-DD HH:mm')} />
+                  <Legend />
+                  {destinations.map((destination, index) => (
+                    <Area
+                      key={destination}
+                      type="monotone"
+                      dataKey={destination}
+                      stackId="calls"
+                      stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      fill={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      fillOpacity={0.4}
+                    />
+                  ))}
+                  {renderDeployLines()}
+                </AreaChart>
+              </ResponsiveContainer>
+            </Card>
+
+            <Row gutter={16}>
+              <Col span={12}>
+                <Card title="Fallback and Error Rate (%)" size="small">
+                  <ResponsiveContainer width="100%" height={260}>
+                    <LineChart data={rateData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      {timeAxis}
+                      <YAxis unit="%" />
+                      <ChartTooltip labelFormatter={(time) => dayjs(time as number).format('YYYY-MM-DD HH:mm')} />
+                      <Legend />
+                      <Line type="monotone" dataKey="fallback" name="Fallback" stroke="#fa8c16" connectNulls />
+                      <Line type="monotone" dataKey="errors" name="Errors" stroke="#ff4d4f" connectNulls />
+                      {renderDeployLines()}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </Card>
+              </Col>
+              <Col span={12}>
+                <Card title="Execution Time (ms)" size="small">
+                  <ResponsiveContainer width="100%" height={260}>
+                    <LineChart data={rateData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      {timeAxis}
+                      <YAxis unit="ms" />
+                      <ChartTooltip labelFormatter={(time) => dayjs(time as number).format('YYYY-MM-DD HH:mm')} />
+                      <Legend />
+                      <Line type="monotone" dataKey="p50" name="p50" stroke="#1677ff" connectNulls />
+                      <Line type="monotone" dataKey="p95" name="p95" stroke="#722ed1" connectNulls />
+                      {renderDeployLines()}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </Card>
+              </Col>
+            </Row>
+
+            <Row gutter={16}>
+              <Col span={14}>
+                <Card title="Rule Hits" size="small">
+                  <ResponsiveContainer width="100%" height={Math.max(160, ruleHits.length * 32)}>
+                    <BarChart data={ruleHits} layout="vertical" margin={{ left: 40 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="rule" width={140} />
+                      <ChartTooltip />
+                      <Bar dataKey="hits" fill="#1677ff" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </Card>
+              </Col>
+              <Col span={10}>
+                <Card
+                  title="Rules That Never Matched"
+                  size="small"
+                  extra={
+                    <Space>
+                      <Text type="secondary">in the last</Text>
+                      <InputNumber
+                        min={1}
+                        max={90}
+                        value={unmatchedDays}
+                        onChange={(days) => setUnmatchedDays(days || 1)}
+                        style={{ width: 70 }}
+                      />
+                      <Text type="secondary">days</Text>
+                    </Space>
+                  }
+                >
+                  {unmatchedRules.length > 0 ? (
+                    <Space wrap>
+                      {unmatchedRules.map(rule => <Tag key={rule} color="orange">{rule}</Tag>)}
+                    </Space>
+                  ) : (
+                    <Text type="secondary">Every rule in the active version matched at least once.</Text>
+                  )}
+                </Card>
+              </Col>
+            </Row>
+
+            <Card title="By Rules Version" size="small">
+              <Table
+                size="small"
+                rowKey="version"
+                columns={versionColumns}
+                dataSource={versionSummaries}
+                pagination={false}
+              />
+            </Card>
+          </>
+        )}
+      </Space>
+    </Spin>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, Row, Col, Statistic, Table, Tag, Space, Button, Typography, Select, Switch, Alert, Empty, List, Tooltip, message } from 'antd';
+import { ReloadOutlined, PartitionOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import genesysService from '../services/genesysService';
+import { CoverageReport as CoverageReportData, RuleCoverage, buildCoverageReport, hasCoverageIssue } from '../utils/coverageReport';
+
+const { Text } = Typography;
+
+interface CoverageReportProps {
+  /** Open a rule in the visual editor */
+  onOpenRule: (ruleName: string) => void;
+}
+
+const WINDOW_OPTIONS = [7, 30, 90];
+
+const CoverageReport: React.FC<CoverageReportProps> = ({ onOpenRule }) => {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<CoverageReportData | null>(null);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (genesysService.hasExecutionLogs()) {
+      loadReport();
+    }
+  }, [days]);
+
+  const loadReport = async () => {
+    try {
+      setLoading(true);
+      const [active, entries] = await Promise.all([
+        genesysService.getActiveRules(),
+        genesysService.getAllExecutionLogs({ from: dayjs().subtract(days, 'day').toISOString() })
+      ]);
+
+      if (!active) {
+        setReport(null);
+        setActiveVersion(null);
+        return;
+      }
+      setActiveVersion(active.version);
+      setReport(await buildCoverageReport(active.rules, entries));
+    } catch (error: any) {
+      console.error('Failed to build coverage report:', error);
+      message.error('Failed to build coverage report: ' + (error.message || 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const counts = useMemo(() => ({
+    neverMatched: report?.rules.filter(rule => rule.loggedMatches === 0).length || 0,
+    deadConditions: report?.rules.reduce((total, rule) => total + rule.neverTrueConditions.length, 0) || 0,
+    shadowed: report?.rules.filter(rule => rule.shadowedBy.length > 0).length || 0
+  }), [report]);
+
+  const columns: ColumnsType<RuleCoverage> = [
+    {
+      title: 'Rule',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name) => <Text strong>{name}</Text>
+    },
+    {
+      title: 'Priority',
+      dataIndex: 'priority',
+      key: 'priority',
+      sorter: (a, b) => a.priority - b.priority,
+      defaultSortOrder: 'descend'
+    },
+    {
+      title: 'Logged Matches',
+      dataIndex: 'loggedMatches',
+      key: 'loggedMatches',
+      sorter: (a, b) => a.loggedMatches - b.loggedMatches
+    },
+    {
+      title: 'Issues',
+      key: 'issues',
+      render: (_, rule) => (
+        <Space size={[0, 4]} wrap>
+          {rule.loggedMatches === 0 && <Tag color="red">NEVER MATCHED</Tag>}
+          {rule.shadowedBy.length > 0 && (
+            <Tooltip title={`Every execution this rule matched was decided by ${rule.shadowedBy.join(', ')}`}>
+              <Tag color="purple">SHADOWED BY {rule.shadowedBy[0]}{rule.shadowedBy.length > 1 ? ` +${rule.shadowedBy.length - 1}` : ''}</Tag>
+            </Tooltip>
+          )}
+          {rule.neverTrueConditions.length > 0 && (
+            <Tag color="orange">
+              {rule.neverTrueConditions.length} CONDITION{rule.neverTrueConditions.length > 1 ? 'S' : ''} NEVER TRUE
+            </Tag>
+          )}
+          {!hasCoverageIssue(rule) && <Tag color="green">OK</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, rule) => (
+        <Tooltip title="Open in visual editor">
+          <Button icon={<PartitionOutlined />} size="small" onClick={() => onOpenRule(rule.name)} />
+        </Tooltip>
+      )
+    }
+  ];
+
+  if (!genesysService.hasExecutionLogs()) {
+    return (
+      <Card title="Rule Coverage">
+        <Empty description="No logs table configured. Set VITE_LOGS_TABLE_ID (or logsTableId on the environment) to see rule coverage." />
+      </Card>
+    );
+  }
+
+  const rows = (report?.rules || []).filter(rule => !issuesOnly || hasCoverageIssue(rule));
+
+  return (
+    <Card
+      title={activeVersion !== null ? `Rule Coverage (active v${activeVersion})` : 'Rule Coverage'}
+      extra={
+        <Space>
+          <Select
+            value={days}
+            onChange={setDays}
+            options={WINDOW_OPTIONS.map(option => ({ value: option, label: `Last ${option} days` }))}
+            style={{ width: 140 }}
+          />
+          <Button icon={<ReloadOutlined />} onClick={loadReport} loading={loading}>Refresh</Button>
+        </Space>
+      }
+    >
+      {!loading && !report ? (
+        <Empty description="No active rules to report on" />
+      ) : (
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <Row gutter={16}>
+            <Col span={6}><Statistic title="Executions" value={report?.executions || 0} /></Col>
+            <Col span={6}><Statistic title="Never Matched" value={counts.neverMatched} valueStyle={counts.neverMatched ? { color: '#cf1322' } : undefined} /></Col>
+            <Col span={6}><Statistic title="Shadowed" value={counts.shadowed} /></Col>
+            <Col span={6}><Statistic title="Conditions Never True" value={counts.deadConditions} /></Col>
+          </Row>
+
+          <Alert
+            type="info"
+            showIcon
+            message="How this is worked out"
+            description={`Matches come from the logs table. Conditions and shadowing come from replaying the ${report?.replayedInputs || 0} distinct logged inputs through the simulator in engine mode against the active rules, so time-based facts are evaluated as of now.${report?.failedInputs ? ` ${report.failedInputs} of them failed in the engine (for example a missing fact) and are not counted.` : ''}`}
+          />
+
+          <Space>
+            <Switch checked={issuesOnly} onChange={setIssuesOnly} />
+            <Text>Only rules with issues</Text>
+          </Space>
+
+          <Table
+            size="small"
+            rowKey="name"
+            loading={loading}
+            columns={columns}
+            dataSource={rows}
+            pagination={false}
+            expandable={{
+              rowExpandable: (rule) => rule.neverTrueConditions.length > 0,
+              expandedRowRender: (rule) => (
+                <List
+                  size="small"
+                  header={<Text type="secondary">Conditions that were never true in replayed traffic</Text>}
+                  dataSource={rule.neverTrueConditions}
+                  renderItem={(condition) => (
+                    <List.Item>
+                      <Space>
+                        <Text code>{condition.path}</Text>
+                        <Text>{condition.label}</Text>
+                      </Space>
+                    </List.Item>
+                  )}
+                />
+              )
+            }}
+          />
+        </Space>
+      )}
+    </Card>
+  );
+};
+
+export default CoverageReport;
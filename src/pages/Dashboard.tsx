@@ -1,25 +1,38 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { Layout, Menu, Typography, Button, Space, Spin, Alert, theme, Badge, Tooltip } from 'antd';
+import { Layout, Menu, Typography, Button, Space, Spin, Alert, theme, Badge, Tooltip, Tag, message } from 'antd';
 import { 
   UserOutlined, 
   LogoutOutlined, 
   FileTextOutlined,
   HistoryOutlined,
+  ProfileOutlined,
+  LineChartOutlined,
+  RadarChartOutlined,
   QuestionCircleOutlined,
   SettingOutlined,
   AimOutlined,
   LockOutlined
 } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
-import genesysService from '../services/genesysService';
+import genesysService, { ExecutionLogEntry } from '../services/genesysService';
+import { ActivationScheduler, ScheduledActivation } from '../services/activationScheduler';
 import { useAuth } from '../contexts/AuthContext';
 import RulesEditor from './RulesEditor';
 import VersionHistory from './VersionHistory';
+import ExecutionLogs from './ExecutionLogs';
+import Analytics from './Analytics';
+import CoverageReport from './CoverageReport';
 import HelpWiki from '../components/HelpWiki';
+import UpcomingActivations from '../components/UpcomingActivations';
+import EnvironmentSwitcher from '../components/EnvironmentSwitcher';
+import type { RulesEnvironment } from '../services/environments';
 
 const { Header, Sider, Content } = Layout;
 const { Title } = Typography;
 
+// Turn off when a headless scheduler applies scheduled activations instead
+const BROWSER_SCHEDULER_ENABLED = import.meta.env.VITE_BROWSER_SCHEDULER !== 'false';
+
 interface UserProfile {
   id: string;
   email: string;
@@ -38,6 +51,11 @@ const Dashboard: React.FC = () => {
   const [selectedMenu, setSelectedMenu] = useState('rules');
   const [helpVisible, setHelpVisible] = useState(false);
   const [forceUpdateCounter, setForceUpdateCounter] = useState(0);
+  const [upcomingActivations, setUpcomingActivations] = useState<ScheduledActivation[]>([]);
+  const [environmentId, setEnvironmentId] = useState(() => genesysService.getEnvironment().id);
+  const [replayEntry, setReplayEntry] = useState<ExecutionLogEntry | null>(null);
+  const [focusRuleName, setFocusRuleName] = useState<string | null>(null);
+  const [editorHasChanges, setEditorHasChanges] = useState(false);
   
   const {
     token: { colorBgContainer },
@@ -110,6 +128,34 @@ const Dashboard: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Apply scheduled activations while the manager is open, and list the upcoming ones
+  useEffect(() => {
+    const scheduler = new ActivationScheduler(
+      {
+        getSchedule: () => genesysService.getScheduledActivations(),
+        apply: (entry) => BROWSER_SCHEDULER_ENABLED
+          ? genesysService.applyScheduledActivation(entry)
+          : Promise.resolve(false)
+      },
+      {
+        onScheduleChange: setUpcomingActivations,
+        onApplied: (entry) => {
+          message.success(entry.action === 'activate'
+            ? `Scheduled version v${entry.version} is now live`
+            : `v${entry.version} reverted to v${entry.revertToVersion} as scheduled`);
+        },
+        onError: (err, entry) => {
+          if (entry) {
+            message.error(`Scheduled ${entry.action} of v${entry.version} failed: ${err.message}`);
+          }
+        }
+      }
+    );
+    scheduler.start();
+
+    return () => scheduler.stop();
+  }, [environmentId]);
+
   const fetchUserProfile = async () => {
     try {
       setIsLoading(true);
@@ -139,14 +185,48 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const handleEnvironmentSwitch = (environment: RulesEnvironment, requiresLogin: boolean) => {
+    if (requiresLogin) {
+      navigate('/login', { replace: true });
+      return;
+    }
+    setEnvironmentId(environment.id);
+    message.info(`Now working on ${environment.label} rules`);
+  };
+
+  const handleReplay = (entry: ExecutionLogEntry) => {
+    setReplayEntry(entry);
+    setSelectedMenu('rules');
+  };
+
+  const handleOpenRule = (ruleName: string) => {
+    setFocusRuleName(ruleName);
+    setSelectedMenu('rules');
+  };
+
   const renderContent = () => {
+    const editor = (
+      <RulesEditor
+        replayEntry={replayEntry}
+        onReplayHandled={() => setReplayEntry(null)}
+        focusRuleName={focusRuleName}
+        onFocusHandled={() => setFocusRuleName(null)}
+        onUnsavedChange={setEditorHasChanges}
+      />
+    );
     switch (selectedMenu) {
       case 'rules':
-        return <RulesEditor />;
+        return editor;
       case 'history':
         return <VersionHistory />;
+      case 'executions':
+        return <ExecutionLogs onReplay={handleReplay} />;
+      case 'analytics':
+        return <Analytics />;
+      case 'coverage':
+        return <CoverageReport onOpenRule={handleOpenRule} />;
       default:
-        return <RulesEditor />;
+        return editor;
     }
   };
 
@@ -211,6 +291,21 @@ const Dashboard: React.FC = () => {
               icon: <HistoryOutlined />,
               label: 'Version History',
             },
+            {
+              key: 'executions',
+              icon: <ProfileOutlined />,
+              label: 'Execution Logs',
+            },
+            {
+              key: 'analytics',
+              icon: <LineChartOutlined />,
+              label: 'Analytics',
+            },
+            {
+              key: 'coverage',
+              icon: <RadarChartOutlined />,
+              label: 'Rule Coverage',
+            },
           ]}
         />
       </Sider>
@@ -227,9 +322,20 @@ const Dashboard: React.FC = () => {
             <Title level={3} style={{ margin: 0 }}>
               Genesys Routing Manager
             </Title>
+            {genesysService.isMockMode() && (
+              <Tooltip title="Running against the local mock Genesys Cloud server">
+                <Tag color="orange">MOCK ORG</Tag>
+              </Tooltip>
+            )}
           </Space>
           
           <Space>
+            <EnvironmentSwitcher
+              value={environmentId}
+              hasUnsavedChanges={editorHasChanges}
+              onSwitch={handleEnvironmentSwitch}
+            />
+
             {/* OAuth Token Status Indicator */}
             <Tooltip title={tokenStatus.tooltip}>
               <div style={{ marginRight: '16px', display: 'flex', alignItems: 'center', gap: '6px' }}>
@@ -273,7 +379,10 @@ const Dashboard: React.FC = () => {
             />
           )}
           
-          <div style={{ 
+          <UpcomingActivations entries={upcomingActivations} title="Upcoming Scheduled Activations" />
+
+          {/* Keyed by environment so pages reload their rules after a switch */}
+          <div key={environmentId} style={{ 
             padding: 24, 
             minHeight: 360, 
             background: colorBgContainer,
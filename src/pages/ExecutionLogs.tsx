@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Table, Card, Button, Space, Tag, Typography, message, Tooltip, Select, Input, InputNumber, DatePicker, Empty } from 'antd';
+import { EyeOutlined, ReloadOutlined, ClearOutlined, PlayCircleOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import genesysService, { ExecutionLogEntry, ExecutionLogFilter } from '../services/genesysService';
+import ExecutionLogDrawer from '../components/ExecutionLogDrawer';
+
+const { Text } = Typography;
+const { RangePicker } = DatePicker;
+
+interface ExecutionLogsProps {
+  /** Load a logged input into the Rules Editor test modal */
+  onReplay: (entry: ExecutionLogEntry) => void;
+}
+
+const ExecutionLogs: React.FC<ExecutionLogsProps> = ({ onReplay }) => {
+  const [logs, setLogs] = useState<ExecutionLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pagination, setPagination] = useState({ current: 1, pageSize: 50 });
+  const [filter, setFilter] = useState<ExecutionLogFilter>({});
+  const [selectedEntry, setSelectedEntry] = useState<ExecutionLogEntry | null>(null);
+  // Bumped to remount the text filters when they are cleared
+  const [filterResetCount, setFilterResetCount] = useState(0);
+
+  // The table is read on opening the page and on Refresh; filter changes
+  // refilter that read and pages are cut locally
+  const hasLoaded = useRef(false);
+
+  const loadLogs = useCallback(async (cached: boolean) => {
+    try {
+      setLoading(true);
+      setLogs(await genesysService.getAllExecutionLogs(filter, { cached }));
+    } catch (error) {
+      console.error('Failed to load execution logs:', error);
+      message.error('Failed to load execution logs: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      setLogs([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    if (genesysService.hasExecutionLogs()) {
+      setPagination(previous => ({ ...previous, current: 1 }));
+      loadLogs(hasLoaded.current);
+      hasLoaded.current = true;
+    }
+  }, [loadLogs]);
+
+  const updateFilter = (changes: Partial<ExecutionLogFilter>) => {
+    setFilter(previous => ({ ...previous, ...changes }));
+  };
+
+  const columns: ColumnsType<ExecutionLogEntry> = [
+    {
+      title: 'Time',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      render: (text) => dayjs(text).format('YYYY-MM-DD HH:mm:ss')
+    },
+    {
+      title: 'Version',
+      dataIndex: 'rulesVersion',
+      key: 'rulesVersion',
+      render: (version) => <Text strong>v{version}</Text>
+    },
+    {
+      title: 'Destination',
+      dataIndex: 'output',
+      key: 'output',
+      render: (output) => output ? <Tag color="blue">{output}</Tag> : <Text type="secondary">none</Text>
+    },
+    {
+      title: 'Matched Rules',
+      dataIndex: 'matchedRules',
+      key: 'matchedRules',
+      render: (rules: string[]) => (
+        <Space size={[0, 4]} wrap>
+          {rules.map(rule => <Tag key={rule}>{rule}</Tag>)}
+        </Space>
+      )
+    },
+    {
+      title: 'Time Taken',
+      dataIndex: 'executionTime',
+      key: 'executionTime',
+      render: (ms) => `${ms}ms`
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      render: (_, record) => record.error ? (
+        <Tooltip title={record.error}>
+          <Tag color="red">ERROR</Tag>
+        </Tooltip>
+      ) : (
+        <Tag color="green">OK</Tag>
+      )
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Space>
+          <Tooltip title="View details">
+            <Button icon={<EyeOutlined />} onClick={() => setSelectedEntry(record)} size="small" />
+          </Tooltip>
+          <Tooltip title="Replay in simulator">
+            <Button icon={<PlayCircleOutlined />} onClick={() => onReplay(record)} size="small" />
+          </Tooltip>
+        </Space>
+      )
+    }
+  ];
+
+  if (!genesysService.hasExecutionLogs()) {
+    return (
+      <Card title="Execution Logs">
+        <Empty description="No logs table configured. Set VITE_LOGS_TABLE_ID (or logsTableId on the environment) to view executions." />
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card
+        title="Execution Logs"
+        extra={
+          <Button icon={<ReloadOutlined />} onClick={() => loadLogs(false)} loading={loading}>
+            Refresh
+          </Button>
+        }
+      >
+        <Space key={filterResetCount} wrap style={{ marginBottom: 16 }}>
+          <RangePicker
+            showTime={{ format: 'HH:mm' }}
+            format="YYYY-MM-DD HH:mm"
+            value={filter.from || filter.to ? [filter.from ? dayjs(filter.from) : null, filter.to ? dayjs(filter.to) : null] : null}
+            onChange={(range) => updateFilter({
+              from: range?.[0]?.toISOString(),
+              to: range?.[1]?.toISOString()
+            })}
+          />
+          <InputNumber
+            min={1}
+            placeholder="Version"
+            value={filter.rulesVersion}
+            onChange={(version) => updateFilter({ rulesVersion: version ?? undefined })}
+            style={{ width: 100 }}
+          />
+          <Input.Search
+            allowClear
+            placeholder="Destination"
+            defaultValue={filter.destination}
+            onSearch={(value) => updateFilter({ destination: value || undefined })}
+            style={{ width: 200 }}
+          />
+          <Input.Search
+            allowClear
+            placeholder="Matched rule"
+            defaultValue={filter.matchedRule}
+            onSearch={(value) => updateFilter({ matchedRule: value || undefined })}
+            style={{ width: 200 }}
+          />
+          <Select<ExecutionLogFilter['outcome'] | 'all'>
+            value={filter.outcome || 'all'}
+            onChange={(outcome) => updateFilter({ outcome: outcome === 'all' ? undefined : outcome })}
+            style={{ width: 140 }}
+            options={[
+              { value: 'all', label: 'All results' },
+              { value: 'error', label: 'Errors only' },
+              { value: 'success', label: 'Successful only' }
+            ]}
+          />
+          <Button
+            icon={<ClearOutlined />}
+            onClick={() => {
+              setFilter({});
+              setFilterResetCount(count => count + 1);
+            }}
+            disabled={Object.values(filter).every(value => value === undefined)}
+          >
+            Clear Filters
+          </Button>
+        </Space>
+
+        <Table
+          columns={columns}
+          dataSource={logs}
+          loading={loading}
+          rowKey="key"
+          pagination={{
+            current: pagination.current,
+            pageSize: pagination.pageSize,
+            showSizeChanger: true,
+            showQuickJumper: true,
+            showTotal: (total, range) => `${range[0]}-${range[1]} of ${total} executions`,
+            onChange: (current, pageSize) => setPagination({ current, pageSize })
+          }}
+          onRow={(record) => ({
+            onDoubleClick: () => setSelectedEntry(record)
+          })}
+        />
+      </Card>
+
+      <ExecutionLogDrawer
+        entry={selectedEntry}
+        onClose={() => setSelectedEntry(null)}
+        onReplay={(entry) => {
+          setSelectedEntry(null);
+          onReplay(entry);
+        }}
+      />
+    </>
+  );
+};
+
+export default ExecutionLogs;
@@ -1,12 +1,31 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Card, Row, Col, Button, Space, Typography, message, Spin, Statistic, Modal, Alert, Tag, Input, Tooltip, Radio, Dropdown, Menu, Collapse } from 'antd';
-import { SaveOutlined, PlayCircleOutlined, UndoOutlined, DeploymentUnitOutlined, ExclamationCircleOutlined, CodeOutlined, PartitionOutlined, PlusOutlined, FileAddOutlined, CopyOutlined, TagOutlined, FileTextOutlined, ClockCircleOutlined, CheckCircleOutlined, EditOutlined, DownOutlined, RightOutlined } from '@ant-design/icons';
-import MonacoEditor from '@monaco-editor/react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, Row, Col, Button, Space, Typography, message, Spin, Statistic, Modal, Alert, Tag, Input, Tooltip, Radio, Dropdown, Menu, Collapse, Tabs } from 'antd';
+import { SaveOutlined, PlayCircleOutlined, UndoOutlined, DeploymentUnitOutlined, ExclamationCircleOutlined, CodeOutlined, PartitionOutlined, PlusOutlined, FileAddOutlined, CopyOutlined, TagOutlined, FileTextOutlined, ClockCircleOutlined, CheckCircleOutlined, EditOutlined, DownOutlined, RightOutlined, InboxOutlined, FunctionOutlined, BookOutlined, AimOutlined, TableOutlined } from '@ant-design/icons';
+import MonacoEditor, { DiffEditor, Monaco, OnMount } from '@monaco-editor/react';
 import { useNavigate } from 'react-router-dom';
-import { genesysService } from '../services/genesysService';
-import { RuleEngineSimulator } from '../utils/ruleEngineSimulator';
+import dayjs from 'dayjs';
+import { genesysService, DeployConflictError, ExecutionLogEntry, RuleDraft, RuleSchedule, REQUIRE_APPROVAL } from '../services/genesysService';
+import { RuleEngineSimulator, SimulatorMode } from '../utils/ruleEngineSimulator';
 import VisualRuleEditor from '../components/VisualRuleEditor';
 import TemplateSelector from '../components/VisualRuleEditor/panels/TemplateSelector';
+import RulesMergeModal from '../components/RulesMergeModal';
+import DraftsDrawer, { LiveRulesVersion } from '../components/DraftsDrawer';
+import DeployScheduleFields from '../components/DeployScheduleFields';
+import RegressionReplayPanel from '../components/RegressionReplayPanel';
+import TestSuitePanel from '../components/TestSuitePanel';
+import BatchTestPanel from '../components/BatchTestPanel';
+import DeployTestGate from '../components/DeployTestGate';
+import EngineExtensionsDrawer from '../components/EngineExtensionsDrawer';
+import FactCatalogDrawer from '../components/FactCatalogDrawer';
+import DestinationRegistryDrawer from '../components/DestinationRegistryDrawer';
+import DecisionTableEditor from '../components/DecisionTableEditor';
+import SimulatedClockPicker from '../components/SimulatedClockPicker';
+import type { CustomOperatorDefinition, DestinationDefinition, DynamicFactDefinition, FactDefinition, RuleTestCase, SimulatedClock } from '../components/VisualRuleEditor/types';
+import { TestSuiteResult, isDeployAllowed, runTestSuite } from '../utils/testSuite';
+import { getErrors, isStructuralDiagnostic, locateJsonPath, validateRulesJson } from '../utils/ruleValidation';
+import { registerRulesSchema } from '../utils/rulesSchema';
+import { MAX_INPUT_KEYS, validateTestInput } from '../utils/batchTest';
+import { STATUS_COLORS, STATUS_LABELS } from '../helpers/rule-status';
 
 const { Title } = Typography;
 const { TextArea } = Input;
@@ -28,7 +47,18 @@ interface TestResult {
   }>;
 }
 
-export const RulesEditor: React.FC = () => {
+interface RulesEditorProps {
+  /** Logged execution to open in the test modal once the rules have loaded */
+  replayEntry?: ExecutionLogEntry | null;
+  onReplayHandled?: () => void;
+  /** Rule to open in the visual editor once the rules have loaded */
+  focusRuleName?: string | null;
+  onFocusHandled?: () => void;
+  /** Told whenever the editor gains or loses unsaved changes */
+  onUnsavedChange?: (hasChanges: boolean) => void;
+}
+
+export const RulesEditor: React.FC<RulesEditorProps> = ({ replayEntry, onReplayHandled, focusRuleName, onFocusHandled, onUnsavedChange }) => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -39,15 +69,34 @@ export const RulesEditor: React.FC = () => {
   const [testModalVisible, setTestModalVisible] = useState(false);
   const [deployModalVisible, setDeployModalVisible] = useState(false);
   const [deployDescription, setDeployDescription] = useState('');
+  const [deploySchedule, setDeploySchedule] = useState<RuleSchedule>({});
   const [testInput, setTestInput] = useState('{\n  "brand": "Admiral",\n  "botIntent": "cancelGeneral"\n}');
   const [testResult, setTestResult] = useState<TestResult | null>(null);
   const [isValidSyntax, setIsValidSyntax] = useState(true);
   const [syntaxError, setSyntaxError] = useState<string>('');
   const [isTestRunning, setIsTestRunning] = useState(false);
-  const [editorMode, setEditorMode] = useState<'json' | 'visual'>('json');
+  const [editorMode, setEditorMode] = useState<'json' | 'visual' | 'table'>('json');
   const [parsedRules, setParsedRules] = useState<any>(null);
   const [templateModalVisible, setTemplateModalVisible] = useState(false);
   const [expandedRuleIndex, setExpandedRuleIndex] = useState<number | null>(null);
+  const [deployConflict, setDeployConflict] = useState<{ error: DeployConflictError; latest: any } | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<any>(null);
+  const [currentDraft, setCurrentDraft] = useState<RuleDraft | null>(null);
+  const [draftsVisible, setDraftsVisible] = useState(false);
+  const [draftModalVisible, setDraftModalVisible] = useState(false);
+  const [draftDescription, setDraftDescription] = useState('');
+  const [visualFocusRule, setVisualFocusRule] = useState<string | null>(null);
+  const [testModalTab, setTestModalTab] = useState<'single' | 'suite' | 'batch'>('single');
+  const [simulatorMode, setSimulatorMode] = useState<SimulatorMode>('engine');
+  const [simulatedClock, setSimulatedClock] = useState<SimulatedClock>({});
+  const [extensionsVisible, setExtensionsVisible] = useState(false);
+  const [factCatalogVisible, setFactCatalogVisible] = useState(false);
+  const [destinationsVisible, setDestinationsVisible] = useState(false);
+  const [deployTestResult, setDeployTestResult] = useState<TestSuiteResult | null>(null);
+  const [testOverrideReason, setTestOverrideReason] = useState('');
+  const [jsonEditor, setJsonEditor] = useState<{ editor: Parameters<OnMount>[0]; monaco: Monaco } | null>(null);
+
+  const diagnostics = useMemo(() => validateRulesJson(editedRules).diagnostics, [editedRules]);
 
   /**
    * Load active rules on component mount
@@ -56,6 +105,41 @@ export const RulesEditor: React.FC = () => {
     loadActiveRules();
   }, []);
 
+  /**
+   * Let the page know about unsaved changes, which are lost when the editor unmounts
+   */
+  useEffect(() => {
+    onUnsavedChange?.(hasChanges);
+    return () => onUnsavedChange?.(false);
+  }, [hasChanges, onUnsavedChange]);
+
+  /**
+   * Open a replayed log entry in the test modal
+   */
+  useEffect(() => {
+    if (loading || !replayEntry) return;
+
+    setTestInput(typeof replayEntry.input === 'string' ? replayEntry.input : JSON.stringify(replayEntry.input, null, 2));
+    setTestResult(null);
+    setExpandedRuleIndex(null);
+    setTestModalVisible(true);
+    if (activeRules?.version !== replayEntry.rulesVersion || hasChanges) {
+      message.info(`Logged against v${replayEntry.rulesVersion} (routed to ${replayEntry.output || 'no destination'}); testing against the rules in the editor`);
+    }
+    onReplayHandled?.();
+  }, [loading, replayEntry]);
+
+  /**
+   * Switch to the visual editor on a rule opened from elsewhere
+   */
+  useEffect(() => {
+    if (loading || !focusRuleName) return;
+
+    setEditorMode('visual');
+    setVisualFocusRule(focusRuleName);
+    onFocusHandled?.();
+  }, [loading, focusRuleName]);
+
   /**
    * Parse rules when edited rules change
    */
@@ -68,6 +152,52 @@ export const RulesEditor: React.FC = () => {
     }
   }, [editedRules]);
 
+  /**
+   * Show validation problems as markers in the JSON editor. Syntax errors are
+   * left to Monaco's own JSON checks when the parser gives no position.
+   */
+  useEffect(() => {
+    const model = jsonEditor?.editor.getModel();
+    if (!jsonEditor || !model || editorMode !== 'json') return;
+    const { monaco } = jsonEditor;
+
+    const text = model.getValue();
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info
+    };
+    const markers = diagnostics.flatMap(item => {
+      const range = item.offset !== undefined
+        ? { start: item.offset, end: item.offset + 1 }
+        : item.code === 'json/syntax' ? null : locateJsonPath(text, item.path);
+      if (!range) return [];
+
+      const start = model.getPositionAt(range.start);
+      const end = model.getPositionAt(range.end);
+      return [{
+        severity: severities[item.severity],
+        message: item.message,
+        code: item.code,
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column
+      }];
+    });
+    monaco.editor.setModelMarkers(model, 'rules-validation', markers);
+  }, [diagnostics, editorMode, jsonEditor]);
+
+  /**
+   * Keep the editor's JSON schema completions in step with the names the
+   * rules use; the last valid parse is kept while the JSON is broken
+   */
+  useEffect(() => {
+    const model = jsonEditor?.editor.getModel();
+    if (!jsonEditor || !model || !parsedRules) return;
+    registerRulesSchema(jsonEditor.monaco, model.uri.toString(), parsedRules);
+  }, [jsonEditor, parsedRules]);
+
   /**
    * Load active rules from service
    */
@@ -128,94 +258,15 @@ export const RulesEditor: React.FC = () => {
   };
 
   /**
-   * Enhanced validation that checks syntax and structure
+   * Live check of the editor text. Only problems that stop the rules from being
+   * tested count here; calendars and test cases are checked before saving.
    */
   const validateSyntax = useCallback((value: string): boolean => {
-    try {
-      // First check if it's valid JSON
-      const parsed = JSON.parse(value);
-      
-      // Check required top-level fields
-      if (!parsed.rules || !Array.isArray(parsed.rules)) {
-        setSyntaxError('Missing or invalid field: rules (must be an array)');
-        return false;
-      }
-      
-      if (parsed.rules.length === 0) {
-        setSyntaxError('Rules array cannot be empty - at least one rule is required');
-        return false;
-      }
-      
-      // Validate each rule structure
-      for (let i = 0; i < parsed.rules.length; i++) {
-        const rule = parsed.rules[i];
-        
-        if (!rule.name) {
-          setSyntaxError(`Rule ${i + 1}: Missing required field 'name'`);
-          return false;
-        }
-        
-        if (typeof rule.priority !== 'number') {
-          setSyntaxError(`Rule ${i + 1} (${rule.name}): Priority must be a number`);
-          return false;
-        }
-        
-        if (!rule.defaultDestination) {
-          setSyntaxError(`Rule ${i + 1} (${rule.name}): Missing required field 'defaultDestination'`);
-          return false;
-        }
-        
-        if (!rule.conditions) {
-          setSyntaxError(`Rule ${i + 1} (${rule.name}): Missing required field 'conditions'`);
-          return false;
-        }
-        
-        if (!rule.event || !rule.event.params?.destination) {
-          setSyntaxError(`Rule ${i + 1} (${rule.name}): Missing event.params.destination`);
-          return false;
-        }
-        
-        // Validate conditions structure
-        if (!validateConditionStructure(rule.conditions)) {
-          setSyntaxError(`Rule ${i + 1} (${rule.name}): Invalid condition structure`);
-          return false;
-        }
-      }
-      
-      setSyntaxError('');
-      return true;
-      
-    } catch (error: any) {
-      setSyntaxError(`JSON Syntax Error: ${error.message}`);
-      return false;
-    }
+    const structuralError = validateRulesJson(value).diagnostics.find(isStructuralDiagnostic);
+    setSyntaxError(structuralError?.message || '');
+    return !structuralError;
   }, []);
 
-  /**
-   * Validate condition structure recursively
-   */
-  const validateConditionStructure = (condition: any): boolean => {
-    if (!condition || typeof condition !== 'object') return false;
-    
-    // Check for logical operators
-    if (condition.all || condition.any) {
-      const conditions = condition.all || condition.any;
-      if (!Array.isArray(conditions)) return false;
-      return conditions.every(c => validateConditionStructure(c));
-    }
-    
-    if (condition.not) {
-      return validateConditionStructure(condition.not);
-    }
-    
-    // Check for fact condition
-    if (condition.fact) {
-      return !!(condition.operator && condition.hasOwnProperty('value'));
-    }
-    
-    return false;
-  };
-
   /**
    * Handle rules editor changes with real-time validation
    */
@@ -293,53 +344,8 @@ export const RulesEditor: React.FC = () => {
    * Full validation for deployment - validates both syntax and rule logic
    */
   const validateRules = (): boolean => {
-    const errors: string[] = [];
-    
-    if (!validateSyntax(editedRules)) {
-      errors.push(syntaxError);
-      setValidationErrors(errors);
-      return false;
-    }
-    
-    // Parse and validate each rule individually
-    try {
-      const parsed = JSON.parse(editedRules);
-      
-      if (parsed.rules && Array.isArray(parsed.rules)) {
-        parsed.rules.forEach((rule: any, index: number) => {
-          // Validate required fields
-          if (!rule.name) {
-            errors.push(`Rule ${index + 1}: Missing required field 'name'`);
-          }
-          
-          if (typeof rule.priority !== 'number' || rule.priority < 1 || rule.priority > 999) {
-            errors.push(`Rule ${index + 1} (${rule.name || 'unnamed'}): Priority must be a number between 1 and 999`);
-          }
-          
-          if (!rule.defaultDestination || rule.defaultDestination.trim() === '') {
-            errors.push(`Rule ${index + 1} (${rule.name || 'unnamed'}): Missing or empty defaultDestination field`);
-          }
-          
-          if (!rule.conditions) {
-            errors.push(`Rule ${index + 1} (${rule.name || 'unnamed'}): Missing conditions field`);
-          }
-          
-          if (!rule.event || !rule.event.params || !rule.event.params.destination) {
-            errors.push(`Rule ${index + 1} (${rule.name || 'unnamed'}): Missing event destination`);
-          }
-        });
-        
-        // Check for duplicate rule names
-        const ruleNames = parsed.rules.map((r: any) => r.name).filter(Boolean);
-        const duplicates = ruleNames.filter((name: string, index: number) => ruleNames.indexOf(name) !== index);
-        if (duplicates.length > 0) {
-          errors.push(`Duplicate rule names found: ${[...new Set(duplicates)].join(', ')}`);
-        }
-      }
-    } catch (error) {
-      errors.push('Failed to parse rules for validation');
-    }
-    
+    const errors = getErrors(validateRulesJson(editedRules).diagnostics);
+    setIsValidSyntax(validateSyntax(editedRules));
     setValidationErrors(errors);
     return errors.length === 0;
   };
@@ -347,27 +353,113 @@ export const RulesEditor: React.FC = () => {
   /**
    * Save rules to draft
    */
-  const handleSave = async () => {
+  const handleSave = () => {
     if (!validateRules()) return;
-    
+    setDraftDescription(currentDraft?.description || '');
+    setDraftModalVisible(true);
+  };
+
+  const confirmSaveDraft = async () => {
+    if (!draftDescription.trim()) {
+      message.error('Please provide a description of changes');
+      return;
+    }
+
     try {
       setSaving(true);
-      // Since there's no separate save draft, we just validate and show success
-      message.success('Rules validated successfully! Use Deploy to save changes.');
+      const rules = JSON.parse(editedRules);
+      // Based on what the editor compared against: the draft's own base, or
+      // the live version once the draft was merged with it
+      const draft = await genesysService.saveDraft(
+        rules,
+        draftDescription,
+        activeRules ? activeRules.version : null,
+        currentDraft?.key
+      );
+      setCurrentDraft(draft);
       setHasChanges(false);
+      setDraftModalVisible(false);
+      message.success(
+        currentDraft && currentDraft.status !== 'draft'
+          ? 'Draft saved - it must be submitted for review again'
+          : 'Draft saved. Submit it for review from the Drafts panel.'
+      );
     } catch (error: any) {
-      message.error(`Validation failed: ${error.message}`);
-      console.error('Validation error:', error);
+      message.error(`Failed to save draft: ${error.message}`);
+      console.error('Save draft error:', error);
     } finally {
       setSaving(false);
     }
   };
 
+  /**
+   * Load a draft into the editor, based on the version it was created from
+   */
+  const handleOpenDraft = async (draft: RuleDraft): Promise<boolean> => {
+    if (hasChanges && !window.confirm('You have unsaved changes. Do you want to discard them?')) {
+      return false;
+    }
+
+    const base = draft.baseVersion !== null ? await genesysService.getRulesVersion(draft.baseVersion) : null;
+    const draftJson = JSON.stringify(draft.rules, null, 2);
+    setActiveRules(base);
+    setCurrentDraft(draft);
+    setEditedRules(draftJson);
+    setParsedRules(draft.rules);
+    setHasChanges(false);
+    setValidationErrors([]);
+    setIsValidSyntax(validateSyntax(draftJson));
+    setDraftsVisible(false);
+    message.info(`Opened draft${draft.baseVersion ? ` based on v${draft.baseVersion}` : ''}`);
+    return true;
+  };
+
+  /**
+   * Open a draft that fell behind the live version and merge it with that
+   * version; saving the result rebases the draft onto it
+   */
+  const handleMergeDraft = async (draft: RuleDraft, latest: LiveRulesVersion) => {
+    if (await handleOpenDraft(draft)) {
+      setMergeTarget(latest);
+    }
+  };
+
+  /**
+   * Reload the live version after a draft was deployed from the drafts panel
+   */
+  const handleDraftDeployed = async () => {
+    setCurrentDraft(null);
+    setHasChanges(false);
+    setDraftsVisible(false);
+    await loadActiveRules();
+  };
+
   /**
    * Deploy rules
    */
-  const handleDeploy = () => {
+  const handleDeploy = async () => {
+    if (REQUIRE_APPROVAL) {
+      message.warning('Deploys require an approved draft. Save a draft and submit it for review.');
+      return;
+    }
     if (!validateRules()) return;
+
+    // Offer a merge first if someone went live since this editor loaded
+    const latest = await genesysService.getActiveRules();
+    if (latest && latest.version !== activeRules?.version) {
+      message.warning(`v${latest.version} was deployed while you were editing - merge before deploying`);
+      setMergeTarget(latest);
+      return;
+    }
+
+    // Saved test cases gate the deploy; failures need an override reason
+    try {
+      setDeployTestResult(await runTestSuite(JSON.parse(editedRules)));
+    } catch (error: any) {
+      message.error(`Failed to run saved test cases: ${error.message}`);
+      return;
+    }
+    setTestOverrideReason('');
     setDeployModalVisible(true);
   };
 
@@ -376,18 +468,37 @@ export const RulesEditor: React.FC = () => {
       message.error('Please provide a description of changes');
       return;
     }
+    if (!isDeployAllowed(deployTestResult, testOverrideReason)) {
+      message.error('Saved test cases are failing - give a reason to deploy anyway');
+      return;
+    }
     
     try {
       setSaving(true);
       const rules = JSON.parse(editedRules);
-      await genesysService.deployRules(rules, deployDescription);
-      message.success('Rules deployed successfully! Changes are now live.');
+      // Deploy against the version this editor was loaded from
+      const baseVersion = activeRules ? activeRules.version : null;
+      const review = deployTestResult?.failed ? { testOverrideReason: testOverrideReason.trim() } : undefined;
+      const version = await genesysService.deployRules(rules, deployDescription, baseVersion, review, deploySchedule);
+      if (deploySchedule.activateAt) {
+        message.success(`Rules saved as v${version}, scheduled to go live ${dayjs(deploySchedule.activateAt).format('YYYY-MM-DD HH:mm')}`);
+      } else {
+        message.success(`Rules deployed successfully as v${version}! Changes are now live.`);
+      }
       setHasChanges(false);
       setDeployDescription('');
+      setDeploySchedule({});
+      setTestOverrideReason('');
       setDeployModalVisible(false);
       
       await loadActiveRules();
     } catch (error: any) {
+      if (error instanceof DeployConflictError) {
+        setDeployModalVisible(false);
+        const latest = await genesysService.getActiveRules();
+        setDeployConflict({ error, latest });
+        return;
+      }
       message.error(`Deployment failed: ${error.message}`);
       console.error('Deploy error:', error);
     } finally {
@@ -395,6 +506,41 @@ export const RulesEditor: React.FC = () => {
     }
   };
 
+  /**
+   * Drop local edits and load the version that won the conflict
+   */
+  const handleConflictDiscard = async () => {
+    setDeployConflict(null);
+    setHasChanges(false);
+    setValidationErrors([]);
+    await loadActiveRules();
+    message.info('Loaded the latest active rules');
+  };
+
+  /**
+   * Open the three-way merge against the version that won the conflict
+   */
+  const handleConflictMerge = () => {
+    if (!deployConflict) return;
+    setMergeTarget(deployConflict.latest);
+    setDeployConflict(null);
+  };
+
+  /**
+   * Replace the editor with the merge result, now based on the newer version
+   */
+  const handleMerged = (mergedConfig: any) => {
+    const mergedJson = JSON.stringify(mergedConfig, null, 2);
+    setActiveRules(mergeTarget);
+    setMergeTarget(null);
+    setEditedRules(mergedJson);
+    setParsedRules(mergedConfig);
+    setHasChanges(true);
+    setValidationErrors([]);
+    setIsValidSyntax(validateSyntax(mergedJson));
+    message.success(`Merged with v${mergeTarget?.version}. Review and test before deploying.`);
+  };
+
   /**
    * Test rules with sample input
    */
@@ -408,6 +554,79 @@ export const RulesEditor: React.FC = () => {
     setExpandedRuleIndex(null);
   };
 
+  /**
+   * Store edited test cases with the rules configuration
+   */
+  const handleTestCasesChange = (testCases: RuleTestCase[]) => {
+    try {
+      const rulesConfig = JSON.parse(editedRules);
+      if (testCases.length > 0) {
+        rulesConfig.testCases = testCases;
+      } else {
+        delete rulesConfig.testCases;
+      }
+      handleVisualRuleUpdate(rulesConfig);
+    } catch (error: any) {
+      message.error(`Failed to update test cases: ${error.message}`);
+    }
+  };
+
+  /**
+   * Store the dynamic facts and custom operators edited in the extensions drawer
+   */
+  const handleExtensionsApply = (dynamicFacts: DynamicFactDefinition[], customOperators: CustomOperatorDefinition[]) => {
+    try {
+      handleVisualRuleUpdate({ ...JSON.parse(editedRules), dynamicFacts, customOperators });
+    } catch (error: any) {
+      message.error(`Failed to update dynamic facts: ${error.message}`);
+    }
+  };
+
+  /**
+   * Store the fact catalog edited in the catalog drawer
+   */
+  const handleFactCatalogApply = (factCatalog: FactDefinition[]) => {
+    try {
+      const rulesConfig = JSON.parse(editedRules);
+      if (factCatalog.length > 0) {
+        rulesConfig.factCatalog = factCatalog;
+      } else {
+        delete rulesConfig.factCatalog;
+      }
+      handleVisualRuleUpdate(rulesConfig);
+    } catch (error: any) {
+      message.error(`Failed to update fact catalog: ${error.message}`);
+    }
+  };
+
+  /**
+   * Store the destination registry edited in the destinations drawer
+   */
+  const handleDestinationsApply = (destinations: DestinationDefinition[]) => {
+    try {
+      const rulesConfig = JSON.parse(editedRules);
+      if (destinations.length > 0) {
+        rulesConfig.destinations = destinations;
+      } else {
+        delete rulesConfig.destinations;
+      }
+      handleVisualRuleUpdate(rulesConfig);
+    } catch (error: any) {
+      message.error(`Failed to update destinations: ${error.message}`);
+    }
+  };
+
+  /**
+   * Open a saved test case's input in the single test tab
+   */
+  const handleLoadTestCaseInput = (input: any, clock?: SimulatedClock) => {
+    setTestInput(JSON.stringify(input, null, 2));
+    setSimulatedClock(clock || {});
+    setTestResult(null);
+    setExpandedRuleIndex(null);
+    setTestModalTab('single');
+  };
+
   /**
    * Run actual rule engine simulation
    */
@@ -423,11 +642,6 @@ export const RulesEditor: React.FC = () => {
       
       try {
         // Validate JSON size limits
-        if (testInput.length > 10000) {
-          message.error('Input JSON is too large (max 10KB)');
-          return;
-        }
-        
         if (editedRules.length > 100000) {
           message.error('Rules JSON is too large (max 100KB)');
           return;
@@ -436,9 +650,10 @@ export const RulesEditor: React.FC = () => {
         input = JSON.parse(testInput);
         rulesConfig = JSON.parse(editedRules);
         
-        // Validate input structure
-        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
-          message.error('Input must be a valid JSON object');
+        // Validate input structure, size and keys
+        const inputError = validateTestInput(input);
+        if (inputError) {
+          message.error(inputError);
           return;
         }
         
@@ -447,26 +662,14 @@ export const RulesEditor: React.FC = () => {
           return;
         }
         
-        // Validate input has no more than 10 keys
-        if (Object.keys(input).length > 10) {
-          message.error('Input cannot have more than 10 key-value pairs');
-          return;
-        }
-        
-        // Prevent prototype pollution - check for exact dangerous property names
-        if (input.hasOwnProperty('__proto__') || input.hasOwnProperty('constructor') || input.hasOwnProperty('prototype')) {
-          message.error('Input contains restricted properties');
-          return;
-        }
-        
       } catch (error) {
         message.error('Invalid JSON format');
         return;
       }
       
       // Simulate rule evaluation
-      const engine = new RuleEngineSimulator(rulesConfig);
-      const result = await engine.evaluate(input);
+      const engine = new RuleEngineSimulator(rulesConfig, { mode: simulatorMode, clock: simulatedClock });
+      const result = await engine.evaluate(input).finally(() => engine.dispose());
       
       const executionTime = Date.now() - startTime;
       
@@ -536,7 +739,7 @@ export const RulesEditor: React.FC = () => {
               <TagOutlined />
             </div>
             <div className="info-card-content">
-              <div className="info-card-label">Active Version</div>
+              <div className="info-card-label">{currentDraft ? 'Draft Based On' : 'Active Version'}</div>
               <div className="info-card-value">v{activeRules?.version || 'N/A'}</div>
             </div>
           </div>
@@ -581,6 +784,11 @@ export const RulesEditor: React.FC = () => {
             <div className="info-card-content">
               <div className="info-card-label">Status</div>
               <div className="info-card-value">{hasChanges ? 'Modified' : 'Saved'}</div>
+              {currentDraft && (
+                <Tag color={STATUS_COLORS[currentDraft.status]} style={{ marginTop: 4 }}>
+                  {STATUS_LABELS[currentDraft.status]}
+                </Tag>
+              )}
             </div>
           </div>
         </Col>
@@ -602,9 +810,12 @@ export const RulesEditor: React.FC = () => {
               <Radio.Button value="visual" disabled={!isValidSyntax || !parsedRules}>
                 <PartitionOutlined /> Visual Editor
               </Radio.Button>
+              <Radio.Button value="table" disabled={!isValidSyntax || !parsedRules}>
+                <TableOutlined /> Decision Table
+              </Radio.Button>
             </Radio.Group>
-            {editorMode === 'visual' && !isValidSyntax && (
-              <Tooltip title="Fix JSON syntax errors to use Visual Editor">
+            {editorMode !== 'json' && !isValidSyntax && (
+              <Tooltip title={`Fix JSON syntax errors to use the ${editorMode === 'table' ? 'Decision Table' : 'Visual Editor'}`}>
                 <ExclamationCircleOutlined style={{ color: '#ff4d4f', marginLeft: 8 }} />
               </Tooltip>
             )}
@@ -619,6 +830,49 @@ export const RulesEditor: React.FC = () => {
             >
               Reset
             </Button>
+            <Button
+              icon={<InboxOutlined />}
+              onClick={() => setDraftsVisible(true)}
+            >
+              Drafts
+            </Button>
+            <Tooltip title={!isValidSyntax ? syntaxError : 'Author and try out dynamic facts and custom operators'}>
+              <Button
+                icon={<FunctionOutlined />}
+                onClick={() => setExtensionsVisible(true)}
+                disabled={!isValidSyntax}
+              >
+                Facts & Operators
+              </Button>
+            </Tooltip>
+            <Tooltip title={!isValidSyntax ? syntaxError : 'Declare the routing inputs rules can use'}>
+              <Button
+                icon={<BookOutlined />}
+                onClick={() => setFactCatalogVisible(true)}
+                disabled={!isValidSyntax}
+              >
+                Fact Catalog
+              </Button>
+            </Tooltip>
+            <Tooltip title={!isValidSyntax ? syntaxError : 'Register the queues and flows rules can route to'}>
+              <Button
+                icon={<AimOutlined />}
+                onClick={() => setDestinationsVisible(true)}
+                disabled={!isValidSyntax}
+              >
+                Destinations
+              </Button>
+            </Tooltip>
+            <Tooltip title={!isValidSyntax ? syntaxError : 'Save as a draft for review'}>
+              <Button
+                icon={<SaveOutlined />}
+                onClick={handleSave}
+                loading={saving}
+                disabled={!isValidSyntax || (!hasChanges && !!currentDraft)}
+              >
+                Save Draft
+              </Button>
+            </Tooltip>
             <Tooltip 
               title={!isValidSyntax ? syntaxError : 'Test your rules before deployment'}
               color={!isValidSyntax ? 'red' : undefined}
@@ -638,7 +892,9 @@ export const RulesEditor: React.FC = () => {
             </Tooltip>
             <Tooltip 
               title={
-                validationErrors.length > 0 
+                REQUIRE_APPROVAL
+                  ? 'Deploys require an approved draft - use Save Draft and the Drafts panel'
+                  : validationErrors.length > 0 
                   ? `Cannot deploy: ${validationErrors.length} validation error(s)` 
                   : !isValidSyntax 
                     ? 'Fix syntax errors before deploying'
@@ -653,7 +909,7 @@ export const RulesEditor: React.FC = () => {
                 icon={<DeploymentUnitOutlined />}
                 onClick={handleDeploy}
                 loading={saving}
-                disabled={!hasChanges || !isValidSyntax || validationErrors.length > 0}
+                disabled={REQUIRE_APPROVAL || !hasChanges || !isValidSyntax || validationErrors.length > 0}
                 danger
               >
                 Deploy Changes
@@ -668,7 +924,7 @@ export const RulesEditor: React.FC = () => {
             message="Validation Errors"
             description={
               <ul style={{ margin: 0, paddingLeft: 20 }}>
-                {!isValidSyntax && syntaxError && (
+                {!isValidSyntax && syntaxError && !validationErrors.includes(syntaxError) && (
                   <li style={{ color: '#ff4d4f' }}>{syntaxError}</li>
                 )}
                 {validationErrors.map((error, index) => (
@@ -682,14 +938,16 @@ export const RulesEditor: React.FC = () => {
           />
         )}
 
-        {/* Editor Content - JSON or Visual */}
+        {/* Editor Content - JSON, Visual or Decision Table */}
         {editorMode === 'json' ? (
           <MonacoEditor
             height="500px"
             language="json"
+            path="rules-config.json"
             theme="vs-dark"
             value={editedRules}
             onChange={handleEditorChange}
+            onMount={(editor, monaco) => setJsonEditor({ editor, monaco })}
             options={{
               minimap: { enabled: false },
               fontSize: 14,
@@ -702,15 +960,27 @@ export const RulesEditor: React.FC = () => {
         ) : (
           <div style={{ minHeight: '500px' }}>
             {parsedRules && isValidSyntax ? (
-              <VisualRuleEditor
-                rulesConfig={parsedRules}
-                onRuleUpdate={handleVisualRuleUpdate}
-                readOnly={false}
-              />
+              editorMode === 'table' ? (
+                <DecisionTableEditor
+                  rulesConfig={parsedRules}
+                  onRulesUpdate={handleVisualRuleUpdate}
+                  onOpenRule={(ruleName) => {
+                    setEditorMode('visual');
+                    setVisualFocusRule(ruleName);
+                  }}
+                />
+              ) : (
+                <VisualRuleEditor
+                  rulesConfig={parsedRules}
+                  onRuleUpdate={handleVisualRuleUpdate}
+                  readOnly={false}
+                  focusRuleName={visualFocusRule}
+                />
+              )
             ) : (
               <Alert
                 message="Invalid JSON Structure"
-                description="Please fix the JSON syntax errors in JSON Editor mode before using the Visual Editor."
+                description={`Please fix the JSON syntax errors in JSON Editor mode before using the ${editorMode === 'table' ? 'Decision Table' : 'Visual Editor'}.`}
                 type="error"
                 showIcon
               />
@@ -727,14 +997,19 @@ export const RulesEditor: React.FC = () => {
         onCancel={() => {
           setDeployModalVisible(false);
           setDeployDescription('');
+          setDeploySchedule({});
         }}
         confirmLoading={saving}
-        okText="Deploy"
+        okText={deploySchedule.activateAt ? 'Schedule' : 'Deploy'}
         okButtonProps={{ danger: true }}
+        width={760}
+        destroyOnClose
       >
         <Space direction="vertical" style={{ width: '100%' }}>
           <Alert
-            message="Warning: This will immediately affect live call routing!"
+            message={deploySchedule.activateAt
+              ? `This version will go live at ${dayjs(deploySchedule.activateAt).format('YYYY-MM-DD HH:mm')}`
+              : 'Warning: This will immediately affect live call routing!'}
             description="Make sure the rules have been tested and validated."
             type="warning"
             showIcon
@@ -753,9 +1028,157 @@ export const RulesEditor: React.FC = () => {
               <small>This description will be saved with the version history</small>
             </div>
           </div>
+
+          <DeployTestGate
+            result={deployTestResult}
+            overrideReason={testOverrideReason}
+            onOverrideReasonChange={setTestOverrideReason}
+          />
+
+          <DeployScheduleFields
+            value={deploySchedule}
+            onChange={setDeploySchedule}
+            defaultRevertVersion={activeRules?.version}
+          />
+
+          <Collapse
+            size="small"
+            items={[{
+              key: 'regression',
+              label: `Regression replay: compare with ${activeRules ? `live v${activeRules.version}` : 'no live rules'}`,
+              children: <RegressionReplayPanel activeRules={activeRules?.rules} candidateRules={parsedRules} />
+            }]}
+          />
+        </Space>
+      </Modal>
+
+      {/* Save Draft Modal */}
+      <Modal
+        title={currentDraft ? 'Update Draft' : 'Save Draft'}
+        open={draftModalVisible}
+        onOk={confirmSaveDraft}
+        onCancel={() => setDraftModalVisible(false)}
+        confirmLoading={saving}
+        okText="Save Draft"
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          {currentDraft && currentDraft.status !== 'draft' && (
+            <Alert
+              message={`This draft is ${STATUS_LABELS[currentDraft.status].toLowerCase()}`}
+              description="Saving changes returns it to draft and it will need to be reviewed again."
+              type="warning"
+              showIcon
+            />
+          )}
+          <div>
+            <label><strong>Description of Changes: *</strong></label>
+            <TextArea
+              rows={4}
+              value={draftDescription}
+              onChange={(e) => setDraftDescription(e.target.value)}
+              placeholder="Describe what changes you're making and why..."
+            />
+          </div>
         </Space>
       </Modal>
 
+      {/* Drafts and Review */}
+      <DraftsDrawer
+        open={draftsVisible}
+        currentDraftKey={currentDraft?.key}
+        onClose={() => setDraftsVisible(false)}
+        onOpenDraft={handleOpenDraft}
+        onDeployed={handleDraftDeployed}
+        onMergeDraft={handleMergeDraft}
+      />
+
+      {/* Dynamic Facts and Custom Operators */}
+      <EngineExtensionsDrawer
+        open={extensionsVisible}
+        rulesConfig={parsedRules}
+        onClose={() => setExtensionsVisible(false)}
+        onApply={handleExtensionsApply}
+      />
+
+      <FactCatalogDrawer
+        open={factCatalogVisible}
+        rulesConfig={parsedRules}
+        onClose={() => setFactCatalogVisible(false)}
+        onApply={handleFactCatalogApply}
+      />
+
+      <DestinationRegistryDrawer
+        open={destinationsVisible}
+        rulesConfig={parsedRules}
+        onClose={() => setDestinationsVisible(false)}
+        onApply={handleDestinationsApply}
+        onOpenRule={(ruleName) => {
+          setDestinationsVisible(false);
+          setEditorMode('visual');
+          setVisualFocusRule(ruleName);
+        }}
+      />
+
+      {/* Deploy Conflict Modal */}
+      <Modal
+        title="Deploy Conflict"
+        open={!!deployConflict}
+        onCancel={() => setDeployConflict(null)}
+        width={1100}
+        footer={[
+          <Button key="cancel" onClick={() => setDeployConflict(null)}>
+            Cancel
+          </Button>,
+          <Button key="discard" danger onClick={handleConflictDiscard}>
+            Discard My Changes
+          </Button>,
+          <Button key="merge" type="primary" onClick={handleConflictMerge} disabled={!deployConflict?.latest}>
+            Merge With v{deployConflict?.latest?.version ?? 'N/A'}
+          </Button>
+        ]}
+      >
+        {deployConflict && (
+          <Space direction="vertical" style={{ width: '100%' }}>
+            <Alert
+              message={deployConflict.error.message}
+              description="Your changes were not deployed. Compare them with the newer version below, then either discard them or merge them into the newer version and deploy again."
+              type="warning"
+              showIcon
+            />
+            <Row>
+              <Col span={12}><strong>Active v{deployConflict.latest?.version ?? 'N/A'}</strong></Col>
+              <Col span={12}><strong>Your changes</strong></Col>
+            </Row>
+            <DiffEditor
+              height="450px"
+              language="json"
+              theme="vs-dark"
+              original={deployConflict.latest ? JSON.stringify(deployConflict.latest.rules, null, 2) : ''}
+              modified={editedRules}
+              options={{
+                readOnly: true,
+                minimap: { enabled: false },
+                renderSideBySide: true
+              }}
+            />
+          </Space>
+        )}
+      </Modal>
+
+      {/* Three-way Merge Modal */}
+      {mergeTarget && parsedRules && (
+        <RulesMergeModal
+          open={!!mergeTarget}
+          base={activeRules?.rules ?? null}
+          mine={parsedRules}
+          theirs={mergeTarget.rules}
+          baseVersion={activeRules?.version ?? null}
+          theirsVersion={mergeTarget.version}
+          onCancel={() => setMergeTarget(null)}
+          onMerged={handleMerged}
+        />
+      )}
+
       {/* Enhanced Test Modal */}
       <Modal
         title="Test Rules Configuration"
@@ -770,173 +1193,241 @@ export const RulesEditor: React.FC = () => {
         confirmLoading={isTestRunning}
         okText="Run Test"
         okButtonProps={{
-          icon: <PlayCircleOutlined />
+          icon: <PlayCircleOutlined />,
+          style: testModalTab !== 'single' ? { display: 'none' } : undefined
         }}
+        cancelText={testModalTab !== 'single' ? 'Close' : 'Cancel'}
       >
-        <Row gutter={16}>
-          <Col span={10}>
-            <Card title="Test Input Data" size="small">
-              <MonacoEditor
-                height="300px"
-                language="json"
-                theme="vs-dark"
-                value={testInput}
-                onChange={(value) => setTestInput(value || '{}')}
-                options={{
-                  minimap: { enabled: false },
-                  fontSize: 12,
-                  lineNumbers: 'off',
-                  scrollBeyondLastLine: false
-                }}
-              />
-              <Alert
-                message="Enter test input JSON (max 10 key-value pairs)"
-                type="info"
-                style={{ marginTop: 8 }}
-              />
-            </Card>
-          </Col>
-          <Col span={14}>
-            <Card title="Test Results" size="small">
-              {testResult ? (
-                <div>
-                  <div style={{ marginBottom: 16 }}>
-                    <strong>Routing Destination:</strong>{' '}
-                    <Tag color="blue" style={{ fontSize: 14 }}>
-                      {testResult.destination}
-                    </Tag>
-                  </div>
-                  
-                  <div style={{ marginBottom: 16 }}>
-                    <strong>Matched Rules:</strong>{' '}
-                    {testResult.matchedRules.length > 0 ? (
-                      <Space wrap>
-                        {testResult.matchedRules.map((rule: string, index: number) => (
-                          <Tag key={index} color="green">{rule}</Tag>
-                        ))}
-                      </Space>
-                    ) : (
-                      <Tag color="default">No rules matched - using default</Tag>
-                    )}
-                  </div>
-                  
-                  <div style={{ marginBottom: 16 }}>
-                    <strong>Execution Time:</strong> {testResult.executionTime}ms
-                  </div>
-                  
-                  {testResult.evaluationSteps && (
-                    <div>
-                      <strong>Rule Evaluation Details:</strong>
-                      <div style={{ maxHeight: 300, overflowY: 'auto', marginTop: 8 }}>
-                        {getSortedEvaluationSteps(testResult.evaluationSteps).map((step, idx) => (
-                          <div 
-                            key={idx} 
-                            style={{ 
-                              marginBottom: 4, 
-                              border: `1px solid ${step.passed ? '#b7eb8f' : '#d9d9d9'}`,
-                              borderRadius: 6,
-                              overflow: 'hidden'
+        <Tabs
+          activeKey={testModalTab}
+          onChange={(key) => setTestModalTab(key as 'single' | 'suite' | 'batch')}
+          items={[
+            {
+              key: 'single',
+              label: 'Single Test',
+              children: (
+                <Row gutter={16}>
+                  <Col span={10}>
+                    <Card
+                      title="Test Input Data"
+                      size="small"
+                      extra={
+                        <Tooltip title="Engine follows json-rules-engine: every rule runs, events fire in priority order and config dynamic facts and operators apply. First match stops at the first passing rule.">
+                          <Radio.Group
+                            size="small"
+                            value={simulatorMode}
+                            onChange={(e) => {
+                              setSimulatorMode(e.target.value);
+                              setTestResult(null);
                             }}
                           >
-                            {/* Rule Summary Header - Clickable */}
-                            <div 
-                              onClick={() => handleRuleToggle(idx)}
-                              style={{ 
-                                padding: '8px 12px',
-                                background: step.passed ? '#f6ffed' : '#fafafa',
-                                cursor: 'pointer',
-                                display: 'flex',
-                                alignItems: 'center',
-                                justifyContent: 'space-between',
-                                borderBottom: expandedRuleIndex === idx ? `1px solid ${step.passed ? '#b7eb8f' : '#d9d9d9'}` : 'none'
-                              }}
-                            >
-                              <div style={{ display: 'flex', alignItems: 'center' }}>
-                                <Tag 
-                                  color={step.passed ? 'success' : 'default'}
-                                  style={{ margin: 0, marginRight: 8 }}
-                                >
-                                  {step.ruleName}
-                                </Tag>
-                                <span style={{ fontSize: 12, color: '#666' }}>
-                                  {step.passed ? 'MATCHED' : 'NOT MATCHED'}
-                                </span>
-                                {step.conditions.length > 0 && (
-                                  <span style={{ 
-                                    fontSize: 11, 
-                                    color: '#999', 
-                                    marginLeft: 8,
-                                    fontStyle: 'italic'
-                                  }}>
-                                    ({step.conditions.length} condition{step.conditions.length !== 1 ? 's' : ''})
-                                  </span>
-                                )}
-                              </div>
-                              <div style={{ color: '#666' }}>
-                                {expandedRuleIndex === idx ? 
-                                  <DownOutlined style={{ fontSize: 10 }} /> : 
-                                  <RightOutlined style={{ fontSize: 10 }} />
-                                }
-                              </div>
-                            </div>
+                            <Radio.Button value="engine">Engine</Radio.Button>
+                            <Radio.Button value="firstMatch">First Match</Radio.Button>
+                          </Radio.Group>
+                        </Tooltip>
+                      }
+                    >
+                      <MonacoEditor
+                        height="300px"
+                        language="json"
+                        theme="vs-dark"
+                        value={testInput}
+                        onChange={(value) => setTestInput(value || '{}')}
+                        options={{
+                          minimap: { enabled: false },
+                          fontSize: 12,
+                          lineNumbers: 'off',
+                          scrollBeyondLastLine: false
+                        }}
+                      />
+                      <div style={{ marginTop: 8 }}>
+                        <strong>Simulated Time</strong>
+                        <SimulatedClockPicker
+                          value={simulatedClock}
+                          onChange={(clock) => {
+                            setSimulatedClock(clock);
+                            setTestResult(null);
+                          }}
+                        />
+                      </div>
+                      <Alert
+                        message={`Enter test input JSON (max ${MAX_INPUT_KEYS} key-value pairs)`}
+                        type="info"
+                        style={{ marginTop: 8 }}
+                      />
+                    </Card>
+                  </Col>
+                  <Col span={14}>
+                    <Card title="Test Results" size="small">
+                      {testResult ? (
+                        <div>
+                          <div style={{ marginBottom: 16 }}>
+                            <strong>Routing Destination:</strong>{' '}
+                            <Tag color="blue" style={{ fontSize: 14 }}>
+                              {testResult.destination}
+                            </Tag>
+                          </div>
+                          
+                          <div style={{ marginBottom: 16 }}>
+                            <strong>{simulatorMode === 'engine' ? 'Matched Rules (event order):' : 'Matched Rules:'}</strong>{' '}
+                            {testResult.matchedRules.length > 0 ? (
+                              <Space wrap>
+                                {testResult.matchedRules.map((rule: string, index: number) => (
+                                  <Tag key={index} color="green">{rule}</Tag>
+                                ))}
+                              </Space>
+                            ) : (
+                              <Tag color="default">No rules matched - using default</Tag>
+                            )}
+                          </div>
+                          
+                          <div style={{ marginBottom: 16 }}>
+                            <strong>Execution Time:</strong> {testResult.executionTime}ms
+                          </div>
+                          
+                          {testResult.evaluationSteps && (
+                            <div>
+                              <strong>Rule Evaluation Details:</strong>
+                              <div style={{ maxHeight: 300, overflowY: 'auto', marginTop: 8 }}>
+                                {getSortedEvaluationSteps(testResult.evaluationSteps).map((step, idx) => (
+                                  <div 
+                                    key={idx} 
+                                    style={{ 
+                                      marginBottom: 4, 
+                                      border: `1px solid ${step.passed ? '#b7eb8f' : '#d9d9d9'}`,
+                                      borderRadius: 6,
+                                      overflow: 'hidden'
+                                    }}
+                                  >
+                                    {/* Rule Summary Header - Clickable */}
+                                    <div 
+                                      onClick={() => handleRuleToggle(idx)}
+                                      style={{ 
+                                        padding: '8px 12px',
+                                        background: step.passed ? '#f6ffed' : '#fafafa',
+                                        cursor: 'pointer',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        justifyContent: 'space-between',
+                                        borderBottom: expandedRuleIndex === idx ? `1px solid ${step.passed ? '#b7eb8f' : '#d9d9d9'}` : 'none'
+                                      }}
+                                    >
+                                      <div style={{ display: 'flex', alignItems: 'center' }}>
+                                        <Tag 
+                                          color={step.passed ? 'success' : 'default'}
+                                          style={{ margin: 0, marginRight: 8 }}
+                                        >
+                                          {step.ruleName}
+                                        </Tag>
+                                        <span style={{ fontSize: 12, color: '#666' }}>
+                                          {step.passed ? 'MATCHED' : 'NOT MATCHED'}
+                                        </span>
+                                        {step.conditions.length > 0 && (
+                                          <span style={{ 
+                                            fontSize: 11, 
+                                            color: '#999', 
+                                            marginLeft: 8,
+                                            fontStyle: 'italic'
+                                          }}>
+                                            ({step.conditions.length} condition{step.conditions.length !== 1 ? 's' : ''})
+                                          </span>
+                                        )}
+                                      </div>
+                                      <div style={{ color: '#666' }}>
+                                        {expandedRuleIndex === idx ? 
+                                          <DownOutlined style={{ fontSize: 10 }} /> : 
+                                          <RightOutlined style={{ fontSize: 10 }} />
+                                        }
+                                      </div>
+                                    </div>
 
-                            {/* Rule Details - Collapsible */}
-                            {expandedRuleIndex === idx && step.conditions.length > 0 && (
-                              <div style={{ 
-                                padding: '8px 12px',
-                                background: '#fafafa',
-                                fontSize: 12
-                              }}>
-                                <div style={{ marginBottom: 4, fontWeight: 500, color: '#666' }}>
-                                  Condition Details:
-                                </div>
-                                {step.conditions.map((cond: any, cidx: number) => (
-                                  <div key={cidx} style={{ 
-                                    marginLeft: 8, 
-                                    marginBottom: 2,
-                                    padding: '2px 4px',
-                                    background: 'white',
-                                    border: `1px solid ${cond.passed ? '#b7eb8f' : '#ffccc7'}`,
-                                    borderRadius: 3,
-                                    display: 'flex',
-                                    justifyContent: 'space-between',
-                                    alignItems: 'center'
-                                  }}>
-                                    <span style={{ color: '#333' }}>
-                                      <strong>{cond.fact}:</strong> {String(cond.actual)} {cond.operator} {String(cond.expected)}
-                                    </span>
-                                    <span style={{ 
-                                      color: cond.passed ? '#52c41a' : '#ff4d4f',
-                                      fontWeight: 'bold',
-                                      fontSize: 11
-                                    }}>
-                                      {cond.passed ? '✓' : '✗'}
-                                    </span>
+                                    {/* Rule Details - Collapsible */}
+                                    {expandedRuleIndex === idx && step.conditions.length > 0 && (
+                                      <div style={{ 
+                                        padding: '8px 12px',
+                                        background: '#fafafa',
+                                        fontSize: 12
+                                      }}>
+                                        <div style={{ marginBottom: 4, fontWeight: 500, color: '#666' }}>
+                                          Condition Details:
+                                        </div>
+                                        {step.conditions.map((cond: any, cidx: number) => (
+                                          <div key={cidx} style={{ 
+                                            marginLeft: 8, 
+                                            marginBottom: 2,
+                                            padding: '2px 4px',
+                                            background: 'white',
+                                            border: `1px solid ${cond.passed ? '#b7eb8f' : '#ffccc7'}`,
+                                            borderRadius: 3,
+                                            display: 'flex',
+                                            justifyContent: 'space-between',
+                                            alignItems: 'center'
+                                          }}>
+                                            <span style={{ color: '#333' }}>
+                                              <strong>{cond.fact}:</strong> {String(cond.actual)} {cond.operator} {String(cond.expected)}
+                                            </span>
+                                            <span style={{ 
+                                              color: cond.passed ? '#52c41a' : '#ff4d4f',
+                                              fontWeight: 'bold',
+                                              fontSize: 11
+                                            }}>
+                                              {cond.passed ? '✓' : '✗'}
+                                            </span>
+                                          </div>
+                                        ))}
+                                      </div>
+                                    )}
                                   </div>
                                 ))}
                               </div>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ) : (
-                <div style={{ textAlign: 'center', padding: '40px 0', color: '#999' }}>
-                  {isTestRunning ? (
-                    <Spin tip="Running test..." />
-                  ) : (
-                    <>
-                      <ExclamationCircleOutlined style={{ fontSize: 48, marginBottom: 16 }} />
-                      <p>Click "Run Test" to see results</p>
-                    </>
-                  )}
-                </div>
-              )}
-            </Card>
-          </Col>
-        </Row>
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <div style={{ textAlign: 'center', padding: '40px 0', color: '#999' }}>
+                          {isTestRunning ? (
+                            <Spin tip="Running test..." />
+                          ) : (
+                            <>
+                              <ExclamationCircleOutlined style={{ fontSize: 48, marginBottom: 16 }} />
+                              <p>Click "Run Test" to see results</p>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </Card>
+                  </Col>
+                </Row>
+              )
+            },
+            {
+              key: 'suite',
+              label: `Test Suite (${Array.isArray(parsedRules?.testCases) ? parsedRules.testCases.length : 0})`,
+              disabled: !isValidSyntax,
+              children: (
+                <TestSuitePanel
+                  rulesConfig={parsedRules}
+                  currentInput={testInput}
+                  currentClock={simulatedClock}
+                  onChange={handleTestCasesChange}
+                  onLoadInput={handleLoadTestCaseInput}
+                />
+              )
+            },
+            {
+              key: 'batch',
+              label: 'Batch Test',
+              disabled: !isValidSyntax,
+              children: (
+                <BatchTestPanel
+                  rulesConfig={parsedRules}
+                  mode={simulatorMode}
+                  clock={simulatedClock}
+                />
+              )
+            }
+          ]}
+        />
       </Modal>
 
       {/* Template Selector Modal */}
@@ -1,10 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Table, Card, Button, Space, Tag, Modal, Typography, message, Tooltip, Select, Popconfirm } from 'antd';
-import { RollbackOutlined, EyeOutlined, DeleteOutlined, ClearOutlined } from '@ant-design/icons';
+import { Table, Card, Button, Space, Tag, Modal, Typography, message, Tooltip, Select, Popconfirm, Alert } from 'antd';
+import { RollbackOutlined, EyeOutlined, DeleteOutlined, ClearOutlined, SwapOutlined, RiseOutlined } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import dayjs from 'dayjs';
 import Editor from '@monaco-editor/react';
-import genesysService from '../services/genesysService';
+import genesysService, { RuleStatus, DRAFT_STATUSES, PromotionRecord } from '../services/genesysService';
+import { getEnvironment, hasMultipleEnvironments } from '../services/environments';
+import type { ScheduledActivation } from '../services/activationScheduler';
+import { STATUS_COLORS, STATUS_LABELS } from '../helpers/rule-status';
+import VersionDiffModal from '../components/VersionDiffModal';
+import UpcomingActivations from '../components/UpcomingActivations';
+import PromoteModal from '../components/PromoteModal';
 
 const { Text } = Typography;
 
@@ -17,8 +23,23 @@ interface RuleVersion {
   description: string;
   rules: any;
   active: boolean;
+  status: RuleStatus;
+  reviewedBy?: string;
+  reviewComments?: string;
+  activateAt?: string;
+  deactivateAt?: string;
+  revertToVersion?: number;
+  promotionHistory: PromotionRecord[];
+  testOverrideReason?: string;
+  /** Why the stored rules could not be read; `rules` is null then */
+  unreadable?: string;
 }
 
+/**
+ * Label of an environment id from promotion history, which may no longer be configured
+ */
+const environmentLabel = (id: string): string => getEnvironment(id)?.label || id;
+
 const VersionHistory: React.FC = () => {
   const [versions, setVersions] = useState<RuleVersion[]>([]);
   const [loading, setLoading] = useState(false);
@@ -30,6 +51,10 @@ const VersionHistory: React.FC = () => {
   const [cleanupModalVisible, setCleanupModalVisible] = useState(false);
   const [cleanupFilter, setCleanupFilter] = useState<'all' | 'older-than'>('older-than');
   const [olderThanDays, setOlderThanDays] = useState<number>(7);
+  const [compareKeys, setCompareKeys] = useState<{ left?: string; right?: string } | null>(null);
+  const [compareVersions, setCompareVersions] = useState<RuleVersion[]>([]);
+  const [schedule, setSchedule] = useState<ScheduledActivation[]>([]);
+  const [promoting, setPromoting] = useState<RuleVersion | null>(null);
 
   useEffect(() => {
     loadVersions();
@@ -51,6 +76,7 @@ const VersionHistory: React.FC = () => {
         setVersions([]);
         setPagination({ current: 1, pageSize: 20, total: 0 });
       }
+      setSchedule(await genesysService.getScheduledActivations().catch(() => []));
     } catch (error: any) {
       console.error('Failed to load version history:', error);
       message.error('Failed to load version history: ' + (error.message || 'Unknown error'));
@@ -66,6 +92,33 @@ const VersionHistory: React.FC = () => {
     setViewModalVisible(true);
   };
 
+  /**
+   * Open the comparison with every version in the pickers, not just this page
+   */
+  const openCompare = async (pick: (all: RuleVersion[]) => { left?: string; right?: string }) => {
+    try {
+      const all: RuleVersion[] = await genesysService.getAllRulesHistory();
+      setCompareVersions(all);
+      setCompareKeys(pick(all));
+    } catch (error) {
+      message.error('Failed to load versions to compare: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const handleCompare = () => openCompare(all => {
+    // Compare the two selected versions, oldest first, or fall back to the newest two
+    const selected = all
+      .filter(v => selectedRowKeys.includes(v.key))
+      .sort((a, b) => a.version - b.version);
+    const pair = selected.length === 2 ? selected : [...all].sort((a, b) => a.version - b.version).slice(-2);
+    return { left: pair[0]?.key, right: pair[1]?.key };
+  });
+
+  const handleCompareWithActive = (version: RuleVersion) => openCompare(all => ({
+    left: all.find(v => v.active)?.key,
+    right: version.key
+  }));
+
   const handleRollback = (version: RuleVersion) => {
     setSelectedVersion(version);
     setRollbackModalVisible(true);
@@ -88,14 +141,67 @@ const VersionHistory: React.FC = () => {
     }
   };
 
+  const handleRepair = async () => {
+    setLoading(true);
+    try {
+      const result = await genesysService.repairActiveVersion();
+      if (result.repaired) {
+        message.success(`Repaired version history - v${result.activeVersion} is now the only active version`);
+      } else if (result.activeVersion === null) {
+        message.warning('No version could be made active - every deployed version is unreviewed, failing its tests or too large');
+      } else {
+        message.info('Version history is already consistent');
+      }
+      loadVersions(pagination.current, pagination.pageSize);
+    } catch (error: any) {
+      console.error('Repair failed:', error);
+      message.error('Failed to repair version history: ' + (error.message || 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleActivateNow = async (entry: ScheduledActivation) => {
+    setLoading(true);
+    try {
+      await genesysService.activateVersion(entry.key);
+      message.success(`v${entry.version} is now live`);
+      loadVersions(pagination.current, pagination.pageSize);
+    } catch (error: any) {
+      console.error('Activation failed:', error);
+      message.error('Failed to activate version: ' + (error.message || 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelSchedule = async (entry: ScheduledActivation) => {
+    setLoading(true);
+    try {
+      await genesysService.cancelSchedule(entry.key, entry.action);
+      message.success(entry.action === 'activate'
+        ? `Cancelled activation of v${entry.version}`
+        : `Cancelled revert of v${entry.version}`);
+      loadVersions(pagination.current, pagination.pageSize);
+    } catch (error: any) {
+      console.error('Cancel schedule failed:', error);
+      message.error('Failed to cancel schedule: ' + (error.message || 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const activeCount = versions.filter(v => v.active).length;
+
   const getVersionsToCleanup = () => {
+    // Only retired deployed versions are cleaned up; drafts are managed from the editor
     if (cleanupFilter === 'all') {
-      return versions.filter(v => !v.active);
+      return versions.filter(v => v.status === 'inactive');
     } else {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
       return versions.filter(v => 
-        !v.active && 
+        v.status === 'inactive' && 
         new Date(v.createdAt) < cutoffDate
       );
     }
@@ -174,9 +280,63 @@ const VersionHistory: React.FC = () => {
       dataIndex: 'version',
       key: 'version',
       render: (text, record) => (
-        <Space>
-          <Text strong>v{text}</Text>
-          {record.active && <Tag color="green">ACTIVE</Tag>}
+        !DRAFT_STATUSES.includes(record.status) ? (
+          <Space>
+            <Text strong>v{text}</Text>
+            {record.active && <Tag color="green">ACTIVE</Tag>}
+          </Space>
+        ) : (
+          <Space direction="vertical" size={0}>
+            <Text type="secondary">Draft</Text>
+            <Text type="secondary" style={{ fontSize: 12 }}>from v{text}</Text>
+          </Space>
+        )
+      )
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      filters: (Object.keys(STATUS_LABELS) as RuleStatus[]).map(status => ({ text: STATUS_LABELS[status], value: status })),
+      onFilter: (value, record) => record.status === value,
+      render: (status: RuleStatus, record) => (
+        <Space direction="vertical" size={0}>
+          <Tooltip title={record.reviewedBy ? `Reviewed by ${record.reviewedBy}${record.reviewComments ? `: ${record.reviewComments}` : ''}` : undefined}>
+            <Tag color={STATUS_COLORS[status]}>{STATUS_LABELS[status]}</Tag>
+          </Tooltip>
+          {status === 'scheduled' && record.activateAt && (
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              goes live {dayjs(record.activateAt).format('YYYY-MM-DD HH:mm')}
+            </Text>
+          )}
+          {record.deactivateAt && record.revertToVersion && (
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              reverts to v{record.revertToVersion} {dayjs(record.deactivateAt).format('YYYY-MM-DD HH:mm')}
+            </Text>
+          )}
+          {record.unreadable && (
+            <Tooltip title={record.unreadable}>
+              <Tag color="red">UNREADABLE</Tag>
+            </Tooltip>
+          )}
+          {record.testOverrideReason && (
+            <Tooltip title={`Deployed with failing test cases: ${record.testOverrideReason}`}>
+              <Tag color="volcano">TESTS OVERRIDDEN</Tag>
+            </Tooltip>
+          )}
+          {record.promotionHistory.length > 0 && (
+            <Tooltip
+              title={record.promotionHistory.map(entry => (
+                <div key={entry.promotedAt}>
+                  {environmentLabel(entry.fromEnvironment)} v{entry.fromVersion} → {environmentLabel(entry.toEnvironment)} by {entry.promotedBy}, {dayjs(entry.promotedAt).format('YYYY-MM-DD HH:mm')}
+                </div>
+              ))}
+            >
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                promoted from {environmentLabel(record.promotionHistory[record.promotionHistory.length - 1].fromEnvironment)} v{record.promotionHistory[record.promotionHistory.length - 1].fromVersion}
+              </Text>
+            </Tooltip>
+          )}
         </Space>
       )
     },
@@ -212,6 +372,24 @@ const VersionHistory: React.FC = () => {
             />
           </Tooltip>
           {!record.active && (
+            <Tooltip title="Compare with active version">
+              <Button 
+                icon={<SwapOutlined />} 
+                onClick={() => handleCompareWithActive(record)}
+                size="small"
+              />
+            </Tooltip>
+          )}
+          {hasMultipleEnvironments() && !DRAFT_STATUSES.includes(record.status) && (
+            <Tooltip title="Promote to another environment">
+              <Button 
+                icon={<RiseOutlined />} 
+                onClick={() => setPromoting(record)}
+                size="small"
+              />
+            </Tooltip>
+          )}
+          {record.status === 'inactive' && (
             <Tooltip title="Rollback to this version">
               <Button 
                 icon={<RollbackOutlined />} 
@@ -246,6 +424,15 @@ const VersionHistory: React.FC = () => {
                 Delete Selected ({selectedRowKeys.length})
               </Button>
             </Popconfirm>
+            <Tooltip title={selectedRowKeys.length === 2 ? 'Compare the selected versions' : 'Compare two versions'}>
+              <Button 
+                icon={<SwapOutlined />} 
+                onClick={handleCompare}
+                disabled={pagination.total < 2}
+              >
+                Compare
+              </Button>
+            </Tooltip>
             <Button 
               icon={<ClearOutlined />} 
               onClick={handleCleanup}
@@ -259,6 +446,27 @@ const VersionHistory: React.FC = () => {
           </Space>
         }
       >
+        {activeCount > 1 && (
+          <Alert
+            message={`${activeCount} versions are marked active`}
+            description="A deploy or rollback was interrupted part-way through. Repair keeps the highest active version and deactivates the rest."
+            type="error"
+            showIcon
+            action={
+              <Button size="small" danger onClick={handleRepair} loading={loading}>
+                Repair
+              </Button>
+            }
+            style={{ marginBottom: 16 }}
+          />
+        )}
+
+        <UpcomingActivations
+          entries={schedule}
+          onActivateNow={handleActivateNow}
+          onCancel={handleCancelSchedule}
+        />
+
         <Table
           columns={columns}
           dataSource={versions}
@@ -266,6 +474,8 @@ const VersionHistory: React.FC = () => {
           loading={loading}
           rowSelection={{
             selectedRowKeys,
+            // Keep picks from other pages so any two versions can be compared
+            preserveSelectedRowKeys: true,
             onChange: setSelectedRowKeys,
             getCheckboxProps: (record) => ({
               disabled: record.active, // Disable checkbox for active versions
@@ -343,9 +553,39 @@ const VersionHistory: React.FC = () => {
           <Text type="warning">
             This will replace the current active rules with the rules from this version.
           </Text>
+          {selectedVersion && (
+            <Button
+              type="link"
+              icon={<SwapOutlined />}
+              onClick={() => handleCompareWithActive(selectedVersion)}
+              style={{ padding: 0 }}
+            >
+              Review what will change
+            </Button>
+          )}
         </Space>
       </Modal>
 
+      {/* Compare Modal */}
+      <VersionDiffModal
+        open={!!compareKeys}
+        versions={compareVersions}
+        initialLeftKey={compareKeys?.left}
+        initialRightKey={compareKeys?.right}
+        onClose={() => setCompareKeys(null)}
+      />
+
+      {/* Promote Modal */}
+      <PromoteModal
+        open={!!promoting}
+        version={promoting}
+        onClose={() => setPromoting(null)}
+        onPromoted={(environment, version) => {
+          message.success(`Promoted to ${environment} as v${version}`);
+          setPromoting(null);
+        }}
+      />
+
       {/* Cleanup Modal */}
       <Modal
         title="Cleanup Version History"
@@ -0,0 +1,162 @@
+// src/services/activationScheduler.ts
+
+/**
+ * A pending change to the active rules version.
+ * `activate` makes a scheduled version live; `revert` switches from a live
+ * version back to `revertToVersion` once its deactivation time passes.
+ */
+export interface ScheduledActivation {
+  key: string;
+  version: number;
+  action: 'activate' | 'revert';
+  runAt: string;
+  revertToVersion?: number;
+  description?: string;
+  scheduledBy?: string;
+}
+
+/**
+ * Where the scheduler reads pending activations from and applies them to.
+ * `apply` must re-check the entry against current state, since several
+ * schedulers (browser tabs, a headless process) may race for the same one,
+ * and return false when there was nothing left to do.
+ */
+export interface ScheduleStore {
+  getSchedule(): Promise<ScheduledActivation[]>;
+  apply(entry: ScheduledActivation): Promise<boolean>;
+}
+
+/**
+ * Time source, replaceable so schedules can be driven in scripts
+ */
+export interface SchedulerClock {
+  now(): number;
+}
+
+export interface ActivationSchedulerOptions {
+  clock?: SchedulerClock;
+  /** How often to re-read the schedule, in milliseconds */
+  pollIntervalMs?: number;
+  /** Called after every poll with the activations still pending */
+  onScheduleChange?: (upcoming: ScheduledActivation[]) => void;
+  onApplied?: (entry: ScheduledActivation) => void;
+  onError?: (error: Error, entry?: ScheduledActivation) => void;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now()
+};
+
+/**
+ * Applies scheduled activations when they fall due.
+ *
+ * Only depends on a `ScheduleStore` and timers, so the same class runs in the
+ * browser (wired to the Genesys service) or in a small headless process with
+ * its own store. Polls the store and wakes up early for the next due entry.
+ */
+export class ActivationScheduler {
+  private store: ScheduleStore;
+  private clock: SchedulerClock;
+  private pollIntervalMs: number;
+  private options: ActivationSchedulerOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+  private ticking: boolean = false;
+
+  constructor(store: ScheduleStore, options: ActivationSchedulerOptions = {}) {
+    this.store = store;
+    this.options = options;
+    this.clock = options.clock || systemClock;
+    this.pollIntervalMs = options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Start polling; safe to call more than once
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.tick();
+  }
+
+  /**
+   * Stop polling and cancel the pending wake-up
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Apply every activation that is due, oldest first, and return the ones applied.
+   * A failing entry is reported and skipped so it does not block later ones.
+   */
+  async runDue(): Promise<ScheduledActivation[]> {
+    const now = this.clock.now();
+    const due = (await this.store.getSchedule())
+      .filter(entry => Date.parse(entry.runAt) <= now)
+      .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+
+    const applied: ScheduledActivation[] = [];
+    for (const entry of due) {
+      try {
+        if (await this.store.apply(entry)) {
+          applied.push(entry);
+          this.options.onApplied?.(entry);
+        }
+      } catch (error: any) {
+        console.error(`Scheduled ${entry.action} of v${entry.version} failed:`, error);
+        this.options.onError?.(error, entry);
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Activations that are not due yet, soonest first
+   */
+  async getUpcoming(): Promise<ScheduledActivation[]> {
+    const now = this.clock.now();
+    return (await this.store.getSchedule())
+      .filter(entry => Date.parse(entry.runAt) > now)
+      .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+  }
+
+  /**
+   * Run due entries, publish what is left and arm the next wake-up
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    let nextDelay = this.pollIntervalMs;
+
+    try {
+      await this.runDue();
+      const upcoming = await this.getUpcoming();
+      this.options.onScheduleChange?.(upcoming);
+
+      if (upcoming.length > 0) {
+        const untilNext = Date.parse(upcoming[0].runAt) - this.clock.now();
+        nextDelay = Math.max(0, Math.min(nextDelay, untilNext));
+      }
+    } catch (error: any) {
+      console.error('Activation scheduler error:', error);
+      this.options.onError?.(error);
+    } finally {
+      this.ticking = false;
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => this.tick(), nextDelay);
+    }
+  }
+}
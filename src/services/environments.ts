@@ -0,0 +1,95 @@
+// src/services/environments.ts
+
+/**
+ * A named rules environment (e.g. dev, test, prod), each with its own
+ * rules table and optionally its own Genesys Cloud region
+ */
+export interface RulesEnvironment {
+  id: string;
+  label: string;
+  rulesTableId: string;
+  /** Execution logs table, defaults to VITE_LOGS_TABLE_ID */
+  logsTableId?: string;
+  /** Genesys Cloud region, defaults to VITE_GENESYS_ENVIRONMENT */
+  region?: string;
+  /** Tag colour in the environment switcher */
+  color?: string;
+}
+
+const STORAGE_KEY = 'raas_environment';
+
+const DEFAULT_ENVIRONMENT_ID = 'default';
+
+/**
+ * Parse VITE_ENVIRONMENTS, a JSON array of environments, falling back to a
+ * single environment built from VITE_RULES_TABLE_ID
+ */
+const loadEnvironments = (): RulesEnvironment[] => {
+  const configured = import.meta.env.VITE_ENVIRONMENTS;
+  if (configured) {
+    try {
+      const parsed = JSON.parse(configured);
+      const valid = Array.isArray(parsed)
+        ? parsed.filter((env: any) => env && typeof env.id === 'string' && typeof env.rulesTableId === 'string')
+        : [];
+      if (valid.length > 0) {
+        return valid.map((env: any) => ({ ...env, label: env.label || env.id }));
+      }
+      console.error('VITE_ENVIRONMENTS has no valid environments (each needs an id and rulesTableId)');
+    } catch (error) {
+      console.error('Failed to parse VITE_ENVIRONMENTS:', error);
+    }
+  }
+
+  return [{
+    id: DEFAULT_ENVIRONMENT_ID,
+    label: 'Default',
+    rulesTableId: import.meta.env.VITE_RULES_TABLE_ID || ''
+  }];
+};
+
+const environments = loadEnvironments();
+
+/**
+ * All configured environments, in promotion order
+ */
+export const getEnvironments = (): RulesEnvironment[] => environments;
+
+/**
+ * Look up an environment by id
+ */
+export const getEnvironment = (id: string): RulesEnvironment | undefined =>
+  environments.find(env => env.id === id);
+
+/**
+ * Whether more than one environment is configured
+ */
+export const hasMultipleEnvironments = (): boolean => environments.length > 1;
+
+/**
+ * The environment chosen last time, or the first configured one
+ */
+export const getStoredEnvironmentId = (): string => {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored && getEnvironment(stored)) {
+      return stored;
+    }
+  }
+  return environments[0].id;
+};
+
+/**
+ * Remember the chosen environment across reloads
+ */
+export const storeEnvironmentId = (id: string): void => {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    window.localStorage.setItem(STORAGE_KEY, id);
+  }
+};
+
+/**
+ * Region an environment lives in
+ */
+export const getEnvironmentRegion = (env: RulesEnvironment): string =>
+  env.region || import.meta.env.VITE_GENESYS_ENVIRONMENT || 'mypurecloud.com';
@@ -1,6 +1,313 @@
 // src/services/genesysService.ts
 import platformClient from 'purecloud-platform-client-v2';
 import { v4 as uuidv4 } from 'uuid';
+import type { ScheduledActivation } from './activationScheduler';
+import type { RoutingTarget } from '../utils/destinationRegistry';
+import type { RulesConfig } from '../components/VisualRuleEditor/types';
+import { isDeployAllowed, runTestSuite } from '../utils/testSuite';
+import {
+  RulesEnvironment,
+  getEnvironment,
+  getEnvironments,
+  getEnvironmentRegion,
+  getStoredEnvironmentId,
+  storeEnvironmentId
+} from './environments';
+import {
+  ChunkedRulesRepository,
+  DEFAULT_CELL_LIMIT,
+  GenesysDataTableRepository,
+  InMemoryRulesRepository,
+  LocalStorageRulesRepository,
+  RestRulesRepository,
+  RULES_STORAGE_KINDS,
+  PromotionRecord,
+  RuleRow,
+  RuleStatus,
+  RulesRepository,
+  RulesStorageKind,
+  listAllPages,
+  listDataTableRows
+} from './repositories';
+
+export type { PromotionRecord, RuleStatus } from './repositories';
+
+/**
+ * Architect flow types a call or interaction can be transferred to
+ */
+const ROUTABLE_FLOW_TYPES = ['inboundcall', 'inboundchat', 'inboundemail', 'inboundshortmessage', 'inqueuecall'];
+
+const ROUTING_PAGE_SIZE = 100;
+
+/**
+ * Talk to the local mock server instead of Genesys Cloud (see mock/genesysMockServer.ts)
+ */
+const GENESYS_MOCK = import.meta.env.VITE_GENESYS_MOCK === 'true';
+
+/** Must match MOCK_BASE_PATH in mock/genesysMockServer.ts */
+const MOCK_PATH = 'mock-genesys';
+
+export const DRAFT_STATUSES: RuleStatus[] = ['draft', 'pending-review', 'approved', 'rejected'];
+
+/**
+ * With VITE_REQUIRE_APPROVAL=true only approved drafts may go live. Enforced
+ * here for every path that activates a version, not just in the editor.
+ */
+export const REQUIRE_APPROVAL = import.meta.env.VITE_REQUIRE_APPROVAL === 'true';
+
+/**
+ * A row of the rules table as listed in the version history
+ */
+export interface RuleHistoryEntry {
+  key: string;
+  name: string;
+  version: number;
+  active: boolean;
+  status: RuleStatus;
+  /** Null when the stored rules could not be read */
+  rules: RulesConfig | null;
+  unreadable?: string;
+  createdBy: string;
+  createdAt: string;
+  description: string;
+  reviewedBy?: string;
+  reviewComments?: string;
+  activateAt?: string;
+  deactivateAt?: string;
+  revertToVersion?: number;
+  promotionHistory: PromotionRecord[];
+  testOverrideReason?: string;
+}
+
+/**
+ * A draft rules configuration awaiting review or deployment
+ */
+export interface RuleDraft {
+  key: string;
+  baseVersion: number | null;
+  rules: any;
+  description: string;
+  author: string;
+  /** Everyone who saved the draft, author first; none of them may review it */
+  editors: string[];
+  updatedAt: string;
+  status: RuleStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComments?: string;
+}
+
+/**
+ * Review details carried onto a deployed row
+ */
+export interface DeployReview {
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComments?: string;
+  /** Why the deploy went ahead with failing test cases */
+  testOverrideReason?: string;
+}
+
+/**
+ * When a deployed version goes live and, optionally, when it hands back to
+ * an earlier version. Times are ISO strings; a missing `activateAt` means
+ * deploy immediately, and one already in the past is rejected rather than
+ * silently deploying now.
+ */
+export interface RuleSchedule {
+  activateAt?: string;
+  deactivateAt?: string;
+  revertToVersion?: number;
+}
+
+/**
+ * A rules execution read back from the logs table
+ */
+export interface ExecutionLogEntry {
+  key: string;
+  timestamp: string;
+  input: any;
+  /** Destination the rules routed to */
+  output: string;
+  rulesVersion: number;
+  executionTime: number;
+  matchedRules: string[];
+  error?: string;
+  traceId: string;
+}
+
+/**
+ * Filters for the execution log viewer; text filters are case-insensitive
+ */
+export interface ExecutionLogFilter {
+  from?: string;
+  to?: string;
+  rulesVersion?: number;
+  destination?: string;
+  matchedRule?: string;
+  outcome?: 'error' | 'success';
+}
+
+/**
+ * Raised when a deploy is based on a version that is no longer the active one
+ */
+export class DeployConflictError extends Error {
+  readonly baseVersion: number | null;
+  readonly activeVersion: number | null;
+  readonly deployedBy?: string;
+
+  constructor(baseVersion: number | null, activeVersion: number | null, deployedBy?: string) {
+    const who = deployedBy || 'Someone';
+    super(
+      activeVersion === null
+        ? `${who} removed the active rules while you were editing v${baseVersion}`
+        : `${who} deployed v${activeVersion} while you were editing ${baseVersion === null ? 'new rules' : `v${baseVersion}`}`
+    );
+    this.name = 'DeployConflictError';
+    this.baseVersion = baseVersion;
+    this.activeVersion = activeVersion;
+    this.deployedBy = deployedBy;
+  }
+}
+
+/**
+ * Parse the string version column, treating anything unparseable as 0
+ */
+const parseVersion = (version: unknown): number => {
+  const parsed = parseInt(String(version), 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Resolve the lifecycle state of a row, deriving it for legacy rows
+ */
+const getRowStatus = (row: RuleRow): RuleStatus =>
+  row.status && row.status !== 'active' && row.status !== 'inactive'
+    ? row.status
+    : row.isActive === true ? 'active' : 'inactive';
+
+/**
+ * Whether a row is a deployed version rather than a draft
+ */
+const isDeployedRow = (row: RuleRow): boolean => !DRAFT_STATUSES.includes(getRowStatus(row));
+
+/**
+ * Whether a deployed row can be rolled back to (it has been live or could be)
+ */
+const isActivatableRow = (row: RuleRow): boolean => isDeployedRow(row) && getRowStatus(row) !== 'scheduled';
+
+/**
+ * Read the promotion history column; rows never promoted have none
+ */
+const parsePromotionHistory = (value?: string): PromotionRecord[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Run the test cases saved with a config before it goes live. Failures need
+ * an override reason; the trimmed reason is returned for the audit column,
+ * or undefined when every case passes.
+ */
+const checkTestSuite = async (rulesConfig: RulesConfig, overrideReason: string | undefined): Promise<string | undefined> => {
+  const result = await runTestSuite(rulesConfig);
+  if (!isDeployAllowed(result, overrideReason || '')) {
+    throw new Error(`${result.failed} saved test case(s) fail; give a reason to deploy anyway`);
+  }
+  return result.failed > 0 ? overrideReason!.trim() : undefined;
+};
+
+/**
+ * Parse the config of a row, failing with a clear message when the
+ * repository could not read it back
+ */
+const readRules = (row: RuleRow): unknown => {
+  if (row.unreadable) {
+    throw new Error(`Rules v${row.version} cannot be read: ${row.unreadable}`);
+  }
+  return JSON.parse(row.rules);
+};
+
+/**
+ * Everyone who saved a draft; drafts saved before the column existed only
+ * know their author
+ */
+const parseEditors = (row: RuleRow): string[] => {
+  try {
+    const parsed = row.editedBy ? JSON.parse(row.editedBy) : null;
+    if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+  } catch {
+    // Fall back to the author
+  }
+  return row.deployedBy ? [row.deployedBy] : [];
+};
+
+/**
+ * Turn a logs table row back into a log entry
+ */
+const parseLogRow = (row: Record<string, any>): ExecutionLogEntry => {
+  let input: any = row.input;
+  try {
+    input = JSON.parse(row.input);
+  } catch {
+    // Keep the raw text if the input was not valid JSON
+  }
+  return {
+    key: row.key,
+    timestamp: row.timestamp,
+    input,
+    output: row.output || '',
+    rulesVersion: parseVersion(row.rulesVersion),
+    executionTime: Number(row.executionTime) || 0,
+    matchedRules: row.matchedRules ? String(row.matchedRules).split(',') : [],
+    error: row.error || undefined,
+    traceId: row.traceId
+  };
+};
+
+/**
+ * Whether a log entry passes the viewer filters
+ */
+const matchesLogFilter = (entry: ExecutionLogEntry, filter: ExecutionLogFilter): boolean => {
+  const time = Date.parse(entry.timestamp);
+  const contains = (value: string, search: string) => value.toLowerCase().includes(search.toLowerCase());
+
+  if (filter.from && time < Date.parse(filter.from)) return false;
+  if (filter.to && time > Date.parse(filter.to)) return false;
+  if (filter.rulesVersion !== undefined && entry.rulesVersion !== filter.rulesVersion) return false;
+  if (filter.destination && !contains(entry.output, filter.destination)) return false;
+  if (filter.matchedRule && !entry.matchedRules.some(rule => contains(rule, filter.matchedRule!))) return false;
+  if (filter.outcome === 'error' && !entry.error) return false;
+  if (filter.outcome === 'success' && entry.error) return false;
+  return true;
+};
+
+/**
+ * Check a schedule before it is written
+ */
+const validateSchedule = (schedule: RuleSchedule): void => {
+  const activateAt = schedule.activateAt ? Date.parse(schedule.activateAt) : Date.now();
+  if (Number.isNaN(activateAt)) {
+    throw new Error('Invalid activation time');
+  }
+  if (schedule.activateAt && activateAt <= Date.now()) {
+    throw new Error('The activation time has passed; choose a later time or deploy now');
+  }
+  if (schedule.deactivateAt) {
+    const deactivateAt = Date.parse(schedule.deactivateAt);
+    if (Number.isNaN(deactivateAt) || deactivateAt <= Math.max(activateAt, Date.now())) {
+      throw new Error('Deactivation time must be after the activation time');
+    }
+    if (!schedule.revertToVersion) {
+      throw new Error('Choose the version to revert to when this version is deactivated');
+    }
+  }
+};
 
 /**
  * Genesys Cloud Service
@@ -10,6 +317,10 @@ import { v4 as uuidv4 } from 'uuid';
 class GenesysService {
   private client: typeof platformClient;
   private initialised: boolean = false;
+  private environmentId: string = getStoredEnvironmentId();
+  private rulesRepositories = new Map<string, RulesRepository>();
+  /** Last full read of a logs table, reused when a caller asks for `cached` */
+  private executionLogCache: { tableId: string; entries: ExecutionLogEntry[] } | null = null;
 
   constructor() {
     this.client = platformClient;
@@ -22,9 +333,21 @@ class GenesysService {
     if (this.initialised) return;
 
     try {
-      // Set the environment (region)
-      const environment = import.meta.env.VITE_GENESYS_ENVIRONMENT || 'mypurecloud.com';
-      this.client.ApiClient.instance.setEnvironment(environment);
+      if (GENESYS_MOCK) {
+        // Route API calls and the login redirect to the mock served by the dev server
+        const protocol = window.location.protocol.replace(':', '');
+        this.client.ApiClient.instance.setGateway({
+          host: window.location.hostname,
+          protocol,
+          port: window.location.port || (protocol === 'https' ? '443' : '80'),
+          path_params_login: MOCK_PATH,
+          path_params_api: MOCK_PATH
+        });
+        console.warn('Using the mock Genesys Cloud server - no real org is contacted');
+      } else {
+        // Set the environment (region) of the selected rules environment
+        this.client.ApiClient.instance.setEnvironment(getEnvironmentRegion(this.getEnvironment()));
+      }
 
       // Check if we have a token from a previous session
       const savedAuth = this.getPersistedAuth();
@@ -112,6 +435,36 @@ class GenesysService {
     }
   }
 
+  /**
+   * The rules environment all rules operations act on
+   */
+  getEnvironment(): RulesEnvironment {
+    return getEnvironment(this.environmentId)!;
+  }
+
+  /**
+   * Switch rules environment.
+   * Tokens are only valid in the region they were issued for, so switching
+   * to an environment in another region signs the user out; the return value
+   * tells the caller a new login is needed.
+   */
+  setEnvironment(environmentId: string): { requiresLogin: boolean } {
+    const target = getEnvironment(environmentId);
+    if (!target) {
+      throw new Error(`Unknown environment "${environmentId}"`);
+    }
+
+    const regionChanged = !GENESYS_MOCK && getEnvironmentRegion(target) !== getEnvironmentRegion(this.getEnvironment());
+    this.environmentId = environmentId;
+    storeEnvironmentId(environmentId);
+
+    if (regionChanged) {
+      this.clearAuthData();
+      this.initialised = false;
+    }
+    return { requiresLogin: regionChanged };
+  }
+
   /**
    * Login using implicit grant (browser-based OAuth)
    */
@@ -119,8 +472,10 @@ class GenesysService {
     try {
       await this.initialise();
       
-      const clientId = import.meta.env.VITE_GENESYS_CLIENT_ID;
-      const redirectUri = import.meta.env.VITE_REDIRECT_URI;
+      // The mock accepts any client, so only a real org needs OAuth configured
+      const clientId = import.meta.env.VITE_GENESYS_CLIENT_ID || (GENESYS_MOCK ? 'mock-client' : undefined);
+      const redirectUri = import.meta.env.VITE_REDIRECT_URI ||
+        (GENESYS_MOCK ? `${window.location.origin}/auth/callback` : undefined);
 
       if (!clientId || !redirectUri) {
         throw new Error('Missing OAuth configuration');
@@ -178,6 +533,13 @@ class GenesysService {
     }
   }
 
+  /**
+   * Whether the app is running against the mock Genesys Cloud server
+   */
+  isMockMode(): boolean {
+    return GENESYS_MOCK;
+  }
+
   /**
    * Check if the user is authenticated
    */
@@ -281,48 +643,226 @@ class GenesysService {
   }
 
   /**
-   * Deploy rules to the data table with robust version management
+   * Deploy rules to the data table with optimistic concurrency.
+   *
+   * The new version is staged as an inactive row, checked against any
+   * concurrent deploy, then activated before the previous version is
+   * deactivated so the table never ends up without an active row. Pass the
+   * version the editor loaded as `baseVersion` (null when there was none) to
+   * reject the deploy if someone else went live in the meantime.
+   *
+   * With a future `schedule.activateAt` the version is left `scheduled`
+   * instead of going live; the activation scheduler switches it on later.
+   *
+   * Rejected while REQUIRE_APPROVAL is on: changes then go live through
+   * deployDraft once approved.
+   */
+  async deployRules(
+    rulesConfig: any,
+    description: string,
+    baseVersion?: number | null,
+    review?: DeployReview,
+    schedule?: RuleSchedule
+  ): Promise<number> {
+    if (REQUIRE_APPROVAL) {
+      throw new Error('Deploys require an approved draft. Save a draft and submit it for review.');
+    }
+    return this.deployToEnvironment(this.environmentId, rulesConfig, description, baseVersion, { ...review }, schedule);
+  }
+
+  /**
+   * Copy a deployed version of the current environment into another one,
+   * where it goes live as that environment's next version.
+   * `expectedTargetVersion` is the target's active version the user reviewed
+   * the diff against; the promotion is rejected with a DeployConflictError if
+   * it has moved. The target row records where it came from, including any
+   * earlier promotions of the source.
+   */
+  async promoteVersion(
+    key: string,
+    targetEnvironmentId: string,
+    description: string,
+    expectedTargetVersion: number | null
+  ): Promise<number> {
+    await this.initialise();
+
+    const source = this.getEnvironment();
+    const target = getEnvironment(targetEnvironmentId);
+    if (!target) {
+      throw new Error(`Unknown environment "${targetEnvironmentId}"`);
+    }
+    if (target.id === source.id) {
+      throw new Error('Choose a different environment to promote to');
+    }
+    if (!GENESYS_MOCK && getEnvironmentRegion(target) !== getEnvironmentRegion(source)) {
+      throw new Error(`${target.label} is in another region; sign in there and deploy the rules instead`);
+    }
+
+    const row = await this.getRulesRepository().getRow(key);
+    if (!row) {
+      throw new Error('Version not found');
+    }
+    if (!isDeployedRow(row)) {
+      throw new Error('Only deployed versions can be promoted');
+    }
+    if (REQUIRE_APPROVAL && !row.reviewedBy) {
+      throw new Error(`v${row.version} was not reviewed, so it cannot be promoted`);
+    }
+
+    const user = await this.getUserProfile();
+    const history: PromotionRecord[] = [
+      ...parsePromotionHistory(row.promotionHistory),
+      {
+        fromEnvironment: source.id,
+        fromVersion: parseVersion(row.version),
+        toEnvironment: target.id,
+        promotedBy: user.email,
+        promotedAt: new Date().toISOString(),
+        description
+      }
+    ];
+
+    const version = await this.deployToEnvironment(
+      target.id,
+      JSON.parse(row.rules),
+      description,
+      expectedTargetVersion,
+      {
+        reviewedBy: row.reviewedBy,
+        reviewedAt: row.reviewedAt,
+        reviewComments: row.reviewComments,
+        testOverrideReason: row.testOverrideReason,
+        promotionHistory: JSON.stringify(history)
+      }
+    );
+    console.log(`Promoted ${source.id} v${row.version} to ${target.id} v${version}`);
+    return version;
+  }
+
+  /**
+   * Deploy into a given environment; `extra` carries audit columns such as
+   * review details and promotion history onto the new row
    */
-  async deployRules(rulesConfig: any, description: string): Promise<void> {
+  private async deployToEnvironment(
+    environmentId: string,
+    rulesConfig: any,
+    description: string,
+    baseVersion: number | null | undefined,
+    extra: Partial<RuleRow>,
+    schedule?: RuleSchedule
+  ): Promise<number> {
+    let stagedKey: string | null = null;
+    let activated = false;
+    let retiredRows: RuleRow[] = [];
+
     try {
       await this.initialise();
+
+      if (schedule) {
+        validateSchedule(schedule);
+        if (schedule.revertToVersion) {
+          // The revert runs as an activation later; refuse now what it would refuse then
+          const revertRow = (await this.listRuleRows(environmentId))
+            .find(row => isDeployedRow(row) && parseVersion(row.version) === schedule.revertToVersion);
+          if (!revertRow) {
+            throw new Error(`Cannot revert to v${schedule.revertToVersion}: version not found`);
+          }
+          try {
+            await this.assertActivatable(revertRow, environmentId);
+          } catch (error) {
+            throw new Error(`Cannot revert to v${schedule.revertToVersion}: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+      }
+      const isScheduled = !!schedule?.activateAt;
+
+      // Every deploy and promotion passes the saved test cases or records why not
+      const testOverrideReason = await checkTestSuite(rulesConfig, extra.testOverrideReason);
       
-      const architectApi = new this.client.ArchitectApi();
-      const tableId = import.meta.env.VITE_RULES_TABLE_ID;
-      
-      if (!tableId) {
-        throw new Error('Rules table ID not configured');
+      const repository = this.getRulesRepository(environmentId);
+      // Refuse up front what could not be activated later, scheduled deploys included
+      if (repository instanceof ChunkedRulesRepository) {
+        repository.assertFitsCell(JSON.stringify(rulesConfig), 'The new version');
       }
 
       // Get current user for audit trail
       const user = await this.getUserProfile();
       
-      // Get current active rules to determine next version
-      const activeRules = await this.getActiveRules();
-      const nextVersion = (activeRules?.version || 0) + 1;
+      // Reject the deploy if the active version moved since the editor loaded it
+      const rows = await this.listRuleRows(environmentId);
+      const activeRow = this.pickActiveRow(rows);
+      this.assertBaseVersion(baseVersion, activeRow);
+
+      // Take the next free version number across all deployed rows, not just the active one
+      const nextVersion = Math.max(0, ...rows.filter(isDeployedRow).map(row => parseVersion(row.version))) + 1;
       
-      // Create new rule entry matching the original schema
-      const ruleEntry = {
+      // Create new rule entry matching the original schema, staged as inactive
+      const ruleEntry: RuleRow = {
         key: uuidv4(),
         rules: JSON.stringify(rulesConfig),
         version: String(nextVersion), // Keep as string to match original
         description: description,
         deployedBy: user.email,
         deployedAt: new Date().toISOString(),
-        isActive: true
+        isActive: false,
+        status: 'inactive',
+        ...extra,
+        testOverrideReason,
+        activateAt: isScheduled ? schedule!.activateAt : undefined,
+        deactivateAt: schedule?.deactivateAt,
+        revertToVersion: schedule?.revertToVersion ? String(schedule.revertToVersion) : undefined
       };
 
-      // If there's an active rule, deactivate it first
-      if (activeRules) {
-        await this.deactivateRule(activeRules.key);
+      await repository.createRow(ruleEntry);
+      stagedKey = ruleEntry.key;
+
+      // Re-read to detect a concurrent deploy that claimed the same or a later version
+      const rowsAfterStaging = await this.listRuleRows(environmentId);
+      this.assertNoCompetingRow(rowsAfterStaging, ruleEntry.key, nextVersion, baseVersion);
+      this.assertBaseVersion(baseVersion, this.pickActiveRow(rowsAfterStaging));
+
+      if (isScheduled) {
+        await this.writeRuleRow({ ...ruleEntry, status: 'scheduled' }, environmentId);
+        console.log(`Scheduled rules version ${nextVersion} to activate at ${schedule!.activateAt}`);
+        return nextVersion;
       }
 
-      // Create the new rule entry - no body wrapper for POST
-      await architectApi.postFlowsDatatableRows(tableId, ruleEntry);
+      // Activate the new version first, then retire the other active rows of a fresh read
+      await this.writeRuleRow({ ...ruleEntry, isActive: true }, environmentId);
+      activated = true;
+      const rowsAfterActivation = await this.listRuleRows(environmentId);
+      this.assertNoCompetingRow(rowsAfterActivation, ruleEntry.key, nextVersion, baseVersion);
+      retiredRows = rowsAfterActivation.filter(row => row.isActive === true && row.key !== ruleEntry.key);
+      await this.deactivateOtherRows(rowsAfterActivation, ruleEntry.key, environmentId);
+
+      // A deploy that went live in between leaves a second active row: back out
+      const otherActiveRow = (await this.listRuleRows(environmentId))
+        .find(row => row.isActive === true && row.key !== ruleEntry.key);
+      if (otherActiveRow) {
+        throw new DeployConflictError(baseVersion ?? null, parseVersion(otherActiveRow.version), otherActiveRow.deployedBy);
+      }
       
       console.log(`Successfully deployed rules version ${nextVersion}`);
+      return nextVersion;
     } catch (error: any) {
       console.error('Deploy rules error:', error);
+
+      if (stagedKey && !activated) {
+        await this.discardStagedRow(stagedKey, environmentId);
+      } else if (activated && error instanceof DeployConflictError) {
+        await this.rollBackActivation(stagedKey!, retiredRows, environmentId).catch(rollbackError => {
+          console.error('Roll back after conflicting deploy error:', rollbackError);
+        });
+      } else if (activated) {
+        // The new row is live but older rows may still be flagged active
+        await this.repairActiveVersion(environmentId).catch(repairError => {
+          console.error('Repair after failed deploy error:', repairError);
+        });
+      }
+
+      if (error instanceof DeployConflictError) {
+        throw error;
+      }
       throw new Error(error.message || 'Failed to deploy rules');
     }
   }
@@ -330,38 +870,22 @@ class GenesysService {
   /**
    * Get the currently active rules
    */
-  async getActiveRules(): Promise<any> {
+  async getActiveRules(environmentId: string = this.environmentId): Promise<any> {
     try {
       await this.initialise();
-      
-      const architectApi = new this.client.ArchitectApi();
-      const tableId = import.meta.env.VITE_RULES_TABLE_ID;
-      
-      if (!tableId) {
-        throw new Error('Rules table ID not configured');
-      }
 
-      // Query for active rules
-      const response = await architectApi.getFlowsDatatableRows(tableId, {
-        pageSize: 100,
-        pageNumber: 1,
-        showbrief: false
-      });
+      // Filter for active rules client-side
+      const activeRule = this.pickActiveRow(await this.listRuleRows(environmentId));
       
-      if (response.entities && response.entities.length > 0) {
-        // Filter for active rules client-side
-        const activeRule = response.entities.find((row: any) => row.isActive === true);
-        
-        if (activeRule) {
-          return {
-            key: activeRule.key,
-            version: parseInt(activeRule.version, 10),
-            rules: JSON.parse(activeRule.rules),
-            createdAt: activeRule.deployedAt,
-            createdBy: activeRule.deployedBy,
-            description: activeRule.description
-          };
-        }
+      if (activeRule) {
+        return {
+          key: activeRule.key,
+          version: parseVersion(activeRule.version),
+          rules: readRules(activeRule),
+          createdAt: activeRule.deployedAt,
+          createdBy: activeRule.deployedBy,
+          description: activeRule.description
+        };
       }
       
       return null;
@@ -373,156 +897,500 @@ class GenesysService {
   }
 
   /**
-   * Deactivate a rule by key (private helper method)
+   * Get a specific deployed version by number
    */
-  private async deactivateRule(key: string): Promise<void> {
+  async getRulesVersion(version: number, environmentId: string = this.environmentId): Promise<any> {
     try {
-      const architectApi = new this.client.ArchitectApi();
-      const tableId = import.meta.env.VITE_RULES_TABLE_ID;
-      
-      // Get the full row data first
-      const currentRow = await architectApi.getFlowsDatatableRow(
-        tableId,
-        key,
-        { showbrief: false }
-      );
-      
-      // Update with all fields, just changing isActive
-      const updateBody = {
-        key: currentRow.key,
-        rules: currentRow.rules,
-        version: currentRow.version,
-        description: currentRow.description,
-        deployedBy: currentRow.deployedBy,
-        deployedAt: currentRow.deployedAt,
-        isActive: false
-      };
+      await this.initialise();
+
+      const row = (await this.listRuleRows(environmentId))
+        .find(candidate => isDeployedRow(candidate) && parseVersion(candidate.version) === version);
 
-      await architectApi.putFlowsDatatableRow(tableId, key, { body: updateBody });
+      if (!row) return null;
+      return {
+        key: row.key,
+        version: parseVersion(row.version),
+        rules: readRules(row),
+        createdAt: row.deployedAt,
+        createdBy: row.deployedBy,
+        description: row.description
+      };
     } catch (error: any) {
-      console.error('Deactivate rule error:', error);
-      throw new Error('Failed to deactivate previous rule version');
+      console.error('Get rules version error:', error);
+      return null;
     }
   }
 
   /**
-   * Get rules version history
+   * Throw unless a deployed row may go live: it must be readable, reviewed
+   * when approval is required, pass its saved test cases or record why not,
+   * and fit the storage cell as plain JSON. Checked when activating, when a
+   * revert is scheduled and when the active row is repaired.
    */
-  async getRulesHistory(pageNumber: number = 1, pageSize: number = 20): Promise<any> {
+  private async assertActivatable(row: RuleRow, environmentId: string): Promise<void> {
+    if (!isDeployedRow(row)) {
+      throw new Error('Drafts must be approved and deployed before they can be activated');
+    }
+    if (row.unreadable) {
+      throw new Error(`v${row.version} cannot be read: ${row.unreadable}`);
+    }
+    if (REQUIRE_APPROVAL && !row.reviewedBy) {
+      throw new Error(`v${row.version} was not reviewed, so it cannot be activated`);
+    }
+
+    const suite = await runTestSuite(JSON.parse(row.rules));
+    if (!isDeployAllowed(suite, row.testOverrideReason || '')) {
+      throw new Error(`v${row.version} fails ${suite.failed} saved test case(s) and has no override reason`);
+    }
+
+    const repository = this.getRulesRepository(environmentId);
+    if (repository instanceof ChunkedRulesRepository) {
+      repository.assertFitsCell(row.rules, `v${row.version}`);
+    }
+  }
+
+  /**
+   * Make sure exactly one row is active.
+   * Keeps the highest active version when several are flagged, and activates
+   * the highest deployed version that may go live when none are.
+   */
+  async repairActiveVersion(environmentId: string = this.environmentId): Promise<{ repaired: boolean; activeVersion: number | null }> {
     try {
       await this.initialise();
-      
-      const architectApi = new this.client.ArchitectApi();
-      const tableId = import.meta.env.VITE_RULES_TABLE_ID;
-      
-      if (!tableId) {
-        throw new Error('Rules table ID not configured');
+
+      const rows = await this.listRuleRows(environmentId);
+      const activeRows = rows.filter(row => row.isActive === true);
+
+      if (activeRows.length === 1) {
+        return { repaired: false, activeVersion: parseVersion(activeRows[0].version) };
+      }
+
+      if (activeRows.length > 1) {
+        const keep = this.pickActiveRow(rows)!;
+        await this.deactivateOtherRows(rows, keep.key, environmentId);
+        console.warn(`Repaired rules table: kept v${keep.version}, deactivated ${activeRows.length - 1} row(s)`);
+        return { repaired: true, activeVersion: parseVersion(keep.version) };
+      }
+
+      const candidates = rows
+        .filter(isActivatableRow)
+        .sort((a, b) => parseVersion(b.version) - parseVersion(a.version));
+      let latest: RuleRow | undefined;
+      for (const candidate of candidates) {
+        try {
+          await this.assertActivatable(candidate, environmentId);
+          latest = candidate;
+          break;
+        } catch (error) {
+          console.warn(`Not repairing with v${candidate.version}:`, error);
+        }
+      }
+      if (!latest) {
+        return { repaired: false, activeVersion: null };
+      }
+
+      await this.writeRuleRow({ ...latest, isActive: true }, environmentId);
+      console.warn(`Repaired rules table: no active row, activated v${latest.version}`);
+      return { repaired: true, activeVersion: parseVersion(latest.version) };
+    } catch (error: any) {
+      console.error('Repair active version error:', error);
+      throw new Error('Failed to repair active rules version');
+    }
+  }
+
+  /**
+   * Resolve the configured rules table ID
+   */
+  private getRulesTableId(environmentId: string): string {
+    const tableId = getEnvironment(environmentId)?.rulesTableId;
+    if (!tableId) {
+      throw new Error('Rules table ID not configured');
+    }
+    return tableId;
+  }
+
+  /**
+   * Which storage backend holds the rules, from VITE_RULES_STORAGE
+   */
+  getRulesStorageKind(): RulesStorageKind {
+    const kind = import.meta.env.VITE_RULES_STORAGE as RulesStorageKind | undefined;
+    if (!kind) return 'genesys';
+    if (!RULES_STORAGE_KINDS.includes(kind)) {
+      throw new Error(`Unknown rules storage "${kind}", expected one of ${RULES_STORAGE_KINDS.join(', ')}`);
+    }
+    return kind;
+  }
+
+  /**
+   * Storage backend for an environment's rules table, created on first use
+   */
+  getRulesRepository(environmentId: string = this.environmentId): RulesRepository {
+    let repository = this.rulesRepositories.get(environmentId);
+    if (!repository) {
+      repository = this.createRulesRepository(environmentId);
+      this.rulesRepositories.set(environmentId, repository);
+    }
+    return repository;
+  }
+
+  /**
+   * Replace the storage backend, e.g. with an in-memory store for tests
+   */
+  setRulesRepository(repository: RulesRepository, environmentId: string = this.environmentId): void {
+    this.rulesRepositories.set(environmentId, repository);
+  }
+
+  /**
+   * Build the configured storage backend for an environment
+   */
+  private createRulesRepository(environmentId: string): RulesRepository {
+    switch (this.getRulesStorageKind()) {
+      case 'local':
+        // The first environment keeps the original key so existing demo data stays visible
+        return new LocalStorageRulesRepository(
+          window.localStorage,
+          environmentId === getEnvironments()[0].id ? 'raas_rules_rows' : `raas_rules_rows:${environmentId}`
+        );
+      case 'memory':
+        return new InMemoryRulesRepository();
+      case 'rest': {
+        const baseUrl = import.meta.env.VITE_RULES_API_URL;
+        if (!baseUrl) {
+          throw new Error('Rules API URL not configured');
+        }
+        return new RestRulesRepository(baseUrl, () => this.getAccessToken());
+      }
+      default:
+        // Data-table cells are size limited, so large configs are compressed and split
+        return new ChunkedRulesRepository(
+          new GenesysDataTableRepository(this.client, this.getRulesTableId(environmentId)),
+          parseInt(import.meta.env.VITE_RULES_CELL_LIMIT || '', 10) || DEFAULT_CELL_LIMIT
+        );
+    }
+  }
+
+  /**
+   * Read the rows of the rules table
+   */
+  private async listRuleRows(environmentId: string = this.environmentId): Promise<RuleRow[]> {
+    return this.getRulesRepository(environmentId).listRows();
+  }
+
+  /**
+   * Pick the active row, preferring the highest version if several are flagged
+   */
+  private pickActiveRow(rows: RuleRow[]): RuleRow | null {
+    return rows
+      .filter(row => row.isActive === true)
+      .sort((a, b) => parseVersion(b.version) - parseVersion(a.version))[0] || null;
+  }
+
+  /**
+   * Throw a conflict if any other deployed or staged row holds the version
+   * being deployed or a later one. Each racing deploy decides from its own
+   * read, so every one of them backs out rather than guessing a winner.
+   */
+  private assertNoCompetingRow(rows: RuleRow[], stagedKey: string, nextVersion: number, baseVersion: number | null | undefined): void {
+    const competingRow = rows
+      .filter(row => row.key !== stagedKey && isDeployedRow(row) && parseVersion(row.version) >= nextVersion)
+      .sort((a, b) => parseVersion(b.version) - parseVersion(a.version))[0];
+
+    if (competingRow) {
+      throw new DeployConflictError(baseVersion ?? null, parseVersion(competingRow.version), competingRow.deployedBy);
+    }
+  }
+
+  /**
+   * Undo a deploy that went live alongside a concurrent one: drop the new row
+   * and, if nothing else is active, switch the retired rows back on
+   */
+  private async rollBackActivation(stagedKey: string, retiredRows: RuleRow[], environmentId: string): Promise<void> {
+    await this.getRulesRepository(environmentId).deleteRow(stagedKey);
+
+    const rows = await this.listRuleRows(environmentId);
+    if (rows.some(row => row.isActive === true)) return;
+
+    const previous = retiredRows.sort((a, b) => parseVersion(b.version) - parseVersion(a.version))[0];
+    if (previous) {
+      await this.writeRuleRow({ ...previous, isActive: true }, environmentId);
+    }
+  }
+
+  /**
+   * Throw a conflict if the active row is not the version the caller started from
+   */
+  private assertBaseVersion(baseVersion: number | null | undefined, activeRow: RuleRow | null): void {
+    if (baseVersion === undefined) return;
+
+    const activeVersion = activeRow ? parseVersion(activeRow.version) : null;
+    if (activeVersion !== baseVersion) {
+      throw new DeployConflictError(baseVersion, activeVersion, activeRow?.deployedBy);
+    }
+  }
+
+  /**
+   * Status to store for a row: deployed rows follow `isActive`, except that a
+   * scheduled row stays scheduled until it is switched on
+   */
+  private getWrittenStatus(row: RuleRow): RuleStatus {
+    if (!isDeployedRow(row)) return row.status!;
+    if (row.isActive) return 'active';
+    return row.status === 'scheduled' ? 'scheduled' : 'inactive';
+  }
+
+  /**
+   * Write a full row back to the rules table, keeping the status of deployed
+   * rows in step with `isActive`
+   */
+  private async writeRuleRow(row: RuleRow, environmentId: string = this.environmentId): Promise<void> {
+    const body: RuleRow = {
+      key: row.key,
+      rules: row.rules,
+      version: row.version,
+      description: row.description,
+      deployedBy: row.deployedBy,
+      deployedAt: row.deployedAt,
+      isActive: row.isActive,
+      status: this.getWrittenStatus(row),
+      reviewedBy: row.reviewedBy || '',
+      reviewedAt: row.reviewedAt || '',
+      reviewComments: row.reviewComments || '',
+      activateAt: row.activateAt || '',
+      deactivateAt: row.deactivateAt || '',
+      revertToVersion: row.revertToVersion || '',
+      promotionHistory: row.promotionHistory || '',
+      testOverrideReason: row.testOverrideReason || '',
+      editedBy: row.editedBy || ''
+    };
+    await this.getRulesRepository(environmentId).updateRow(body);
+  }
+
+  /**
+   * Deactivate every active row except the one to keep.
+   * A pending revert only applies while a version is live, so it is cleared
+   * here rather than firing if the version is ever rolled back to.
+   */
+  private async deactivateOtherRows(rows: RuleRow[], keepKey: string, environmentId: string = this.environmentId): Promise<void> {
+    for (const row of rows) {
+      if (row.isActive === true && row.key !== keepKey) {
+        try {
+          await this.writeRuleRow({ ...row, isActive: false, deactivateAt: '', revertToVersion: '' }, environmentId);
+        } catch (error: any) {
+          console.error('Deactivate rule error:', error);
+          throw new Error('Failed to deactivate previous rule version');
+        }
       }
+    }
+  }
+
+  /**
+   * Remove a staged row left behind by a deploy that did not go live
+   */
+  private async discardStagedRow(key: string, environmentId: string = this.environmentId): Promise<void> {
+    try {
+      await this.getRulesRepository(environmentId).deleteRow(key);
+    } catch (error) {
+      console.error(`Failed to remove staged rules row ${key}:`, error);
+    }
+  }
+
+  /**
+   * Every version and draft in the rules table, newest version first
+   */
+  async getAllRulesHistory(): Promise<RuleHistoryEntry[]> {
+    try {
+      await this.initialise();
 
       // Get all rules
-      const response = await architectApi.getFlowsDatatableRows(tableId, {
-        pageSize: Math.min(pageSize, 200),
-        pageNumber: pageNumber,
-        showbrief: false
-      });
+      const rows = await this.listRuleRows();
       
       // Sort by version
-      const versions = (response.entities || [])
-        .map((rule: any) => ({
+      return rows
+        .map((rule: RuleRow): RuleHistoryEntry => ({
           key: rule.key,
-          name: `Rules v${rule.version}`,
+          name: isDeployedRow(rule) ? `Rules v${rule.version}` : `Draft from v${rule.version}`,
           version: parseInt(rule.version, 10),
           active: rule.isActive,
-          rules: JSON.parse(rule.rules),
+          status: getRowStatus(rule),
+          rules: rule.unreadable ? null : JSON.parse(rule.rules),
+          unreadable: rule.unreadable,
           createdBy: rule.deployedBy,
           createdAt: rule.deployedAt,
-          description: rule.description
+          description: rule.description,
+          reviewedBy: rule.reviewedBy || undefined,
+          reviewComments: rule.reviewComments || undefined,
+          activateAt: rule.activateAt || undefined,
+          deactivateAt: rule.deactivateAt || undefined,
+          revertToVersion: rule.revertToVersion ? parseVersion(rule.revertToVersion) : undefined,
+          promotionHistory: parsePromotionHistory(rule.promotionHistory),
+          testOverrideReason: rule.testOverrideReason || undefined
         }))
-        .sort((a: any, b: any) => b.version - a.version);
-      
-      return {
-        entities: versions,
-        total: response.total,
-        pageCount: response.pageCount,
-        pageSize: response.pageSize,
-        pageNumber: response.pageNumber
-      };
+        .sort((a, b) => b.version - a.version);
     } catch (error: any) {
       console.error('Get rules history error:', error);
       throw new Error('Failed to load rules history');
     }
   }
 
+  /**
+   * Get rules version history, newest version first.
+   * Rows are sorted across the whole table before the page is cut.
+   */
+  async getRulesHistory(pageNumber: number = 1, pageSize: number = 20): Promise<any> {
+    const versions = await this.getAllRulesHistory();
+    return {
+      entities: versions.slice((pageNumber - 1) * pageSize, pageNumber * pageSize),
+      total: versions.length,
+      pageCount: Math.max(1, Math.ceil(versions.length / pageSize)),
+      pageSize,
+      pageNumber
+    };
+  }
+
   /**
    * Activate a specific version (rollback functionality)
+   * The target is activated before the others are retired, and any failure
+   * part-way through is repaired so exactly one row stays active. While
+   * REQUIRE_APPROVAL is on only reviewed versions can be activated, and the
+   * version's saved test cases must pass unless it was deployed with an
+   * override reason.
    */
   async activateVersion(key: string): Promise<void> {
+    let activated = false;
+
     try {
       await this.initialise();
       
-      const architectApi = new this.client.ArchitectApi();
-      const tableId = import.meta.env.VITE_RULES_TABLE_ID;
-      const user = await this.getUserProfile();
-      
       // Get the version to activate
-      const targetVersion = await architectApi.getFlowsDatatableRow(
-        tableId,
-        key,
-        { showbrief: false }
-      );
+      const targetVersion = await this.getRulesRepository().getRow(key);
       
       if (!targetVersion) {
         throw new Error('Version not found');
       }
+      await this.assertActivatable(targetVersion, this.environmentId);
       
-      // Step 1: Deactivate all currently active versions
-      const allRows = await architectApi.getFlowsDatatableRows(tableId, {
-        pageSize: 200,
-        pageNumber: 1,
-        showbrief: false
-      });
-      
-      for (const row of allRows.entities || []) {
-        if (row.isActive === true && row.key !== key) {
-          const deactivatedRow = {
-            key: row.key,
-            rules: row.rules,
-            version: row.version,
-            description: row.description,
-            deployedBy: row.deployedBy,
-            deployedAt: row.deployedAt,
-            isActive: false
-          };
-          
-          await architectApi.putFlowsDatatableRow(
-            tableId,
-            row.key,
-            { body: deactivatedRow }
-          );
-        }
-      }
-      
-      // Step 2: Activate the target version
-      const activatedRow = {
-        key: targetVersion.key,
-        rules: targetVersion.rules,
-        version: targetVersion.version,
-        description: targetVersion.description,
-        deployedBy: targetVersion.deployedBy,
-        deployedAt: targetVersion.deployedAt,
-        isActive: true
-      };
-      
-      await architectApi.putFlowsDatatableRow(
-        tableId,
-        key,
-        { body: activatedRow }
-      );
+      // Step 1: Activate the target version
+      await this.writeRuleRow({ ...targetVersion, isActive: true });
+      activated = true;
+
+      // Step 2: Deactivate all other active versions
+      await this.deactivateOtherRows(await this.listRuleRows(), key);
       
       console.log(`Successfully activated version ${targetVersion.version}`);
     } catch (error: any) {
       console.error('Activate version error:', error);
-      throw new Error('Failed to activate version');
+      if (activated) {
+        await this.repairActiveVersion().catch(repairError => {
+          console.error('Repair after failed activation error:', repairError);
+        });
+        throw new Error('Failed to activate version');
+      }
+      throw new Error(error.message || 'Failed to activate version');
+    }
+  }
+
+  /**
+   * Pending scheduled activations and reverts, soonest first.
+   * Reverts are only listed for versions that are live or still scheduled.
+   */
+  async getScheduledActivations(): Promise<ScheduledActivation[]> {
+    await this.initialise();
+
+    const entries: ScheduledActivation[] = [];
+    (await this.listRuleRows()).forEach(row => {
+      const status = getRowStatus(row);
+      const version = parseVersion(row.version);
+
+      if (status === 'scheduled' && row.activateAt) {
+        entries.push({
+          key: row.key,
+          version,
+          action: 'activate',
+          runAt: row.activateAt,
+          description: row.description,
+          scheduledBy: row.deployedBy
+        });
+      }
+      if ((status === 'active' || status === 'scheduled') && row.deactivateAt && row.revertToVersion) {
+        entries.push({
+          key: row.key,
+          version,
+          action: 'revert',
+          runAt: row.deactivateAt,
+          revertToVersion: parseVersion(row.revertToVersion),
+          description: row.description,
+          scheduledBy: row.deployedBy
+        });
+      }
+    });
+
+    return entries.sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+  }
+
+  /**
+   * Carry out a scheduled activation or revert.
+   * The row is re-read first so an entry already applied by another scheduler,
+   * cancelled, or overtaken by a manual rollback is skipped (returns false).
+   */
+  async applyScheduledActivation(entry: ScheduledActivation): Promise<boolean> {
+    await this.initialise();
+
+    const row = await this.getRulesRepository().getRow(entry.key);
+    if (!row) return false;
+
+    if (entry.action === 'activate') {
+      if (getRowStatus(row) !== 'scheduled' || row.activateAt !== entry.runAt) return false;
+
+      await this.activateVersion(entry.key);
+      console.log(`Activated scheduled rules version ${entry.version}`);
+      return true;
+    }
+
+    if (row.isActive !== true || row.deactivateAt !== entry.runAt) return false;
+
+    const target = (await this.listRuleRows()).find(
+      candidate => isActivatableRow(candidate) && parseVersion(candidate.version) === entry.revertToVersion
+    );
+    if (!target) {
+      throw new Error(`Cannot revert v${entry.version}: v${entry.revertToVersion} not found`);
+    }
+
+    // Activating the target retires this row, which also clears its revert
+    await this.activateVersion(target.key);
+    console.log(`Reverted rules v${entry.version} to v${entry.revertToVersion} as scheduled`);
+    return true;
+  }
+
+  /**
+   * Cancel a scheduled activation (the version stays as an inactive version)
+   * or a scheduled revert (the version stays live)
+   */
+  async cancelSchedule(key: string, action: ScheduledActivation['action']): Promise<void> {
+    try {
+      await this.initialise();
+
+      const row = await this.getRulesRepository().getRow(key);
+      if (!row) {
+        throw new Error('Version not found');
+      }
+
+      if (action === 'activate') {
+        if (getRowStatus(row) !== 'scheduled') {
+          throw new Error('This version is no longer scheduled');
+        }
+        await this.writeRuleRow({
+          ...row,
+          status: 'inactive',
+          activateAt: '',
+          deactivateAt: '',
+          revertToVersion: ''
+        });
+      } else {
+        await this.writeRuleRow({ ...row, deactivateAt: '', revertToVersion: '' });
+      }
+    } catch (error: any) {
+      console.error('Cancel schedule error:', error);
+      throw new Error(error.message || 'Failed to cancel schedule');
     }
   }
 
@@ -534,12 +1402,7 @@ class GenesysService {
     try {
       await this.initialise();
       
-      const architectApi = new this.client.ArchitectApi();
-      const tableId = import.meta.env.VITE_RULES_TABLE_ID;
-      
-      if (!tableId) {
-        throw new Error('Rules table ID not configured');
-      }
+      const repository = this.getRulesRepository();
 
       const results = {
         deleted: [] as string[],
@@ -551,11 +1414,10 @@ class GenesysService {
       for (const key of keys) {
         try {
           // Get the row to check if it's active
-          const row = await architectApi.getFlowsDatatableRow(
-            tableId,
-            key,
-            { showbrief: false }
-          );
+          const row = await repository.getRow(key);
+          if (!row) {
+            throw new Error('Version not found');
+          }
           
           // Skip if this is the active version
           if (row.isActive === true) {
@@ -565,7 +1427,7 @@ class GenesysService {
           }
           
           // Delete the version
-          await architectApi.deleteFlowsDatatableRow(tableId, key);
+          await repository.deleteRow(key);
           results.deleted.push(key);
           console.log(`Successfully deleted version: ${key}`);
           
@@ -582,6 +1444,203 @@ class GenesysService {
     }
   }
 
+  /**
+   * Get all drafts, most recently saved first
+   */
+  async getDrafts(): Promise<RuleDraft[]> {
+    try {
+      await this.initialise();
+
+      // Unreadable drafts still show in the version history, where they can be deleted
+      return (await this.listRuleRows())
+        .filter(row => !isDeployedRow(row) && !row.unreadable)
+        .map(row => this.toDraft(row))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error: any) {
+      console.error('Get drafts error:', error);
+      throw new Error('Failed to load drafts');
+    }
+  }
+
+  /**
+   * Create a draft, or update an existing one.
+   * Saving changes to a draft that was submitted, approved or rejected puts
+   * it back to `draft` so it has to be reviewed again. Every user who saves
+   * it is recorded as an editor.
+   */
+  async saveDraft(
+    rulesConfig: any,
+    description: string,
+    baseVersion: number | null,
+    key?: string
+  ): Promise<RuleDraft> {
+    try {
+      await this.initialise();
+
+      const user = await this.getUserProfile();
+
+      const row: RuleRow = {
+        key: key || uuidv4(),
+        rules: JSON.stringify(rulesConfig),
+        version: String(baseVersion ?? 0),
+        description,
+        deployedBy: user.email,
+        deployedAt: new Date().toISOString(),
+        isActive: false,
+        status: 'draft',
+        editedBy: JSON.stringify([user.email])
+      };
+
+      if (key) {
+        const existing = await this.getDraftRow(key);
+        const editors = parseEditors(existing);
+        row.deployedBy = existing.deployedBy || user.email;
+        row.editedBy = JSON.stringify(editors.includes(user.email) ? editors : [...editors, user.email]);
+        await this.writeRuleRow(row);
+      } else {
+        await this.getRulesRepository().createRow(row);
+      }
+
+      return this.toDraft(row);
+    } catch (error: any) {
+      console.error('Save draft error:', error);
+      throw new Error(error.message || 'Failed to save draft');
+    }
+  }
+
+  /**
+   * Submit a draft for review by another user
+   */
+  async submitDraftForReview(key: string): Promise<void> {
+    try {
+      await this.initialise();
+
+      const row = await this.getDraftRow(key);
+      if (getRowStatus(row) !== 'draft' && getRowStatus(row) !== 'rejected') {
+        throw new Error('Only drafts can be submitted for review');
+      }
+
+      await this.writeRuleRow({
+        ...row,
+        status: 'pending-review',
+        reviewedBy: '',
+        reviewedAt: '',
+        reviewComments: ''
+      });
+    } catch (error: any) {
+      console.error('Submit draft error:', error);
+      throw new Error(error.message || 'Failed to submit draft for review');
+    }
+  }
+
+  /**
+   * Approve or reject a draft pending review.
+   * The reviewer must not be the author or anyone else who edited the draft.
+   */
+  async reviewDraft(key: string, decision: 'approved' | 'rejected', comments: string): Promise<void> {
+    try {
+      await this.initialise();
+
+      const row = await this.getDraftRow(key);
+      if (getRowStatus(row) !== 'pending-review') {
+        throw new Error('Only drafts pending review can be approved or rejected');
+      }
+
+      const user = await this.getUserProfile();
+      if (parseEditors(row).includes(user.email)) {
+        throw new Error('You cannot review a draft you edited');
+      }
+
+      if (decision === 'rejected' && !comments.trim()) {
+        throw new Error('Please explain why the draft is rejected');
+      }
+
+      await this.writeRuleRow({
+        ...row,
+        status: decision,
+        reviewedBy: user.email,
+        reviewedAt: new Date().toISOString(),
+        reviewComments: comments
+      });
+    } catch (error: any) {
+      console.error('Review draft error:', error);
+      throw new Error(error.message || 'Failed to review draft');
+    }
+  }
+
+  /**
+   * Deploy an approved draft as the next live version, then remove the draft.
+   * The deploy is checked against the version the draft was based on, and
+   * can be scheduled like any other deploy.
+   */
+  async deployDraft(key: string, schedule?: RuleSchedule, testOverrideReason?: string): Promise<number> {
+    await this.initialise();
+
+    const row = await this.getDraftRow(key);
+    if (getRowStatus(row) !== 'approved') {
+      throw new Error('Only approved drafts can be deployed');
+    }
+
+    const baseVersion = parseVersion(row.version) || null;
+    const version = await this.deployToEnvironment(this.environmentId, JSON.parse(row.rules), row.description, baseVersion, {
+      reviewedBy: row.reviewedBy,
+      reviewedAt: row.reviewedAt,
+      reviewComments: row.reviewComments,
+      testOverrideReason
+    }, schedule);
+
+    await this.deleteDraft(key).catch(error => {
+      console.error('Failed to remove deployed draft:', error);
+    });
+    return version;
+  }
+
+  /**
+   * Delete a draft
+   */
+  async deleteDraft(key: string): Promise<void> {
+    try {
+      await this.initialise();
+
+      await this.getDraftRow(key);
+      await this.getRulesRepository().deleteRow(key);
+    } catch (error: any) {
+      console.error('Delete draft error:', error);
+      throw new Error(error.message || 'Failed to delete draft');
+    }
+  }
+
+  /**
+   * Read a row and make sure it is a draft
+   */
+  private async getDraftRow(key: string): Promise<RuleRow> {
+    const row = await this.getRulesRepository().getRow(key);
+
+    if (!row || isDeployedRow(row)) {
+      throw new Error('Draft not found');
+    }
+    return row;
+  }
+
+  /**
+   * Map a draft row to its public shape
+   */
+  private toDraft(row: RuleRow): RuleDraft {
+    return {
+      key: row.key,
+      baseVersion: parseVersion(row.version) || null,
+      rules: JSON.parse(row.rules),
+      description: row.description,
+      author: row.deployedBy,
+      editors: parseEditors(row),
+      updatedAt: row.deployedAt,
+      status: getRowStatus(row),
+      reviewedBy: row.reviewedBy || undefined,
+      reviewedAt: row.reviewedAt || undefined,
+      reviewComments: row.reviewComments || undefined
+    };
+  }
+
   /**
    * Save execution log
    */
@@ -598,7 +1657,7 @@ class GenesysService {
       await this.initialise();
       
       const architectApi = new this.client.ArchitectApi();
-      const tableId = import.meta.env.VITE_LOGS_TABLE_ID;
+      const tableId = this.getLogsTableId();
       
       if (!tableId) {
         console.warn('Logs table ID not configured - skipping log');
@@ -624,6 +1683,67 @@ class GenesysService {
     }
   }
 
+  /**
+   * Whether a logs table is configured for the current environment
+   */
+  hasExecutionLogs(): boolean {
+    return !!this.getLogsTableId();
+  }
+
+  /**
+   * Get every execution log matching the filter, newest first.
+   * The whole table is read unless `cached` is set and the same table was
+   * read before, so a viewer can refilter without downloading it again.
+   */
+  async getAllExecutionLogs(filter: ExecutionLogFilter = {}, { cached = false }: { cached?: boolean } = {}): Promise<ExecutionLogEntry[]> {
+    await this.initialise();
+
+    const tableId = this.getLogsTableId();
+    if (!tableId) {
+      throw new Error('Logs table ID not configured');
+    }
+
+    let entries = this.executionLogCache?.tableId === tableId ? this.executionLogCache.entries : null;
+    if (!cached || !entries) {
+      entries = (await listDataTableRows<Record<string, any>>(this.client, tableId))
+        .map(parseLogRow)
+        .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+      this.executionLogCache = { tableId, entries };
+    }
+    return entries.filter(entry => matchesLogFilter(entry, filter));
+  }
+
+  /**
+   * Logs table of the current environment, falling back to VITE_LOGS_TABLE_ID
+   */
+  private getLogsTableId(): string | undefined {
+    return this.getEnvironment().logsTableId || import.meta.env.VITE_LOGS_TABLE_ID || undefined;
+  }
+
+
+  /**
+   * Routing queues and Architect flows that rule destinations can resolve to
+   */
+  async getRoutingTargets(): Promise<RoutingTarget[]> {
+    try {
+      await this.initialise();
+
+      const routingApi = new this.client.RoutingApi();
+      const architectApi = new this.client.ArchitectApi();
+      const queues = await listAllPages(pageNumber =>
+        routingApi.getRoutingQueues({ pageSize: ROUTING_PAGE_SIZE, pageNumber, sortOrder: 'asc' }), ROUTING_PAGE_SIZE);
+      const flows = await listAllPages(pageNumber =>
+        architectApi.getFlows({ pageSize: ROUTING_PAGE_SIZE, pageNumber, type: ROUTABLE_FLOW_TYPES }), ROUTING_PAGE_SIZE);
+
+      return [
+        ...queues.map((queue: any): RoutingTarget => ({ id: queue.id, name: queue.name, kind: 'queue' })),
+        ...flows.map((flow: any): RoutingTarget => ({ id: flow.id, name: flow.name, kind: 'flow', flowType: flow.type?.toLowerCase() }))
+      ];
+    } catch (error: any) {
+      console.error('Get routing targets error:', error);
+      throw new Error(error.message || 'Failed to load queues and flows');
+    }
+  }
 
   /**
    * Get the API client instance for making custom API calls
@@ -0,0 +1,228 @@
+// src/services/repositories/chunkedRulesRepository.ts
+import { v4 as uuidv4 } from 'uuid';
+import { RuleRow, RulesRepository } from './rulesRepository';
+
+/**
+ * Stored in the `rules` cell of a row whose config did not fit.
+ * The compressed config is either inline in `data` or split across `chunks`
+ * linked rows keyed `chunk:<row key>:<set>:<index>`; a new set is written on
+ * every change so readers never see a half-updated config.
+ */
+interface ChunkedPayload {
+  $encoding: 'gzip+base64';
+  data?: string;
+  set?: string;
+  chunks?: number;
+}
+
+const CHUNK_KEY_PREFIX = 'chunk:';
+const PAYLOAD_PREFIX = '{"$encoding"';
+
+/** Default cell budget for the `rules` column, in characters */
+export const DEFAULT_CELL_LIMIT = 30000;
+
+const chunkKey = (rowKey: string, set: string, index: number): string =>
+  `${CHUNK_KEY_PREFIX}${rowKey}:${set}:${index}`;
+
+const isChunkRow = (row: RuleRow): boolean => row.key.startsWith(CHUNK_KEY_PREFIX);
+
+const parsePayload = (rules: string): ChunkedPayload | null =>
+  typeof rules === 'string' && rules.startsWith(PAYLOAD_PREFIX) ? JSON.parse(rules) : null;
+
+/**
+ * Gzip a string and encode it as base64
+ */
+const compress = async (text: string): Promise<string> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Reverse of `compress`
+ */
+const decompress = async (encoded: string): Promise<string> => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+/**
+ * Wraps a repository whose cells have a size limit.
+ *
+ * Configs that fit are stored as plain JSON, exactly as before. Larger ones
+ * are gzipped and, if still too big, split across linked chunk rows. Chunk
+ * rows never leave this class: they are filtered out of `listRows` and the
+ * config is reassembled transparently on read.
+ *
+ * Only this app understands the compressed format. The routing runtime reads
+ * the `rules` cell of the active row as plain JSON, so compression is only
+ * used for rows that are not live (drafts, history, scheduled versions): an
+ * active row that does not fit is refused rather than stored compressed.
+ *
+ * A row whose chunks are missing or corrupt does not break `listRows`: it is
+ * returned with `unreadable` set and its stored payload left in `rules`.
+ */
+export class ChunkedRulesRepository implements RulesRepository {
+  private inner: RulesRepository;
+  private cellLimit: number;
+
+  constructor(inner: RulesRepository, cellLimit: number = DEFAULT_CELL_LIMIT) {
+    this.inner = inner;
+    this.cellLimit = cellLimit;
+  }
+
+  async listRows(): Promise<RuleRow[]> {
+    const rows = await this.inner.listRows();
+    const chunks = new Map(rows.filter(isChunkRow).map(row => [row.key, row]));
+
+    const stored = rows.filter(row => !isChunkRow(row));
+    const decoded = await Promise.allSettled(stored.map(row => this.decode(row, async key => chunks.get(key) || null)));
+
+    return decoded.map((result, index) => {
+      if (result.status === 'fulfilled') return result.value;
+      console.error(`Failed to read rules row ${stored[index].key}:`, result.reason);
+      return { ...stored[index], unreadable: result.reason?.message || 'The stored rules could not be decoded' };
+    });
+  }
+
+  async getRow(key: string): Promise<RuleRow | null> {
+    const row = await this.inner.getRow(key);
+    return row ? this.decode(row, chunk => this.inner.getRow(chunk)) : null;
+  }
+
+  /**
+   * Throw unless the row can be stored as plain JSON, which is what the
+   * routing runtime needs to read a version that goes live
+   */
+  assertFitsCell(rules: string, label: string): void {
+    if (!rules || (rules.length <= this.cellLimit && !rules.startsWith(PAYLOAD_PREFIX))) return;
+    throw new Error(
+      `${label} is ${rules.startsWith(PAYLOAD_PREFIX) ? 'stored compressed' : `${rules.length} characters, over the ${this.cellLimit} that fit in one cell`}. ` +
+      'The routing runtime only reads plain JSON, so this version cannot go live; make the rules smaller or raise VITE_RULES_CELL_LIMIT to the table\'s real cell size'
+    );
+  }
+
+  async createRow(row: RuleRow): Promise<void> {
+    if (row.isActive) this.assertFitsCell(row.rules, `v${row.version}`);
+    const { stored, chunkRows } = await this.encode(row);
+    // Chunks first so the row never points at data that is not there yet
+    for (const chunk of chunkRows) {
+      await this.inner.createRow(chunk);
+    }
+    await this.inner.createRow(stored);
+  }
+
+  async updateRow(row: RuleRow): Promise<void> {
+    if (row.isActive) this.assertFitsCell(row.rules, `v${row.version}`);
+    const existing = await this.inner.getRow(row.key);
+    const previous = existing ? parsePayload(existing.rules) : null;
+
+    // An unreadable row written back with its raw payload keeps whatever chunks are left
+    if (previous && existing?.rules === row.rules) {
+      await this.inner.updateRow(row);
+      return;
+    }
+
+    // Status and activation changes rewrite the row with the same config; keep its chunks
+    if (previous?.set && existing && (await this.decode(existing, chunk => this.inner.getRow(chunk))).rules === row.rules) {
+      await this.inner.updateRow({ ...row, rules: existing.rules });
+      return;
+    }
+
+    const { stored, chunkRows } = await this.encode(row);
+    for (const chunk of chunkRows) {
+      await this.inner.createRow(chunk);
+    }
+    await this.inner.updateRow(stored);
+    await this.deleteChunks(row.key, previous);
+  }
+
+  async deleteRow(key: string): Promise<void> {
+    const existing = await this.inner.getRow(key);
+    await this.inner.deleteRow(key);
+    await this.deleteChunks(key, existing ? parsePayload(existing.rules) : null);
+  }
+
+  /**
+   * Turn a row into what is stored: plain, compressed inline, or compressed
+   * and split across chunk rows
+   */
+  private async encode(row: RuleRow): Promise<{ stored: RuleRow; chunkRows: RuleRow[] }> {
+    if (!row.rules || row.rules.length <= this.cellLimit) {
+      return { stored: row, chunkRows: [] };
+    }
+
+    const data = await compress(row.rules);
+    const inline: ChunkedPayload = { $encoding: 'gzip+base64', data };
+    if (JSON.stringify(inline).length <= this.cellLimit) {
+      return { stored: { ...row, rules: JSON.stringify(inline) }, chunkRows: [] };
+    }
+
+    const set = uuidv4();
+    const chunkRows: RuleRow[] = [];
+    for (let offset = 0; offset < data.length; offset += this.cellLimit) {
+      const index = chunkRows.length;
+      chunkRows.push({
+        key: chunkKey(row.key, set, index),
+        rules: data.slice(offset, offset + this.cellLimit),
+        version: row.version,
+        description: `Part ${index + 1} of ${row.key}`,
+        deployedBy: row.deployedBy,
+        deployedAt: row.deployedAt,
+        isActive: false
+      });
+    }
+
+    const payload: ChunkedPayload = { $encoding: 'gzip+base64', set, chunks: chunkRows.length };
+    return { stored: { ...row, rules: JSON.stringify(payload) }, chunkRows };
+  }
+
+  /**
+   * Restore the plain JSON config of a stored row
+   */
+  private async decode(row: RuleRow, loadChunk: (key: string) => Promise<RuleRow | null>): Promise<RuleRow> {
+    const payload = parsePayload(row.rules);
+    if (!payload) return row;
+
+    let data = payload.data || '';
+    if (payload.set) {
+      const parts: string[] = [];
+      for (let index = 0; index < (payload.chunks || 0); index++) {
+        const chunk = await loadChunk(chunkKey(row.key, payload.set, index));
+        if (!chunk) {
+          throw new Error(`Rules for ${row.key} are incomplete: part ${index + 1} of ${payload.chunks} is missing`);
+        }
+        parts.push(chunk.rules);
+      }
+      data = parts.join('');
+    }
+
+    return { ...row, rules: await decompress(data) };
+  }
+
+  /**
+   * Remove the chunk rows of a previous payload; failures only leave orphans
+   * behind, which are never read
+   */
+  private async deleteChunks(rowKey: string, payload: ChunkedPayload | null): Promise<void> {
+    if (!payload?.set) return;
+
+    for (let index = 0; index < (payload.chunks || 0); index++) {
+      try {
+        await this.inner.deleteRow(chunkKey(rowKey, payload.set, index));
+      } catch (error) {
+        console.warn(`Failed to remove rules chunk ${index} of ${rowKey}:`, error);
+      }
+    }
+  }
+}
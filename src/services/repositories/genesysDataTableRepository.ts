@@ -0,0 +1,89 @@
+// src/services/repositories/genesysDataTableRepository.ts
+import platformClient from 'purecloud-platform-client-v2';
+import { RuleRow, RulesRepository } from './rulesRepository';
+
+const PAGE_SIZE = 200;
+
+/**
+ * Read every page of a paged platform API listing. When a response has no
+ * page count, a page shorter than `pageSize` is taken as the last one.
+ */
+export const listAllPages = async <T>(
+  fetchPage: (pageNumber: number) => Promise<{ entities?: T[]; pageCount?: number }>,
+  pageSize: number
+): Promise<T[]> => {
+  const items: T[] = [];
+  let pageNumber = 1;
+  let pageCount = 1;
+
+  do {
+    const response = await fetchPage(pageNumber);
+    const entities = response.entities || [];
+    items.push(...entities);
+    pageCount = response.pageCount || (entities.length < pageSize ? pageNumber : pageNumber + 1);
+    pageNumber++;
+  } while (pageNumber <= pageCount);
+
+  return items;
+};
+
+/**
+ * Read every row of a data table, page by page.
+ * Data tables cannot be filtered server-side, so callers filter the result.
+ */
+export const listDataTableRows = async <T>(client: typeof platformClient, tableId: string): Promise<T[]> => {
+  const architectApi = new client.ArchitectApi();
+  return listAllPages<T>(pageNumber => architectApi.getFlowsDatatableRows(tableId, {
+    pageSize: PAGE_SIZE,
+    pageNumber,
+    showbrief: false
+  }), PAGE_SIZE);
+};
+
+/**
+ * Rules stored as rows of a Genesys Cloud Architect data table.
+ * The platform client must already be initialised with an access token.
+ */
+export class GenesysDataTableRepository implements RulesRepository {
+  private client: typeof platformClient;
+  private tableId: string;
+
+  constructor(client: typeof platformClient, tableId: string) {
+    this.client = client;
+    this.tableId = tableId;
+  }
+
+  /**
+   * Read every page of the table so the active row is never missed
+   */
+  async listRows(): Promise<RuleRow[]> {
+    return listDataTableRows<RuleRow>(this.client, this.tableId);
+  }
+
+  async getRow(key: string): Promise<RuleRow | null> {
+    const architectApi = new this.client.ArchitectApi();
+    try {
+      const row = await architectApi.getFlowsDatatableRow(this.tableId, key, { showbrief: false });
+      return row || null;
+    } catch (error: any) {
+      if (error?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async createRow(row: RuleRow): Promise<void> {
+    const architectApi = new this.client.ArchitectApi();
+    // No body wrapper for POST
+    await architectApi.postFlowsDatatableRows(this.tableId, row);
+  }
+
+  async updateRow(row: RuleRow): Promise<void> {
+    const architectApi = new this.client.ArchitectApi();
+    await architectApi.putFlowsDatatableRow(this.tableId, row.key, { body: row });
+  }
+
+  async deleteRow(key: string): Promise<void> {
+    const architectApi = new this.client.ArchitectApi();
+    await architectApi.deleteFlowsDatatableRow(this.tableId, key);
+  }
+}
@@ -0,0 +1,13 @@
+// src/services/repositories/index.ts
+export type { PromotionRecord, RuleRow, RuleStatus, RulesRepository } from './rulesRepository';
+export { GenesysDataTableRepository, listAllPages, listDataTableRows } from './genesysDataTableRepository';
+export { InMemoryRulesRepository, LocalStorageRulesRepository } from './localRulesRepository';
+export { RestRulesRepository } from './restRulesRepository';
+export { ChunkedRulesRepository, DEFAULT_CELL_LIMIT } from './chunkedRulesRepository';
+
+/**
+ * Storage backends selectable with VITE_RULES_STORAGE
+ */
+export type RulesStorageKind = 'genesys' | 'local' | 'memory' | 'rest';
+
+export const RULES_STORAGE_KINDS: RulesStorageKind[] = ['genesys', 'local', 'memory', 'rest'];
@@ -0,0 +1,100 @@
+// src/services/repositories/localRulesRepository.ts
+import { RuleRow, RulesRepository } from './rulesRepository';
+
+/**
+ * Rules kept in memory, for demos and tests.
+ * Rows are copied on the way in and out so callers cannot mutate stored
+ * state, matching how a remote store behaves.
+ */
+export class InMemoryRulesRepository implements RulesRepository {
+  protected rows: Map<string, RuleRow>;
+
+  constructor(rows: RuleRow[] = []) {
+    this.rows = new Map(rows.map(row => [row.key, { ...row }]));
+  }
+
+  async listRows(): Promise<RuleRow[]> {
+    this.refresh();
+    return [...this.rows.values()].map(row => ({ ...row }));
+  }
+
+  async getRow(key: string): Promise<RuleRow | null> {
+    this.refresh();
+    const row = this.rows.get(key);
+    return row ? { ...row } : null;
+  }
+
+  async createRow(row: RuleRow): Promise<void> {
+    this.refresh();
+    if (this.rows.has(row.key)) {
+      throw new Error(`Rules row ${row.key} already exists`);
+    }
+    this.rows.set(row.key, { ...row });
+    this.persist();
+  }
+
+  async updateRow(row: RuleRow): Promise<void> {
+    this.refresh();
+    if (!this.rows.has(row.key)) {
+      throw new Error(`Rules row ${row.key} not found`);
+    }
+    this.rows.set(row.key, { ...row });
+    this.persist();
+  }
+
+  async deleteRow(key: string): Promise<void> {
+    this.refresh();
+    if (!this.rows.delete(key)) {
+      throw new Error(`Rules row ${key} not found`);
+    }
+    this.persist();
+  }
+
+  /**
+   * Hooks for subclasses that keep a durable copy: `refresh` picks up changes
+   * made elsewhere before each operation, `persist` writes after each change
+   */
+  protected refresh(): void {}
+
+  protected persist(): void {}
+}
+
+const DEFAULT_STORAGE_KEY = 'raas_rules_rows';
+
+/**
+ * Rules kept in browser localStorage so a demo survives reloads.
+ * Only the rules rows stay in the browser: sign-in and the user profile still
+ * come from Genesys Cloud, so pair it with VITE_GENESYS_MOCK to run offline.
+ *
+ * Storage is read again at the start of every operation, so other tabs'
+ * writes are seen, the deploy conflict checks work across tabs, and a write
+ * never puts back rows another tab has since changed.
+ */
+export class LocalStorageRulesRepository extends InMemoryRulesRepository {
+  private storage: Storage;
+  private storageKey: string;
+
+  constructor(storage: Storage = window.localStorage, storageKey: string = DEFAULT_STORAGE_KEY) {
+    super(LocalStorageRulesRepository.load(storage, storageKey));
+    this.storage = storage;
+    this.storageKey = storageKey;
+  }
+
+  protected refresh(): void {
+    this.rows = new Map(LocalStorageRulesRepository.load(this.storage, this.storageKey).map(row => [row.key, row]));
+  }
+
+  protected persist(): void {
+    this.storage.setItem(this.storageKey, JSON.stringify([...this.rows.values()]));
+  }
+
+  private static load(storage: Storage, storageKey: string): RuleRow[] {
+    try {
+      const stored = storage.getItem(storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to read stored rules, starting empty:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,56 @@
+// src/services/repositories/restRulesRepository.ts
+import axios, { AxiosInstance } from 'axios';
+import { RuleRow, RulesRepository } from './rulesRepository';
+
+/**
+ * Rules stored behind a plain REST API:
+ *
+ *   GET    /rules        -> RuleRow[] (or { entities: RuleRow[] })
+ *   GET    /rules/:key   -> RuleRow, 404 when missing
+ *   POST   /rules        <- RuleRow
+ *   PUT    /rules/:key   <- RuleRow
+ *   DELETE /rules/:key
+ *
+ * The bearer token, when given, is sent on every request.
+ */
+export class RestRulesRepository implements RulesRepository {
+  private http: AxiosInstance;
+
+  constructor(baseURL: string, getToken?: () => string | null) {
+    this.http = axios.create({ baseURL, timeout: 30000 });
+    this.http.interceptors.request.use(config => {
+      const token = getToken?.();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  async listRows(): Promise<RuleRow[]> {
+    const { data } = await this.http.get('/rules');
+    return Array.isArray(data) ? data : data?.entities || [];
+  }
+
+  async getRow(key: string): Promise<RuleRow | null> {
+    try {
+      const { data } = await this.http.get(`/rules/${encodeURIComponent(key)}`);
+      return data || null;
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async createRow(row: RuleRow): Promise<void> {
+    await this.http.post('/rules', row);
+  }
+
+  async updateRow(row: RuleRow): Promise<void> {
+    await this.http.put(`/rules/${encodeURIComponent(row.key)}`, row);
+  }
+
+  async deleteRow(key: string): Promise<void> {
+    await this.http.delete(`/rules/${encodeURIComponent(key)}`);
+  }
+}
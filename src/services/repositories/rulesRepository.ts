@@ -0,0 +1,70 @@
+// src/services/repositories/rulesRepository.ts
+
+/**
+ * Lifecycle state of a row in the rules table.
+ * Deployed rows are `active`, `inactive` or `scheduled` to go live later;
+ * the rest are drafts moving through review. Rows written before the status
+ * column existed have no status and are treated as deployed.
+ */
+export type RuleStatus = 'draft' | 'pending-review' | 'approved' | 'rejected' | 'active' | 'inactive' | 'scheduled';
+
+/**
+ * Row shape of the rules table.
+ * For drafts `version` holds the version the draft was based on, and
+ * `deployedBy`/`deployedAt` hold the author and last save time.
+ */
+export interface RuleRow {
+  key: string;
+  rules: string;
+  version: string;
+  description: string;
+  deployedBy: string;
+  deployedAt: string;
+  isActive: boolean;
+  status?: RuleStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComments?: string;
+  activateAt?: string;
+  deactivateAt?: string;
+  revertToVersion?: string;
+  /** JSON array of PromotionRecord, oldest first */
+  promotionHistory?: string;
+  /** Why the version was deployed with failing test cases */
+  testOverrideReason?: string;
+  /** JSON array of everyone who saved the draft, author first */
+  editedBy?: string;
+  /**
+   * Set on rows read back by `listRows` whose config could not be decoded,
+   * with the reason; `rules` then holds the raw stored value. Never written.
+   */
+  unreadable?: string;
+}
+
+/**
+ * One promotion of a version from one environment to another
+ */
+export interface PromotionRecord {
+  fromEnvironment: string;
+  fromVersion: number;
+  toEnvironment: string;
+  promotedBy: string;
+  promotedAt: string;
+  description: string;
+}
+
+/**
+ * Storage for rules table rows.
+ * Implementations only move rows in and out; versioning, activation and the
+ * review workflow stay in GenesysService so every backend behaves the same.
+ */
+export interface RulesRepository {
+  /** Every row in the table, in no particular order */
+  listRows(): Promise<RuleRow[]>;
+  /** A single row, or null when there is no row with that key */
+  getRow(key: string): Promise<RuleRow | null>;
+  createRow(row: RuleRow): Promise<void>;
+  /** Replace an existing row */
+  updateRow(row: RuleRow): Promise<void>;
+  deleteRow(key: string): Promise<void>;
+}
@@ -0,0 +1,271 @@
+import type { SimulatedClock } from '../components/VisualRuleEditor/types';
+import { RuleEngineSimulator, RuleEvaluationResult, SimulatorMode } from './ruleEngineSimulator';
+
+/**
+ * Limits on a single test input, the same for the single test and every batch row
+ */
+export const MAX_INPUT_KEYS = 10;
+export const MAX_INPUT_BYTES = 10000;
+
+/**
+ * Most rows a batch file may hold
+ */
+export const MAX_BATCH_ROWS = 5000;
+
+const RESTRICTED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * One row of an uploaded batch file; `error` is set when the row is not a usable input
+ */
+export interface BatchRow {
+  /** Line (JSON lines, CSV) or array position, from 1 */
+  row: number;
+  input: Record<string, any> | null;
+  error?: string;
+}
+
+export interface BatchRowResult {
+  row: number;
+  input: Record<string, any> | null;
+  destination: string | null;
+  /** Rule that decided the route, or null when the default destination was used */
+  matchedRule: string | null;
+  matchedRules: string[];
+  evaluationSteps: RuleEvaluationResult[];
+  error?: string;
+}
+
+/**
+ * Why an input cannot be tested, or null when it can
+ */
+export const validateTestInput = (input: any): string | null => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'Input must be a valid JSON object';
+  }
+  if (JSON.stringify(input).length > MAX_INPUT_BYTES) {
+    return `Input JSON is too large (max ${MAX_INPUT_BYTES / 1000}KB)`;
+  }
+  if (Object.keys(input).length > MAX_INPUT_KEYS) {
+    return `Input cannot have more than ${MAX_INPUT_KEYS} key-value pairs`;
+  }
+  // Prevent prototype pollution - check for exact dangerous property names
+  if (RESTRICTED_KEYS.some(key => Object.prototype.hasOwnProperty.call(input, key))) {
+    return 'Input contains restricted properties';
+  }
+  return null;
+};
+
+/**
+ * Split CSV text into records of fields, honouring quoted fields with
+ * commas, doubled quotes and line breaks
+ */
+const splitCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+/**
+ * Plain decimals only: hex, exponents, `Infinity` and zero-padded ids such as
+ * account or phone numbers stay text
+ */
+const DECIMAL_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+/**
+ * CSV cells become numbers, booleans or JSON arrays and objects when they
+ * look like one, so `tier,score` rows compare like JSON input
+ */
+const parseCsvValue = (value: string): any => {
+  const trimmed = value.trim();
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (DECIMAL_PATTERN.test(trimmed)) return Number(trimmed);
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Keep it as text
+    }
+  }
+  return value;
+};
+
+/**
+ * Parse a CSV file whose header row names the facts; empty cells are left out
+ */
+export const parseCsvInputs = (text: string): BatchRow[] => {
+  const [header, ...records] = splitCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const keys = header.map(key => key.trim());
+
+  return records
+    .map((fields, index) => ({ fields, row: index + 2 }))
+    .filter(({ fields }) => fields.some(field => field.trim() !== ''))
+    .map(({ fields, row }) => {
+      if (fields.length > keys.length) {
+        return { row, input: null, error: `Row has ${fields.length} fields but the header has ${keys.length}` };
+      }
+      const input: Record<string, any> = {};
+      fields.forEach((field, column) => {
+        if (keys[column] && field.trim() !== '') {
+          input[keys[column]] = parseCsvValue(field);
+        }
+      });
+      const error = validateTestInput(input);
+      return error ? { row, input: null, error } : { row, input };
+    });
+};
+
+/**
+ * Parse a JSON array of inputs or one JSON object per line
+ */
+export const parseJsonInputs = (text: string): BatchRow[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const toRow = (item: any, row: number): BatchRow => {
+    const error = validateTestInput(item);
+    return error ? { row, input: null, error } : { row, input: item };
+  };
+
+  if (trimmed.startsWith('[')) {
+    const items = JSON.parse(trimmed);
+    if (!Array.isArray(items)) throw new Error('Expected a JSON array of inputs');
+    return items.map((item, index) => toRow(item, index + 1));
+  }
+
+  return trimmed.split(/\r?\n/)
+    .map((line, index) => ({ line, row: index + 1 }))
+    .filter(({ line }) => line.trim())
+    .map(({ line, row }) => {
+      try {
+        return toRow(JSON.parse(line), row);
+      } catch {
+        return { row, input: null, error: 'Not valid JSON' };
+      }
+    });
+};
+
+/**
+ * Parse an uploaded batch file, as CSV when the name ends in `.csv`
+ */
+export const parseBatchFile = (text: string, fileName: string): BatchRow[] => {
+  const rows = /\.csv$/i.test(fileName) ? parseCsvInputs(text) : parseJsonInputs(text);
+  if (rows.length > MAX_BATCH_ROWS) {
+    throw new Error(`File has ${rows.length} rows; the limit is ${MAX_BATCH_ROWS}`);
+  }
+  return rows;
+};
+
+/**
+ * Run every usable row through one simulator. Rows that fail to evaluate
+ * keep their error and do not stop the batch.
+ */
+export const runBatchTest = async (
+  rulesConfig: any,
+  rows: BatchRow[],
+  options: { mode: SimulatorMode; clock?: SimulatedClock },
+  onProgress?: (done: number) => void
+): Promise<BatchRowResult[]> => {
+  const simulator = new RuleEngineSimulator(rulesConfig, options);
+  const results: BatchRowResult[] = [];
+
+  try {
+    for (const [index, { row, input, error }] of rows.entries()) {
+      const base = { row, input, destination: null, matchedRule: null, matchedRules: [], evaluationSteps: [] };
+      if (!input) {
+        results.push({ ...base, error });
+      } else {
+        try {
+          const result = await simulator.evaluate(input);
+          results.push({
+            ...base,
+            destination: result.destination,
+            matchedRule: result.matchedRules[0] || null,
+            matchedRules: result.matchedRules,
+            evaluationSteps: result.evaluationSteps
+          });
+        } catch (evaluationError: any) {
+          results.push({ ...base, error: evaluationError.message });
+        }
+      }
+
+      // Let the page repaint on long batches
+      if (index % 100 === 99) {
+        onProgress?.(index + 1);
+        await new Promise(resolve => setTimeout(resolve));
+      }
+    }
+  } finally {
+    simulator.dispose();
+  }
+  return results;
+};
+
+/**
+ * One-line evaluation trace: each rule with the conditions that failed
+ */
+export const formatTrace = (steps: RuleEvaluationResult[]): string =>
+  steps.map(step => {
+    if (step.passed) return `${step.ruleName}: passed`;
+    const failed = step.conditions
+      .filter(condition => !condition.passed)
+      .map(condition => `${condition.fact} ${condition.operator} ${JSON.stringify(condition.expected)} (was ${JSON.stringify(condition.actual)})`);
+    return `${step.ruleName}: failed${failed.length ? ` [${failed.join('; ')}]` : ''}`;
+  }).join(' | ');
+
+const toCsvField = (value: any): string => {
+  const text = value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Batch results as CSV: the input facts, then what the rules decided
+ */
+export const batchResultsToCsv = (results: BatchRowResult[]): string => {
+  const keys = [...new Set(results.flatMap(result => Object.keys(result.input || {})))];
+  const header = ['row', ...keys, 'destination', 'matchedRule', 'matchedRules', 'error', 'trace'];
+  const lines = results.map(result => [
+    result.row,
+    ...keys.map(key => result.input?.[key]),
+    result.destination,
+    result.matchedRule,
+    result.matchedRules.join(' '),
+    result.error,
+    formatTrace(result.evaluationSteps)
+  ].map(toCsvField).join(','));
+
+  return [header.map(toCsvField).join(','), ...lines].join('\r\n');
+};
@@ -0,0 +1,265 @@
+import type {
+  BusinessCalendar,
+  CalendarHours,
+  CalendarWeekday,
+  SimulatedClock
+} from '../components/VisualRuleEditor/types';
+
+/**
+ * Weekdays in `Date.getDay()` order
+ */
+export const WEEKDAYS: CalendarWeekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Hours used by `isBusinessHours` when a rule names no calendar:
+ * Monday to Friday, 09:00 to 17:00 in the simulated timezone
+ */
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  weekly: {
+    mon: [{ open: '09:00', close: '17:00' }],
+    tue: [{ open: '09:00', close: '17:00' }],
+    wed: [{ open: '09:00', close: '17:00' }],
+    thu: [{ open: '09:00', close: '17:00' }],
+    fri: [{ open: '09:00', close: '17:00' }]
+  }
+};
+
+/**
+ * Calendar date, weekday and time of day in a timezone
+ */
+export interface ZonedTime {
+  /** `YYYY-MM-DD` */
+  date: string;
+  weekday: CalendarWeekday;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Point in time a simulation runs at
+ */
+export interface ResolvedClock {
+  now: number;
+  timezone: string;
+}
+
+const CLOCK_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+const HOURS_PATTERN = /^([01]\d|2[0-4]):[0-5]\d$/;
+const DATE_PATTERN = /^(\d{4}-)?\d{2}-\d{2}$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }));
+  }
+  return formatters.get(timezone)!;
+};
+
+const getParts = (timestamp: number, timezone: string): Record<string, string> =>
+  Object.fromEntries(getFormatter(timezone).formatToParts(timestamp).map(part => [part.type, part.value]));
+
+/**
+ * Milliseconds the timezone is ahead of UTC at a moment
+ */
+const getOffset = (timestamp: number, timezone: string): number => {
+  const parts = getParts(timestamp, timezone);
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return wallClock - (timestamp - (((timestamp % 1000) + 1000) % 1000));
+};
+
+/**
+ * The browser's timezone
+ */
+export const getLocalTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Whether the browser knows an IANA timezone name
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Timezones offered when picking one, the browser's first
+ */
+export const listTimezones = (): string[] => {
+  const supported = 'supportedValuesOf' in Intl
+    ? Intl.supportedValuesOf('timeZone')
+    : ['UTC', 'Europe/London', 'Europe/Dublin', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Australia/Sydney'];
+  const local = getLocalTimezone();
+  return [local, ...supported.filter(timezone => timezone !== local)];
+};
+
+/**
+ * Date and time of day at a moment, as seen in a timezone
+ */
+export const toZonedTime = (timestamp: number, timezone: string): ZonedTime => {
+  const parts = getParts(timestamp, timezone);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.slice(0, 3).toLowerCase() as CalendarWeekday,
+    hour: +parts.hour,
+    minute: +parts.minute
+  };
+};
+
+/**
+ * Moment a wall-clock time (`YYYY-MM-DDTHH:mm`) happens in a timezone
+ */
+export const fromZonedTime = (at: string, timezone: string): number => {
+  const match = CLOCK_PATTERN.exec(at);
+  if (!match) {
+    throw new Error(`Invalid simulated time: ${at}`);
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second || 0));
+  const guess = wallClock - getOffset(wallClock, timezone);
+  // Check again at the guess in case a DST change lies between the two
+  return wallClock - getOffset(guess, timezone);
+};
+
+/**
+ * Moment and timezone a simulation runs at; the live clock and the browser's
+ * timezone fill in whatever the clock leaves out
+ */
+export const resolveClock = (clock?: SimulatedClock): ResolvedClock => {
+  const timezone = clock?.timezone || getLocalTimezone();
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone: ${timezone}`);
+  }
+  return { now: clock?.at ? fromZonedTime(clock.at, timezone) : Date.now(), timezone };
+};
+
+const toMinutes = (time: string): number => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+/**
+ * Whether a calendar is open at a moment. Exceptions win over holidays,
+ * which win over the weekly hours.
+ */
+export const isCalendarOpen = (calendar: BusinessCalendar, now: number, fallbackTimezone: string): boolean => {
+  const zoned = toZonedTime(now, calendar.timezone || fallbackTimezone);
+  const isToday = (date: string) => date === zoned.date || date === zoned.date.slice(5);
+
+  let hours: CalendarHours[];
+  const exception = calendar.exceptions?.find(day => isToday(day.date));
+  if (exception) {
+    hours = exception.hours || [];
+  } else if (calendar.holidays?.some(day => isToday(day.date))) {
+    hours = [];
+  } else {
+    hours = calendar.weekly?.[zoned.weekday] || [];
+  }
+
+  const minute = zoned.hour * 60 + zoned.minute;
+  return hours.some(window => minute >= toMinutes(window.open) && minute < toMinutes(window.close));
+};
+
+/**
+ * Calendar names used by `isBusinessHours` conditions anywhere in a value
+ */
+const findCalendarReferences = (value: any, names: Set<string> = new Set()): Set<string> => {
+  if (Array.isArray(value)) {
+    value.forEach(item => findCalendarReferences(item, names));
+  } else if (value && typeof value === 'object') {
+    if (value.fact === 'isBusinessHours' && typeof value.params?.calendar === 'string') {
+      names.add(value.params.calendar);
+    }
+    Object.values(value).forEach(item => findCalendarReferences(item, names));
+  }
+  return names;
+};
+
+const validateHours = (hours: unknown, label: string, errors: string[]) => {
+  if (!Array.isArray(hours)) {
+    errors.push(`${label}: hours must be an array of { open, close }`);
+    return;
+  }
+  hours.forEach((window: any) => {
+    if (!HOURS_PATTERN.test(window?.open) || !HOURS_PATTERN.test(window?.close)) {
+      errors.push(`${label}: open and close must be HH:mm`);
+    } else if (toMinutes(window.open) >= toMinutes(window.close)) {
+      errors.push(`${label}: ${window.open}-${window.close} must close after it opens`);
+    }
+  });
+};
+
+/**
+ * Structural problems with the calendars section, and calendars that rules
+ * refer to without defining, in the same wording as the editor's rule validation
+ */
+export const validateCalendars = (rulesConfig: any): string[] => {
+  const calendars = rulesConfig?.calendars;
+  const errors: string[] = [];
+
+  if (calendars !== undefined && (typeof calendars !== 'object' || calendars === null || Array.isArray(calendars))) {
+    return ["'calendars' must be an object of calendars by name"];
+  }
+
+  Object.entries<any>(calendars || {}).forEach(([name, calendar]) => {
+    const label = `Calendar ${name}`;
+    if (calendar?.timezone !== undefined && !isValidTimezone(calendar.timezone)) {
+      errors.push(`${label}: Unknown timezone ${calendar.timezone}`);
+    }
+    if (typeof calendar?.weekly !== 'object' || calendar.weekly === null) {
+      errors.push(`${label}: Missing weekly hours`);
+    } else {
+      Object.entries(calendar.weekly).forEach(([day, hours]) => {
+        if (!WEEKDAYS.includes(day as CalendarWeekday)) {
+          errors.push(`${label}: Unknown weekday '${day}', use ${WEEKDAYS.join(', ')}`);
+        } else {
+          validateHours(hours, `${label} ${day}`, errors);
+        }
+      });
+    }
+    [...(calendar?.holidays || []), ...(calendar?.exceptions || [])].forEach((day: any) => {
+      if (!DATE_PATTERN.test(day?.date)) {
+        errors.push(`${label}: Date '${day?.date}' must be YYYY-MM-DD or MM-DD`);
+      }
+    });
+    (calendar?.exceptions || []).forEach((day: any) => {
+      if (day?.hours !== undefined) {
+        validateHours(day.hours, `${label} ${day.date}`, errors);
+      }
+    });
+  });
+
+  findCalendarReferences([rulesConfig?.rules, rulesConfig?.sharedConditions]).forEach(name => {
+    if (!calendars?.[name]) {
+      errors.push(`isBusinessHours uses calendar '${name}', which is not defined in 'calendars'`);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Problems with a simulated clock, empty when it can be used
+ */
+export const validateClock = (clock: SimulatedClock | undefined): string[] => {
+  const errors: string[] = [];
+  if (clock?.timezone && !isValidTimezone(clock.timezone)) {
+    errors.push(`Unknown timezone ${clock.timezone}`);
+  }
+  if (clock?.at && !CLOCK_PATTERN.test(clock.at)) {
+    errors.push(`Simulated time '${clock.at}' must be YYYY-MM-DDTHH:mm`);
+  }
+  return errors;
+};
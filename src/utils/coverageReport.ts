@@ -0,0 +1,157 @@
+import type { RuleCondition, RulesConfig } from '../components/VisualRuleEditor/types';
+import type { ExecutionLogEntry } from '../services/genesysService';
+import { RuleEngineSimulator, joinConditionPath } from './ruleEngineSimulator';
+import { describeCondition } from './ruleDiff';
+
+/**
+ * A fact condition of a rule, located by the same path the simulator reports
+ */
+export interface ConditionLeaf {
+  path: string;
+  label: string;
+}
+
+/**
+ * Coverage of one rule in observed traffic
+ */
+export interface RuleCoverage {
+  name: string;
+  priority: number;
+  /** Logged executions whose matchedRules include this rule */
+  loggedMatches: number;
+  /** Replayed executions where the rule's conditions passed */
+  replayMatches: number;
+  /** Replayed executions the rule actually decided */
+  replayWins: number;
+  /** Fact conditions that were false for every replayed execution */
+  neverTrueConditions: ConditionLeaf[];
+  /** Higher-priority rules that took every execution this rule matched, most frequent first */
+  shadowedBy: string[];
+}
+
+export interface CoverageReport {
+  executions: number;
+  /** Distinct inputs replayed through the simulator */
+  replayedInputs: number;
+  /** Distinct inputs the engine failed on, such as ones missing a fact; they add no coverage */
+  failedInputs: number;
+  rules: RuleCoverage[];
+}
+
+/**
+ * Fact conditions of a condition tree, in document order.
+ * Reference conditions are skipped because the simulator cannot evaluate them.
+ */
+export const listConditionLeaves = (condition: RuleCondition | undefined, path: string = ''): ConditionLeaf[] => {
+  if (!condition) return [];
+  if (condition.all) {
+    return condition.all.flatMap((child, index) => listConditionLeaves(child, joinConditionPath(path, `all[${index}]`)));
+  }
+  if (condition.any) {
+    return condition.any.flatMap((child, index) => listConditionLeaves(child, joinConditionPath(path, `any[${index}]`)));
+  }
+  if (condition.not) {
+    return listConditionLeaves(condition.not, joinConditionPath(path, 'not'));
+  }
+  return condition.fact ? [{ path, label: describeCondition(condition) }] : [];
+};
+
+/**
+ * Whether a rule needs attention: never matched, has dead conditions or is shadowed
+ */
+export const hasCoverageIssue = (rule: RuleCoverage): boolean =>
+  rule.loggedMatches === 0 || rule.neverTrueConditions.length > 0 || rule.shadowedBy.length > 0;
+
+/**
+ * Cross-reference a rules config with logged executions.
+ *
+ * Rule matches come straight from the logs. Condition coverage and shadowing
+ * need every rule evaluated, which the logs do not record, so each distinct
+ * logged input is replayed through the simulator against `rulesConfig`.
+ */
+export const buildCoverageReport = async (
+  rulesConfig: RulesConfig,
+  entries: ExecutionLogEntry[]
+): Promise<CoverageReport> => {
+  const rules = rulesConfig.rules || [];
+
+  // Replay each distinct input once, weighted by how often it was logged
+  const inputs = new Map<string, { input: any; count: number }>();
+  entries.forEach(entry => {
+    if (typeof entry.input !== 'object' || entry.input === null || Array.isArray(entry.input)) return;
+    const id = JSON.stringify(entry.input);
+    const existing = inputs.get(id);
+    if (existing) {
+      existing.count++;
+    } else {
+      inputs.set(id, { input: entry.input, count: 1 });
+    }
+  });
+
+  const replayMatches = new Map<string, number>();
+  const replayWins = new Map<string, number>();
+  const shadowCounts = new Map<string, Map<string, number>>();
+  const trueConditions = new Map<string, Set<string>>();
+  const add = (counts: Map<string, number>, key: string, count: number) => counts.set(key, (counts.get(key) || 0) + count);
+
+  let failedInputs = 0;
+
+  const simulator = new RuleEngineSimulator(rulesConfig, { mode: 'engine' });
+  try {
+    for (const { input, count } of inputs.values()) {
+      let results;
+      try {
+        results = await simulator.evaluateAll(input);
+      } catch {
+        failedInputs++;
+        continue;
+      }
+      const winner = results.find(result => result.passed)?.ruleName;
+
+      results.forEach(result => {
+        const passedPaths = trueConditions.get(result.ruleName) || new Set<string>();
+        result.conditions.filter(condition => condition.passed && condition.path).forEach(condition => passedPaths.add(condition.path!));
+        trueConditions.set(result.ruleName, passedPaths);
+
+        if (!result.passed) return;
+        add(replayMatches, result.ruleName, count);
+        if (result.ruleName === winner) {
+          add(replayWins, result.ruleName, count);
+        } else {
+          const shadows = shadowCounts.get(result.ruleName) || new Map<string, number>();
+          add(shadows, winner!, count);
+          shadowCounts.set(result.ruleName, shadows);
+        }
+      });
+    }
+  } finally {
+    simulator.dispose();
+  }
+
+  return {
+    executions: entries.length,
+    replayedInputs: inputs.size,
+    failedInputs,
+    rules: rules.map(rule => {
+      const matches = replayMatches.get(rule.name) || 0;
+      const wins = replayWins.get(rule.name) || 0;
+      const passedPaths = trueConditions.get(rule.name) || new Set<string>();
+
+      return {
+        name: rule.name,
+        priority: rule.priority,
+        loggedMatches: entries.filter(entry => entry.matchedRules.includes(rule.name)).length,
+        replayMatches: matches,
+        replayWins: wins,
+        neverTrueConditions: inputs.size > 0
+          ? listConditionLeaves(rule.conditions).filter(leaf => !passedPaths.has(leaf.path))
+          : [],
+        shadowedBy: matches > 0 && wins === 0
+          ? [...(shadowCounts.get(rule.name) || new Map<string, number>()).entries()]
+              .sort((a, b) => b[1] - a[1])
+              .map(([name]) => name)
+          : []
+      };
+    })
+  };
+};
@@ -0,0 +1,226 @@
+import { isEqual } from 'lodash';
+import type { Rule, RuleCondition } from '../components/VisualRuleEditor/types';
+import { MULTI_VALUE_OPERATORS } from './factCatalog';
+
+/**
+ * Fact a decision table column compares, with the input key for facts read
+ * through `params.key`
+ */
+export interface DecisionTableColumn {
+  id: string;
+  fact: string;
+  key?: string;
+  label: string;
+}
+
+export interface DecisionTableCell {
+  operator: string;
+  value: unknown;
+}
+
+/**
+ * One rule as a table row; a column without a cell matches anything
+ */
+export interface DecisionTableRow {
+  /** Index of the rule in the config, or null for a row added in the table */
+  ruleIndex: number | null;
+  name: string;
+  cells: Record<string, DecisionTableCell>;
+  destination: string;
+  priority: number;
+}
+
+export interface DecisionTable {
+  columns: DecisionTableColumn[];
+  rows: DecisionTableRow[];
+  /** Rules the table cannot show, and why */
+  excluded: Array<{ ruleIndex: number; name: string; reason: string }>;
+}
+
+const CONDITION_FIELDS = ['fact', 'operator', 'value', 'params'];
+
+/**
+ * Column a condition belongs in, or null when it is not a plain comparison
+ */
+const getConditionColumn = (condition: RuleCondition): DecisionTableColumn | null => {
+  if (!condition.fact || !condition.operator) return null;
+  if (Object.keys(condition).some(field => !CONDITION_FIELDS.includes(field))) return null;
+
+  const params = condition.params || {};
+  const paramNames = Object.keys(params);
+  if (paramNames.length === 0) return { id: condition.fact, fact: condition.fact, label: condition.fact };
+  if (paramNames.length !== 1 || typeof params.key !== 'string') return null;
+  return {
+    id: `${condition.fact}:${params.key}`,
+    fact: condition.fact,
+    key: params.key,
+    label: condition.fact === 'inputValue' ? params.key : `${condition.fact} ${params.key}`
+  };
+};
+
+/**
+ * Column added from the table: facts in `directFacts` are compared directly,
+ * anything else is read from the input with `inputValue`
+ */
+export const createColumn = (name: string, directFacts: string[]): DecisionTableColumn =>
+  directFacts.includes(name)
+    ? { id: name, fact: name, label: name }
+    : { id: `inputValue:${name}`, fact: 'inputValue', key: name, label: name };
+
+/**
+ * Why a rule cannot be edited as a table row, or null when it can. Rows need
+ * conditions that are a flat `all` of plain fact comparisons, at most one per
+ * fact, and a destination.
+ */
+export const getTableIncompatibility = (rule: Rule): string | null => {
+  const conditions = rule.conditions || {};
+  if (conditions.any) return 'Conditions use "any"';
+  if (conditions.not) return 'Conditions use "not"';
+  if (!conditions.all) return 'Conditions are not an "all" group';
+  if (Object.keys(conditions).some(field => field !== 'all')) return 'Conditions have settings besides "all"';
+  if (typeof rule.event?.params?.destination !== 'string') return 'Event has no destination';
+
+  const seen = new Set<string>();
+  for (const condition of conditions.all) {
+    if (condition.all || condition.any || condition.not) return 'Conditions contain nested groups';
+    if (condition.condition) return `Conditions reference shared condition "${condition.condition}"`;
+    const column = getConditionColumn(condition);
+    if (!column) return `${condition.fact || 'A condition'} uses params or fields the table cannot show`;
+    if (seen.has(column.id)) return `${column.label} is compared more than once`;
+    seen.add(column.id);
+  }
+  return null;
+};
+
+/**
+ * Table of the rules that fit one, with a column per fact any of them
+ * compares, in order of first use
+ */
+export const rulesToDecisionTable = (rules: Rule[]): DecisionTable => {
+  const columns: DecisionTableColumn[] = [];
+  const rows: DecisionTableRow[] = [];
+  const excluded: DecisionTable['excluded'] = [];
+
+  rules.forEach((rule, ruleIndex) => {
+    const reason = getTableIncompatibility(rule);
+    if (reason) {
+      excluded.push({ ruleIndex, name: rule.name, reason });
+      return;
+    }
+
+    const cells: Record<string, DecisionTableCell> = {};
+    rule.conditions.all!.forEach(condition => {
+      const column = getConditionColumn(condition)!;
+      if (!columns.some(existing => existing.id === column.id)) columns.push(column);
+      cells[column.id] = { operator: condition.operator!, value: condition.value };
+    });
+    rows.push({ ruleIndex, name: rule.name, cells, destination: rule.event.params.destination, priority: rule.priority });
+  });
+
+  return { columns, rows, excluded };
+};
+
+/**
+ * Rule for a table row. Fields the table does not show are kept from `base`,
+ * and conditions keep their original order with new ones after them.
+ */
+export const rowToRule = (row: DecisionTableRow, columns: DecisionTableColumn[], base?: Rule): Rule => {
+  const toCondition = (column: DecisionTableColumn): RuleCondition => {
+    const cell = row.cells[column.id];
+    return column.key !== undefined
+      ? { fact: column.fact, params: { key: column.key }, operator: cell.operator, value: cell.value }
+      : { fact: column.fact, operator: cell.operator, value: cell.value };
+  };
+
+  const used = columns.filter(column => row.cells[column.id]);
+  const originalOrder = (base?.conditions?.all || []).map(condition => getConditionColumn(condition)?.id);
+  const ordered = [
+    ...originalOrder.flatMap(id => used.filter(column => column.id === id)),
+    ...used.filter(column => !originalOrder.includes(column.id))
+  ];
+
+  return {
+    ...(base || { defaultDestination: row.destination }),
+    name: row.name,
+    priority: row.priority,
+    conditions: { all: ordered.map(toCondition) },
+    event: {
+      ...(base?.event || { type: 'route_determined' }),
+      params: { ...base?.event?.params, destination: row.destination }
+    }
+  } as Rule;
+};
+
+/**
+ * Rules after editing the table: changed rows are rewritten, unchanged rows
+ * and rules the table cannot show are kept as they were, rows deleted from
+ * the table are removed and new rows are appended
+ */
+export const applyDecisionTable = (rules: Rule[], table: DecisionTable): Rule[] => {
+  const original = rulesToDecisionTable(rules);
+  const excludedIndexes = new Set(original.excluded.map(entry => entry.ruleIndex));
+  const rowsByIndex = new Map(table.rows.filter(row => row.ruleIndex !== null).map(row => [row.ruleIndex!, row]));
+
+  const kept = rules.flatMap((rule, index) => {
+    if (excludedIndexes.has(index)) return [rule];
+    const row = rowsByIndex.get(index);
+    if (!row) return [];
+    const before = original.rows.find(candidate => candidate.ruleIndex === index);
+    return [isEqual(row, before) ? rule : rowToRule(row, table.columns, rule)];
+  });
+  const added = table.rows.filter(row => row.ruleIndex === null).map(row => rowToRule(row, table.columns));
+
+  return [...kept, ...added];
+};
+
+/**
+ * Text shown and edited for a cell value; lists are comma separated
+ */
+export const formatCellValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map(item => (typeof item === 'string' ? item : JSON.stringify(item))).join(', ');
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Type the items of an existing cell value have, so editing "12345" keeps it
+ * a string; undefined when there is nothing to go by
+ */
+const getKeptType = (previous: unknown): string | undefined => {
+  const sample = Array.isArray(previous) ? previous[0] : previous;
+  const type = typeof sample;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : undefined;
+};
+
+/**
+ * Cell value typed into the table. Multi-value operators take a comma
+ * separated list. Editing an existing cell keeps the type its value had;
+ * otherwise numbers, booleans and JSON are read as such unless the fact is
+ * declared as a string.
+ */
+export const parseCellValue = (text: string, operator: string, factType?: string, previous?: unknown): unknown => {
+  const keptType = factType === 'string' || factType === 'enum' ? 'string' : getKeptType(previous);
+  const parseItem = (item: string): unknown => {
+    const trimmed = item.trim();
+    if (keptType === 'string') return trimmed;
+    if (keptType === 'number') return trimmed !== '' && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : trimmed;
+    if (keptType === 'boolean') return trimmed === 'true' || trimmed === 'false' ? trimmed === 'true' : trimmed;
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  };
+
+  if (MULTI_VALUE_OPERATORS.includes(operator)) {
+    if (text.trim().startsWith('[')) {
+      try {
+        const parsed = JSON.parse(text);
+        if (Array.isArray(parsed)) return parsed;
+      } catch {
+        // Fall back to a comma separated list
+      }
+    }
+    return text.split(',').map(item => item.trim()).filter(Boolean).map(parseItem);
+  }
+  return parseItem(text);
+};
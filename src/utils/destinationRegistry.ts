@@ -0,0 +1,96 @@
+import type { DestinationDefinition, DestinationKind } from '../components/VisualRuleEditor/types';
+import type { JsonPath } from './ruleValidation';
+
+export const DESTINATION_KINDS: DestinationKind[] = ['queue', 'flow', 'external'];
+
+/**
+ * Genesys Cloud queue or flow a destination can resolve to
+ */
+export interface RoutingTarget {
+  id: string;
+  name: string;
+  kind: 'queue' | 'flow';
+  /** Architect flow type such as `inboundcall` */
+  flowType?: string;
+}
+
+/**
+ * Place in the config that routes to a destination
+ */
+export interface DestinationUsage {
+  /** Rule name, or the test case name for test case usages */
+  name: string;
+  field: 'defaultDestination' | 'event' | 'testCase';
+  path: JsonPath;
+}
+
+/**
+ * Every destination the config routes to or expects, with where it is used
+ */
+export const getDestinationUsages = (config: any): Map<string, DestinationUsage[]> => {
+  const usages = new Map<string, DestinationUsage[]>();
+  const add = (destination: any, usage: DestinationUsage) => {
+    if (typeof destination !== 'string' || !destination.trim()) return;
+    usages.set(destination, [...(usages.get(destination) || []), usage]);
+  };
+
+  (Array.isArray(config?.rules) ? config.rules : []).forEach((rule: any, index: number) => {
+    const name = rule?.name || `Rule ${index + 1}`;
+    add(rule?.defaultDestination, { name, field: 'defaultDestination', path: ['rules', index, 'defaultDestination'] });
+    add(rule?.event?.params?.destination, { name, field: 'event', path: ['rules', index, 'event', 'params', 'destination'] });
+  });
+  (Array.isArray(config?.testCases) ? config.testCases : []).forEach((testCase: any, index: number) => {
+    add(testCase?.expectedDestination, { name: testCase?.name || `Test case ${index + 1}`, field: 'testCase', path: ['testCases', index, 'expectedDestination'] });
+  });
+  return usages;
+};
+
+/**
+ * Bring the registry in line with the queues and flows in Genesys Cloud.
+ * New targets are added, entries named like a target are linked to it,
+ * entries whose target was renamed take the new name, and entries whose
+ * target no longer exists are kept but reported so the rules using them can
+ * be fixed first.
+ */
+export const syncDestinations = (
+  registry: DestinationDefinition[],
+  targets: RoutingTarget[]
+): {
+  destinations: DestinationDefinition[];
+  added: string[];
+  linked: string[];
+  renamed: Array<{ from: string; to: string }>;
+  missing: string[];
+} => {
+  const byId = new Map(targets.map(target => [target.id, target]));
+  const byName = new Map(targets.map(target => [target.name, target]));
+  const linked: string[] = [];
+  const renamed: Array<{ from: string; to: string }> = [];
+  const missing: string[] = [];
+
+  const destinations = registry.map(entry => {
+    if (!entry.genesysId) {
+      const target = byName.get(entry.name);
+      if (!target || entry.kind === 'external') return entry;
+      linked.push(entry.name);
+      return { ...entry, kind: target.kind, genesysId: target.id };
+    }
+    const target = byId.get(entry.genesysId);
+    if (!target) {
+      missing.push(entry.name);
+      return entry;
+    }
+    if (target.name !== entry.name) {
+      renamed.push({ from: entry.name, to: target.name });
+      return { ...entry, name: target.name };
+    }
+    return entry;
+  });
+
+  const knownIds = new Set(destinations.map(entry => entry.genesysId).filter(Boolean));
+  const knownNames = new Set(destinations.map(entry => entry.name));
+  const added = targets.filter(target => !knownIds.has(target.id) && !knownNames.has(target.name));
+  destinations.push(...added.map(target => ({ name: target.name, kind: target.kind, genesysId: target.id })));
+
+  return { destinations, added: added.map(target => target.name), linked, renamed, missing };
+};
@@ -0,0 +1,91 @@
+import { isEqual } from 'lodash';
+import type { RulesConfig, SimulatedClock } from '../components/VisualRuleEditor/types';
+import { RuleEngineSimulator } from './ruleEngineSimulator';
+import goldenSuites from './engineGoldenCases.json';
+
+/**
+ * Event as json-rules-engine emits it
+ */
+export interface GoldenEvent {
+  type: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * One input with what json-rules-engine does with it: the events it emits,
+ * in order, or the error the run fails with
+ */
+export interface GoldenCase {
+  name: string;
+  input: Record<string, unknown>;
+  clock?: SimulatedClock;
+  events?: GoldenEvent[];
+  /** Text the engine's error message contains */
+  error?: string;
+}
+
+/**
+ * A rules config and the inputs recorded against it
+ */
+export interface GoldenSuite {
+  name: string;
+  rulesConfig: RulesConfig;
+  cases: GoldenCase[];
+}
+
+export interface GoldenCaseResult {
+  suite: string;
+  name: string;
+  passed: boolean;
+  /** Why the simulator disagreed with the engine */
+  failure?: string;
+}
+
+/**
+ * Golden cases checked into the repo: inputs and the events json-rules-engine
+ * emits for them. Add a case whenever the simulator is found to disagree.
+ */
+export const GOLDEN_SUITES = goldenSuites as unknown as GoldenSuite[];
+
+const describeEvents = (events: GoldenEvent[]): string => JSON.stringify(events);
+
+/**
+ * Run golden cases through the simulator in engine mode and compare the
+ * emitted events (or the error) with what the engine recorded
+ */
+export const runGoldenCases = async (suites: GoldenSuite[] = GOLDEN_SUITES): Promise<GoldenCaseResult[]> => {
+  const results: GoldenCaseResult[] = [];
+
+  for (const suite of suites) {
+    const simulator = new RuleEngineSimulator(suite.rulesConfig, { mode: 'engine' });
+    try {
+      for (const goldenCase of suite.cases) {
+        const result: GoldenCaseResult = { suite: suite.name, name: goldenCase.name, passed: false };
+        try {
+          const evaluation = await simulator.evaluate(goldenCase.input, goldenCase.clock);
+          const events = (evaluation.events || []).map(event => ({ type: event.type, params: event.params }));
+          const expected = (goldenCase.events || []).map(event => ({ type: event.type, params: event.params || {} }));
+
+          if (goldenCase.error !== undefined) {
+            result.failure = `Expected the run to fail with "${goldenCase.error}", got ${describeEvents(events)}`;
+          } else if (!isEqual(events, expected)) {
+            result.failure = `Expected ${describeEvents(expected)}, got ${describeEvents(events)}`;
+          } else {
+            result.passed = true;
+          }
+        } catch (error: any) {
+          if (goldenCase.error !== undefined && String(error.message).includes(goldenCase.error)) {
+            result.passed = true;
+          } else {
+            result.failure = `Run failed: ${error.message}`;
+          }
+        }
+        results.push(result);
+      }
+    } finally {
+      simulator.dispose();
+    }
+  }
+
+  return results;
+};
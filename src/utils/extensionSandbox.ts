@@ -0,0 +1,239 @@
+import { isEqual } from 'lodash';
+import type {
+  CustomOperatorDefinition,
+  DynamicFactDefinition
+} from '../components/VisualRuleEditor/types';
+
+/**
+ * Config-defined code run by the sandbox
+ */
+export interface SandboxDefinitions {
+  dynamicFacts: DynamicFactDefinition[];
+  customOperators: CustomOperatorDefinition[];
+}
+
+/**
+ * Limits on each sandboxed call. Workers cannot be given a heap size, so
+ * memory is bounded by capping what goes in and out of the worker and by
+ * the time limit, which also stops runaway allocation loops.
+ */
+export interface SandboxLimits {
+  timeoutMs: number;
+  maxPayloadBytes: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 1000,
+  maxPayloadBytes: 64 * 1024
+};
+
+type SandboxCall =
+  | { type: 'load'; definitions: SandboxDefinitions; maxPayloadBytes: number }
+  | { type: 'fact'; name: string; params: any; input: any }
+  | { type: 'operator'; name: string; factValue: any; jsonValue: any };
+
+export type SandboxRequest = SandboxCall & { id: number };
+
+export type SandboxResponse =
+  | { id: number; ok: true; value: any }
+  | { id: number; ok: false; error: string };
+
+/**
+ * Outcome of one documented example of a dynamic fact or custom operator
+ */
+export interface ExtensionTestResult {
+  index: number;
+  passed: boolean;
+  actual?: any;
+  error?: string;
+}
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const payloadSize = (value: any): number => {
+  try {
+    return JSON.stringify(value ?? null).length;
+  } catch {
+    return Infinity;
+  }
+};
+
+/**
+ * Runs config-defined dynamic facts and custom operators in a Web Worker.
+ * The worker has no DOM, its network and storage globals and every way to
+ * compile code at runtime are removed before any config code is compiled,
+ * code that uses `import` is refused, and a call that overruns the time limit
+ * terminates the worker, which is restarted for the next call.
+ */
+export class ExtensionSandbox {
+  private worker: Worker | null = null;
+  private loaded: Promise<Record<string, string>> | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingCall>();
+
+  constructor(
+    private definitions: SandboxDefinitions,
+    private limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+  ) {}
+
+  /**
+   * Whether config definitions include anything that needs the sandbox
+   */
+  static isNeeded(config: { dynamicFacts?: any[]; customOperators?: any[] }): boolean {
+    return (config.dynamicFacts?.length || 0) > 0 || (config.customOperators?.length || 0) > 0;
+  }
+
+  /**
+   * Compile errors by definition name; empty when everything compiles
+   */
+  async getCompileErrors(): Promise<Record<string, string>> {
+    return this.load();
+  }
+
+  /**
+   * Compute a dynamic fact for an input
+   */
+  async computeFact(name: string, params: any, input: any): Promise<any> {
+    await this.assertCompiled(name);
+    return this.call({ type: 'fact', name, params: params ?? {}, input });
+  }
+
+  /**
+   * Apply a custom operator
+   */
+  async evaluateOperator(name: string, factValue: any, jsonValue: any): Promise<boolean> {
+    await this.assertCompiled(name);
+    return Boolean(await this.call({ type: 'operator', name, factValue, jsonValue }));
+  }
+
+  /**
+   * Stop the worker; later calls start a new one
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.loaded = null;
+    this.pending.forEach(call => {
+      clearTimeout(call.timer);
+      call.reject(new Error('Sandbox stopped'));
+    });
+    this.pending.clear();
+  }
+
+  private async assertCompiled(name: string): Promise<void> {
+    const errors = await this.load();
+    if (errors[name]) {
+      throw new Error(`${name} does not compile: ${errors[name]}`);
+    }
+  }
+
+  private load(): Promise<Record<string, string>> {
+    if (!this.loaded) {
+      this.loaded = this.call({
+        type: 'load',
+        definitions: this.definitions,
+        maxPayloadBytes: this.limits.maxPayloadBytes
+      });
+      // Let a later call retry if the worker could not start
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+
+  private getWorker(): Worker {
+    if (typeof Worker === 'undefined') {
+      throw new Error('Dynamic facts and custom operators need Web Worker support to run');
+    }
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./extensionSandbox.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+        const call = this.pending.get(event.data.id);
+        if (!call) return;
+        this.pending.delete(event.data.id);
+        clearTimeout(call.timer);
+        if (event.data.ok) {
+          call.resolve(event.data.value);
+        } else {
+          call.reject(new Error(event.data.error));
+        }
+      };
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.dispose();
+      };
+    }
+    return this.worker;
+  }
+
+  private call(request: SandboxCall): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (request.type !== 'load' && payloadSize(request) > this.limits.maxPayloadBytes) {
+        reject(new Error(`Sandbox input is larger than ${this.limits.maxPayloadBytes} bytes`));
+        return;
+      }
+
+      let worker: Worker;
+      try {
+        worker = this.getWorker();
+      } catch (error: any) {
+        reject(error);
+        return;
+      }
+
+      const id = this.nextId++;
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        // The worker may be stuck in a loop, so replace it
+        this.dispose();
+        reject(new Error(`${'name' in request ? request.name : 'Sandbox'} took longer than ${this.limits.timeoutMs}ms`));
+      }, request.type === 'load' ? this.limits.timeoutMs * 5 : this.limits.timeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer });
+      worker.postMessage({ ...request, id });
+    });
+  }
+}
+
+/**
+ * Run the documented examples of a dynamic fact
+ */
+export const testDynamicFact = async (
+  sandbox: ExtensionSandbox,
+  definition: DynamicFactDefinition
+): Promise<ExtensionTestResult[]> => {
+  const results: ExtensionTestResult[] = [];
+  for (const [index, example] of (definition.tests || []).entries()) {
+    try {
+      const actual = await sandbox.computeFact(definition.name, example.params, example.input || {});
+      results.push({ index, passed: isEqual(actual, example.expected), actual });
+    } catch (error: any) {
+      results.push({ index, passed: false, error: error.message });
+    }
+  }
+  return results;
+};
+
+/**
+ * Run the documented examples of a custom operator
+ */
+export const testCustomOperator = async (
+  sandbox: ExtensionSandbox,
+  definition: CustomOperatorDefinition
+): Promise<ExtensionTestResult[]> => {
+  const results: ExtensionTestResult[] = [];
+  for (const [index, example] of (definition.tests || []).entries()) {
+    try {
+      const actual = await sandbox.evaluateOperator(definition.name, example.factValue, example.jsonValue);
+      results.push({ index, passed: actual === example.expected, actual });
+    } catch (error: any) {
+      results.push({ index, passed: false, error: error.message });
+    }
+  }
+  return results;
+};
@@ -0,0 +1,178 @@
+import type { SandboxRequest, SandboxResponse } from './extensionSandbox';
+
+/**
+ * Worker side of ExtensionSandbox: compiles the config's dynamic fact
+ * calculators and custom operator evaluators and runs them on request.
+ */
+
+type FactCalculator = (params: any, almanac: WorkerAlmanac) => any;
+type OperatorEvaluator = (factValue: any, jsonValue: any) => any;
+
+interface WorkerAlmanac {
+  factValue: (name: string, params?: any, path?: string) => Promise<any>;
+}
+
+// Keep the messaging functions before config code can reach them
+const post = self.postMessage.bind(self) as (message: SandboxResponse) => void;
+const listen = self.addEventListener.bind(self);
+
+// Calculators may await other facts, so they compile as async functions
+const AsyncFunction = Object.getPrototypeOf(async () => undefined).constructor as FunctionConstructor;
+const SyncFunction = Function;
+const setTimer = self.setTimeout.bind(self);
+const setRepeatingTimer = self.setInterval.bind(self);
+
+// Config code gets no network, storage, messaging, nested workers or code generation
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts',
+  'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker', 'navigator',
+  'postMessage', 'addEventListener', 'onmessage', 'Function', 'eval'
+];
+BLOCKED_GLOBALS.forEach(name => {
+  for (let scope: any = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    try {
+      delete scope[name];
+    } catch {
+      // Not configurable on this object
+    }
+  }
+  try {
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  } catch {
+    // Already locked down by the browser
+  }
+});
+
+// Dynamic import() cannot be removed like a global, so config code may only
+// run the source that was checked for it: every way to compile new code at
+// runtime is cut off
+[SyncFunction, AsyncFunction, function* () { /* generator */ }.constructor, async function* () { /* generator */ }.constructor]
+  .forEach(constructor => Object.defineProperty(constructor.prototype, 'constructor', { value: undefined }));
+const codeFreeTimer = (timer: typeof setTimeout) => (handler: unknown, ...rest: unknown[]) => {
+  if (typeof handler !== 'function') throw new Error('Timers only accept functions in the sandbox');
+  return timer(handler as () => void, ...(rest as [number]));
+};
+Object.defineProperty(self, 'setTimeout', { value: codeFreeTimer(setTimer as typeof setTimeout), writable: false, configurable: false });
+Object.defineProperty(self, 'setInterval', { value: codeFreeTimer(setRepeatingTimer as typeof setTimeout), writable: false, configurable: false });
+
+/**
+ * What config code could still reach for network access or new code; the
+ * sandbox refuses to load anything unless this is empty
+ */
+const findEscapes = (): string[] => {
+  const scope = self as unknown as Record<string, unknown>;
+  const escapes = BLOCKED_GLOBALS.filter(name => scope[name] !== undefined);
+  if ((() => undefined).constructor !== undefined || (async () => undefined).constructor !== undefined) {
+    escapes.push('Function constructor');
+  }
+  return escapes;
+};
+
+/**
+ * Why config source cannot run. import() is syntax rather than a global, so
+ * it is refused here; the word is matched anywhere, including comments and
+ * strings, to leave no way of spelling it that slips through.
+ */
+const findForbiddenSyntax = (source: string): string | null =>
+  /\bimport\b/.test(source) ? 'Config code cannot import modules' : null;
+
+const facts = new Map<string, { calculator: FactCalculator; cache: boolean }>();
+const operators = new Map<string, OperatorEvaluator>();
+let maxPayloadBytes = Infinity;
+
+const resolvePath = (value: any, path: string): any => {
+  const steps = path.replace(/^\$\.?/, '').match(/[^.[\]'"]+/g) || [];
+  return steps.reduce((current, step) => (current === undefined || current === null ? undefined : current[step]), value);
+};
+
+/**
+ * Facts visible to a calculator: the input's keys and the other config facts
+ */
+const createAlmanac = (input: any): WorkerAlmanac => {
+  const cache = new Map<string, Promise<any>>();
+  const almanac: WorkerAlmanac = {
+    factValue: async (name, params = {}, path) => {
+      let value: any;
+      if (Object.prototype.hasOwnProperty.call(input, name)) {
+        value = input[name];
+      } else if (facts.has(name)) {
+        const fact = facts.get(name)!;
+        const cacheKey = `${name}:${JSON.stringify(params)}`;
+        if (!fact.cache || !cache.has(cacheKey)) {
+          cache.set(cacheKey, Promise.resolve(fact.calculator(params, almanac)));
+        }
+        value = await cache.get(cacheKey);
+      }
+      return path ? resolvePath(value, path) : value;
+    }
+  };
+  return almanac;
+};
+
+const handle = async (request: SandboxRequest): Promise<any> => {
+  switch (request.type) {
+    case 'load': {
+      const errors: Record<string, string> = {};
+      facts.clear();
+      operators.clear();
+      maxPayloadBytes = request.maxPayloadBytes;
+
+      const escapes = findEscapes();
+      if (escapes.length > 0) {
+        throw new Error(`Sandbox could not block ${escapes.join(', ')}; refusing to run config code`);
+      }
+
+      request.definitions.dynamicFacts.forEach(definition => {
+        const forbidden = findForbiddenSyntax(definition.calculator);
+        if (forbidden) {
+          errors[definition.name] = forbidden;
+          return;
+        }
+        try {
+          const calculator = new AsyncFunction('params', 'almanac', definition.calculator) as FactCalculator;
+          facts.set(definition.name, { calculator, cache: definition.options?.cache !== false });
+        } catch (error: any) {
+          errors[definition.name] = error.message;
+        }
+      });
+      request.definitions.customOperators.forEach(definition => {
+        const forbidden = findForbiddenSyntax(definition.evaluator);
+        if (forbidden) {
+          errors[definition.name] = forbidden;
+          return;
+        }
+        try {
+          operators.set(definition.name, new SyncFunction('factValue', 'jsonValue', definition.evaluator) as OperatorEvaluator);
+        } catch (error: any) {
+          errors[definition.name] = error.message;
+        }
+      });
+      return errors;
+    }
+
+    case 'fact': {
+      const fact = facts.get(request.name);
+      if (!fact) throw new Error(`Unknown dynamic fact: ${request.name}`);
+      return fact.calculator(request.params, createAlmanac(request.input));
+    }
+
+    case 'operator': {
+      const operator = operators.get(request.name);
+      if (!operator) throw new Error(`Unknown operator: ${request.name}`);
+      return operator(request.factValue, request.jsonValue);
+    }
+  }
+};
+
+listen('message', async (event: MessageEvent<SandboxRequest>) => {
+  const { id } = event.data;
+  try {
+    const value = await handle(event.data);
+    if (JSON.stringify(value ?? null).length > maxPayloadBytes) {
+      throw new Error(`Result is larger than ${maxPayloadBytes} bytes`);
+    }
+    post({ id, ok: true, value });
+  } catch (error: any) {
+    post({ id, ok: false, error: error?.message || String(error) });
+  }
+});
@@ -0,0 +1,135 @@
+import type { FactDefinition, FactType, RuleCondition } from '../components/VisualRuleEditor/types';
+
+export const FACT_TYPES: FactType[] = ['string', 'number', 'boolean', 'enum', 'list'];
+
+/**
+ * Suggested sources; any other text is allowed
+ */
+export const FACT_SOURCES = ['IVR', 'bot', 'CRM'];
+
+/**
+ * Facts every rule can use without declaring them
+ */
+export const BUILT_IN_FACTS: Record<string, string> = {
+  inputValue: 'Value of the input key named in `params.key`',
+  hasKey: 'Whether the input has the key named in `params.key`',
+  keyCount: 'Number of keys in the input',
+  isBusinessHours: 'Whether it is within business hours of the calendar named in `params.calendar`, or Monday to Friday 09:00-17:00 without one',
+  currentTimestamp: 'Current time in milliseconds since 1970',
+  currentHour: 'Current hour (0-23) in `params.timezone` or the simulated timezone'
+};
+
+/**
+ * Operators that make sense for each fact type, in the order they are offered
+ */
+export const OPERATORS_BY_FACT_TYPE: Record<FactType, string[]> = {
+  string: ['equal', 'notEqual', 'in', 'notIn', 'startsWith', 'endsWith', 'matchesPattern'],
+  number: ['equal', 'notEqual', 'greaterThan', 'greaterThanInclusive', 'lessThan', 'lessThanInclusive', 'in', 'notIn'],
+  boolean: ['equal', 'notEqual'],
+  enum: ['equal', 'notEqual', 'in', 'notIn'],
+  list: ['contains', 'doesNotContain', 'containsAny', 'containsAll']
+};
+
+/**
+ * Operators whose value is an array of candidates
+ */
+export const MULTI_VALUE_OPERATORS = ['in', 'notIn', 'containsAny', 'containsAll'];
+
+/**
+ * Operators that only test presence and take no meaningful value
+ */
+const PRESENCE_OPERATORS = ['exists', 'doesNotExist'];
+
+/**
+ * Catalog name a condition reads: the `params.key` of `inputValue` and
+ * `hasKey`, otherwise the fact itself
+ */
+export const getConditionFactName = (condition: RuleCondition): string | undefined =>
+  condition.fact === 'inputValue' || condition.fact === 'hasKey' ? condition.params?.key : condition.fact;
+
+export const findFactDefinition = (catalog: FactDefinition[] | undefined, name: string | undefined): FactDefinition | undefined =>
+  name ? catalog?.find(definition => definition.name === name) : undefined;
+
+const describeValue = (value: any) => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value));
+
+/**
+ * Problem with comparing a declared fact, and the part of the condition it is in
+ */
+export interface FactComparisonProblem {
+  field: 'operator' | 'value';
+  message: string;
+}
+
+/**
+ * Why comparing a declared fact with `operator` and `value` looks wrong, or
+ * null when it does not
+ */
+export const checkFactComparison = (definition: FactDefinition, operator: string | undefined, value: any): FactComparisonProblem | null => {
+  if (!operator || PRESENCE_OPERATORS.includes(operator)) return null;
+
+  const operators = OPERATORS_BY_FACT_TYPE[definition.type];
+  if (operators && !operators.includes(operator)) {
+    return { field: 'operator', message: `${definition.name} is a ${definition.type} fact; "${operator}" does not suit it` };
+  }
+
+  const mismatch = (message: string): FactComparisonProblem => ({ field: 'value', message });
+
+  const candidates = MULTI_VALUE_OPERATORS.includes(operator) && Array.isArray(value) ? value : [value];
+  for (const candidate of candidates) {
+    switch (definition.type) {
+      case 'number':
+        if (typeof candidate !== 'number') return mismatch(`${definition.name} is a number fact but is compared with ${describeValue(candidate)}`);
+        break;
+      case 'boolean':
+        if (typeof candidate !== 'boolean') return mismatch(`${definition.name} is a boolean fact but is compared with ${describeValue(candidate)}`);
+        break;
+      case 'string':
+        if (typeof candidate !== 'string') return mismatch(`${definition.name} is a string fact but is compared with ${describeValue(candidate)}`);
+        break;
+      case 'enum':
+      case 'list':
+        if (definition.values?.length && !definition.values.includes(candidate)) {
+          return mismatch(`${describeValue(candidate)} is not one of the values of ${definition.name}: ${definition.values.join(', ')}`);
+        }
+        break;
+    }
+  }
+  return null;
+};
+
+/**
+ * Catalog entries for facts used in conditions that the catalog does not
+ * declare yet, typed from the values they are compared with
+ */
+export const inferUndeclaredFacts = (conditions: RuleCondition[], catalog: FactDefinition[], dynamicFacts: string[] = []): FactDefinition[] => {
+  const found = new Map<string, { values: any[]; operators: string[] }>();
+
+  const visit = (condition: RuleCondition | undefined) => {
+    if (!condition || typeof condition !== 'object') return;
+    [...(condition.all || []), ...(condition.any || []), condition.not].forEach(visit);
+
+    const name = getConditionFactName(condition);
+    if (!name || findFactDefinition(catalog, name) || dynamicFacts.includes(name)) return;
+    if (condition.fact === name && BUILT_IN_FACTS[name]) return;
+
+    const entry = found.get(name) || { values: [], operators: [] };
+    if (condition.fact !== 'hasKey') {
+      entry.values.push(...(Array.isArray(condition.value) ? condition.value : [condition.value]));
+      if (condition.operator) entry.operators.push(condition.operator);
+    }
+    found.set(name, entry);
+  };
+  conditions.forEach(visit);
+
+  return [...found.entries()].map(([name, { values, operators }]) => {
+    const known = values.filter(value => value !== undefined);
+    const type: FactType = operators.some(operator => OPERATORS_BY_FACT_TYPE.list.includes(operator))
+      ? 'list'
+      : known.length > 0 && known.every(value => typeof value === 'number')
+        ? 'number'
+        : known.length > 0 && known.every(value => typeof value === 'boolean')
+          ? 'boolean'
+          : 'string';
+    return { name, type, description: '' };
+  });
+};
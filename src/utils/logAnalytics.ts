@@ -0,0 +1,187 @@
+import dayjs from 'dayjs';
+import type { ExecutionLogEntry } from '../services/genesysService';
+
+export type TimeBucket = 'hour' | 'day';
+
+/**
+ * Headline figures for a set of executions; rates are fractions of `calls`
+ */
+export interface ExecutionSummary {
+  calls: number;
+  fallbackRate: number;
+  errorRate: number;
+  p50: number;
+  p95: number;
+}
+
+/**
+ * Summary of the executions handled by one rules version
+ */
+export interface VersionSummary extends ExecutionSummary {
+  version: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/**
+ * Executions in one time bucket, with a count per destination keyed by name
+ */
+export interface TimeBucketPoint {
+  time: number;
+  calls: number;
+  fallbackRate: number;
+  errorRate: number;
+  p50: number;
+  p95: number;
+  destinations: Record<string, number>;
+}
+
+/**
+ * Nearest-rank percentile, 0 for no values
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+/**
+ * Whether no rule matched and the default destination was used
+ */
+export const isFallback = (entry: ExecutionLogEntry): boolean => entry.matchedRules.length === 0;
+
+/**
+ * Headline figures for a set of executions
+ */
+export const summariseExecutions = (entries: ExecutionLogEntry[]): ExecutionSummary => {
+  const times = entries.map(entry => entry.executionTime);
+  const calls = entries.length;
+  return {
+    calls,
+    fallbackRate: calls ? entries.filter(isFallback).length / calls : 0,
+    errorRate: calls ? entries.filter(entry => entry.error).length / calls : 0,
+    p50: percentile(times, 50),
+    p95: percentile(times, 95)
+  };
+};
+
+/**
+ * Summaries per rules version, newest version first
+ */
+export const summariseByVersion = (entries: ExecutionLogEntry[]): VersionSummary[] => {
+  const byVersion = new Map<number, ExecutionLogEntry[]>();
+  entries.forEach(entry => {
+    const versionEntries = byVersion.get(entry.rulesVersion);
+    if (versionEntries) versionEntries.push(entry);
+    else byVersion.set(entry.rulesVersion, [entry]);
+  });
+
+  return [...byVersion.entries()]
+    .map(([version, versionEntries]) => {
+      const timestamps = versionEntries.map(entry => entry.timestamp).sort();
+      return {
+        version,
+        ...summariseExecutions(versionEntries),
+        firstSeen: timestamps[0],
+        lastSeen: timestamps[timestamps.length - 1]
+      };
+    })
+    .sort((a, b) => b.version - a.version);
+};
+
+/**
+ * Group executions into hourly or daily buckets, oldest first.
+ * Buckets start on the local hour or midnight, so days stay aligned across
+ * daylight saving changes. Empty buckets between the first and last
+ * execution are included so charts show gaps in traffic.
+ */
+export const bucketExecutions = (entries: ExecutionLogEntry[], bucket: TimeBucket): TimeBucketPoint[] => {
+  if (entries.length === 0) return [];
+
+  const bucketOf = (timestamp: string) => dayjs(timestamp).startOf(bucket).valueOf();
+
+  const grouped = new Map<number, ExecutionLogEntry[]>();
+  entries.forEach(entry => {
+    const time = bucketOf(entry.timestamp);
+    const bucketEntries = grouped.get(time);
+    if (bucketEntries) bucketEntries.push(entry);
+    else grouped.set(time, [entry]);
+  });
+
+  const times = [...grouped.keys()];
+  const points: TimeBucketPoint[] = [];
+  const last = Math.max(...times);
+  for (let time = Math.min(...times); time <= last; time = dayjs(time).add(1, bucket).valueOf()) {
+    const bucketEntries = grouped.get(time) || [];
+    const destinations: Record<string, number> = {};
+    bucketEntries.forEach(entry => {
+      const destination = entry.output || 'none';
+      destinations[destination] = (destinations[destination] || 0) + 1;
+    });
+    points.push({ time, ...summariseExecutions(bucketEntries), destinations });
+  }
+  return points;
+};
+
+/**
+ * How often each rule matched, most frequent first
+ */
+export const countRuleHits = (entries: ExecutionLogEntry[]): Array<{ rule: string; hits: number }> => {
+  const hits = new Map<string, number>();
+  entries.forEach(entry => {
+    entry.matchedRules.forEach(rule => hits.set(rule, (hits.get(rule) || 0) + 1));
+  });
+  return [...hits.entries()]
+    .map(([rule, count]) => ({ rule, hits: count }))
+    .sort((a, b) => b.hits - a.hits);
+};
+
+/**
+ * Rule names that did not match any execution since the given time
+ */
+export const findUnmatchedRules = (ruleNames: string[], entries: ExecutionLogEntry[], since: string): string[] => {
+  const sinceTime = Date.parse(since);
+  const matched = new Set<string>();
+  entries
+    .filter(entry => Date.parse(entry.timestamp) >= sinceTime)
+    .forEach(entry => entry.matchedRules.forEach(rule => matched.add(rule)));
+  return ruleNames.filter(name => !matched.has(name));
+};
+
+/**
+ * A version going live, from a deploy or seen in the logs
+ */
+export interface ActivationPoint {
+  version: number;
+  time: number;
+}
+
+/**
+ * Every time a version went live, oldest first. Deploys come from the
+ * history; rollbacks and scheduled reverts re-activate an existing row
+ * without a new deploy time, so they are taken from the logs wherever
+ * executions switch to a version other than the one live before. Those
+ * are marked at the first execution on the version.
+ */
+export const findActivations = (deploys: ActivationPoint[], entries: ExecutionLogEntry[]): ActivationPoint[] => {
+  const activations = [...deploys].sort((a, b) => a.time - b.time);
+  const executions = entries
+    .map(entry => ({ version: entry.rulesVersion, time: Date.parse(entry.timestamp) }))
+    .sort((a, b) => a.time - b.time);
+
+  let deployIndex = 0;
+  let live: number | undefined;
+  const switches: ActivationPoint[] = [];
+  executions.forEach(execution => {
+    while (deployIndex < activations.length && activations[deployIndex].time <= execution.time) {
+      live = activations[deployIndex++].version;
+    }
+    if (live !== undefined && execution.version !== live) {
+      switches.push(execution);
+    }
+    live = execution.version;
+  });
+
+  return [...activations, ...switches].sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,114 @@
+import { RuleEngineSimulator } from './ruleEngineSimulator';
+
+/**
+ * What one rules config decided for an input
+ */
+export interface ReplayOutcome {
+  destination: string;
+  /** Rule that decided the route, or null when the default destination was used */
+  matchedRule: string | null;
+  /** Why the engine failed on the input, as it would fail the live call */
+  error?: string;
+}
+
+/**
+ * An input routed differently by the candidate rules
+ */
+export interface RegressionChange {
+  input: any;
+  /** How many of the replayed inputs were identical to this one */
+  count: number;
+  before: ReplayOutcome;
+  after: ReplayOutcome;
+  destinationChanged: boolean;
+  ruleChanged: boolean;
+}
+
+export interface RegressionReport {
+  total: number;
+  distinctInputs: number;
+  changes: RegressionChange[];
+}
+
+/**
+ * Parse uploaded replay inputs: a JSON array of input objects, or one JSON
+ * object per line. Exported log rows are accepted too; their `input` is used.
+ */
+export const parseReplayInputs = (text: string): any[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const items: any[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(/\r?\n/).filter(line => line.trim()).map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Line ${index + 1} is not valid JSON`);
+        }
+      });
+
+  return items
+    .map(item => (item && typeof item.input === 'object' && item.traceId !== undefined ? item.input : item))
+    .filter(item => typeof item === 'object' && item !== null && !Array.isArray(item));
+};
+
+/**
+ * Outcome of one input; engine errors such as undefined facts are reported
+ * instead of stopping the replay
+ */
+const replayInput = async (simulator: RuleEngineSimulator, input: any): Promise<ReplayOutcome> => {
+  try {
+    const result = await simulator.evaluate(input);
+    return { destination: result.destination, matchedRule: result.matchedRules[0] || null };
+  } catch (error: any) {
+    return { destination: 'Error', matchedRule: null, error: error.message };
+  }
+};
+
+/**
+ * Run inputs through the baseline and candidate rules and list every input
+ * whose destination or deciding rule changes, most frequent first
+ */
+export const runRegressionReplay = async (
+  baselineConfig: any,
+  candidateConfig: any,
+  inputs: any[]
+): Promise<RegressionReport> => {
+  const distinct = new Map<string, { input: any; count: number }>();
+  inputs.forEach(input => {
+    const id = JSON.stringify(input);
+    const existing = distinct.get(id);
+    if (existing) {
+      existing.count++;
+    } else {
+      distinct.set(id, { input, count: 1 });
+    }
+  });
+
+  const baseline = new RuleEngineSimulator(baselineConfig || { rules: [] }, { mode: 'engine' });
+  const candidate = new RuleEngineSimulator(candidateConfig, { mode: 'engine' });
+  const changes: RegressionChange[] = [];
+
+  try {
+    for (const { input, count } of distinct.values()) {
+      const before = await replayInput(baseline, input);
+      const after = await replayInput(candidate, input);
+      const destinationChanged = before.destination !== after.destination;
+      const ruleChanged = before.matchedRule !== after.matchedRule || before.error !== after.error;
+
+      if (destinationChanged || ruleChanged) {
+        changes.push({ input, count, before, after, destinationChanged, ruleChanged });
+      }
+    }
+  } finally {
+    baseline.dispose();
+    candidate.dispose();
+  }
+
+  return {
+    total: inputs.length,
+    distinctInputs: distinct.size,
+    changes: changes.sort((a, b) => b.count - a.count)
+  };
+};
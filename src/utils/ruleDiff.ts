@@ -0,0 +1,265 @@
+import { isEqual } from 'lodash';
+import { Rule, RuleCondition, RulesConfig } from '../components/VisualRuleEditor/types';
+
+export type DiffKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * Node of a condition tree diff
+ */
+export interface ConditionDiffNode {
+  kind: DiffKind;
+  /** Label of the condition in the newer version (or older one when removed) */
+  label: string;
+  /** Label in the older version when the condition itself changed */
+  previousLabel?: string;
+  children: ConditionDiffNode[];
+}
+
+/**
+ * Before/after pair for a scalar field
+ */
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * Semantic difference for one rule
+ */
+export interface RuleDiff {
+  name: string;
+  change: 'added' | 'removed' | 'renamed' | 'changed' | 'unchanged';
+  previousName?: string;
+  priority?: ValueChange<number | undefined>;
+  destination?: ValueChange<string | undefined>;
+  defaultDestination?: ValueChange<string | undefined>;
+  description?: ValueChange<string | undefined>;
+  eventChanged: boolean;
+  /** Tree diff of the conditions, only present when they changed */
+  conditions?: ConditionDiffNode;
+}
+
+/**
+ * Semantic difference between two rules configurations
+ */
+export interface RulesConfigDiff {
+  rules: RuleDiff[];
+  settingsChanged: string[];
+  summary: Record<RuleDiff['change'], number>;
+}
+
+const SETTINGS_SECTIONS = ['engineOptions', 'logging', 'dynamicFacts', 'customOperators', 'sharedConditions', 'calendars', 'factCatalog', 'destinations', 'testCases'] as const;
+
+/**
+ * Describe a single condition node in one line
+ */
+export const describeCondition = (condition: RuleCondition): string => {
+  if (condition.all) return 'ALL of';
+  if (condition.any) return 'ANY of';
+  if (condition.not) return 'NOT';
+  if (condition.condition) return `condition: ${condition.condition}`;
+
+  const fact = condition.params?.key ? `${condition.fact}[${condition.params.key}]` : condition.fact;
+  return `${fact} ${condition.operator} ${JSON.stringify(condition.value)}`;
+};
+
+/**
+ * Get the child conditions of a logical node
+ */
+const getChildren = (condition: RuleCondition): RuleCondition[] => {
+  if (condition.all) return condition.all;
+  if (condition.any) return condition.any;
+  if (condition.not) return [condition.not];
+  return [];
+};
+
+/**
+ * Type of the node, used to decide whether two nodes are comparable
+ */
+const nodeType = (condition: RuleCondition): string => {
+  if (condition.all) return 'all';
+  if (condition.any) return 'any';
+  if (condition.not) return 'not';
+  if (condition.condition) return 'reference';
+  return 'fact';
+};
+
+/**
+ * Mark a whole subtree as added or removed
+ */
+const markTree = (condition: RuleCondition, kind: 'added' | 'removed'): ConditionDiffNode => ({
+  kind,
+  label: describeCondition(condition),
+  children: getChildren(condition).map(child => markTree(child, kind))
+});
+
+/**
+ * Diff two lists of sibling conditions.
+ * Identical children are matched first, then children on the same fact or
+ * of the same logical type are paired as changes; the rest are added/removed.
+ */
+const diffChildren = (before: RuleCondition[], after: RuleCondition[]): ConditionDiffNode[] => {
+  const unmatchedBefore = before.map((_, index) => index);
+  const pairs: Array<[number | null, number]> = [];
+
+  after.forEach((child, afterIndex) => {
+    const match = unmatchedBefore.find(index => isEqual(before[index], child));
+    if (match !== undefined) {
+      unmatchedBefore.splice(unmatchedBefore.indexOf(match), 1);
+      pairs.push([match, afterIndex]);
+    } else {
+      pairs.push([null, afterIndex]);
+    }
+  });
+
+  pairs.forEach(pair => {
+    if (pair[0] !== null) return;
+    const child = after[pair[1]];
+    const similar = unmatchedBefore.find(index =>
+      nodeType(before[index]) === nodeType(child) &&
+      (nodeType(child) !== 'fact' || before[index].fact === child.fact)
+    );
+    if (similar !== undefined) {
+      unmatchedBefore.splice(unmatchedBefore.indexOf(similar), 1);
+      pair[0] = similar;
+    }
+  });
+
+  return [
+    ...pairs.map(([beforeIndex, afterIndex]) =>
+      beforeIndex === null
+        ? markTree(after[afterIndex], 'added')
+        : diffConditions(before[beforeIndex], after[afterIndex])
+    ),
+    ...unmatchedBefore.map(index => markTree(before[index], 'removed'))
+  ];
+};
+
+/**
+ * Diff two condition trees
+ */
+export const diffConditions = (before: RuleCondition, after: RuleCondition): ConditionDiffNode => {
+  if (isEqual(before, after)) {
+    return { kind: 'unchanged', label: describeCondition(after), children: getChildren(after).map(child => diffConditions(child, child)) };
+  }
+
+  if (nodeType(before) !== nodeType(after) || nodeType(after) === 'fact' || nodeType(after) === 'reference') {
+    // Leaf changes, or a logical node replaced by a different kind of node
+    const children = nodeType(before) === nodeType(after)
+      ? []
+      : [...getChildren(before).map(child => markTree(child, 'removed')), ...getChildren(after).map(child => markTree(child, 'added'))];
+    return {
+      kind: 'changed',
+      label: describeCondition(after),
+      previousLabel: describeCondition(before),
+      children
+    };
+  }
+
+  return {
+    kind: 'changed',
+    label: describeCondition(after),
+    children: diffChildren(getChildren(before), getChildren(after))
+  };
+};
+
+/**
+ * Compare the parts of a rule that decide routing, ignoring its name and layout
+ */
+const sameBehaviour = (a: Rule, b: Rule): boolean =>
+  isEqual(a.conditions, b.conditions) &&
+  isEqual(a.event, b.event) &&
+  a.priority === b.priority &&
+  a.defaultDestination === b.defaultDestination;
+
+/**
+ * Build the diff for a rule present in both versions
+ */
+const diffRule = (before: Rule, after: Rule, previousName?: string): RuleDiff => {
+  const diff: RuleDiff = { name: after.name, change: 'unchanged', eventChanged: !isEqual(before.event, after.event) };
+
+  if (previousName) {
+    diff.change = 'renamed';
+    diff.previousName = previousName;
+  }
+  if (before.priority !== after.priority) {
+    diff.priority = { before: before.priority, after: after.priority };
+  }
+  if (before.event?.params?.destination !== after.event?.params?.destination) {
+    diff.destination = { before: before.event?.params?.destination, after: after.event?.params?.destination };
+  }
+  if (before.defaultDestination !== after.defaultDestination) {
+    diff.defaultDestination = { before: before.defaultDestination, after: after.defaultDestination };
+  }
+  if ((before.description || '') !== (after.description || '')) {
+    diff.description = { before: before.description, after: after.description };
+  }
+  if (!isEqual(before.conditions, after.conditions)) {
+    diff.conditions = diffConditions(before.conditions || {}, after.conditions || {});
+  }
+
+  if (diff.change === 'unchanged' &&
+      (diff.priority || diff.destination || diff.defaultDestination || diff.description || diff.conditions || diff.eventChanged)) {
+    diff.change = 'changed';
+  }
+  return diff;
+};
+
+/**
+ * Structured diff between two rules configurations.
+ * Rules are matched by name; a rule that disappears while another with
+ * identical behaviour appears is reported as a rename.
+ */
+export const diffRulesConfigs = (before: RulesConfig | null, after: RulesConfig | null): RulesConfigDiff => {
+  const beforeRules = before?.rules || [];
+  const afterRules = after?.rules || [];
+  const beforeByName = new Map(beforeRules.map(rule => [rule.name, rule] as [string, Rule]));
+  const afterNames = new Set(afterRules.map(rule => rule.name));
+
+  const removed = beforeRules.filter(rule => !afterNames.has(rule.name));
+  const rules: RuleDiff[] = [];
+
+  afterRules.forEach(rule => {
+    const previous = beforeByName.get(rule.name);
+    if (previous) {
+      rules.push(diffRule(previous, rule));
+      return;
+    }
+
+    const renamedFrom = removed.find(candidate => sameBehaviour(candidate, rule));
+    if (renamedFrom) {
+      removed.splice(removed.indexOf(renamedFrom), 1);
+      rules.push(diffRule(renamedFrom, rule, renamedFrom.name));
+      return;
+    }
+
+    rules.push({
+      name: rule.name,
+      change: 'added',
+      eventChanged: false,
+      priority: { before: undefined, after: rule.priority },
+      destination: { before: undefined, after: rule.event?.params?.destination },
+      conditions: markTree(rule.conditions || {}, 'added')
+    });
+  });
+
+  removed.forEach(rule => {
+    rules.push({
+      name: rule.name,
+      change: 'removed',
+      eventChanged: false,
+      priority: { before: rule.priority, after: undefined },
+      destination: { before: rule.event?.params?.destination, after: undefined },
+      conditions: markTree(rule.conditions || {}, 'removed')
+    });
+  });
+
+  const summary: RulesConfigDiff['summary'] = { added: 0, removed: 0, renamed: 0, changed: 0, unchanged: 0 };
+  rules.forEach(rule => summary[rule.change]++);
+
+  return {
+    rules,
+    settingsChanged: SETTINGS_SECTIONS.filter(section => !isEqual(before?.[section], after?.[section])),
+    summary
+  };
+};
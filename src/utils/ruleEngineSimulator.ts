@@ -1,9 +1,16 @@
+import type { BusinessCalendar, SimulatedClock } from '../components/VisualRuleEditor/types';
+import { DEFAULT_BUSINESS_CALENDAR, isCalendarOpen, resolveClock, toZonedTime } from './businessCalendar';
+import { ExtensionSandbox } from './extensionSandbox';
+import { getErrors, isStructuralDiagnostic, validateRulesConfigDiagnostics } from './ruleValidation';
+
 export interface ConditionResult {
   fact: string;
   operator: string;
   expected: any;
   actual: any;
   passed: boolean;
+  /** Where the condition sits in the rule, e.g. `all[1].any[0]` */
+  path?: string;
 }
 
 export interface RuleEvaluationResult {
@@ -19,78 +26,258 @@ export interface TestResult {
   evaluationSteps: RuleEvaluationResult[];
 }
 
+/**
+ * Event emitted by a passing rule in engine mode
+ */
+export interface SimulatorEvent {
+  ruleName: string;
+  type: string;
+  params: Record<string, any>;
+}
+
+/**
+ * `firstMatch` stops at the first passing rule, as the simulator always has.
+ * `engine` follows json-rules-engine: every rule is evaluated, events are
+ * emitted in priority order, undefined facts fail the run unless
+ * `engineOptions.allowUndefinedFacts` is set, and the config's dynamic facts,
+ * custom operators, fact paths and fact-valued comparisons are honoured.
+ */
+export type SimulatorMode = 'firstMatch' | 'engine';
+
+export interface SimulatorOptions {
+  mode?: SimulatorMode;
+  /** Sandbox for the config's dynamic facts and operators; one is created when needed */
+  sandbox?: ExtensionSandbox;
+  /** Date, time and timezone for time-based facts; the live clock when omitted */
+  clock?: SimulatedClock;
+}
+
+/**
+ * Fact lookups for one evaluation, cached like the engine's almanac
+ */
+interface SimulatorAlmanac {
+  input: any;
+  /** Moment the evaluation runs at, fixed for the whole run */
+  now: number;
+  timezone: string;
+  factValue: (name: string, params?: any, path?: string) => Promise<any>;
+}
+
+type OperatorEvaluator = (factValue: any, jsonValue: any) => boolean;
+
+/**
+ * Append a step to a condition path
+ */
+export const joinConditionPath = (path: string, step: string): string => (path ? `${path}.${step}` : step);
+
+/**
+ * Resolve a json-rules-engine fact path such as `$.address.city` or `$.items[0]`
+ */
+export const resolveFactPath = (value: any, path: string): any => {
+  const steps = path.replace(/^\$\.?/, '').match(/[^.[\]'"]+/g) || [];
+  return steps.reduce((current, step) => (current === undefined || current === null ? undefined : current[step]), value);
+};
+
+const isNumeric = (value: any): boolean => Number.parseFloat(value).toString() !== 'NaN';
+
+/**
+ * json-rules-engine's default operators, including its fact value checks:
+ * numeric operators need a numeric fact and `contains` needs an array fact
+ */
+const ENGINE_OPERATORS: Record<string, OperatorEvaluator> = {
+  equal: (a, b) => a === b,
+  notEqual: (a, b) => a !== b,
+  in: (a, b) => typeof b?.indexOf === 'function' && b.indexOf(a) > -1,
+  notIn: (a, b) => typeof b?.indexOf === 'function' && b.indexOf(a) === -1,
+  contains: (a, b) => Array.isArray(a) && a.indexOf(b) > -1,
+  doesNotContain: (a, b) => Array.isArray(a) && a.indexOf(b) === -1,
+  lessThan: (a, b) => isNumeric(a) && a < b,
+  lessThanInclusive: (a, b) => isNumeric(a) && a <= b,
+  greaterThan: (a, b) => isNumeric(a) && a > b,
+  greaterThanInclusive: (a, b) => isNumeric(a) && a >= b
+};
+
+/**
+ * Operators the Lambda registers on top of the engine defaults
+ */
+const LAMBDA_OPERATORS = ['startsWith', 'endsWith', 'matchesPattern', 'containsAny', 'containsAll', 'exists', 'doesNotExist'];
+
 /**
  * Client-side simulation of the json-rules-engine
  * Mimics the behaviour of the Lambda function for testing purposes
  */
 export class RuleEngineSimulator {
   private rules: any[];
-  private dynamicFacts: Map<string, (params: any, input: any) => any>;
+  private mode: SimulatorMode;
+  private engineOptions: { allowUndefinedFacts?: boolean; allowUndefinedConditions?: boolean; replaceFactsInEventParams?: boolean };
+  private sharedConditions: Record<string, any>;
+  private calendars: Record<string, BusinessCalendar>;
+  private clock: SimulatedClock | undefined;
+  private dynamicFacts: Map<string, (params: any, almanac: SimulatorAlmanac) => any>;
+  /** Config dynamic facts, by name, and whether their values are cached */
+  private configFacts: Map<string, boolean>;
+  private customOperators: Set<string>;
+  private sandbox: ExtensionSandbox | null = null;
+  private ownsSandbox = false;
 
-  constructor(rulesConfig: any) {
+  constructor(rulesConfig: any, options: SimulatorOptions = {}) {
     this.rules = rulesConfig.rules || [];
+    this.mode = options.mode || 'firstMatch';
+    this.engineOptions = rulesConfig.engineOptions || {};
+    this.sharedConditions = rulesConfig.sharedConditions || {};
+    this.calendars = rulesConfig.calendars || {};
+    this.clock = options.clock;
     this.dynamicFacts = new Map();
-    
+    this.configFacts = new Map();
+    this.customOperators = new Set();
+
     // Register built-in dynamic facts
     this.registerDynamicFacts();
+
+    // Config facts and operators run in a worker sandbox, never on the page
+    if (this.mode === 'engine' && ExtensionSandbox.isNeeded(rulesConfig)) {
+      const dynamicFacts = rulesConfig.dynamicFacts || [];
+      const customOperators = rulesConfig.customOperators || [];
+      dynamicFacts.forEach((fact: any) => this.configFacts.set(fact.name, fact.options?.cache !== false));
+      customOperators.forEach((operator: any) => this.customOperators.add(operator.name));
+      this.sandbox = options.sandbox || new ExtensionSandbox({ dynamicFacts, customOperators });
+      this.ownsSandbox = !options.sandbox;
+    }
+  }
+
+  /**
+   * Stop the sandbox worker if this simulator started one
+   */
+  dispose(): void {
+    if (this.ownsSandbox) {
+      this.sandbox?.dispose();
+    }
   }
 
   /**
    * Register dynamic facts that can be used in rules
    */
   private registerDynamicFacts(): void {
-    // Business hours fact
-    this.dynamicFacts.set('isBusinessHours', () => {
-      const now = new Date();
-      const day = now.getDay();
-      const hour = now.getHours();
-      return day >= 1 && day <= 5 && hour >= 9 && hour < 17;
+    // Business hours fact, from the calendar named in params or Mon-Fri 9-17
+    this.dynamicFacts.set('isBusinessHours', (params: any, almanac: SimulatorAlmanac) => {
+      const calendar = params?.calendar ? this.calendars[params.calendar] : DEFAULT_BUSINESS_CALENDAR;
+      if (!calendar) {
+        throw new Error(`Unknown calendar: ${params.calendar}`);
+      }
+      return isCalendarOpen(calendar, almanac.now, almanac.timezone);
     });
 
     // Check if key exists
-    this.dynamicFacts.set('hasKey', (params: any, input: any) => {
-      return input.hasOwnProperty(params.key);
+    this.dynamicFacts.set('hasKey', (params: any, almanac: SimulatorAlmanac) => {
+      return almanac.input.hasOwnProperty(params.key);
     });
 
     // Count of keys in input
-    this.dynamicFacts.set('keyCount', (_params: any, input: any) => {
-      return Object.keys(input).length;
+    this.dynamicFacts.set('keyCount', (_params: any, almanac: SimulatorAlmanac) => {
+      return Object.keys(almanac.input).length;
     });
 
     // Get current timestamp
-    this.dynamicFacts.set('currentTimestamp', () => {
-      return Date.now();
+    this.dynamicFacts.set('currentTimestamp', (_params: any, almanac: SimulatorAlmanac) => {
+      return almanac.now;
     });
 
-    // Get current hour
-    this.dynamicFacts.set('currentHour', () => {
-      return new Date().getHours();
+    // Get current hour, in params.timezone or the simulated timezone
+    this.dynamicFacts.set('currentHour', (params: any, almanac: SimulatorAlmanac) => {
+      return toZonedTime(almanac.now, params?.timezone || almanac.timezone).hour;
     });
   }
 
   /**
-   * Evaluate all rules against the input
+   * Fact lookups for one input. In engine mode facts are the input's keys,
+   * the built-in facts and the config's dynamic facts, in that order; cached
+   * dynamic facts are computed once per params.
+   */
+  private createAlmanac(input: any, clock: SimulatedClock | undefined): SimulatorAlmanac {
+    const cache = new Map<string, Promise<any>>();
+    const { now, timezone } = resolveClock(clock);
+
+    const almanac: SimulatorAlmanac = {
+      input,
+      now,
+      timezone,
+      factValue: async (name: string, params: any = {}, path?: string) => {
+        let value: any;
+
+        if (Object.prototype.hasOwnProperty.call(input, name)) {
+          value = input[name];
+        } else if (name === 'inputValue' && params?.key) {
+          value = input[params.key];
+        } else if (this.dynamicFacts.has(name)) {
+          value = this.dynamicFacts.get(name)!(params, almanac);
+        } else if (this.configFacts.has(name)) {
+          const cacheKey = `${name}:${JSON.stringify(params)}`;
+          if (!this.configFacts.get(name) || !cache.has(cacheKey)) {
+            cache.set(cacheKey, this.sandbox!.computeFact(name, params, input));
+          }
+          value = await cache.get(cacheKey);
+        } else if (this.engineOptions.allowUndefinedFacts) {
+          value = undefined;
+        } else {
+          throw new Error(`Undefined fact: ${name}`);
+        }
+
+        return path ? resolveFactPath(value, path) : value;
+      }
+    };
+    return almanac;
+  }
+
+  /**
+   * Rules sorted by priority (highest first)
    */
-  async evaluate(input: any): Promise<{
+  private getSortedRules(): any[] {
+    return [...this.rules].sort((a, b) => {
+      const priorityA = typeof a.priority === 'number' ? a.priority : 0;
+      const priorityB = typeof b.priority === 'number' ? b.priority : 0;
+      return priorityB - priorityA;
+    });
+  }
+
+  /**
+   * Evaluate every rule against the input without stopping at the first
+   * match, highest priority first
+   */
+  async evaluateAll(input: any, clock: SimulatedClock | undefined = this.clock): Promise<RuleEvaluationResult[]> {
+    const almanac = this.createAlmanac(input, clock);
+    const results: RuleEvaluationResult[] = [];
+    for (const rule of this.getSortedRules()) {
+      results.push(await this.evaluateRule(rule, almanac));
+    }
+    return results;
+  }
+
+  /**
+   * Evaluate all rules against the input, at the given clock or the one the
+   * simulator was created with
+   */
+  async evaluate(input: any, clock: SimulatedClock | undefined = this.clock): Promise<{
     destination: string;
     matchedRules: string[];
     evaluationSteps: RuleEvaluationResult[];
+    /** Events in the order the engine emits them; engine mode only */
+    events?: SimulatorEvent[];
   }> {
+    if (this.mode === 'engine') {
+      return this.evaluateEngine(input, clock);
+    }
+
+    const almanac = this.createAlmanac(input, clock);
     const evaluationSteps: RuleEvaluationResult[] = [];
     const matchedRules: string[] = [];
-    
-    // Sort rules by priority (highest first)
-    const sortedRules = [...this.rules].sort((a, b) => {
-      const priorityA = typeof a.priority === 'number' ? a.priority : 0;
-      const priorityB = typeof b.priority === 'number' ? b.priority : 0;
-      return priorityB - priorityA;
-    });
+
+    const sortedRules = this.getSortedRules();
 
     // Evaluate each rule
     for (const rule of sortedRules) {
-      const evaluation = await this.evaluateRule(rule, input);
+      const evaluation = await this.evaluateRule(rule, almanac);
       evaluationSteps.push(evaluation);
-      
+
       if (evaluation.passed) {
         matchedRules.push(rule.name);
         // Return first matching rule's destination, fallback to rule's default destination
@@ -102,30 +289,85 @@ export class RuleEngineSimulator {
       }
     }
 
-    // No rules matched, use the lowest priority rule's default destination
-    // (rules are sorted by priority highest to lowest, so last rule is lowest priority)
-    const lowestPriorityRule = sortedRules[sortedRules.length - 1];
-    const fallbackDestination = lowestPriorityRule?.defaultDestination || 'Unknown';
-    
     return {
-      destination: fallbackDestination,
+      destination: this.getFallbackDestination(sortedRules),
       matchedRules: [],
       evaluationSteps
     };
   }
 
+  /**
+   * No rules matched, use the lowest priority rule's default destination
+   * (rules are sorted by priority highest to lowest, so last rule is lowest priority)
+   */
+  private getFallbackDestination(sortedRules: any[]): string {
+    const lowestPriorityRule = sortedRules[sortedRules.length - 1];
+    return lowestPriorityRule?.defaultDestination || 'Unknown';
+  }
+
+  /**
+   * Run the input the way json-rules-engine does: every rule is evaluated and
+   * each passing rule emits its event, highest priority first. The first
+   * event decides the route. Errors such as undefined facts fail the whole
+   * run, as they do in the Lambda.
+   */
+  private async evaluateEngine(input: any, clock: SimulatedClock | undefined) {
+    const almanac = this.createAlmanac(input, clock);
+    const sortedRules = this.getSortedRules();
+    const evaluationSteps: RuleEvaluationResult[] = [];
+    const events: SimulatorEvent[] = [];
+
+    for (const rule of sortedRules) {
+      const evaluation = await this.evaluateRule(rule, almanac);
+      evaluationSteps.push(evaluation);
+
+      if (evaluation.passed) {
+        const params = this.engineOptions.replaceFactsInEventParams
+          ? await this.replaceFactsInParams(rule.event?.params || {}, almanac)
+          : { ...(rule.event?.params || {}) };
+        events.push({ ruleName: rule.name, type: rule.event?.type, params });
+      }
+    }
+
+    const first = events[0];
+    return {
+      destination: first
+        ? first.params.destination || sortedRules.find(rule => rule.name === first.ruleName)?.defaultDestination || 'Unknown'
+        : this.getFallbackDestination(sortedRules),
+      matchedRules: events.map(event => event.ruleName),
+      evaluationSteps,
+      events
+    };
+  }
+
+  /**
+   * Swap `{ "fact": ... }` event params for the fact's value
+   */
+  private async replaceFactsInParams(params: Record<string, any>, almanac: SimulatorAlmanac): Promise<Record<string, any>> {
+    const replaced: Record<string, any> = {};
+    for (const [key, value] of Object.entries(params)) {
+      replaced[key] = value && typeof value === 'object' && typeof value.fact === 'string'
+        ? await almanac.factValue(value.fact, value.params, value.path)
+        : value;
+    }
+    return replaced;
+  }
+
   /**
    * Evaluate a single rule
    */
-  private async evaluateRule(rule: any, input: any): Promise<RuleEvaluationResult> {
+  private async evaluateRule(rule: any, almanac: SimulatorAlmanac): Promise<RuleEvaluationResult> {
     const conditions: ConditionResult[] = [];
     let passed = false;
 
     try {
       if (rule.conditions) {
-        passed = await this.evaluateConditions(rule.conditions, input, conditions);
+        passed = await this.evaluateConditions(rule.conditions, almanac, conditions);
+      }
+    } catch (error: any) {
+      if (this.mode === 'engine') {
+        throw new Error(`Rule ${rule.name}: ${error.message}`);
       }
-    } catch (error) {
       console.error(`Error evaluating rule ${rule.name}:`, error);
       passed = false;
     }
@@ -141,61 +383,71 @@ export class RuleEngineSimulator {
    * Recursively evaluate conditions
    */
   private async evaluateConditions(
-    conditions: any, 
-    input: any, 
-    conditionResults: ConditionResult[]
+    conditions: any,
+    almanac: SimulatorAlmanac,
+    conditionResults: ConditionResult[],
+    path: string = ''
   ): Promise<boolean> {
     // Handle 'all' conditions (AND)
     if (conditions.all && Array.isArray(conditions.all)) {
       const results = await Promise.all(
-        conditions.all.map((cond: any) => this.evaluateCondition(cond, input, conditionResults))
+        conditions.all.map((cond: any, index: number) =>
+          this.evaluateCondition(cond, almanac, conditionResults, joinConditionPath(path, `all[${index}]`)))
       );
       return results.every(r => r === true);
     }
-    
+
     // Handle 'any' conditions (OR)
     if (conditions.any && Array.isArray(conditions.any)) {
       const results = await Promise.all(
-        conditions.any.map((cond: any) => this.evaluateCondition(cond, input, conditionResults))
+        conditions.any.map((cond: any, index: number) =>
+          this.evaluateCondition(cond, almanac, conditionResults, joinConditionPath(path, `any[${index}]`)))
       );
       return results.some(r => r === true);
     }
-    
+
     // Handle 'not' conditions
     if (conditions.not) {
-      const result = await this.evaluateConditions(conditions.not, input, conditionResults);
+      const result = await this.evaluateConditions(conditions.not, almanac, conditionResults, joinConditionPath(path, 'not'));
       return !result;
     }
-    
+
     // Single condition
-    return this.evaluateCondition(conditions, input, conditionResults);
+    return this.evaluateCondition(conditions, almanac, conditionResults, path);
   }
 
   /**
    * Evaluate a single condition
    */
   private async evaluateCondition(
-    condition: any, 
-    input: any, 
-    conditionResults: ConditionResult[]
+    condition: any,
+    almanac: SimulatorAlmanac,
+    conditionResults: ConditionResult[],
+    path: string = ''
   ): Promise<boolean> {
     // Handle nested conditions
     if (condition.all || condition.any || condition.not) {
-      return this.evaluateConditions(condition, input, conditionResults);
+      return this.evaluateConditions(condition, almanac, conditionResults, path);
     }
 
-    // Handle reference conditions
+    // Handle reference conditions, resolved from the config's shared conditions
     if (condition.condition) {
-      // This would reference a shared condition - not implemented in simulator
-      console.warn(`Reference conditions not supported in simulator: ${condition.condition}`);
+      const shared = this.sharedConditions[condition.condition];
+      if (shared) {
+        return this.evaluateConditions(shared, almanac, conditionResults, path);
+      }
+      if (this.mode === 'engine' && !this.engineOptions.allowUndefinedConditions) {
+        throw new Error(`No condition ${condition.condition} exists`);
+      }
+      console.warn(`Undefined condition reference: ${condition.condition}`);
       return false;
     }
 
     // Handle fact-based conditions
     if (condition.fact) {
-      return this.evaluateFactCondition(condition, input, conditionResults);
+      return this.evaluateFactCondition(condition, almanac, conditionResults, path);
     }
-    
+
     return false;
   }
 
@@ -203,42 +455,78 @@ export class RuleEngineSimulator {
    * Evaluate a fact-based condition
    */
   private async evaluateFactCondition(
-    condition: any, 
-    input: any, 
-    conditionResults: ConditionResult[]
+    condition: any,
+    almanac: SimulatorAlmanac,
+    conditionResults: ConditionResult[],
+    path: string = ''
   ): Promise<boolean> {
+    const input = almanac.input;
     let actual: any;
+    let expected = condition.value;
     let factName = condition.fact;
+    let passed: boolean;
 
-    // Handle inputValue fact
-    if (condition.fact === 'inputValue' && condition.params?.key) {
-      actual = input[condition.params.key];
-      factName = `inputValue.${condition.params.key}`;
-    }
-    // Handle dynamic facts
-    else if (this.dynamicFacts.has(condition.fact)) {
-      const factFunction = this.dynamicFacts.get(condition.fact)!;
-      actual = factFunction(condition.params || {}, input);
-    }
-    // Direct fact value
-    else {
-      actual = input[condition.fact];
+    if (this.mode === 'engine') {
+      actual = await almanac.factValue(condition.fact, condition.params, condition.path);
+      if (condition.fact === 'inputValue' && condition.params?.key) {
+        factName = `inputValue.${condition.params.key}`;
+      }
+      if (condition.path) {
+        factName = `${factName}${condition.path.replace(/^\$/, '')}`;
+      }
+      // The engine compares against another fact when the value is `{ "fact": ... }`
+      if (expected && typeof expected === 'object' && typeof expected.fact === 'string') {
+        expected = await almanac.factValue(expected.fact, expected.params, expected.path);
+      }
+      passed = await this.evaluateEngineOperator(actual, condition.operator, expected);
+    } else {
+      // Handle inputValue fact
+      if (condition.fact === 'inputValue' && condition.params?.key) {
+        actual = input[condition.params.key];
+        factName = `inputValue.${condition.params.key}`;
+      }
+      // Handle dynamic facts
+      else if (this.dynamicFacts.has(condition.fact)) {
+        const factFunction = this.dynamicFacts.get(condition.fact)!;
+        actual = factFunction(condition.params || {}, almanac);
+      }
+      // Direct fact value
+      else {
+        actual = input[condition.fact];
+      }
+      passed = this.evaluateOperator(actual, condition.operator, expected);
     }
 
-    const expected = condition.value;
-    const passed = this.evaluateOperator(actual, condition.operator, expected);
-    
     conditionResults.push({
       fact: factName,
       operator: condition.operator,
       expected,
       actual: actual !== undefined ? actual : 'undefined',
-      passed
+      passed,
+      path
     });
-    
+
     return passed;
   }
 
+  /**
+   * Operators in engine mode: config custom operators first, then the engine
+   * defaults, then the Lambda's own. Anything else fails the run as the
+   * engine does.
+   */
+  private async evaluateEngineOperator(actual: any, operator: string, expected: any): Promise<boolean> {
+    if (this.customOperators.has(operator)) {
+      return this.sandbox!.evaluateOperator(operator, actual, expected);
+    }
+    if (ENGINE_OPERATORS[operator]) {
+      return ENGINE_OPERATORS[operator](actual, expected);
+    }
+    if (LAMBDA_OPERATORS.includes(operator)) {
+      return this.evaluateOperator(actual, operator, expected);
+    }
+    throw new Error(`Unknown operator: ${operator}`);
+  }
+
   /**
    * Evaluate operators
    */
@@ -269,6 +557,7 @@ export class RuleEngineSimulator {
         return Number(actual) < Number(expected);
         
       case 'lessThanOrEqual':
+      case 'lessThanInclusive':
       case 'lte':
         return Number(actual) <= Number(expected);
         
@@ -277,6 +566,7 @@ export class RuleEngineSimulator {
         return Number(actual) > Number(expected);
         
       case 'greaterThanOrEqual':
+      case 'greaterThanInclusive':
       case 'gte':
         return Number(actual) >= Number(expected);
         
@@ -340,108 +630,9 @@ export function validateRuleStructure(rulesConfig: any): {
   isValid: boolean;
   errors: string[];
 } {
-  const errors: string[] = [];
-  
-  try {
-    if (!rulesConfig.rules || !Array.isArray(rulesConfig.rules)) {
-      errors.push('Missing or invalid field: rules (must be an array)');
-      return { isValid: false, errors };
-    }
-    
-    if (rulesConfig.rules.length === 0) {
-      errors.push('Rules array cannot be empty - at least one rule is required');
-      return { isValid: false, errors };
-    }
-    
-    // Validate each rule
-    rulesConfig.rules.forEach((rule: any, index: number) => {
-      const rulePrefix = `Rule ${index + 1}${rule.name ? ` (${rule.name})` : ''}`;
-      
-      // Required fields
-      if (!rule.name) {
-        errors.push(`${rulePrefix}: Missing required field 'name'`);
-      }
-      
-      if (typeof rule.priority !== 'number') {
-        errors.push(`${rulePrefix}: Priority must be a number`);
-      }
-      
-      if (!rule.defaultDestination) {
-        errors.push(`${rulePrefix}: Missing required field 'defaultDestination'`);
-      }
-      
-      if (!rule.conditions) {
-        errors.push(`${rulePrefix}: Missing required field 'conditions'`);
-      } else {
-        // Validate condition structure
-        const conditionErrors = validateConditionStructure(rule.conditions, `${rulePrefix} conditions`);
-        errors.push(...conditionErrors);
-      }
-      
-      if (!rule.event) {
-        errors.push(`${rulePrefix}: Missing required field 'event'`);
-      } else {
-        if (!rule.event.type) {
-          errors.push(`${rulePrefix}: Missing event.type`);
-        }
-        if (!rule.event.params?.destination) {
-          errors.push(`${rulePrefix}: Missing event.params.destination`);
-        }
-      }
-    });
-    
-  } catch (error: any) {
-    errors.push(`Invalid structure: ${error.message}`);
-  }
-  
+  const errors = getErrors(validateRulesConfigDiagnostics(rulesConfig).filter(isStructuralDiagnostic));
   return {
     isValid: errors.length === 0,
     errors
   };
 }
-
-/**
- * Recursively validate condition structure
- */
-function validateConditionStructure(condition: any, path: string): string[] {
-  const errors: string[] = [];
-  
-  if (!condition || typeof condition !== 'object') {
-    errors.push(`${path}: Invalid condition structure`);
-    return errors;
-  }
-  
-  // Check for logical operators
-  if (condition.all) {
-    if (!Array.isArray(condition.all)) {
-      errors.push(`${path}.all: Must be an array`);
-    } else {
-      condition.all.forEach((cond: any, idx: number) => {
-        errors.push(...validateConditionStructure(cond, `${path}.all[${idx}]`));
-      });
-    }
-  } else if (condition.any) {
-    if (!Array.isArray(condition.any)) {
-      errors.push(`${path}.any: Must be an array`);
-    } else {
-      condition.any.forEach((cond: any, idx: number) => {
-        errors.push(...validateConditionStructure(cond, `${path}.any[${idx}]`));
-      });
-    }
-  } else if (condition.not) {
-    errors.push(...validateConditionStructure(condition.not, `${path}.not`));
-  } else if (condition.fact) {
-    // Validate fact condition
-    if (!condition.operator) {
-      errors.push(`${path}: Missing operator for fact condition`);
-    }
-    if (!condition.hasOwnProperty('value')) {
-      errors.push(`${path}: Missing value for fact condition`);
-    }
-  } else if (!condition.condition) {
-    // Not a reference condition either
-    errors.push(`${path}: Invalid condition - must have 'all', 'any', 'not', 'fact', or 'condition'`);
-  }
-  
-  return errors;
-}
\ No newline at end of file
@@ -0,0 +1,337 @@
+import { isEqual } from 'lodash';
+import { Rule, RulesConfig } from '../components/VisualRuleEditor/types';
+
+/**
+ * Rule fields that are not merged like the others: `name` matches the rules
+ * up and `layout` is merged without ever conflicting
+ */
+const UNMERGED_RULE_FIELDS = ['name', 'layout'];
+
+/**
+ * Top-level config sections merged as a whole
+ */
+export const MERGED_CONFIG_SECTIONS = ['engineOptions', 'logging', 'dynamicFacts', 'customOperators', 'sharedConditions', 'calendars', 'factCatalog', 'destinations', 'testCases'] as const;
+
+export type MergedConfigSection = typeof MERGED_CONFIG_SECTIONS[number];
+
+export type MergeSide = 'mine' | 'theirs';
+
+/**
+ * What happened to a rule relative to the common base
+ */
+export type RuleMergeStatus =
+  | 'unchanged'
+  | 'added-mine'
+  | 'added-theirs'
+  | 'added-both'
+  | 'removed'
+  | 'changed'
+  | 'conflict';
+
+/**
+ * A single field edited differently on both sides
+ */
+export interface FieldConflict<T = unknown> {
+  field: string;
+  base: T | undefined;
+  mine: T | undefined;
+  theirs: T | undefined;
+}
+
+/**
+ * A top-level config section edited differently on both sides
+ */
+export interface SectionConflict extends FieldConflict<RulesConfig[MergedConfigSection]> {
+  field: MergedConfigSection;
+}
+
+/**
+ * Merge outcome for one rule, matched by name
+ */
+export interface RuleMergeEntry {
+  name: string;
+  status: RuleMergeStatus;
+  base?: Rule;
+  mine?: Rule;
+  theirs?: Rule;
+  /** Result without conflicting fields applied; undefined when the rule is removed */
+  merged?: Rule;
+  /** Rules kept when several share the name and both sides agree on them */
+  mergedGroup?: Rule[];
+  /**
+   * Field-level conflicts, a single `rule` conflict when one side removed the
+   * rule, or a single `duplicates` conflict when the name is shared by several rules
+   */
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Merge outcome for a whole rules configuration
+ */
+export interface RulesMergeResult {
+  rules: RuleMergeEntry[];
+  sections: SectionConflict[];
+  merged: RulesConfig;
+  conflictCount: number;
+}
+
+/**
+ * Chosen side per conflict, keyed by rule name (or `$config`) then field
+ */
+export type MergeResolutions = Record<string, Record<string, MergeSide>>;
+
+/** Resolution key used for top-level config sections */
+export const CONFIG_RESOLUTION_KEY = '$config';
+
+/** Field name used when the conflict is about the rule existing at all */
+export const RULE_EXISTENCE_FIELD = 'rule';
+
+/** Field name used when several rules share a name and cannot be matched up */
+export const DUPLICATE_NAME_FIELD = 'duplicates';
+
+/**
+ * Three-way merge of a single value
+ */
+const mergeValue = <T>(base: T | undefined, mine: T | undefined, theirs: T | undefined): { value: T | undefined; conflict: boolean } => {
+  if (isEqual(mine, theirs)) return { value: mine, conflict: false };
+  if (isEqual(mine, base)) return { value: theirs, conflict: false };
+  if (isEqual(theirs, base)) return { value: mine, conflict: false };
+  return { value: mine, conflict: true };
+};
+
+/**
+ * Set one top-level section; keyed generically so the value keeps that section's type
+ */
+const setSection = <K extends MergedConfigSection>(config: RulesConfig, section: K, value: RulesConfig[K] | undefined): void => {
+  config[section] = value;
+};
+
+/**
+ * Rules one side keeps in a conflict over rules sharing a name
+ */
+const getDuplicateRules = (conflict: FieldConflict, side: MergeSide): Rule[] => (conflict[side] as Rule[] | undefined) || [];
+
+/**
+ * Merge a rule present on both sides field by field, covering every field
+ * any of the three versions sets
+ */
+const mergeRuleFields = (base: Rule | undefined, mine: Rule, theirs: Rule): { merged: Rule; conflicts: FieldConflict[] } => {
+  const merged: Rule = { ...mine };
+  const mergedFields = merged as unknown as Record<string, unknown>;
+  const conflicts: FieldConflict[] = [];
+  const fields = new Set([...Object.keys(base || {}), ...Object.keys(mine), ...Object.keys(theirs)]);
+
+  fields.forEach(field => {
+    if (UNMERGED_RULE_FIELDS.includes(field)) return;
+    const [baseValue, mineValue, theirsValue] = [base, mine, theirs].map(
+      rule => (rule as unknown as Record<string, unknown> | undefined)?.[field]
+    );
+    const result = mergeValue(baseValue, mineValue, theirsValue);
+    if (result.value === undefined) {
+      delete mergedFields[field];
+    } else {
+      mergedFields[field] = result.value;
+    }
+    if (result.conflict) {
+      conflicts.push({ field, base: baseValue, mine: mineValue, theirs: theirsValue });
+    }
+  });
+
+  // Layout only affects the visual editor, so never raise a conflict for it
+  merged.layout = mergeValue(base?.layout, mine.layout, theirs.layout).value;
+  if (merged.layout === undefined) {
+    delete merged.layout;
+  }
+
+  return { merged, conflicts };
+};
+
+/**
+ * Merge one rule given its three versions
+ */
+const mergeRule = (name: string, base?: Rule, mine?: Rule, theirs?: Rule): RuleMergeEntry => {
+  const entry: RuleMergeEntry = { name, status: 'unchanged', base, mine, theirs, conflicts: [] };
+
+  if (mine && theirs) {
+    const { merged, conflicts } = mergeRuleFields(base, mine, theirs);
+    entry.merged = merged;
+    entry.conflicts = conflicts;
+    if (conflicts.length > 0) {
+      entry.status = 'conflict';
+    } else if (!base) {
+      entry.status = 'added-both';
+    } else if (!isEqual(merged, base)) {
+      entry.status = 'changed';
+    }
+    return entry;
+  }
+
+  if (!base) {
+    // Added on one side only
+    entry.merged = mine || theirs;
+    entry.status = mine ? 'added-mine' : 'added-theirs';
+    return entry;
+  }
+
+  // Removed on at least one side
+  const survivor = mine || theirs;
+  if (!survivor || isEqual(survivor, base)) {
+    entry.status = 'removed';
+    return entry;
+  }
+
+  // One side removed the rule while the other changed it
+  entry.status = 'conflict';
+  entry.merged = survivor;
+  entry.conflicts = [{ field: RULE_EXISTENCE_FIELD, base, mine, theirs }];
+  return entry;
+};
+
+/**
+ * Merge rules sharing a name. They cannot be matched up one to one, so any
+ * difference between the sides is a conflict over the whole group.
+ */
+const mergeDuplicateRules = (name: string, base: Rule[], mine: Rule[], theirs: Rule[]): RuleMergeEntry => {
+  const entry: RuleMergeEntry = { name, status: 'unchanged', base: base[0], mine: mine[0], theirs: theirs[0], conflicts: [] };
+
+  if (!isEqual(mine, theirs)) {
+    entry.status = 'conflict';
+    entry.conflicts = [{ field: DUPLICATE_NAME_FIELD, base, mine, theirs }];
+    return entry;
+  }
+  entry.mergedGroup = mine;
+  if (!isEqual(mine, base)) {
+    entry.status = 'changed';
+  }
+  return entry;
+};
+
+/**
+ * Rules of a merge entry that go into the merged config before resolutions
+ */
+const getMergedRules = (entry: RuleMergeEntry): Rule[] => {
+  const duplicates = entry.conflicts.find(conflict => conflict.field === DUPLICATE_NAME_FIELD);
+  if (duplicates) return getDuplicateRules(duplicates, 'mine');
+  return entry.mergedGroup || (entry.merged ? [entry.merged] : []);
+};
+
+/**
+ * Three-way merge of rules configurations at the rule level.
+ * Rules are matched by `name`; non-conflicting changes from both sides are
+ * combined and conflicting fields default to `mine` until resolved. Names
+ * used by more than one rule on any side are reported as conflicts.
+ */
+export const mergeRulesConfigs = (base: RulesConfig | null, mine: RulesConfig, theirs: RulesConfig): RulesMergeResult => {
+  const byName = (config: RulesConfig | null) => {
+    const groups = new Map<string, Rule[]>();
+    (config?.rules || []).forEach(rule => groups.set(rule.name, [...(groups.get(rule.name) || []), rule]));
+    return groups;
+  };
+
+  const baseRules = byName(base);
+  const mineRules = byName(mine);
+  const theirsRules = byName(theirs);
+
+  // Keep my ordering, then append rules only the other side knows about
+  const names = [...mineRules.keys()];
+  [...theirsRules.keys(), ...baseRules.keys()].forEach(name => {
+    if (!names.includes(name)) names.push(name);
+  });
+
+  const rules = names.map(name => {
+    const [baseGroup, mineGroup, theirsGroup] = [baseRules, mineRules, theirsRules].map(groups => groups.get(name) || []);
+    if ([baseGroup, mineGroup, theirsGroup].some(group => group.length > 1)) {
+      return mergeDuplicateRules(name, baseGroup, mineGroup, theirsGroup);
+    }
+    return mergeRule(name, baseGroup[0], mineGroup[0], theirsGroup[0]);
+  });
+
+  const merged: RulesConfig = { ...mine, rules: [] };
+  const sections: SectionConflict[] = [];
+
+  MERGED_CONFIG_SECTIONS.forEach(section => {
+    const result = mergeValue(base?.[section], mine[section], theirs[section]);
+    setSection(merged, section, result.value);
+    if (result.conflict) {
+      sections.push({ field: section, base: base?.[section], mine: mine[section], theirs: theirs[section] });
+    }
+  });
+
+  merged.rules = rules.flatMap(getMergedRules);
+
+  return {
+    rules,
+    sections,
+    merged,
+    conflictCount: sections.length + rules.reduce((count, entry) => count + entry.conflicts.length, 0)
+  };
+};
+
+/**
+ * Count conflicts that do not have a chosen side yet
+ */
+export const countUnresolved = (result: RulesMergeResult, resolutions: MergeResolutions): number => {
+  const unresolvedSections = result.sections.filter(
+    conflict => !resolutions[CONFIG_RESOLUTION_KEY]?.[conflict.field]
+  ).length;
+
+  return result.rules.reduce(
+    (count, entry) => count + entry.conflicts.filter(conflict => !resolutions[entry.name]?.[conflict.field]).length,
+    unresolvedSections
+  );
+};
+
+/**
+ * Build the final configuration from a merge and the chosen resolutions
+ */
+export const applyMergeResolutions = (result: RulesMergeResult, resolutions: MergeResolutions): RulesConfig => {
+  const config: RulesConfig = { ...result.merged };
+
+  result.sections.forEach(conflict => {
+    const side = resolutions[CONFIG_RESOLUTION_KEY]?.[conflict.field] || 'mine';
+    setSection(config, conflict.field, conflict[side]);
+  });
+
+  config.rules = [];
+  result.rules.forEach(entry => {
+    const chosen = resolutions[entry.name] || {};
+
+    const duplicates = entry.conflicts.find(conflict => conflict.field === DUPLICATE_NAME_FIELD);
+    if (duplicates) {
+      config.rules.push(...getDuplicateRules(duplicates, chosen[DUPLICATE_NAME_FIELD] || 'mine'));
+      return;
+    }
+    if (entry.mergedGroup) {
+      config.rules.push(...entry.mergedGroup);
+      return;
+    }
+
+    if (entry.conflicts.some(conflict => conflict.field === RULE_EXISTENCE_FIELD)) {
+      const side = chosen[RULE_EXISTENCE_FIELD] || 'mine';
+      const rule = side === 'mine' ? entry.mine : entry.theirs;
+      if (rule) config.rules.push(rule);
+      return;
+    }
+
+    if (!entry.merged) return;
+
+    const rule: Rule = { ...entry.merged };
+    const ruleFields = rule as unknown as Record<string, unknown>;
+    entry.conflicts.forEach(conflict => {
+      const value = conflict[chosen[conflict.field] || 'mine'];
+      if (value === undefined) {
+        delete ruleFields[conflict.field];
+      } else {
+        ruleFields[conflict.field] = value;
+      }
+    });
+    config.rules.push(rule);
+  });
+
+  // Drop sections neither side defines rather than serialising undefined keys
+  MERGED_CONFIG_SECTIONS.forEach(section => {
+    if (config[section] === undefined) delete config[section];
+  });
+
+  return config;
+};
@@ -0,0 +1,511 @@
+import {
+  AVAILABLE_OPERATORS,
+  DestinationDefinition,
+  FactDefinition,
+  Rule,
+  RuleCondition,
+  RuleTestCase,
+  RulesConfig,
+  ValidationResult
+} from '../components/VisualRuleEditor/types';
+import { validateCalendars, validateClock } from './businessCalendar';
+import { BUILT_IN_FACTS, FACT_TYPES, checkFactComparison, findFactDefinition, getConditionFactName } from './factCatalog';
+import { DESTINATION_KINDS, getDestinationUsages } from './destinationRegistry';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Location of a value in the rules JSON, e.g. `['rules', 0, 'conditions', 'all', 1]`
+ */
+export type JsonPath = Array<string | number>;
+
+/**
+ * One problem found in a rules configuration
+ */
+export interface RuleDiagnostic {
+  /** Stable identifier of the check, e.g. `rule/priority-range` */
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  path: JsonPath;
+  /** Character offset of a JSON syntax error, which has no path */
+  offset?: number;
+}
+
+export const MIN_PRIORITY = 1;
+export const MAX_PRIORITY = 999;
+
+/**
+ * Operators the Lambda understands besides those offered in the visual editor
+ */
+const LAMBDA_ONLY_OPERATORS = ['containsAll', 'exists', 'doesNotExist'];
+
+/**
+ * Sections whose errors do not stop the rules from being edited and tested
+ */
+const NON_STRUCTURAL_SECTIONS = ['calendars', 'factCatalog', 'destinations', 'testCases'];
+
+/**
+ * Errors that only block saving and deploying, so a destination can be
+ * typed before it is registered
+ */
+const DEPLOY_ONLY_CODES = ['rule/destination-unregistered'];
+
+const diagnostic = (code: string, severity: DiagnosticSeverity, message: string, path: JsonPath): RuleDiagnostic =>
+  ({ code, severity, message, path });
+
+const isFilled = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const prefix = (label: string) => (label ? `${label}: ` : '');
+
+/**
+ * What the rest of the config contributes to checking a single condition
+ */
+export interface ConditionContext {
+  /** Operators defined by the config, accepted alongside the built-in ones */
+  customOperators?: string[];
+  /** References are only checked when the shared conditions are known */
+  sharedConditions?: Record<string, unknown>;
+  allowUndefinedConditions?: boolean;
+  /** Facts are only checked against the catalog when it declares some */
+  factCatalog?: FactDefinition[];
+  dynamicFacts?: string[];
+}
+
+export const getConditionContext = (value: unknown): ConditionContext => {
+  // Not validated yet: any field may be missing or of the wrong type
+  const config: Partial<RulesConfig> = isObject(value) ? value : {};
+  return {
+    customOperators: Array.isArray(config.customOperators) ? config.customOperators.map(operator => operator?.name) : [],
+    sharedConditions: config.sharedConditions || {},
+    allowUndefinedConditions: config.engineOptions?.allowUndefinedConditions,
+    factCatalog: Array.isArray(config.factCatalog) ? config.factCatalog : [],
+    dynamicFacts: Array.isArray(config.dynamicFacts) ? config.dynamicFacts.map(fact => fact?.name) : []
+  };
+};
+
+/**
+ * Check a fact condition against the fact catalog: the fact should be
+ * declared, and compared with values of its type
+ */
+const validateCatalogUsage = (condition: RuleCondition, path: JsonPath, context: ConditionContext, label: string): RuleDiagnostic[] => {
+  const name = getConditionFactName(condition);
+  if (!name || !context.factCatalog?.length) return [];
+
+  const definition = findFactDefinition(context.factCatalog, name);
+  const readsKey = condition.fact !== name;
+  if (!definition) {
+    if (!readsKey && (BUILT_IN_FACTS[name] || context.dynamicFacts?.includes(name))) return [];
+    return [diagnostic('condition/fact-undeclared', 'warning', `${prefix(label)}Fact "${name}" is not declared in the fact catalog`,
+      readsKey ? [...path, 'params', 'key'] : [...path, 'fact'])];
+  }
+
+  const problem = condition.fact !== 'hasKey' && checkFactComparison(definition, condition.operator, condition.value);
+  if (!problem) return [];
+  return [diagnostic(problem.field === 'operator' ? 'condition/operator-unsuited' : 'condition/fact-type-mismatch', 'warning',
+    `${prefix(label)}${problem.message}`, [...path, problem.field])];
+};
+
+/**
+ * Check the fact catalog entries
+ */
+export const validateFactCatalogDiagnostics = (catalog: unknown): RuleDiagnostic[] => {
+  if (catalog === undefined) return [];
+  if (!Array.isArray(catalog)) {
+    return [diagnostic('factCatalog/invalid', 'error', "'factCatalog' must be an array", ['factCatalog'])];
+  }
+
+  const diagnostics: RuleDiagnostic[] = [];
+  const seen = new Set<string>();
+  catalog.forEach((definition: Partial<FactDefinition> | undefined, index: number) => {
+    const label = `Fact ${index + 1}${definition?.name ? ` (${definition.name})` : ''}`;
+    const path = ['factCatalog', index];
+    if (!isFilled(definition?.name)) {
+      diagnostics.push(diagnostic('factCatalog/name-missing', 'error', `${label}: Missing required field 'name'`, [...path, 'name']));
+    } else if (seen.has(definition.name)) {
+      diagnostics.push(diagnostic('factCatalog/name-duplicate', 'error', `${label}: Declared more than once`, [...path, 'name']));
+    } else {
+      seen.add(definition.name);
+    }
+    if (!definition?.type || !FACT_TYPES.includes(definition.type)) {
+      diagnostics.push(diagnostic('factCatalog/type-invalid', 'error', `${label}: Type must be one of ${FACT_TYPES.join(', ')}`, [...path, 'type']));
+    }
+    if (definition?.values !== undefined && !Array.isArray(definition.values)) {
+      diagnostics.push(diagnostic('factCatalog/values-invalid', 'error', `${label}: 'values' must be an array`, [...path, 'values']));
+    } else if (definition?.type === 'enum' && !definition.values?.length) {
+      diagnostics.push(diagnostic('factCatalog/values-missing', 'error', `${label}: An enum fact needs its allowed values`, [...path, 'values']));
+    }
+  });
+  return diagnostics;
+};
+
+/**
+ * Check the destination registry, and once it lists any destination, that
+ * every rule routes to a registered one
+ */
+export const validateDestinationDiagnostics = (config: unknown): RuleDiagnostic[] => {
+  const registry = isObject(config) ? config.destinations : undefined;
+  if (registry === undefined) return [];
+  if (!Array.isArray(registry)) {
+    return [diagnostic('destinations/invalid', 'error', "'destinations' must be an array", ['destinations'])];
+  }
+
+  const diagnostics: RuleDiagnostic[] = [];
+  const names = new Set<string>();
+  registry.forEach((entry: Partial<DestinationDefinition> | undefined, index: number) => {
+    const label = `Destination ${index + 1}${entry?.name ? ` (${entry.name})` : ''}`;
+    const path = ['destinations', index];
+    if (!isFilled(entry?.name)) {
+      diagnostics.push(diagnostic('destinations/name-missing', 'error', `${label}: Missing required field 'name'`, [...path, 'name']));
+    } else if (names.has(entry.name)) {
+      diagnostics.push(diagnostic('destinations/name-duplicate', 'error', `${label}: Registered more than once`, [...path, 'name']));
+    } else {
+      names.add(entry.name);
+    }
+    if (!entry?.kind || !DESTINATION_KINDS.includes(entry.kind)) {
+      diagnostics.push(diagnostic('destinations/kind-invalid', 'error', `${label}: Kind must be one of ${DESTINATION_KINDS.join(', ')}`, [...path, 'kind']));
+    }
+  });
+
+  if (names.size === 0) return diagnostics;
+  getDestinationUsages(config).forEach((usages, destination) => {
+    if (names.has(destination)) return;
+    usages.forEach(usage => {
+      diagnostics.push(usage.field === 'testCase'
+        ? diagnostic('testCases/destination-unregistered', 'warning', `Test case ${usage.name}: Destination "${destination}" is not in the destination registry`, usage.path)
+        : diagnostic('rule/destination-unregistered', 'error', `Rule ${usage.name}: Destination "${destination}" is not in the destination registry`, usage.path));
+    });
+  });
+  return diagnostics;
+};
+
+/**
+ * Check a fact condition on its own, as the visual editor's condition nodes do
+ */
+export const validateFactConditionDiagnostics = (
+  condition: RuleCondition,
+  path: JsonPath = [],
+  context: ConditionContext = {},
+  label: string = ''
+): RuleDiagnostic[] => {
+  const diagnostics: RuleDiagnostic[] = [];
+  if (!condition.fact) {
+    diagnostics.push(diagnostic('condition/fact-missing', 'error', `${prefix(label)}Missing fact`, [...path, 'fact']));
+  }
+  if (!condition.operator) {
+    diagnostics.push(diagnostic('condition/operator-missing', 'error', `${prefix(label)}Missing operator for fact condition`, [...path, 'operator']));
+  } else if (
+    !(AVAILABLE_OPERATORS as readonly string[]).includes(condition.operator) &&
+    !LAMBDA_ONLY_OPERATORS.includes(condition.operator) &&
+    !context.customOperators?.includes(condition.operator)
+  ) {
+    diagnostics.push(diagnostic('condition/operator-unknown', 'warning', `${prefix(label)}Unknown operator "${condition.operator}"`, [...path, 'operator']));
+  }
+  if (condition.value === undefined) {
+    diagnostics.push(diagnostic('condition/value-missing', 'error', `${prefix(label)}Missing value for fact condition`, path));
+  } else if (condition.value === '') {
+    diagnostics.push(diagnostic('condition/value-empty', 'warning', `${prefix(label)}Value is empty`, [...path, 'value']));
+  }
+  if (condition.fact === 'inputValue' && !condition.params?.key) {
+    diagnostics.push(diagnostic('condition/input-key-missing', 'error', `${prefix(label)}inputValue fact requires a key parameter`, [...path, 'params']));
+  }
+  diagnostics.push(...validateCatalogUsage(condition, path, context, label));
+  return diagnostics;
+};
+
+/**
+ * Check a condition tree recursively
+ */
+export const validateConditionDiagnostics = (
+  value: unknown,
+  path: JsonPath,
+  label: string,
+  context: ConditionContext = {}
+): RuleDiagnostic[] => {
+  if (!isObject(value)) {
+    return [diagnostic('condition/invalid', 'error', `${prefix(label)}Invalid condition structure`, path)];
+  }
+  const condition: RuleCondition = value;
+
+  for (const type of ['all', 'any'] as const) {
+    if (condition[type] !== undefined) {
+      if (!Array.isArray(condition[type])) {
+        return [diagnostic('condition/not-array', 'error', `${prefix(label)}'${type}' must be an array`, [...path, type])];
+      }
+      return condition[type].flatMap((child, index) =>
+        validateConditionDiagnostics(child, [...path, type, index], label, context));
+    }
+  }
+  if (condition.not !== undefined) {
+    return validateConditionDiagnostics(condition.not, [...path, 'not'], label, context);
+  }
+  if (condition.condition !== undefined) {
+    if (context.sharedConditions && !context.sharedConditions[condition.condition] && !context.allowUndefinedConditions) {
+      return [diagnostic('condition/reference-unknown', 'error', `${prefix(label)}Shared condition '${condition.condition}' is not defined in 'sharedConditions'`, [...path, 'condition'])];
+    }
+    return [];
+  }
+  if (condition.fact !== undefined) {
+    return validateFactConditionDiagnostics(condition, path, context, label);
+  }
+  return [diagnostic('condition/invalid', 'error', `${prefix(label)}Invalid condition - must have 'all', 'any', 'not', 'fact', or 'condition'`, path)];
+};
+
+/**
+ * Check a single rule. `path` places it in the config, `label` prefixes messages.
+ */
+export const validateRuleDiagnostics = (
+  value: unknown,
+  path: JsonPath = [],
+  label: string = '',
+  context: ConditionContext = {}
+): RuleDiagnostic[] => {
+  if (!isObject(value)) {
+    return [diagnostic('rule/invalid', 'error', `${prefix(label)}Must be an object`, path)];
+  }
+  const rule: Partial<Rule> = value;
+
+  const diagnostics: RuleDiagnostic[] = [];
+  if (!isFilled(rule.name)) {
+    diagnostics.push(diagnostic('rule/name-missing', 'error', `${prefix(label)}Missing required field 'name'`, [...path, 'name']));
+  }
+  if (typeof rule.priority !== 'number' || rule.priority < MIN_PRIORITY || rule.priority > MAX_PRIORITY) {
+    diagnostics.push(diagnostic('rule/priority-range', 'error', `${prefix(label)}Priority must be a number between ${MIN_PRIORITY} and ${MAX_PRIORITY}`, [...path, 'priority']));
+  }
+  if (!isFilled(rule.defaultDestination)) {
+    diagnostics.push(diagnostic('rule/default-destination-missing', 'error', `${prefix(label)}Missing or empty defaultDestination field`, [...path, 'defaultDestination']));
+  }
+
+  if (!rule.conditions) {
+    diagnostics.push(diagnostic('rule/conditions-missing', 'error', `${prefix(label)}Missing conditions field`, [...path, 'conditions']));
+  } else if (typeof rule.conditions === 'object' && Object.keys(rule.conditions).length === 0) {
+    diagnostics.push(diagnostic('rule/conditions-empty', 'error', `${prefix(label)}Rule must have at least one condition`, [...path, 'conditions']));
+  } else {
+    diagnostics.push(...validateConditionDiagnostics(rule.conditions, [...path, 'conditions'], label && `${label} conditions`, context));
+  }
+
+  if (!rule.event || typeof rule.event !== 'object') {
+    diagnostics.push(diagnostic('event/missing', 'error', `${prefix(label)}Missing event`, [...path, 'event']));
+  } else {
+    if (!rule.event.type) {
+      diagnostics.push(diagnostic('event/type-missing', 'error', `${prefix(label)}Missing event.type`, [...path, 'event', 'type']));
+    }
+    if (!isFilled(rule.event.params?.destination)) {
+      diagnostics.push(diagnostic('event/destination-missing', 'error', `${prefix(label)}Missing event destination`, [...path, 'event', 'params']));
+    }
+  }
+  return diagnostics;
+};
+
+/**
+ * Check the saved test cases
+ */
+export const validateTestCaseDiagnostics = (testCases: unknown): RuleDiagnostic[] => {
+  if (testCases === undefined) return [];
+  if (!Array.isArray(testCases)) {
+    return [diagnostic('testCases/invalid', 'error', "'testCases' must be an array", ['testCases'])];
+  }
+
+  const diagnostics: RuleDiagnostic[] = [];
+  testCases.forEach((testCase: Partial<RuleTestCase> | undefined, index: number) => {
+    const label = `Test case ${index + 1} (${testCase?.name || 'unnamed'})`;
+    const path = ['testCases', index];
+    if (!testCase?.name) {
+      diagnostics.push(diagnostic('testCases/name-missing', 'error', `Test case ${index + 1}: Missing required field 'name'`, [...path, 'name']));
+    }
+    if (typeof testCase?.input !== 'object' || testCase.input === null || Array.isArray(testCase.input)) {
+      diagnostics.push(diagnostic('testCases/input-invalid', 'error', `${label}: 'input' must be an object`, [...path, 'input']));
+    }
+    if (!testCase?.expectedDestination) {
+      diagnostics.push(diagnostic('testCases/expected-missing', 'error', `${label}: Missing expectedDestination`, [...path, 'expectedDestination']));
+    }
+    validateClock(testCase?.clock).forEach(error =>
+      diagnostics.push(diagnostic('testCases/clock-invalid', 'error', `${label}: ${error}`, [...path, 'clock'])));
+  });
+
+  const names = testCases
+    .map((testCase: Partial<RuleTestCase> | undefined) => testCase?.name)
+    .filter((name): name is string => !!name);
+  const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    diagnostics.push(diagnostic('testCases/name-duplicate', 'error', `Duplicate test case names found: ${[...new Set(duplicates)].join(', ')}`, ['testCases']));
+  }
+  return diagnostics;
+};
+
+/**
+ * Check a whole rules configuration
+ */
+export const validateRulesConfigDiagnostics = (value: unknown): RuleDiagnostic[] => {
+  if (!isObject(value)) {
+    return [diagnostic('config/invalid', 'error', 'Rules must be a valid JSON object', [])];
+  }
+  const config: Partial<RulesConfig> = value;
+  if (!Array.isArray(config.rules)) {
+    return [diagnostic('config/rules-missing', 'error', 'Missing or invalid field: rules (must be an array)', ['rules'])];
+  }
+  if (config.rules.length === 0) {
+    return [diagnostic('config/rules-empty', 'error', 'Rules array cannot be empty - at least one rule is required', ['rules'])];
+  }
+
+  const context = getConditionContext(config);
+  const diagnostics: RuleDiagnostic[] = [];
+
+  config.rules.forEach((rule: Partial<Rule> | undefined, index: number) => {
+    const label = `Rule ${index + 1}${rule?.name ? ` (${rule.name})` : ''}`;
+    diagnostics.push(...validateRuleDiagnostics(rule, ['rules', index], label, context));
+  });
+
+  const seen = new Map<string, number>();
+  config.rules.forEach((rule: Partial<Rule> | undefined, index: number) => {
+    if (!rule?.name) return;
+    if (seen.has(rule.name)) {
+      diagnostics.push(diagnostic('config/rule-name-duplicate', 'error', `Duplicate rule name '${rule.name}' (also rule ${seen.get(rule.name)! + 1})`, ['rules', index, 'name']));
+    } else {
+      seen.set(rule.name, index);
+    }
+  });
+
+  Object.entries(config.sharedConditions || {}).forEach(([name, condition]) => {
+    diagnostics.push(...validateConditionDiagnostics(condition, ['sharedConditions', name], `Shared condition ${name}`, context));
+  });
+
+  diagnostics.push(...validateFactCatalogDiagnostics(config.factCatalog));
+  diagnostics.push(...validateDestinationDiagnostics(config));
+  validateCalendars(config).forEach(error =>
+    diagnostics.push(diagnostic('calendars/invalid', 'error', error, ['calendars'])));
+  diagnostics.push(...validateTestCaseDiagnostics(config.testCases));
+
+  return diagnostics;
+};
+
+/**
+ * Turn the message of a `JSON.parse` error into a character offset
+ */
+const syntaxErrorOffset = (text: string, errorMessage: string): number | undefined => {
+  const position = /position (\d+)/.exec(errorMessage);
+  if (position) return Number(position[1]);
+
+  const lineColumn = /line (\d+) column (\d+)/.exec(errorMessage);
+  if (lineColumn) {
+    const lines = text.split('\n').slice(0, Number(lineColumn[1]) - 1);
+    return lines.reduce((offset, line) => offset + line.length + 1, 0) + Number(lineColumn[2]) - 1;
+  }
+  return undefined;
+};
+
+/**
+ * Parse and check the rules JSON text as typed in the editor
+ */
+export const validateRulesJson = (text: string): { config: unknown; diagnostics: RuleDiagnostic[] } => {
+  let config: unknown;
+  try {
+    config = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      config: null,
+      diagnostics: [{
+        code: 'json/syntax',
+        severity: 'error',
+        message: `JSON Syntax Error: ${errorMessage}`,
+        path: [],
+        offset: syntaxErrorOffset(text, errorMessage)
+      }]
+    };
+  }
+  return { config, diagnostics: validateRulesConfigDiagnostics(config) };
+};
+
+/**
+ * Whether a diagnostic stops the rules from being edited visually and tested.
+ * Problems in calendars and test cases only block saving and deploying.
+ */
+export const isStructuralDiagnostic = (item: RuleDiagnostic): boolean =>
+  item.severity === 'error' && !NON_STRUCTURAL_SECTIONS.includes(String(item.path[0])) && !DEPLOY_ONLY_CODES.includes(item.code);
+
+export const getErrors = (diagnostics: RuleDiagnostic[]): string[] =>
+  diagnostics.filter(item => item.severity === 'error').map(item => item.message);
+
+/**
+ * Diagnostics in the visual editor's result shape
+ */
+export const toValidationResult = (diagnostics: RuleDiagnostic[]): ValidationResult => ({
+  isValid: !diagnostics.some(item => item.severity === 'error'),
+  errors: getErrors(diagnostics),
+  warnings: diagnostics.filter(item => item.severity !== 'error').map(item => item.message)
+});
+
+/**
+ * Character range of the value at a path in valid JSON text. A missing path falls
+ * back to its closest existing parent; objects and arrays are located by
+ * their key (or opening bracket) rather than their whole body.
+ */
+export const locateJsonPath = (text: string, path: JsonPath): { start: number; end: number } | null => {
+  type Range = { start: number; end: number };
+  type Match = Range & { depth: number; key?: Range; container: boolean };
+  let index = 0;
+  let best = null as Match | null;
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++;
+  };
+  const readString = (): string => {
+    const start = index++;
+    while (index < text.length && text[index] !== '"') {
+      index += text[index] === '\\' ? 2 : 1;
+    }
+    index++;
+    return JSON.parse(text.slice(start, index));
+  };
+
+  const readValue = (depth: number, onPath: boolean, key?: Range) => {
+    skipWhitespace();
+    const start = index;
+    const opening = text[index];
+
+    if (opening === '{' || opening === '[') {
+      const closing = opening === '{' ? '}' : ']';
+      index++;
+      skipWhitespace();
+      let position = 0;
+      while (index < text.length && text[index] !== closing) {
+        let step: string | number = position++;
+        let childKey: Range | undefined;
+        if (opening === '{') {
+          const keyStart = index;
+          step = readString();
+          childKey = { start: keyStart, end: index };
+          skipWhitespace();
+          index++; // colon
+        }
+        readValue(depth + 1, onPath && depth < path.length && path[depth] === step, childKey);
+        skipWhitespace();
+        if (text[index] === ',') index++;
+        skipWhitespace();
+      }
+      index++;
+    } else if (opening === '"') {
+      readString();
+    } else {
+      while (index < text.length && !/[\s,\]}]/.test(text[index])) index++;
+    }
+
+    if (onPath && (!best || depth > best.depth)) {
+      best = { depth, start, end: index, key, container: opening === '{' || opening === '[' };
+    }
+  };
+
+  try {
+    readValue(0, true);
+  } catch {
+    return null;
+  }
+
+  if (!best) return null;
+  if (!best.container && best.depth === path.length) return { start: best.start, end: best.end };
+  return best.key || { start: best.start, end: best.start + 1 };
+};
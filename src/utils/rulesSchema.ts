@@ -0,0 +1,382 @@
+import type { json } from 'monaco-editor';
+import type { Monaco } from '@monaco-editor/react';
+import { AVAILABLE_OPERATORS, RuleCondition, RulesConfig } from '../components/VisualRuleEditor/types';
+import { BUILT_IN_FACTS, FACT_SOURCES, FACT_TYPES } from './factCatalog';
+import { DESTINATION_KINDS } from './destinationRegistry';
+
+/**
+ * JSON Schema object as understood by Monaco's JSON language service, which
+ * also reads `markdownDescription`, `markdownEnumDescriptions` and `examples`
+ */
+export type JsonSchema = Record<string, unknown>;
+
+export const RULES_SCHEMA_URI = 'rules-editor://schemas/rules-config.json';
+
+/**
+ * What each operator does, shown on hover and in completions
+ */
+export const OPERATOR_DOCS: Record<string, string> = {
+  equal: 'Fact is strictly equal to the value',
+  notEqual: 'Fact is not strictly equal to the value',
+  in: 'Fact is one of the values in the array',
+  notIn: 'Fact is none of the values in the array',
+  contains: 'Fact (an array) contains the value',
+  doesNotContain: 'Fact (an array) does not contain the value',
+  greaterThan: 'Fact is a number greater than the value',
+  greaterThanInclusive: 'Fact is a number greater than or equal to the value',
+  lessThan: 'Fact is a number less than the value',
+  lessThanInclusive: 'Fact is a number less than or equal to the value',
+  containsAny: 'Fact (an array) contains at least one of the values in the array',
+  matchesPattern: 'Fact (a string) matches the regular expression in the value',
+  startsWith: 'Fact (a string) starts with the value',
+  endsWith: 'Fact (a string) ends with the value',
+  containsAll: 'Fact (an array) contains every value in the array. Lambda only',
+  exists: 'Fact is present in the input. Lambda only',
+  doesNotExist: 'Fact is missing from the input. Lambda only'
+};
+
+/**
+ * Names and values already used in a config, offered as completions
+ */
+export interface RulesConfigVocabulary {
+  facts: string[];
+  destinations: string[];
+  ruleNames: string[];
+  sharedConditions: string[];
+  calendars: string[];
+  inputKeys: string[];
+}
+
+const unique = (values: unknown[]): string[] =>
+  [...new Set(values.filter((value): value is string => typeof value === 'string' && value.trim() !== ''))].sort();
+
+const collectConditionFacts = (condition: RuleCondition | undefined, facts: string[], inputKeys: string[]): void => {
+  if (!condition || typeof condition !== 'object') return;
+  if (condition.fact) facts.push(condition.fact);
+  if (condition.fact === 'inputValue' || condition.fact === 'hasKey') inputKeys.push(condition.params?.key);
+  [...(Array.isArray(condition.all) ? condition.all : []), ...(Array.isArray(condition.any) ? condition.any : []), condition.not]
+    .forEach(child => collectConditionFacts(child, facts, inputKeys));
+};
+
+/**
+ * Fact names, destinations and other names found in a config
+ */
+export const getRulesConfigVocabulary = (config: Partial<RulesConfig> | null | undefined): RulesConfigVocabulary => {
+  const rules = Array.isArray(config?.rules) ? config!.rules : [];
+  const testCases = Array.isArray(config?.testCases) ? config!.testCases : [];
+  const catalog = Array.isArray(config?.factCatalog) ? config!.factCatalog : [];
+  const facts: string[] = [];
+  const inputKeys: string[] = [
+    ...testCases.flatMap(testCase => Object.keys(testCase?.input || {})),
+    ...catalog.map(definition => definition?.name)
+  ];
+
+  rules.forEach(rule => collectConditionFacts(rule?.conditions, facts, inputKeys));
+  Object.values(config?.sharedConditions || {}).forEach(condition => collectConditionFacts(condition, facts, inputKeys));
+
+  return {
+    facts: unique([
+      ...Object.keys(BUILT_IN_FACTS),
+      ...(config?.dynamicFacts || []).map(fact => fact?.name),
+      ...facts,
+      ...inputKeys
+    ]),
+    destinations: unique([
+      ...(Array.isArray(config?.destinations) ? config!.destinations : []).map(entry => entry?.name),
+      ...rules.flatMap(rule => [rule?.defaultDestination, rule?.event?.params?.destination]),
+      ...testCases.map(testCase => testCase?.expectedDestination)
+    ]),
+    ruleNames: unique(rules.map(rule => rule?.name)),
+    sharedConditions: unique(Object.keys(config?.sharedConditions || {})),
+    calendars: unique(Object.keys(config?.calendars || {})),
+    inputKeys: unique(inputKeys)
+  };
+};
+
+/**
+ * A string property that suggests `values` but accepts anything; hover shows
+ * the description of a suggested value
+ */
+const suggestedString = (description: string, values: string[], docs: Record<string, string> = {}): JsonSchema => ({
+  markdownDescription: description,
+  anyOf: [
+    ...(values.length > 0 ? [{ enum: values, markdownEnumDescriptions: values.map(value => docs[value] || '') }] : []),
+    { type: 'string' }
+  ]
+});
+
+const clockSchema: JsonSchema = {
+  type: 'object',
+  markdownDescription: 'Pinned date, time and timezone; the live clock and the browser timezone are used for whatever is left out',
+  additionalProperties: false,
+  properties: {
+    at: { type: 'string', markdownDescription: 'Wall-clock time in `timezone`, `YYYY-MM-DDTHH:mm`', pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}$' },
+    timezone: { type: 'string', markdownDescription: 'IANA timezone such as `Europe/Dublin`' }
+  }
+};
+
+const hoursSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      open: { type: 'string', markdownDescription: 'Opening time, `HH:mm`' },
+      close: { type: 'string', markdownDescription: 'Closing time, `HH:mm`' }
+    }
+  }
+};
+
+/**
+ * JSON Schema for the rules configuration, mirroring `RulesConfig`, `Rule`
+ * and `RuleCondition` in the visual editor's types. Names already used in
+ * `config` are offered as completions; they are suggestions, not limits, so
+ * the shared validation stays the one place that reports bad references.
+ */
+export const buildRulesSchema = (config?: Partial<RulesConfig> | null): JsonSchema => {
+  const vocabulary = getRulesConfigVocabulary(config);
+  const factDocs: Record<string, string> = { ...BUILT_IN_FACTS };
+  const operatorDocs: Record<string, string> = { ...OPERATOR_DOCS };
+  (config?.factCatalog || []).forEach(fact => {
+    if (fact?.name) factDocs[fact.name] = `${fact.type || 'untyped'} fact${fact.source ? ` from ${fact.source}` : ''}${fact.description ? `: ${fact.description}` : ''}`;
+  });
+  (config?.dynamicFacts || []).forEach(fact => {
+    if (fact?.name) factDocs[fact.name] = fact.description || 'Dynamic fact defined in `dynamicFacts`';
+  });
+  (config?.customOperators || []).forEach(operator => {
+    if (operator?.name) operatorDocs[operator.name] = operator.description || 'Custom operator defined in `customOperators`';
+  });
+  const operators = unique([...AVAILABLE_OPERATORS, ...Object.keys(operatorDocs)]);
+  const destination = (description: string) => suggestedString(description, vocabulary.destinations);
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    additionalProperties: false,
+    definitions: {
+      condition: {
+        type: 'object',
+        markdownDescription: 'Condition: a fact compared with a value, `all`/`any` of nested conditions, `not` one condition, or a `condition` reference to a shared condition',
+        additionalProperties: false,
+        properties: {
+          all: { type: 'array', items: { $ref: '#/definitions/condition' }, markdownDescription: 'Passes when every nested condition passes (AND)' },
+          any: { type: 'array', items: { $ref: '#/definitions/condition' }, markdownDescription: 'Passes when at least one nested condition passes (OR)' },
+          not: { $ref: '#/definitions/condition', markdownDescription: 'Passes when the nested condition fails' },
+          condition: suggestedString('Name of a condition in `sharedConditions`', vocabulary.sharedConditions),
+          fact: suggestedString('Input key, built-in fact or dynamic fact to compare', vocabulary.facts, factDocs),
+          operator: suggestedString('How the fact is compared with `value`', operators, operatorDocs),
+          value: { markdownDescription: 'Value the fact is compared with; an array for `in`, `notIn`, `containsAny` and `containsAll`' },
+          path: { type: 'string', markdownDescription: 'JSONPath into the fact value, such as `$.address.city`' },
+          params: {
+            type: 'object',
+            markdownDescription: 'Parameters passed to the fact',
+            properties: {
+              key: suggestedString('Input key read by `inputValue` and `hasKey`', vocabulary.inputKeys, factDocs),
+              calendar: suggestedString('Calendar from `calendars` used by `isBusinessHours`', vocabulary.calendars),
+              timezone: { type: 'string', markdownDescription: 'IANA timezone used by `currentHour`' }
+            }
+          }
+        }
+      },
+      calendar: {
+        type: 'object',
+        markdownDescription: 'Business hours for a site, referenced as `{ "fact": "isBusinessHours", "params": { "calendar": "<name>" } }`',
+        additionalProperties: false,
+        properties: {
+          timezone: { type: 'string', markdownDescription: 'IANA timezone such as `Europe/Dublin`; the simulated timezone when omitted' },
+          weekly: {
+            type: 'object',
+            markdownDescription: 'Opening hours by weekday; days left out are closed',
+            additionalProperties: false,
+            properties: Object.fromEntries(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'].map(day => [day, hoursSchema]))
+          },
+          holidays: {
+            type: 'array',
+            markdownDescription: 'Days closed all day; `YYYY-MM-DD`, or `MM-DD` for every year',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: { date: { type: 'string' }, name: { type: 'string' } }
+            }
+          },
+          exceptions: {
+            type: 'array',
+            markdownDescription: 'Days with hours other than the weekly ones; these win over holidays',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                date: { type: 'string', markdownDescription: '`YYYY-MM-DD`, or `MM-DD` for every year' },
+                name: { type: 'string' },
+                hours: { ...hoursSchema, markdownDescription: 'Hours for the day; closed all day when empty or omitted' }
+              }
+            }
+          }
+        }
+      }
+    },
+    properties: {
+      engineOptions: {
+        type: 'object',
+        markdownDescription: 'json-rules-engine options',
+        additionalProperties: false,
+        properties: {
+          allowUndefinedFacts: { type: 'boolean', markdownDescription: 'Treat facts missing from the input as undefined instead of failing' },
+          allowUndefinedConditions: { type: 'boolean', markdownDescription: 'Treat references to missing shared conditions as failing instead of an error' },
+          replaceFactsInEventParams: { type: 'boolean', markdownDescription: 'Replace `{ "fact": ... }` objects in event params with the fact value' }
+        }
+      },
+      logging: {
+        type: 'object',
+        markdownDescription: 'What the Lambda writes to the execution log',
+        additionalProperties: false,
+        properties: {
+          enabled: { type: 'boolean' },
+          logMatchedRules: { type: 'boolean' },
+          logUnmatchedRules: { type: 'boolean' },
+          logPerformanceMetrics: { type: 'boolean' }
+        }
+      },
+      rules: {
+        type: 'array',
+        markdownDescription: 'Routing rules; higher priority rules decide first',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string', markdownDescription: 'Unique rule name' },
+            description: { type: 'string', markdownDescription: 'What the rule is for' },
+            priority: { type: 'number', markdownDescription: 'Number from 1 to 999; higher runs first' },
+            defaultDestination: destination('Destination used when the conditions do not match'),
+            conditions: { $ref: '#/definitions/condition', markdownDescription: 'When the rule applies' },
+            event: {
+              type: 'object',
+              markdownDescription: 'Event fired when the conditions match',
+              additionalProperties: false,
+              properties: {
+                type: { type: 'string', markdownDescription: 'Event type, usually `route_determined`', examples: ['route_determined'] },
+                params: {
+                  type: 'object',
+                  properties: {
+                    destination: destination('Destination to route to'),
+                    priority: { enum: ['high', 'medium', 'low'] },
+                    reason: { type: 'string', markdownDescription: 'Why the call is routed here' }
+                  }
+                }
+              }
+            },
+            layout: { type: 'object', markdownDescription: 'Node positions saved by the visual editor' }
+          }
+        }
+      },
+      dynamicFacts: {
+        type: 'array',
+        markdownDescription: 'Facts computed by the engine',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string' },
+            calculator: { type: 'string', markdownDescription: 'Function body receiving `(params, almanac)`' },
+            description: { type: 'string' },
+            options: {
+              type: 'object',
+              additionalProperties: false,
+              properties: { cache: { type: 'boolean' }, priority: { type: 'number' } }
+            },
+            tests: { type: 'array', markdownDescription: 'Documented examples: `params`, `input` and the `expected` value' }
+          }
+        }
+      },
+      customOperators: {
+        type: 'array',
+        markdownDescription: 'Operators added to the engine',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string' },
+            evaluator: { type: 'string', markdownDescription: 'Function body receiving `(factValue, jsonValue)` and returning a boolean' },
+            description: { type: 'string' },
+            tests: { type: 'array', markdownDescription: 'Documented examples: `factValue`, `jsonValue` and the `expected` result' }
+          }
+        }
+      },
+      sharedConditions: {
+        type: 'object',
+        markdownDescription: 'Conditions shared between rules, referenced as `{ "condition": "<name>" }`',
+        additionalProperties: { $ref: '#/definitions/condition' }
+      },
+      calendars: {
+        type: 'object',
+        markdownDescription: 'Business hours calendars by name',
+        additionalProperties: { $ref: '#/definitions/calendar' }
+      },
+      factCatalog: {
+        type: 'array',
+        markdownDescription: 'Declared routing inputs; rules using undeclared facts or comparing a fact with the wrong type of value get warnings',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string', markdownDescription: 'Fact name, or the input key read with `inputValue`' },
+            type: { enum: FACT_TYPES, markdownDescription: 'Kind of value the fact holds' },
+            values: { type: 'array', items: { type: ['string', 'number'] }, markdownDescription: 'Allowed values of an `enum` fact, or of the items of a `list` fact' },
+            description: { type: 'string' },
+            source: { type: 'string', markdownDescription: 'Where the value comes from', examples: FACT_SOURCES }
+          }
+        }
+      },
+      destinations: {
+        type: 'array',
+        markdownDescription: 'Registered queues and flows; once any is registered, rules routing anywhere else cannot be deployed',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string', markdownDescription: 'Name rules route to' },
+            kind: { enum: DESTINATION_KINDS, markdownDescription: 'Genesys Cloud queue or flow, or a destination outside Genesys Cloud' },
+            genesysId: { type: 'string', markdownDescription: 'Id of the queue or flow, set by Sync from Genesys' },
+            description: { type: 'string' }
+          }
+        }
+      },
+      testCases: {
+        type: 'array',
+        markdownDescription: 'Saved test cases run from Test Rules and before deploying',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string' },
+            input: { type: 'object', markdownDescription: 'Input the rules are evaluated with' },
+            expectedDestination: destination('Destination the input should be routed to'),
+            expectedRule: suggestedString('Rule expected to decide the route; when omitted only the destination is checked', vocabulary.ruleNames),
+            clock: clockSchema
+          }
+        }
+      }
+    }
+  };
+};
+
+/**
+ * Register the schema for the editor model at `modelUri`, replacing the one
+ * registered before. Schema problems are warnings, as unknown operators are
+ * in the shared validation.
+ */
+export const registerRulesSchema = (monaco: Monaco, modelUri: string, config?: Partial<RulesConfig> | null): void => {
+  // Monaco moved the JSON language settings out of `languages` in 0.55
+  const { jsonDefaults } = (monaco as unknown as { json: typeof json }).json;
+  const options = jsonDefaults.diagnosticsOptions;
+
+  jsonDefaults.setDiagnosticsOptions({
+    ...options,
+    validate: true,
+    schemaValidation: 'warning',
+    schemas: [
+      ...(options.schemas || []).filter(schema => schema.uri !== RULES_SCHEMA_URI),
+      { uri: RULES_SCHEMA_URI, fileMatch: [modelUri], schema: buildRulesSchema(config) }
+    ]
+  });
+};
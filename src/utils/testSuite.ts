@@ -0,0 +1,81 @@
+import type { RuleTestCase, RulesConfig } from '../components/VisualRuleEditor/types';
+import { getErrors, validateTestCaseDiagnostics } from './ruleValidation';
+import { RuleEngineSimulator } from './ruleEngineSimulator';
+
+/**
+ * Outcome of one saved test case
+ */
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  destination: string | null;
+  /** Rule that decided the route, or null when the default destination was used */
+  matchedRule: string | null;
+  /** Why the case failed; empty when it passed */
+  failures: string[];
+}
+
+export interface TestSuiteResult {
+  passed: number;
+  failed: number;
+  results: TestCaseResult[];
+}
+
+/**
+ * Run one test case through a simulator for the rules under test
+ */
+export const runTestCase = async (simulator: RuleEngineSimulator, testCase: RuleTestCase): Promise<TestCaseResult> => {
+  try {
+    const result = await simulator.evaluate(testCase.input || {}, testCase.clock);
+    const matchedRule = result.matchedRules[0] || null;
+    const failures: string[] = [];
+
+    if (result.destination !== testCase.expectedDestination) {
+      failures.push(`Expected destination ${testCase.expectedDestination}, got ${result.destination}`);
+    }
+    if (testCase.expectedRule && matchedRule !== testCase.expectedRule) {
+      failures.push(`Expected rule ${testCase.expectedRule}, got ${matchedRule || 'the default destination'}`);
+    }
+
+    return { name: testCase.name, passed: failures.length === 0, destination: result.destination, matchedRule, failures };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { name: testCase.name, passed: false, destination: null, matchedRule: null, failures: [`Evaluation failed: ${reason}`] };
+  }
+};
+
+/**
+ * Run every test case saved with a rules configuration against it, with the
+ * simulator in engine mode so results match the deployed engine
+ */
+export const runTestSuite = async (rulesConfig: RulesConfig): Promise<TestSuiteResult> => {
+  const testCases = rulesConfig.testCases || [];
+  const results: TestCaseResult[] = [];
+
+  const simulator = new RuleEngineSimulator(rulesConfig, { mode: 'engine' });
+  try {
+    for (const testCase of testCases) {
+      results.push(await runTestCase(simulator, testCase));
+    }
+  } finally {
+    simulator.dispose();
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  return { passed, failed: results.length - passed, results };
+};
+
+/**
+ * Whether a deploy may go ahead: every case passes, or a reason for
+ * overriding the failures was given. Without a result (the suite has not run
+ * or could not run) the deploy is refused.
+ */
+export const isDeployAllowed = (result: TestSuiteResult | null, overrideReason: string): boolean =>
+  !!result && (result.failed === 0 || overrideReason.trim().length > 0);
+
+/**
+ * Structural problems with the saved test cases, in the same wording as the
+ * editor's rule validation
+ */
+export const validateTestCases = (testCases: unknown): string[] =>
+  getErrors(validateTestCaseDiagnostics(testCases));
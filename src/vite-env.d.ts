@@ -7,6 +7,13 @@ interface ImportMetaEnv {
   readonly VITE_RULES_TABLE_ID: string
   readonly VITE_LOGS_TABLE_ID: string
   readonly VITE_API_BASE_URL?: string
+  readonly VITE_REQUIRE_APPROVAL?: string
+  readonly VITE_BROWSER_SCHEDULER?: string
+  readonly VITE_RULES_STORAGE?: string
+  readonly VITE_RULES_API_URL?: string
+  readonly VITE_GENESYS_MOCK?: string
+  readonly VITE_RULES_CELL_LIMIT?: string
+  readonly VITE_ENVIRONMENTS?: string
 }
 
 interface ImportMeta {
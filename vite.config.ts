@@ -1,29 +1,41 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { genesysMock } from './mock/genesysMockServer';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, __dirname);
+  // Serve a stand-in for Genesys Cloud so the app runs without a real org
+  const useGenesysMock = env.VITE_GENESYS_MOCK === 'true';
+
+  return {
+    plugins: [
+      react(),
+      ...(useGenesysMock
+        ? [genesysMock({ rulesTableId: env.VITE_RULES_TABLE_ID || 'mock-rules-table', logsTableId: env.VITE_LOGS_TABLE_ID || undefined })]
+        : [])
+    ],
+    
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+      },
+    },
+    
+    server: {
+      port: 3000,
+      host: true,
+      open: true,
+    },
+    
+    build: {
+      outDir: 'dist',
+      sourcemap: true,
+      target: 'es2015',
     },
-  },
-  
-  server: {
-    port: 3000,
-    host: true,
-    open: true,
-  },
-  
-  build: {
-    outDir: 'dist',
-    sourcemap: true,
-    target: 'es2015',
-  },
-  
-  // Vite automatically exposes VITE_* environment variables to import.meta.env
-  // No need to manually define process.env - this was a security risk
-});
\ No newline at end of file
+    
+    // Vite automatically exposes VITE_* environment variables to import.meta.env
+    // No need to manually define process.env - this was a security risk
+  };
+});